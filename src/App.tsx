@@ -9,17 +9,22 @@ import {
   Navigate,
   useLocation,
 } from "react-router-dom";
+import { Loader2 } from "lucide-react";
 import Login from "./pages/login";
 import Dashboard from "./pages/dashboard";
 import NotFound from "./pages/NotFound";
 import DashboardLayout from "./layouts/dashboard-layout";
 import { DataProvider } from "./contexts/DataContext";
+import { AuthProvider, useAuth } from "./contexts/AuthContext";
+import { SettingsProvider } from "./contexts/SettingsContext";
+import { Permission } from "./lib/permissions";
 
 // Client routes
 import CustomerDetailsPage from "./pages/clients";
 import NewClientPage from "./pages/clients/new";
 import ClientDetailsPage from "./pages/clients/[id]";
 import EditClientPage from "./pages/clients/[id]/edit";
+import ClientStatementPage from "./pages/clients/[id]/statement";
 
 // Receipt routes
 import ReceiptsPage from "./pages/receipts";
@@ -33,88 +38,320 @@ import AdminReceiptsPage from "./pages/admin-receipts";
 import NewAdminReceiptPage from "./pages/admin-receipts/new";
 import EditAdminReceiptPage from "./pages/admin-receipts/[id]/edit";
 import AdminReceiptDetailPage from "./pages/admin-receipts/[id]/index";
-import AdminBillsPage from "./pages/admin-bills";
+import WorkBillsPage from "./pages/admin-bills";
+import NewWorkBillPage from "./pages/admin-bills/new";
+import WorkBillDetailsPage from "./pages/admin-bills/[id]";
+import NewPaymentPage from "./pages/payments/new";
+import PaymentDetailsPage from "./pages/payments/[id]";
+import DraftsPage from "./pages/drafts";
 import ClientBillsPage from "./pages/client-bills";
+import NewTaxInvoicePage from "./pages/client-bills/new";
+import TaxInvoiceDetailsPage from "./pages/client-bills/[id]";
+import UsersPage from "./pages/users";
+import ApprovalsPage from "./pages/approvals";
+import ReportsPage from "./pages/reports";
+import SettingsPage from "./pages/settings";
+import RatesPage from "./pages/rates";
+import KarigarsPage from "./pages/karigars";
+import NewKarigarPage from "./pages/karigars/new";
+import KarigarDetailsPage from "./pages/karigars/[id]";
+import EditKarigarPage from "./pages/karigars/[id]/edit";
+import OrdersPage from "./pages/orders";
+import NewOrderPage from "./pages/orders/new";
+import OrderDetailsPage from "./pages/orders/[id]";
+import InventoryPage from "./pages/inventory";
+import OrnamentsPage from "./pages/ornaments";
+import NewOrnamentPage from "./pages/ornaments/new";
+import OrnamentDetailsPage from "./pages/ornaments/[id]";
+import EditOrnamentPage from "./pages/ornaments/[id]/edit";
+import PurchasesPage from "./pages/purchases";
+import NewPurchasePage from "./pages/purchases/new";
+import PurchaseDetailsPage from "./pages/purchases/[id]";
 
 const queryClient = new QueryClient();
 
 // Auth wrapper for protected routes
 function RequireAuth({ children }: { children: React.ReactNode }) {
-  const isLoggedIn = localStorage.getItem("isLoggedIn") === "true";
+  const { user, isLoading } = useAuth();
   const location = useLocation();
-  if (!isLoggedIn) {
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!user) {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
   return <>{children}</>;
 }
 
+// Role wrapper for routes only some users may open
+function RequirePermission({
+  permission,
+  children,
+}: {
+  permission: Permission;
+  children: React.ReactNode;
+}) {
+  const { can } = useAuth();
+  if (!can(permission)) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-serif font-bold mb-2">Access denied</h1>
+        <p className="text-muted-foreground">
+          Your role does not allow you to open this page.
+        </p>
+      </div>
+    );
+  }
+  return <>{children}</>;
+}
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <DataProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route
-              path="/"
-              element={
-                <RequireAuth>
-                  <DashboardLayout />
-                </RequireAuth>
-              }
-            >
-              <Route index element={<Dashboard />} />
-
-              {/* Client Routes */}
-              <Route path="clients" element={<CustomerDetailsPage />} />
-              <Route path="clients/new" element={<NewClientPage />} />
-              <Route path="clients/:id" element={<ClientDetailsPage />} />
-              <Route path="clients/:id/edit" element={<EditClientPage />} />
-
-              {/* Receipt Routes */}
-              <Route path="receipts" element={<ReceiptsPage />} />
-              <Route
-                path="receipts/select-client"
-                element={<ClientSelectionPage />}
-              />
-              <Route path="receipts/new" element={<NewReceiptPage />} />
-              <Route path="receipts/:id" element={<ReceiptDetailsPage />} />
-              <Route path="receipts/:id/edit" element={<EditReceiptPage />} />
-
-              {/* Add the implemented routes */}
-              <Route path="admin-receipts" element={<AdminReceiptsPage />} />
-              <Route
-                path="admin-receipts/new"
-                element={<NewAdminReceiptPage />}
-              />
-              <Route
-                path="admin-receipts/:id"
-                element={<AdminReceiptDetailPage />}
-              />
-              <Route
-                path="admin-receipts/edit/:id"
-                element={<EditAdminReceiptPage />}
-              />
-              <Route path="admin-bills" element={<AdminBillsPage />} />
-              <Route path="client-bills" element={<ClientBillsPage />} />
-
-              {/* Other Routes */}
-              <Route
-                path="reports"
-                element={<div className="p-6">Reports Page Coming Soon</div>}
-              />
-              <Route
-                path="settings"
-                element={<div className="p-6">Settings Page Coming Soon</div>}
-              />
-            </Route>
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </DataProvider>
+    <AuthProvider>
+      <SettingsProvider>
+        <DataProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route
+                  path="/"
+                  element={
+                    <RequireAuth>
+                      <DashboardLayout />
+                    </RequireAuth>
+                  }
+                >
+                  <Route index element={<Dashboard />} />
+
+                  {/* Client Routes */}
+                  <Route path="clients" element={<CustomerDetailsPage />} />
+                  <Route
+                    path="clients/new"
+                    element={
+                      <RequirePermission permission="clients:create">
+                        <NewClientPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route path="clients/:id" element={<ClientDetailsPage />} />
+                  <Route
+                    path="clients/:id/edit"
+                    element={
+                      <RequirePermission permission="clients:edit">
+                        <EditClientPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="clients/:id/statement"
+                    element={<ClientStatementPage />}
+                  />
+
+                  {/* Receipt Routes */}
+                  <Route path="receipts" element={<ReceiptsPage />} />
+                  <Route
+                    path="receipts/select-client"
+                    element={
+                      <RequirePermission permission="receipts:create">
+                        <ClientSelectionPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="receipts/new"
+                    element={
+                      <RequirePermission permission="receipts:create">
+                        <NewReceiptPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route path="receipts/:id" element={<ReceiptDetailsPage />} />
+                  <Route
+                    path="receipts/:id/edit"
+                    element={
+                      <RequirePermission permission="receipts:edit">
+                        <EditReceiptPage />
+                      </RequirePermission>
+                    }
+                  />
+
+                  {/* Add the implemented routes */}
+                  <Route
+                    path="admin-receipts"
+                    element={<AdminReceiptsPage />}
+                  />
+                  <Route
+                    path="admin-receipts/new"
+                    element={
+                      <RequirePermission permission="receipts:create">
+                        <NewAdminReceiptPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="admin-receipts/:id"
+                    element={<AdminReceiptDetailPage />}
+                  />
+                  <Route
+                    path="admin-receipts/edit/:id"
+                    element={
+                      <RequirePermission permission="receipts:edit">
+                        <EditAdminReceiptPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route path="admin-bills" element={<WorkBillsPage />} />
+                  <Route
+                    path="admin-bills/new"
+                    element={
+                      <RequirePermission permission="receipts:create">
+                        <NewWorkBillPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="admin-bills/:id"
+                    element={<WorkBillDetailsPage />}
+                  />
+                  <Route
+                    path="payments/new"
+                    element={
+                      <RequirePermission permission="receipts:create">
+                        <NewPaymentPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route path="payments/:id" element={<PaymentDetailsPage />} />
+                  <Route
+                    path="drafts"
+                    element={
+                      <RequirePermission permission="receipts:create">
+                        <DraftsPage />
+                      </RequirePermission>
+                    }
+                  />
+
+                  {/* Order Routes */}
+                  <Route path="orders" element={<OrdersPage />} />
+                  <Route
+                    path="orders/new"
+                    element={
+                      <RequirePermission permission="orders:manage">
+                        <NewOrderPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route path="orders/:id" element={<OrderDetailsPage />} />
+
+                  <Route path="inventory" element={<InventoryPage />} />
+
+                  {/* Old Gold Purchase Routes */}
+                  <Route path="purchases" element={<PurchasesPage />} />
+                  <Route
+                    path="purchases/new"
+                    element={
+                      <RequirePermission permission="receipts:create">
+                        <NewPurchasePage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="purchases/:id"
+                    element={<PurchaseDetailsPage />}
+                  />
+
+                  {/* Catalogue Routes */}
+                  <Route path="ornaments" element={<OrnamentsPage />} />
+                  <Route
+                    path="ornaments/new"
+                    element={
+                      <RequirePermission permission="ornaments:manage">
+                        <NewOrnamentPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="ornaments/:id"
+                    element={<OrnamentDetailsPage />}
+                  />
+                  <Route
+                    path="ornaments/:id/edit"
+                    element={
+                      <RequirePermission permission="ornaments:manage">
+                        <EditOrnamentPage />
+                      </RequirePermission>
+                    }
+                  />
+
+                  {/* Karigar Routes */}
+                  <Route path="karigars" element={<KarigarsPage />} />
+                  <Route
+                    path="karigars/new"
+                    element={
+                      <RequirePermission permission="karigars:manage">
+                        <NewKarigarPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route path="karigars/:id" element={<KarigarDetailsPage />} />
+                  <Route
+                    path="karigars/:id/edit"
+                    element={
+                      <RequirePermission permission="karigars:manage">
+                        <EditKarigarPage />
+                      </RequirePermission>
+                    }
+                  />
+
+                  <Route path="client-bills" element={<ClientBillsPage />} />
+                  <Route
+                    path="client-bills/new"
+                    element={
+                      <RequirePermission permission="receipts:create">
+                        <NewTaxInvoicePage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="client-bills/:id"
+                    element={<TaxInvoiceDetailsPage />}
+                  />
+                  <Route
+                    path="approvals"
+                    element={
+                      <RequirePermission permission="receipts:delete">
+                        <ApprovalsPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="users"
+                    element={
+                      <RequirePermission permission="users:manage">
+                        <UsersPage />
+                      </RequirePermission>
+                    }
+                  />
+
+                  {/* Other Routes */}
+                  <Route path="reports" element={<ReportsPage />} />
+                  <Route path="rates" element={<RatesPage />} />
+                  <Route path="settings" element={<SettingsPage />} />
+                </Route>
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </DataProvider>
+      </SettingsProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
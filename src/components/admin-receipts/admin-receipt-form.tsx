@@ -25,6 +25,16 @@ import {
 } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { useToast } from "@/hooks/use-toast";
+import {
+  calculateWorkGivenItem,
+  calculateWorkReceivedItem,
+  formatWeight,
+  sumWorkGivenItems,
+  sumWorkReceivedItems,
+} from "@/lib/metal-calculations";
+import { useSettings } from "@/contexts/SettingsContext";
+import { defaultPercent } from "@/lib/settings";
+import { voucherServices } from "@/services/api";
 
 // Types for our form items
 interface GivenItem {
@@ -97,6 +107,7 @@ export function AdminReceiptForm({
 }: AdminReceiptFormProps) {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { settings } = useSettings();
   const [activeTab, setActiveTab] = useState("given");
   const [isSubmittingGiven, setIsSubmittingGiven] = useState(false);
   const [isSubmittingReceived, setIsSubmittingReceived] = useState(false);
@@ -108,8 +119,8 @@ export function AdminReceiptForm({
       id: uuidv4(),
       productName: "",
       pureWeight: "",
-      purePercent: "",
-      melting: "",
+      purePercent: defaultPercent(settings.defaults.purePercent),
+      melting: defaultPercent(settings.defaults.workMelting),
       total: 0,
     },
   ]);
@@ -143,34 +154,21 @@ export function AdminReceiptForm({
     },
   });
 
-  // Generate voucher ID on component mount
+  // Show the saved number, or a preview of the next one; the server assigns
+  // the real number when the receipt is saved
   useEffect(() => {
     if (receiptData && receiptData.voucherId) {
       setVoucherId(receiptData.voucherId);
     } else {
-      const generateVoucherId = async () => {
-        try {
-          // Normally, we'd call an API to get a voucher ID
-          // For now, we'll generate a mock one
-          const date = new Date();
-          const year = date.getFullYear().toString().substr(-2);
-          const month = (date.getMonth() + 1).toString().padStart(2, "0");
-          const randomNum = Math.floor(1000 + Math.random() * 9000);
-
-          setVoucherId(`GA-${year}${month}-${randomNum}`);
-        } catch (error) {
-          console.error("Failed to generate voucher ID:", error);
-          toast({
-            variant: "destructive",
-            title: "Error",
-            description: "Failed to generate voucher ID",
-          });
-        }
-      };
-
-      generateVoucherId();
+      voucherServices
+        .peekNextVoucherId("work")
+        .then((response) => setVoucherId(`${response.voucherId} (on save)`))
+        .catch((error) => {
+          console.error("Error fetching next voucher number:", error);
+          setVoucherId("Assigned on save");
+        });
     }
-  }, [receiptData, toast]);
+  }, [receiptData]);
 
   // Initialize form with existing data if editing
   useEffect(() => {
@@ -220,8 +218,8 @@ export function AdminReceiptForm({
       id: uuidv4(),
       productName: "",
       pureWeight: "",
-      purePercent: "",
-      melting: "",
+      purePercent: defaultPercent(settings.defaults.purePercent),
+      melting: defaultPercent(settings.defaults.workMelting),
       total: 0,
     };
 
@@ -282,12 +280,7 @@ export function AdminReceiptForm({
 
           // Recalculate total if necessary fields are provided
           if (["pureWeight", "purePercent", "melting"].includes(field)) {
-            const pureWeight = parseFloat(updatedItem.pureWeight) || 0;
-            const purePercent = parseFloat(updatedItem.purePercent) || 0;
-            const melting = parseFloat(updatedItem.melting) || 1;
-
-            // Calculate as (Pure Weight * Pure Percent) / Melting
-            updatedItem.total = (pureWeight * purePercent) / melting;
+            updatedItem.total = calculateWorkGivenItem(updatedItem).total;
           }
 
           return updatedItem;
@@ -314,18 +307,7 @@ export function AdminReceiptForm({
               field
             )
           ) {
-            const finalOrnamentsWt =
-              parseFloat(updatedItem.finalOrnamentsWt) || 0;
-            const stoneWeight = parseFloat(updatedItem.stoneWeight) || 0;
-            const makingChargePercent =
-              parseFloat(updatedItem.makingChargePercent) || 0;
-
-            // Calculate SubTotal = (finalOrnamentsWt - stoneWeight)
-            updatedItem.subTotal = finalOrnamentsWt - stoneWeight;
-
-            // Calculate Total = SubTotal * (makingChargePercent / 100) - making charge value
-            updatedItem.total =
-              updatedItem.subTotal * (makingChargePercent / 100);
+            Object.assign(updatedItem, calculateWorkReceivedItem(updatedItem));
           }
 
           return updatedItem;
@@ -336,28 +318,10 @@ export function AdminReceiptForm({
   };
 
   // Calculate given totals
-  const givenTotals = {
-    totalPureWeight: givenItems.reduce((acc, item) => {
-      const pureWeight = parseFloat(item.pureWeight) || 0;
-      const purePercent = parseFloat(item.purePercent) || 0;
-      return acc + (pureWeight * purePercent) / 100;
-    }, 0),
-    total: givenItems.reduce((acc, item) => acc + item.total, 0),
-  };
+  const givenTotals = sumWorkGivenItems(givenItems);
 
   // Calculate received totals
-  const receivedTotals = {
-    totalOrnamentsWt: receivedItems.reduce(
-      (acc, item) => acc + (parseFloat(item.finalOrnamentsWt) || 0),
-      0
-    ),
-    totalStoneWeight: receivedItems.reduce(
-      (acc, item) => acc + (parseFloat(item.stoneWeight) || 0),
-      0
-    ),
-    totalSubTotal: receivedItems.reduce((acc, item) => acc + item.subTotal, 0),
-    total: receivedItems.reduce((acc, item) => acc + item.total, 0),
-  };
+  const receivedTotals = sumWorkReceivedItems(receivedItems);
 
   // Calculate manual result
   const calculateManualResult = () => {
@@ -658,7 +622,7 @@ export function AdminReceiptForm({
                           />
                         </td>
                         <td className="py-2 px-2 text-center">
-                          {item.total.toFixed(3)}
+                          {formatWeight(item.total)}
                         </td>
                         <td className="py-2 px-2">
                           <Button
@@ -681,7 +645,7 @@ export function AdminReceiptForm({
                         Total:
                       </td>
                       <td className="py-2 px-2 text-center">
-                        {givenTotals.total.toFixed(3)}
+                        {formatWeight(givenTotals.total)}
                       </td>
                       <td className="py-2 px-2"></td>
                     </tr>
@@ -837,7 +801,7 @@ export function AdminReceiptForm({
                           />
                         </td>
                         <td className="py-2 px-2 text-center">
-                          {item.subTotal.toFixed(3)}
+                          {formatWeight(item.subTotal)}
                         </td>
                         <td className="py-2 px-2">
                           <Input
@@ -854,7 +818,7 @@ export function AdminReceiptForm({
                           />
                         </td>
                         <td className="py-2 px-2 text-center">
-                          {item.total.toFixed(3)}
+                          {formatWeight(item.total)}
                         </td>
                         <td className="py-2 px-2">
                           <Button
@@ -877,17 +841,17 @@ export function AdminReceiptForm({
                         Total:
                       </td>
                       <td className="py-2 px-2 text-center">
-                        {receivedTotals.totalOrnamentsWt.toFixed(3)}
+                        {formatWeight(receivedTotals.totalOrnamentsWt)}
                       </td>
                       <td className="py-2 px-2 text-center">
-                        {receivedTotals.totalStoneWeight.toFixed(3)}
+                        {formatWeight(receivedTotals.totalStoneWeight)}
                       </td>
                       <td className="py-2 px-2 text-center">
-                        {receivedTotals.totalSubTotal.toFixed(3)}
+                        {formatWeight(receivedTotals.totalSubTotal)}
                       </td>
                       <td className="py-2 px-2"></td>
                       <td className="py-2 px-2 text-center">
-                        {receivedTotals.total.toFixed(3)}
+                        {formatWeight(receivedTotals.total)}
                       </td>
                       <td className="py-2 px-2"></td>
                     </tr>
@@ -981,7 +945,7 @@ export function AdminReceiptForm({
             <div className="space-y-2">
               <FormLabel>Result</FormLabel>
               <div className="w-full h-10 flex items-center justify-center border rounded-md bg-muted/20 font-medium">
-                {calculateManualResult().toFixed(3)}
+                {formatWeight(calculateManualResult())}
               </div>
             </div>
           </div>
@@ -0,0 +1,139 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { auditServices } from "@/services/api";
+import { AuditEntityType } from "@/models/AuditEntry";
+import {
+  auditActionLabels,
+  auditFieldLabel,
+  formatAuditValue,
+} from "@/lib/audit";
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+// Who changed what and when, one table of field changes per save
+export function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+  const queryClient = useQueryClient();
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["history", entityType, entityId],
+    queryFn: () => auditServices.getHistory(entityType, entityId),
+    enabled: !!entityId,
+  });
+
+  // Read on every render: they are on this device and cost nothing to check
+  const unrecorded = auditServices.getUnrecordedChanges(entityType, entityId);
+  const retryMutation = useMutation({
+    mutationFn: () =>
+      auditServices.retryUnrecordedChanges(entityType, entityId),
+    onSettled: () =>
+      queryClient.invalidateQueries({
+        queryKey: ["history", entityType, entityId],
+      }),
+  });
+
+  const unrecordedNotice = unrecorded.length > 0 && (
+    <Alert variant="destructive" className="mb-6">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Missing from the history</AlertTitle>
+      <AlertDescription>
+        <p>
+          {unrecorded.length} change(s) made on this device since{" "}
+          {format(new Date(unrecorded[0].failedAt), "dd MMM yyyy, HH:mm")} were
+          saved but could not be recorded here.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-2"
+          onClick={() => retryMutation.mutate()}
+          disabled={retryMutation.isPending}
+        >
+          {retryMutation.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          Record Now
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div>
+        {unrecordedNotice}
+        <p className="text-center py-10 text-muted-foreground">
+          No changes recorded yet
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {unrecordedNotice}
+      {entries.map((entry) => (
+        <div key={entry._id} className="border rounded-lg p-4">
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <Badge
+              variant={entry.action === "delete" ? "destructive" : "outline"}
+            >
+              {auditActionLabels[entry.action]}
+            </Badge>
+            <span className="font-medium">{entry.createdBy?.name}</span>
+            <span className="text-sm text-muted-foreground">
+              {format(new Date(entry.createdAt), "dd MMM yyyy, HH:mm")}
+            </span>
+          </div>
+          {entry.reason && (
+            <p className="text-sm text-muted-foreground mb-2">{entry.reason}</p>
+          )}
+          {entry.changes.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-1/3">Field</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entry.changes.map((change) => (
+                  <TableRow key={change.field}>
+                    <TableCell>{auditFieldLabel(change.field)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {formatAuditValue(change.before)}
+                    </TableCell>
+                    <TableCell>{formatAuditValue(change.after)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
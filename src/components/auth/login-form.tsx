@@ -4,12 +4,12 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { Eye, EyeOff } from "lucide-react";
+import { useLocation, useNavigate } from "react-router-dom";
 
 import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
-  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -17,12 +17,11 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
 
 const loginSchema = z.object({
   email: z.string().email({ message: "Please enter a valid email address" }),
-  password: z.string().min(8, {
-    message: "Password must be at least 8 characters",
-  }),
+  password: z.string().min(1, { message: "Please enter your password" }),
 });
 
 type LoginFormValues = z.infer<typeof loginSchema>;
@@ -30,6 +29,11 @@ type LoginFormValues = z.infer<typeof loginSchema>;
 export function LoginForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState("");
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = location.state?.from?.pathname || "/";
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -41,19 +45,19 @@ export function LoginForm() {
 
   async function onSubmit(data: LoginFormValues) {
     setIsLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      // This is where you would normally make your API request
-      console.log(data);
+    setError("");
+
+    try {
+      const user = await login(data.email, data.password);
       toast.success("Login successful!", {
-        description: "Welcome back to GoldCraft Management System.",
+        description: `Welcome back, ${user.name}.`,
       });
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError("Invalid email or password");
+    } finally {
       setIsLoading(false);
-      
-      // Here you would redirect to the dashboard
-      window.location.href = "/";
-    }, 1500);
+    }
   }
 
   return (
@@ -101,19 +105,12 @@ export function LoginForm() {
                     </Button>
                   </div>
                 </FormControl>
-                <FormDescription className="text-xs">
-                  <a
-                    href="#"
-                    className="text-gold hover:text-gold-dark font-medium float-right"
-                  >
-                    Forgot password?
-                  </a>
-                </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
         </div>
+        {error && <div className="text-red-500 text-center">{error}</div>}
         <Button
           type="submit"
           className="w-full bg-gold hover:bg-gold-dark text-white"
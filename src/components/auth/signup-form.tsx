@@ -23,6 +23,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
+import { authServices } from "@/services/auth-services";
+import { roleLabels } from "@/lib/permissions";
+import { User, UserRole } from "@/models/User";
 
 const signupSchema = z.object({
   name: z.string().min(2, {
@@ -32,14 +35,19 @@ const signupSchema = z.object({
   password: z.string().min(8, {
     message: "Password must be at least 8 characters",
   }),
-  role: z.enum(["admin", "user"], {
+  role: z.enum(["owner", "staff", "accountant"], {
     required_error: "Please select a role",
   }),
 });
 
 type SignupFormValues = z.infer<typeof signupSchema>;
 
-export function SignupForm() {
+interface SignupFormProps {
+  onSuccess?: (user: User) => void;
+}
+
+// Used by owners to invite a new user with a temporary password
+export function SignupForm({ onSuccess }: SignupFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
@@ -49,25 +57,30 @@ export function SignupForm() {
       name: "",
       email: "",
       password: "",
-      role: "user",
+      role: "staff",
     },
   });
 
   async function onSubmit(data: SignupFormValues) {
     setIsLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      // This is where you would normally make your API request
-      console.log(data);
-      toast.success("Registration successful!", {
-        description: "Your account has been created.",
+
+    try {
+      const user = await authServices.inviteUser({
+        name: data.name,
+        email: data.email,
+        password: data.password,
+        role: data.role,
+      });
+      toast.success("User invited", {
+        description: `${user.name} can now sign in as ${roleLabels[user.role]}.`,
       });
+      form.reset();
+      onSuccess?.(user);
+    } catch (error) {
+      // The API layer already shows the server error
+    } finally {
       setIsLoading(false);
-      
-      // Here you would redirect to the dashboard
-      window.location.href = "/";
-    }, 1500);
+    }
   }
 
   return (
@@ -105,7 +118,7 @@ export function SignupForm() {
             name="password"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Password</FormLabel>
+                <FormLabel>Temporary Password</FormLabel>
                 <FormControl>
                   <div className="relative">
                     <Input
@@ -148,8 +161,11 @@ export function SignupForm() {
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="admin">Admin</SelectItem>
-                    <SelectItem value="user">User</SelectItem>
+                    {(Object.keys(roleLabels) as UserRole[]).map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {roleLabels[role]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <FormMessage />
@@ -162,7 +178,7 @@ export function SignupForm() {
           className="w-full bg-gold hover:bg-gold-dark text-white mt-4"
           disabled={isLoading}
         >
-          {isLoading ? "Creating account..." : "Create account"}
+          {isLoading ? "Sending invite..." : "Invite user"}
         </Button>
       </form>
     </Form>
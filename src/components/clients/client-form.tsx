@@ -6,6 +6,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { clientServices } from "@/services/api";
+import { INDIAN_STATES } from "@/lib/gst";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -18,6 +19,13 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Loader } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
@@ -28,6 +36,8 @@ const clientFormSchema = z.object({
   phoneNumber: z.string().optional(),
   address: z.string().optional(),
   email: z.string().optional(),
+  state: z.string().optional(),
+  gstin: z.string().optional(),
 });
 
 type ClientFormValues = z.infer<typeof clientFormSchema>;
@@ -52,6 +62,8 @@ export function ClientForm({ defaultValues, clientId }: ClientFormProps) {
       phoneNumber: "",
       address: "",
       email: "",
+      state: "",
+      gstin: "",
     },
   });
 
@@ -154,6 +166,53 @@ export function ClientForm({ defaultValues, clientId }: ClientFormProps) {
               </FormItem>
             )}
           />
+          <FormField
+            control={form.control}
+            name="state"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>State</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={field.onChange}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select state" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {INDIAN_STATES.map((state) => (
+                      <SelectItem key={state.code} value={state.name}>
+                        {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="gstin"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>GSTIN</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Only for registered businesses"
+                    maxLength={15}
+                    {...field}
+                    onChange={(e) =>
+                      field.onChange(e.target.value.toUpperCase())
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           <div className="md:col-span-2">
             <FormField
               control={form.control}
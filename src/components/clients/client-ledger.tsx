@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Plus, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ledgerServices } from "@/services/api";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { formatRupees, valueAtRate } from "@/lib/metal-rates";
+import {
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerSourceType,
+} from "@/models/LedgerEntry";
+import {
+  calculateLedgerBalance,
+  formatWeight,
+  roundWeight,
+  sumWeights,
+} from "@/lib/metal-calculations";
+import { isOpeningEntry, isPendingOpening } from "@/lib/opening-balance";
+
+const typeLabels: Record<LedgerEntryType, string> = {
+  receipt: "Receipt",
+  payment: "Payment",
+  adjustment: "Adjustment",
+  reversal: "Reversal",
+};
+
+const typeVariants: Record<
+  LedgerEntryType,
+  "default" | "secondary" | "outline" | "destructive"
+> = {
+  receipt: "default",
+  payment: "secondary",
+  adjustment: "outline",
+  reversal: "destructive",
+};
+
+const sourcePaths: Record<LedgerSourceType, string> = {
+  shop: "/receipts",
+  work: "/admin-receipts",
+  purchase: "/purchases",
+  bill: "/admin-bills",
+  payment: "/payments",
+  opening: "/clients",
+};
+
+const sourceLink = (entry: LedgerEntry) =>
+  `${sourcePaths[entry.sourceType || "shop"]}/${entry.sourceId}`;
+
+interface ClientLedgerProps {
+  clientId: string;
+}
+
+// Every movement of the client's gold balance, oldest first, with the running
+// balance after each entry
+export function ClientLedger({ clientId }: ClientLedgerProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const { rateFor } = useMetalRates();
+  const [adjustOpen, setAdjustOpen] = useState(false);
+  const [adjustAmount, setAdjustAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [entryToReverse, setEntryToReverse] = useState<LedgerEntry | null>(
+    null
+  );
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["ledger", clientId],
+    queryFn: () => ledgerServices.getClientLedgerWithOpening(clientId),
+  });
+
+  const balance = calculateLedgerBalance(entries);
+  const todaysRate = rateFor();
+
+  const runningBalances = entries.map((_, index) =>
+    sumWeights(entries.slice(0, index + 1).map((entry) => entry.amount))
+  );
+
+  const onEntryPosted = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["ledger", clientId] });
+    queryClient.invalidateQueries({ queryKey: ["history", "client", clientId] });
+    toast({ title, description: "The client balance has been updated." });
+    closeDialogs();
+  };
+
+  const adjustMutation = useMutation({
+    mutationFn: () =>
+      ledgerServices.createEntry({
+        clientId,
+        type: "adjustment",
+        amount: roundWeight(adjustAmount),
+        reason: reason.trim(),
+      }),
+    onSuccess: () => onEntryPosted("Adjustment Posted"),
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: (entry: LedgerEntry) =>
+      ledgerServices.reverseEntry(entry._id, reason.trim()),
+    onSuccess: () => onEntryPosted("Entry Reversed"),
+  });
+
+  const closeDialogs = () => {
+    setAdjustOpen(false);
+    setEntryToReverse(null);
+    setAdjustAmount("");
+    setReason("");
+  };
+
+  const isPending = adjustMutation.isPending || reverseMutation.isPending;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-serif font-medium">Gold Ledger</h2>
+          <p className="text-muted-foreground">
+            Balance: {formatWeight(balance)}g
+            {todaysRate &&
+              ` • ${formatRupees(
+                valueAtRate(balance, todaysRate)
+              )} at today's ${todaysRate.metal} ${todaysRate.purity} rate`}
+          </p>
+        </div>
+        {can("ledger:adjust") && (
+          <Button variant="outline" onClick={() => setAdjustOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" /> Adjust Balance
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Voucher</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead className="text-right">Amount (g)</TableHead>
+              <TableHead className="text-right">Balance (g)</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading ledger...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : entries.length > 0 ? (
+              entries.map((entry, index) => (
+                <TableRow key={entry._id}>
+                  <TableCell>
+                    {format(new Date(entry.date), "dd MMM yyyy")}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={typeVariants[entry.type]}>
+                      {typeLabels[entry.type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {entry.sourceId && !isOpeningEntry(entry) ? (
+                      <Link to={sourceLink(entry)} className="hover:underline">
+                        {entry.voucherId || "View receipt"}
+                      </Link>
+                    ) : (
+                      entry.voucherId || "-"
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    {entry.reason || "-"}
+                  </TableCell>
+                  <TableCell>{entry.createdBy?.name}</TableCell>
+                  <TableCell className="text-right">
+                    {entry.amount > 0 ? "+" : ""}
+                    {formatWeight(entry.amount)}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatWeight(runningBalances[index])}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {can("ledger:reverse") &&
+                      entry.type !== "reversal" &&
+                      !entry.reversedByEntryId &&
+                      !isPendingOpening(entry) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEntryToReverse(entry)}
+                        >
+                          <Undo2 className="mr-1 h-4 w-4" /> Reverse
+                        </Button>
+                      )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={8}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No ledger entries
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog
+        open={adjustOpen || !!entryToReverse}
+        onOpenChange={(open) => !open && closeDialogs()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {entryToReverse ? "Reverse Entry" : "Adjust Balance"}
+            </DialogTitle>
+            <DialogDescription>
+              {entryToReverse
+                ? `Posts ${formatWeight(
+                    -entryToReverse.amount
+                  )}g to cancel this entry. The original stays on record.`
+                : "Posts a correction to the ledger. Use a negative amount to reduce what the client owes."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {adjustOpen && (
+              <div className="space-y-2">
+                <Label htmlFor="adjustAmount">Amount (g)</Label>
+                <Input
+                  id="adjustAmount"
+                  type="number"
+                  step="0.001"
+                  value={adjustAmount}
+                  onChange={(e) => setAdjustAmount(e.target.value)}
+                  disabled={isPending}
+                />
+              </div>
+            )}
+            <Textarea
+              placeholder="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={isPending}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeDialogs}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              disabled={
+                isPending ||
+                !reason.trim() ||
+                (adjustOpen && roundWeight(adjustAmount) === 0)
+              }
+              onClick={() =>
+                entryToReverse
+                  ? reverseMutation.mutate(entryToReverse)
+                  : adjustMutation.mutate()
+              }
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {entryToReverse ? "Reverse" : "Post Adjustment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
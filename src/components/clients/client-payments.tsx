@@ -0,0 +1,119 @@
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Plus } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { paymentServices } from "@/services/api";
+import { paymentMethodLabels } from "@/lib/payments";
+import { formatRupees } from "@/lib/metal-rates";
+import { formatWeight } from "@/lib/metal-calculations";
+
+interface ClientPaymentsProps {
+  clientId: string;
+}
+
+// Money and metal the client has paid, newest first
+export function ClientPayments({ clientId }: ClientPaymentsProps) {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+
+  const { data: payments = [], isLoading } = useQuery({
+    queryKey: ["payments", { clientId }],
+    queryFn: () => paymentServices.getPayments({ clientId }),
+  });
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-serif font-medium">Payments</h2>
+        {can("receipts:create") && (
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/payments/new?client=${clientId}`)}
+          >
+            <Plus className="mr-2 h-4 w-4" /> Record Payment
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Voucher</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Fine (g)</TableHead>
+              <TableHead>Receipts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading payments...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : payments.length > 0 ? (
+              payments.map((payment) => (
+                <TableRow
+                  key={payment._id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/payments/${payment._id}`)}
+                >
+                  <TableCell>
+                    {format(new Date(payment.date), "dd MMM yyyy")}
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {payment.voucherId}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {paymentMethodLabels[payment.method]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {payment.method === "metal"
+                      ? `${formatWeight(payment.metalWeight)}g @ ${payment.touch}%`
+                      : formatRupees(payment.amount)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(payment.fineWeight)}
+                  </TableCell>
+                  <TableCell>
+                    {payment.allocations
+                      .map((allocation) => allocation.voucherId)
+                      .join(", ") || "-"}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No payments recorded
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
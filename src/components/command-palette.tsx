@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import {
+  CreditCard,
+  FileText,
+  Hammer,
+  LayoutDashboard,
+  Loader2,
+  Plus,
+  Receipt,
+  User,
+} from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  adminReceiptServices,
+  clientServices,
+  receiptServices,
+} from "@/services/api";
+import { matchScore } from "@/lib/search-ranking";
+
+// Results per kind of record; the palette is for jumping, not browsing
+const RESULTS_PER_GROUP = 5;
+// Wait for a pause in typing before asking the server
+const SEARCH_DELAY_MS = 250;
+
+const PAGES = [
+  { label: "Dashboard", href: "/" },
+  { label: "Clients", href: "/clients" },
+  { label: "Receipts", href: "/receipts" },
+  { label: "Work Receipts", href: "/admin-receipts" },
+  { label: "Client Bills", href: "/client-bills" },
+  { label: "Work Bills", href: "/admin-bills" },
+  { label: "Purchases", href: "/purchases" },
+  { label: "Orders", href: "/orders" },
+  { label: "Catalogue", href: "/ornaments" },
+  { label: "Inventory", href: "/inventory" },
+  { label: "Reports", href: "/reports" },
+  { label: "Metal Rates", href: "/rates" },
+];
+
+interface PaletteResult {
+  key: string;
+  group: string;
+  label: string;
+  detail?: string;
+  icon: typeof User;
+  score: number;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Ctrl+K (Cmd+K on a Mac) search across clients, receipts and work receipts,
+// with shortcuts to start work for a client
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [query, setQuery] = useState("");
+  const [term, setTerm] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTerm(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const searching = open && term.length >= 2;
+  const params = { search: term, limit: RESULTS_PER_GROUP };
+
+  const clients = useQuery({
+    queryKey: ["clients", "page", params],
+    queryFn: () => clientServices.getClientPage(params),
+    enabled: searching,
+  });
+  const receipts = useQuery({
+    queryKey: ["receipts", "page", params],
+    queryFn: () => receiptServices.getReceiptPage(params),
+    enabled: searching,
+  });
+  const workReceipts = useQuery({
+    queryKey: ["adminReceipts", "page", params],
+    queryFn: () => adminReceiptServices.getAdminReceiptPage(params),
+    enabled: searching,
+  });
+  const isFetching =
+    clients.isFetching || receipts.isFetching || workReceipts.isFetching;
+
+  const go = (href: string, state?: unknown) => {
+    onOpenChange(false);
+    setQuery("");
+    navigate(href, state ? { state } : undefined);
+  };
+
+  const results: PaletteResult[] = [];
+
+  PAGES.forEach((page) => {
+    const score = query.trim() ? matchScore(query, [page.label]) : 1;
+    if (score > 0) {
+      results.push({
+        key: `page-${page.href}`,
+        group: "Go to",
+        label: page.label,
+        icon: LayoutDashboard,
+        // Below any record with the same score, so searches favour data
+        score: score - 1,
+        run: () => go(page.href),
+      });
+    }
+  });
+
+  if (searching) {
+    (clients.data?.data || []).forEach((client) => {
+      const score = matchScore(term, [
+        client.clientName,
+        client.shopName,
+        client.phoneNumber,
+      ]);
+      results.push({
+        key: `client-${client._id}`,
+        group: "Clients",
+        label: client.clientName,
+        detail: [client.shopName, client.phoneNumber]
+          .filter(Boolean)
+          .join(" • "),
+        icon: User,
+        score,
+        run: () => go(`/clients/${client._id}`),
+      });
+
+      if (!can("receipts:create")) return;
+      // Actions sit just under the client they start work for
+      results.push(
+        {
+          key: `shop-receipt-${client._id}`,
+          group: "Actions",
+          label: `New Shop Receipt for ${client.clientName}`,
+          icon: Plus,
+          score: score - 2,
+          run: () => go("/receipts/new", { client }),
+        },
+        {
+          key: `work-receipt-${client._id}`,
+          group: "Actions",
+          label: `New Work Receipt for ${client.clientName}`,
+          icon: Hammer,
+          score: score - 3,
+          run: () => go(`/admin-receipts/new?client=${client._id}`),
+        },
+        {
+          key: `payment-${client._id}`,
+          group: "Actions",
+          label: `Record Payment for ${client.clientName}`,
+          icon: CreditCard,
+          score: score - 4,
+          run: () => go(`/payments/new?client=${client._id}`),
+        }
+      );
+    });
+
+    (receipts.data?.data || []).forEach((receipt) => {
+      const tags = [...(receipt.givenItems || []), ...(receipt.items || [])]
+        .map((item) => item.tag)
+        .filter(Boolean);
+      results.push({
+        key: `receipt-${receipt._id}`,
+        group: "Receipts",
+        label: receipt.voucherId,
+        detail: receipt.clientInfo?.clientName,
+        icon: Receipt,
+        score: matchScore(term, [
+          receipt.voucherId,
+          ...tags,
+          receipt.clientInfo?.clientName,
+          receipt.clientInfo?.shopName,
+        ]),
+        run: () => go(`/receipts/${receipt._id}`),
+      });
+    });
+
+    (workReceipts.data?.data || []).forEach((receipt) => {
+      const tags = [
+        ...(receipt.given?.items || []),
+        ...(receipt.received?.items || []),
+      ]
+        .map((item) => item.tag)
+        .filter(Boolean);
+      results.push({
+        key: `work-${receipt._id}`,
+        group: "Work Receipts",
+        label: receipt.voucherId,
+        detail: receipt.clientName,
+        icon: FileText,
+        score: matchScore(term, [
+          receipt.voucherId,
+          ...tags,
+          receipt.clientName,
+        ]),
+        run: () => go(`/admin-receipts/${receipt._id}`),
+      });
+    });
+  }
+
+  // Best match first; groups follow the order of their best result.
+  // The server found every record for a reason (a tag, say), so a record it
+  // returned is kept even when none of the fields above match the text.
+  results.sort((a, b) => b.score - a.score);
+  const groups = Array.from(new Set(results.map((result) => result.group)));
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      commandProps={{ shouldFilter: false }}
+    >
+      <CommandInput
+        placeholder="Search clients, vouchers or tags..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        <CommandEmpty>
+          {isFetching ? (
+            <span className="inline-flex items-center">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Searching...
+            </span>
+          ) : (
+            "No results found."
+          )}
+        </CommandEmpty>
+        {groups.map((group) => (
+          <CommandGroup key={group} heading={group}>
+            {results
+              .filter((result) => result.group === group)
+              .map((result) => (
+                <CommandItem
+                  key={result.key}
+                  value={result.key}
+                  onSelect={result.run}
+                >
+                  <result.icon className="mr-2 h-4 w-4" />
+                  <span>{result.label}</span>
+                  {result.detail && (
+                    <span className="ml-2 text-xs text-muted-foreground truncate">
+                      {result.detail}
+                    </span>
+                  )}
+                </CommandItem>
+              ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,63 @@
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle, Loader } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { orderServices } from "@/services/api";
+import { daysOverdue, orderStatusLabels } from "@/lib/orders";
+
+// Orders past their due date and not yet delivered, latest first
+export function OverdueOrders() {
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ["orders"],
+    queryFn: () => orderServices.getOrders(),
+  });
+
+  const overdue = orders
+    .map((order) => ({ order, days: daysOverdue(order) }))
+    .filter(({ days }) => days > 0)
+    .sort((a, b) => b.days - a.days);
+
+  return (
+    <div className="bg-card card-premium rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-serif font-medium">Overdue Orders</h2>
+        <Link to="/orders" className="text-sm text-muted-foreground underline">
+          All orders
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-20">
+          <Loader className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : overdue.length > 0 ? (
+        <div className="space-y-2">
+          {overdue.slice(0, 8).map(({ order, days }) => (
+            <Link
+              key={order._id}
+              to={`/orders/${order._id}`}
+              className="flex items-center gap-4 p-3 rounded-md hover:bg-accent/50 transition-colors"
+            >
+              <AlertCircle className="h-5 w-5 text-red-500 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {order.orderNumber} - {order.item} for {order.clientName}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Due {format(new Date(order.dueDate), "dd MMM yyyy")} •{" "}
+                  {orderStatusLabels[order.status]}
+                </p>
+              </div>
+              <Badge variant="destructive">{days}d late</Badge>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center text-muted-foreground py-6">
+          No overdue orders
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader, Plus, Trash } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { karigarServices } from "@/services/api";
+import { Karigar } from "@/models/Karigar";
+import { KARIGAR_SKILLS } from "@/lib/karigars";
+import { KARIGARS_QUERY_KEY } from "@/hooks/use-karigars";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+const karigarFormSchema = z.object({
+  name: z.string().min(1, { message: "Name is required" }),
+  phoneNumber: z.string().optional(),
+  address: z.string().optional(),
+  skills: z.array(z.string()),
+  agreedWastagePercent: z.coerce
+    .number()
+    .min(0, { message: "Cannot be negative" })
+    .max(100, { message: "Cannot exceed 100%" }),
+  makingChargeRates: z.array(
+    z.object({
+      category: z.string().min(1, { message: "Name the kind of work" }),
+      percent: z.coerce.number().min(0, { message: "Cannot be negative" }),
+    })
+  ),
+  active: z.boolean(),
+  notes: z.string().optional(),
+});
+
+type KarigarFormValues = z.infer<typeof karigarFormSchema>;
+
+interface KarigarFormProps {
+  karigar?: Karigar;
+}
+
+export function KarigarForm({ karigar }: KarigarFormProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<KarigarFormValues>({
+    resolver: zodResolver(karigarFormSchema),
+    defaultValues: {
+      name: karigar?.name || "",
+      phoneNumber: karigar?.phoneNumber || "",
+      address: karigar?.address || "",
+      skills: karigar?.skills || [],
+      agreedWastagePercent: karigar?.agreedWastagePercent ?? 0,
+      makingChargeRates: karigar?.makingChargeRates || [],
+      active: karigar?.active ?? true,
+      notes: karigar?.notes || "",
+    },
+  });
+  const rates = useFieldArray({
+    control: form.control,
+    name: "makingChargeRates",
+  });
+
+  const onSubmit = async (data: KarigarFormValues) => {
+    setIsSubmitting(true);
+    try {
+      const payload = {
+        ...data,
+        phoneNumber: data.phoneNumber || "",
+        makingChargeRates: data.makingChargeRates.map((rate) => ({
+          category: rate.category.trim(),
+          percent: rate.percent,
+        })),
+      };
+      const saved = karigar
+        ? await karigarServices.updateKarigar(karigar._id, payload)
+        : await karigarServices.createKarigar(payload);
+      queryClient.invalidateQueries({ queryKey: KARIGARS_QUERY_KEY });
+      toast({
+        title: karigar ? "Karigar Updated" : "Karigar Added",
+        description: `${data.name} has been saved.`,
+      });
+      navigate(`/karigars/${saved?._id || karigar?._id || ""}`);
+    } catch (error) {
+      console.error("Error saving karigar:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error.response?.data?.message ||
+          error.message ||
+          "Failed to save karigar",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Karigar's name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="phoneNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone Number</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter phone number" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="agreedWastagePercent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Agreed Wastage %</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="active"
+            render={({ field }) => (
+              <FormItem className="flex items-end gap-3 pb-2">
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                  />
+                </FormControl>
+                <FormLabel>Taking new work</FormLabel>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Address</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Enter address" rows={2} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="skills"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Skills</FormLabel>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {KARIGAR_SKILLS.map((skill) => (
+                  <label
+                    key={skill}
+                    className="flex items-center gap-2 text-sm font-normal"
+                  >
+                    <Checkbox
+                      checked={field.value.includes(skill)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked
+                            ? [...field.value, skill]
+                            : field.value.filter((s) => s !== skill)
+                        )
+                      }
+                    />
+                    {skill}
+                  </label>
+                ))}
+              </div>
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <Label>Making-Charge Rates</Label>
+          <p className="text-sm text-muted-foreground">
+            Filled in on work receipts when the product name mentions the kind
+            of work; new lines start at the first rate.
+          </p>
+          {rates.fields.map((rate, index) => (
+            <div key={rate.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`makingChargeRates.${index}.category`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="e.g. Bangles" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`makingChargeRates.${index}.percent`}
+                render={({ field }) => (
+                  <FormItem className="w-32">
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => rates.remove(index)}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => rates.append({ category: "", percent: 0 })}
+          >
+            <Plus className="mr-2 h-4 w-4" /> Add Rate
+          </Button>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            {karigar ? "Save Changes" : "Add Karigar"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
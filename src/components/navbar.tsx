@@ -1,7 +1,10 @@
 
+import { useState } from "react";
 import { Bell, Menu, Search, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { PendingSyncIndicator } from "@/components/pending-sync-indicator";
+import { CommandPalette } from "@/components/command-palette";
 import { Logo } from "@/components/logo";
 import {
   DropdownMenu,
@@ -12,6 +15,9 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { roleLabels } from "@/lib/permissions";
 
 interface NavbarProps {
   onMenuClick: () => void;
@@ -19,6 +25,14 @@ interface NavbarProps {
 
 export function Navbar({ onMenuClick }: NavbarProps) {
   const isMobile = useIsMobile();
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  const handleLogout = async () => {
+    await logout();
+    navigate("/login", { replace: true });
+  };
 
   return (
     <header className="sticky top-0 z-40 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -39,14 +53,20 @@ export function Navbar({ onMenuClick }: NavbarProps) {
         </div>
 
         <div className="flex items-center gap-4">
-          <div className="hidden md:flex relative">
-            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-            <input
-              type="search"
-              placeholder="Search..."
-              className="rounded-md border border-input bg-background pl-8 pr-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 w-[200px]"
-            />
-          </div>
+          <Button
+            variant="outline"
+            className="hidden md:flex w-[200px] justify-start text-muted-foreground"
+            onClick={() => setPaletteOpen(true)}
+          >
+            <Search className="mr-2 h-4 w-4" />
+            Search...
+            <kbd className="ml-auto rounded border bg-muted px-1.5 text-xs">
+              Ctrl K
+            </kbd>
+          </Button>
+          <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
+
+          <PendingSyncIndicator />
 
           <Button variant="ghost" size="icon" className="relative">
             <Bell className="h-5 w-5" />
@@ -68,12 +88,20 @@ export function Navbar({ onMenuClick }: NavbarProps) {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuLabel>My Account</DropdownMenuLabel>
+              <DropdownMenuLabel>
+                <div>{user?.name || "My Account"}</div>
+                {user && (
+                  <div className="text-xs font-normal text-muted-foreground">
+                    {roleLabels[user.role]}
+                  </div>
+                )}
+              </DropdownMenuLabel>
               <DropdownMenuSeparator />
-              <DropdownMenuItem>Profile</DropdownMenuItem>
-              <DropdownMenuItem>Settings</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate("/settings")}>
+                Settings
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
-              <DropdownMenuItem className="text-red-500">
+              <DropdownMenuItem className="text-red-500" onClick={handleLogout}>
                 Log out
               </DropdownMenuItem>
             </DropdownMenuContent>
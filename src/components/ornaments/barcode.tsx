@@ -0,0 +1,32 @@
+import { encodeCode128 } from "@/lib/barcode";
+
+interface BarcodeProps {
+  value: string;
+  height?: number;
+  className?: string;
+}
+
+// Code 128 drawn as SVG, scaling to whatever width it is given
+export function Barcode({ value, height = 40, className }: BarcodeProps) {
+  const barcode = encodeCode128(value);
+  return (
+    <svg
+      viewBox={`0 0 ${barcode.width} ${height}`}
+      preserveAspectRatio="none"
+      className={className}
+      role="img"
+      aria-label={`Barcode ${value}`}
+    >
+      <rect width={barcode.width} height={height} fill="white" />
+      {barcode.bars.map((bar) => (
+        <rect
+          key={bar.x}
+          x={bar.x}
+          width={bar.width}
+          height={height}
+          fill="black"
+        />
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ornamentServices } from "@/services/api";
+import { Ornament } from "@/models/Ornament";
+import { ORNAMENT_CATEGORIES } from "@/lib/ornaments";
+import { RATE_METALS } from "@/lib/metal-rates";
+import { calculateBalance, formatWeight } from "@/lib/metal-calculations";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const MAX_PHOTO_BYTES = 500 * 1024;
+
+const ornamentFormSchema = z
+  .object({
+    itemName: z.string().min(1, { message: "Item name is required" }),
+    category: z.string().min(1, { message: "Choose a category" }),
+    metal: z.string(),
+    touch: z.coerce
+      .number()
+      .gt(0, { message: "Enter the purity" })
+      .max(100, { message: "Cannot exceed 100%" }),
+    grossWeight: z.coerce
+      .number()
+      .gt(0, { message: "Gross weight must be positive" }),
+    stoneWeight: z.coerce.number().min(0, { message: "Cannot be negative" }),
+    stoneDetails: z.string().optional(),
+  })
+  .refine((data) => data.stoneWeight <= data.grossWeight, {
+    message: "Stones cannot outweigh the piece",
+    path: ["stoneWeight"],
+  });
+
+type OrnamentFormValues = z.infer<typeof ornamentFormSchema>;
+
+interface OrnamentFormProps {
+  ornament?: Ornament;
+}
+
+export function OrnamentForm({ ornament }: OrnamentFormProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [photo, setPhoto] = useState(ornament?.photo || "");
+
+  const form = useForm<OrnamentFormValues>({
+    resolver: zodResolver(ornamentFormSchema),
+    defaultValues: {
+      itemName: ornament?.itemName || "",
+      category: ornament?.category || "",
+      metal: ornament?.metal || RATE_METALS[0],
+      touch: ornament?.touch ?? 91.6,
+      grossWeight: ornament?.grossWeight ?? 0,
+      stoneWeight: ornament?.stoneWeight ?? 0,
+      stoneDetails: ornament?.stoneDetails || "",
+    },
+  });
+  const netWeight = calculateBalance(
+    form.watch("grossWeight"),
+    form.watch("stoneWeight")
+  );
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast({
+        variant: "destructive",
+        title: "Photo too large",
+        description: "Please choose an image under 500 KB.",
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setPhoto(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const onSubmit = async (data: OrnamentFormValues) => {
+    setIsSubmitting(true);
+    try {
+      const payload = {
+        ...data,
+        itemName: data.itemName.trim(),
+        netWeight: calculateBalance(data.grossWeight, data.stoneWeight),
+        stoneDetails: data.stoneDetails?.trim() || undefined,
+        photo: photo || undefined,
+      };
+      const saved = ornament
+        ? await ornamentServices.updateOrnament(ornament._id, payload)
+        : await ornamentServices.createOrnament(payload);
+      queryClient.invalidateQueries({ queryKey: ["ornaments"] });
+      toast({
+        title: ornament ? "Ornament Updated" : "Ornament Added",
+        description: `${data.itemName} is tagged ${saved?.tagNumber || ornament?.tagNumber}.`,
+      });
+      navigate(`/ornaments/${saved?._id || ornament?._id || ""}`);
+    } catch (error) {
+      console.error("Error saving ornament:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          error.response?.data?.message ||
+          error.message ||
+          "Failed to save ornament",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="itemName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Item Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Lakshmi kasu mala" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {ORNAMENT_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="metal"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Metal</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {RATE_METALS.map((metal) => (
+                      <SelectItem key={metal} value={metal}>
+                        {metal}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="touch"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Purity (Touch %)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="grossWeight"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Gross Weight (g)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.001" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="stoneWeight"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Stone Weight (g)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.001" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="space-y-2">
+            <Label>Net Weight</Label>
+            <div className="h-10 flex items-center font-medium">
+              {formatWeight(netWeight)}g
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Photo</Label>
+            <div className="flex items-center gap-4">
+              {photo && (
+                <img
+                  src={photo}
+                  alt="Ornament"
+                  className="h-16 w-16 object-cover border rounded"
+                />
+              )}
+              <Button type="button" variant="outline" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  {photo ? "Replace Photo" : "Upload Photo"}
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="hidden"
+                    onChange={handlePhotoChange}
+                  />
+                </label>
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="stoneDetails"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Stone Details</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="e.g. 3 rubies, 12 CZ"
+                  rows={2}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            {ornament ? "Save Changes" : "Add Ornament"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,134 @@
+import { format } from "date-fns";
+import { CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+import { PendingWrite } from "@/models/PendingWrite";
+
+const describeWrite = ({
+  data,
+  provisionalVoucherId,
+  progress,
+}: PendingWrite) => {
+  // Once the server has saved the receipt it goes by its real number
+  const voucherId = progress?.voucherId || provisionalVoucherId;
+  switch (data.kind) {
+    case "shopReceipt":
+      return `Receipt ${voucherId} • ${
+        data.payload.clientInfo?.clientName || "Client"
+      }`;
+    case "workReceipt":
+      return `Work receipt ${voucherId} • ${
+        data.payload.clientName || "Client"
+      }`;
+    case "clientUpdate":
+      return `Client edit • ${data.payload.clientName || "Client"}`;
+  }
+};
+
+// Navbar badge for saves still waiting on this device; hidden when there
+// are none and the connection is up
+export function PendingSyncIndicator() {
+  const {
+    writes,
+    pendingCount,
+    isOnline,
+    isSyncing,
+    syncNow,
+    retryWrite,
+    discardWrite,
+  } = useOfflineSync();
+
+  if (writes.length === 0 && isOnline) return null;
+
+  const needsAttention = writes.length - pendingCount;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          {isSyncing ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <CloudOff
+              className={
+                needsAttention > 0 ? "h-4 w-4 text-red-500" : "h-4 w-4"
+              }
+            />
+          )}
+          <span className="hidden sm:inline">
+            {writes.length > 0 ? `${writes.length} pending sync` : "Offline"}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>
+          {isOnline ? "Waiting to sync" : "Offline"}
+          <div className="text-xs font-normal text-muted-foreground">
+            {isOnline
+              ? "Saves made on this device that the server hasn't accepted yet"
+              : "New saves are kept on this device until the connection is back"}
+          </div>
+        </DropdownMenuLabel>
+        {writes.length > 0 && <DropdownMenuSeparator />}
+        {writes.map((write) => (
+          <div key={write.id} className="px-2 py-1.5 text-sm">
+            <div className="font-medium">{describeWrite(write)}</div>
+            <div className="text-xs text-muted-foreground">
+              Saved {format(new Date(write.createdAt), "dd MMM, HH:mm")}
+            </div>
+            {write.status !== "pending" && (
+              <>
+                <div className="text-xs text-red-500">
+                  {write.status === "conflict"
+                    ? "Conflict: "
+                    : write.progress
+                      ? "Saved, but not posted: "
+                      : "Rejected: "}
+                  {write.error}
+                </div>
+                <div className="flex gap-2 mt-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7"
+                    onClick={() => retryWrite(write)}
+                    disabled={!isOnline || isSyncing}
+                  >
+                    {write.status === "conflict" ? "Sync anyway" : "Retry"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-red-500"
+                    onClick={() => discardWrite(write.id)}
+                  >
+                    Discard
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+        {pendingCount > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={syncNow}
+              disabled={!isOnline || isSyncing}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" /> Sync now
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -6,13 +6,23 @@ import {
   Receipt,
   FileBarChart2,
   FileStack,
+  Coins,
+  FilePen,
 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Permission } from "@/lib/permissions";
 
-const quickLinks = [
+const quickLinks: {
+  title: string;
+  href: string;
+  icon: JSX.Element;
+  permission?: Permission;
+}[] = [
   {
     title: "New Client",
     href: "/clients/new",
     icon: <User className="h-4 w-4" />,
+    permission: "clients:create",
   },
   {
     title: "Customer Details",
@@ -23,6 +33,7 @@ const quickLinks = [
     title: "Shop Reciept ",
     href: "/receipts/select-client",
     icon: <Receipt className="h-4 w-4" />,
+    permission: "receipts:create",
   },
   {
     title: "Shop Bill",
@@ -33,31 +44,47 @@ const quickLinks = [
     title: "Work Receipt",
     href: "/admin-receipts/new", // Changed from "/admin-receipts" to "/admin-receipts/new"
     icon: <FileBarChart2 className="h-4 w-4" />,
+    permission: "receipts:create",
+  },
+  {
+    title: "Drafts",
+    href: "/drafts",
+    icon: <FilePen className="h-4 w-4" />,
+    permission: "receipts:create",
   },
   {
     title: "Work Bill",
     href: "/admin-bills",
     icon: <FileStack className="h-4 w-4" />,
   },
+  {
+    title: "Old Gold Purchase",
+    href: "/purchases",
+    icon: <Coins className="h-4 w-4" />,
+  },
 ];
 
 export function QuickLinks() {
+  const { can } = useAuth();
+
   return (
     <div className="px-3 py-2">
       <h2 className="mb-2 px-4 text-lg font-semibold tracking-tight">
         Quick Links
       </h2>
       <div className="space-y-1">
-        {quickLinks.map((link) => (
-          <Link
-            key={link.href}
-            to={link.href}
-            className="flex items-center gap-3 rounded-lg px-3 py-2 text-muted-foreground transition-all hover:text-foreground hover:bg-accent"
-          >
-            {link.icon}
-            <span>{link.title}</span>
-          </Link>
-        ))}
+        {quickLinks
+          .filter((link) => !link.permission || can(link.permission))
+          .map((link) => (
+            <Link
+              key={link.href}
+              to={link.href}
+              className="flex items-center gap-3 rounded-lg px-3 py-2 text-muted-foreground transition-all hover:text-foreground hover:bg-accent"
+            >
+              {link.icon}
+              <span>{link.title}</span>
+            </Link>
+          ))}
       </div>
     </div>
   );
@@ -0,0 +1,34 @@
+import { format } from "date-fns";
+import { AppliedRate } from "@/models/MetalRate";
+import { formatRupees, valueAtRate } from "@/lib/metal-rates";
+
+interface AppliedRateSummaryProps {
+  rate?: AppliedRate;
+  lines: { label: string; weight: unknown }[];
+}
+
+// Rupee value of a receipt's weights at the rate stored when it was created
+export function AppliedRateSummary({ rate, lines }: AppliedRateSummaryProps) {
+  if (!rate) {
+    return (
+      <div className="bg-amber-50 p-3 rounded">
+        <p className="text-sm text-muted-foreground">Value</p>
+        <p className="text-sm">No rate was recorded for this receipt's date</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-amber-50 p-3 rounded">
+      <p className="text-sm text-muted-foreground">
+        Value at {rate.metal} {rate.purity} {formatRupees(rate.ratePerGram)}/g (
+        {format(new Date(rate.date), "dd MMM yyyy")})
+      </p>
+      {lines.map((line) => (
+        <p key={line.label} className="font-medium">
+          {line.label}: {formatRupees(valueAtRate(line.weight, rate))}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import axios from "axios";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  adminReceiptServices,
+  cancellationServices,
+  deletionRequestServices,
+  receiptServices,
+} from "@/services/api";
+import { DeletableReceiptType } from "@/models/DeletionRequest";
+
+interface CancelReceiptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  receiptId: string | null;
+  receiptType: DeletableReceiptType;
+  // Called once the receipt has been cancelled or deleted
+  onDone?: () => void;
+}
+
+// Owners cancel a receipt, reversing what it posted, or delete a draft that
+// never posted anything; staff file a cancellation request for approval
+export function CancelReceiptDialog({
+  open,
+  onOpenChange,
+  receiptId,
+  receiptType,
+  onDone,
+}: CancelReceiptDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+  const canCancel = can("receipts:delete");
+
+  useEffect(() => {
+    if (!open) setReason("");
+  }, [open]);
+
+  const { data: check, isLoading: isChecking } = useQuery({
+    queryKey: ["receiptCancellation", receiptType, receiptId],
+    queryFn: () => cancellationServices.checkReceipt(receiptType, receiptId),
+    enabled: open && !!receiptId,
+  });
+
+  const onFinished = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["receipts"] });
+    queryClient.invalidateQueries({ queryKey: ["adminReceipts"] });
+    queryClient.invalidateQueries({ queryKey: ["ledger"] });
+    queryClient.invalidateQueries({ queryKey: ["receiptCancellation"] });
+    toast({ title, description });
+    onOpenChange(false);
+    onDone?.();
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: () =>
+      cancellationServices.cancelReceipt(
+        receiptType,
+        receiptId as string,
+        reason.trim()
+      ),
+    onSuccess: () =>
+      onFinished(
+        "Receipt Cancelled",
+        "The voucher is kept and its balance and stock have been reversed."
+      ),
+    // Server errors are toasted by the API client; this covers the refusals
+    onError: (error: Error) => {
+      if (axios.isAxiosError(error)) return;
+      toast({
+        title: "Could Not Cancel",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () =>
+      receiptType === "work"
+        ? adminReceiptServices.deleteAdminReceipt(receiptId as string)
+        : receiptServices.deleteReceipt(receiptId as string),
+    onSuccess: () =>
+      onFinished("Draft Deleted", "The draft receipt has been removed."),
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: () =>
+      deletionRequestServices.requestDeletion({
+        receiptId: receiptId as string,
+        receiptType,
+        reason: reason.trim(),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["deletionRequests"] });
+      toast({
+        title: "Cancellation Requested",
+        description: "An owner will review your request.",
+      });
+      onOpenChange(false);
+    },
+  });
+
+  const isPending =
+    cancelMutation.isPending ||
+    deleteMutation.isPending ||
+    requestMutation.isPending;
+  const isDraft = !!check?.isDraft;
+  const blocked = check?.isCancelled || !!check?.billId;
+  // Only deleting a draft goes through without saying why
+  const needsReason = !(canCancel && isDraft);
+
+  const description = () => {
+    if (check?.isCancelled) return "This receipt is already cancelled.";
+    if (check?.billId) {
+      return "This receipt is settled on a work bill and cannot be cancelled.";
+    }
+    if (!canCancel) {
+      return "You are not allowed to cancel receipts. Explain why this receipt should be cancelled and an owner will approve or reject the request.";
+    }
+    return isDraft
+      ? "This draft never changed a balance or the stock, so it can be deleted outright."
+      : "The voucher stays on record, marked cancelled. What it added to the client's balance and to stock is reversed.";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {!canCancel
+              ? "Request Cancellation"
+              : isDraft
+                ? "Delete Draft"
+                : "Cancel Receipt"}
+            {check?.voucherId && ` ${check.voucherId}`}
+          </DialogTitle>
+          <DialogDescription>
+            {isChecking ? "Checking the receipt..." : description()}
+          </DialogDescription>
+        </DialogHeader>
+        {!isChecking && !blocked && needsReason && (
+          <div className="py-4">
+            <Textarea
+              placeholder="Reason for cancelling"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={isPending}
+            />
+          </div>
+        )}
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isPending}
+          >
+            Close
+          </Button>
+          {!isChecking && !blocked && (
+            <Button
+              variant={canCancel ? "destructive" : "default"}
+              onClick={() =>
+                !canCancel
+                  ? requestMutation.mutate()
+                  : isDraft
+                    ? deleteMutation.mutate()
+                    : cancelMutation.mutate()
+              }
+              disabled={
+                isPending || !receiptId || (needsReason && !reason.trim())
+              }
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {!canCancel
+                ? "Send Request"
+                : isDraft
+                  ? "Delete Draft"
+                  : "Cancel Receipt"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
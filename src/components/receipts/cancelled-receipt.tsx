@@ -0,0 +1,42 @@
+import { format } from "date-fns";
+import { Ban } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ReceiptCancellation } from "@/models/DeletionRequest";
+
+interface CancellationNoticeProps {
+  cancellation?: ReceiptCancellation;
+}
+
+// Says why and when a receipt was cancelled; the receipt itself stays on file
+export function CancellationNotice({ cancellation }: CancellationNoticeProps) {
+  if (!cancellation) return null;
+
+  const { reason, cancelledBy, cancelledAt } = cancellation;
+
+  return (
+    <Alert variant="destructive" className="mb-6">
+      <Ban className="h-4 w-4" />
+      <AlertTitle>Receipt cancelled</AlertTitle>
+      <AlertDescription>
+        {cancelledBy?.name ? `Cancelled by ${cancelledBy.name}` : "Cancelled"}{" "}
+        on {format(new Date(cancelledAt), "dd MMM yyyy")}: {reason}. Its ledger
+        and stock entries were reversed.
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// Diagonal stamp over a cancelled receipt, on screen and in print; the parent
+// needs to be relatively positioned
+export function CancelledWatermark() {
+  return (
+    <div
+      aria-hidden
+      className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center overflow-hidden"
+    >
+      <span className="-rotate-[30deg] select-none border-8 border-destructive/30 px-8 text-8xl font-bold uppercase tracking-widest text-destructive/30">
+        Cancelled
+      </span>
+    </div>
+  );
+}
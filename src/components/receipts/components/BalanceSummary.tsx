@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { formatWeight } from "@/lib/metal-calculations";
 
 interface BalanceSummaryProps {
   totals: {
@@ -11,8 +12,11 @@ interface BalanceSummaryProps {
   };
   newClientBalance: number;
   balanceToAdd: number;
-  manualClientBalance: number;
-  setManualClientBalance: (value: number) => void;
+  balanceOverride?: number; // Hand-entered balance; posted as an adjustment
+  setBalanceOverride: (value: number | undefined) => void;
+  adjustmentReason: string;
+  setAdjustmentReason: (value: string) => void;
+  canAdjust: boolean;
   finalWtBalanceTag: string;
   setFinalWtBalanceTag: (value: string) => void;
   receiptId?: string; // Add receiptId to scope the storage
@@ -25,8 +29,11 @@ export function BalanceSummary({
   receivedTotals,
   newClientBalance,
   balanceToAdd,
-  manualClientBalance,
-  setManualClientBalance,
+  balanceOverride,
+  setBalanceOverride,
+  adjustmentReason,
+  setAdjustmentReason,
+  canAdjust,
   finalWtBalanceTag: propFinalWtBalanceTag,
   setFinalWtBalanceTag: propSetFinalWtBalanceTag,
   receiptId = 'current', // Default to 'current' if no receiptId provided
@@ -61,13 +68,18 @@ export function BalanceSummary({
     setLocalTag(value);
     propSetFinalWtBalanceTag(value);
   }, [propSetFinalWtBalanceTag]);
+
+  const clientBalance = balanceOverride ?? newClientBalance;
+  const isAdjusted =
+    balanceOverride !== undefined &&
+    formatWeight(balanceOverride) !== formatWeight(newClientBalance);
   return (
     <div className="bg-background/50 p-4 rounded-md border mt-4">
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-muted/10 p-3 rounded-md">
           <div className="text-sm text-muted-foreground">Given Final Wt.</div>
           <div className="text-lg font-semibold">
-            {totals.finalWeight.toFixed(3)}g
+            {formatWeight(totals.finalWeight)}g
           </div>
         </div>
         <div className="bg-muted/10 p-3 rounded-md">
@@ -75,24 +87,35 @@ export function BalanceSummary({
             Received Final Wt.
           </div>
           <div className="text-lg font-semibold">
-            {receivedTotals.finalWt === 0 ? 'empty' : `${receivedTotals.finalWt.toFixed(3)}g`}
+            {receivedTotals.finalWt === 0 ? 'empty' : `${formatWeight(receivedTotals.finalWt)}g`}
           </div>
         </div>
         <div className="bg-primary/10 p-3 rounded-md">
           <div className="text-sm text-primary mb-2">New Client Balance</div>
           <Input
             type="number"
-            value={manualClientBalance ?? ''}
+            value={clientBalance}
             onChange={(e) =>
-              setManualClientBalance(e.target.value === '' ? undefined : Number(e.target.value))
+              setBalanceOverride(e.target.value === '' ? undefined : Number(e.target.value))
             }
             placeholder="Enter new balance"
             className="text-lg font-semibold"
             step="0.001"
+            disabled={!canAdjust}
           />
           <div className="text-xs text-muted-foreground mt-1">
-            Manual entry (grams)
+            {isAdjusted
+              ? `Adjustment of ${formatWeight(clientBalance - newClientBalance)}g`
+              : 'Calculated from the ledger (grams)'}
           </div>
+          {isAdjusted && (
+            <Input
+              value={adjustmentReason}
+              onChange={(e) => setAdjustmentReason(e.target.value)}
+              placeholder="Reason for adjustment"
+              className="mt-2"
+            />
+          )}
         </div>
         <div className="bg-muted/10 p-3 rounded-md">
           <div className="text-sm text-muted-foreground mb-2">
@@ -100,7 +123,7 @@ export function BalanceSummary({
             (Given + Received) + Balance
           </div>
           <div className="text-lg font-semibold mb-2">
-            ({totals.finalWeight.toFixed(3)} + {receivedTotals.finalWt.toFixed(3)}) + {manualClientBalance?.toFixed(3) || '0.000'} = {(totals.finalWeight + receivedTotals.finalWt + (manualClientBalance || 0)).toFixed(3)}g
+            ({formatWeight(totals.finalWeight)} + {formatWeight(receivedTotals.finalWt)}) + {formatWeight(clientBalance)} = {formatWeight(totals.finalWeight + receivedTotals.finalWt + clientBalance)}g
           </div>
           <Label htmlFor="finalWtBalanceTag" className="text-xs text-muted-foreground">
             Tag
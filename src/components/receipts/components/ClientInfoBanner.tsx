@@ -1,3 +1,7 @@
+import { formatWeight } from "@/lib/metal-calculations";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { formatRupees, valueAtRate } from "@/lib/metal-rates";
+
 interface ClientInfoBannerProps {
   client: {
     id: string;
@@ -13,6 +17,9 @@ export function ClientInfoBanner({
   client,
   locationState,
 }: ClientInfoBannerProps) {
+  const { rateFor } = useMetalRates();
+  const todaysRate = rateFor();
+
   return (
     <div className="bg-primary/10 p-4 rounded-md mb-4">
       <h3 className="font-medium">Selected Client:</h3>
@@ -27,17 +34,17 @@ export function ClientInfoBanner({
           <strong>Phone:</strong> {client.phoneNumber}
         </span>
         <span></span>
-        {Array.isArray(locationState?.client?.balanceHistory) &&
-          locationState.client.balanceHistory.length > 0 && (
+        {typeof locationState?.client?.balance === "number" &&
+          locationState.client.balance !== 0 && (
             <span>
               <strong> Balance :</strong>{" "}
-              {(() => {
-                const last =
-                  locationState.client.balanceHistory[
-                    locationState.client.balanceHistory.length - 1
-                  ];
-                return `${last.amount > 0 ? "+" : ""}${last.amount}`;
-              })()}
+              {`${locationState.client.balance > 0 ? "+" : ""}${formatWeight(
+                locationState.client.balance
+              )}`}
+              {todaysRate &&
+                ` (${formatRupees(
+                  valueAtRate(locationState.client.balance, todaysRate)
+                )})`}
             </span>
           )}
       </div>
@@ -1,13 +1,43 @@
-import { Plus, Trash } from "lucide-react";
+import { useState } from "react";
+import { Loader2, Plus, Trash } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ReceiptItem } from "@/models/Receipt";
+import { ornamentServices } from "@/services/api";
+import { ornamentToReceiptItem } from "@/lib/ornaments";
+import { formatAmount, formatWeight } from "@/lib/metal-calculations";
+import { toCellNumber } from "@/lib/entry-grid";
+import { useEntryGrid } from "@/hooks/use-entry-grid";
+
+// Cells the keyboard and a paste move through, left to right
+const GRID_FIELDS = [
+  "itemName",
+  "tag",
+  "grossWt",
+  "stoneWt",
+  "meltingTouch",
+  "stoneAmt",
+] as const;
+const TEXT_FIELDS: readonly string[] = ["itemName", "tag"];
+
+// Pasted cells fill the columns from the one pasted into
+const pastedItem = (cells: string[], firstColumn: number) => {
+  const changes: Record<string, string | number> = {};
+  cells.forEach((value, offset) => {
+    const field = GRID_FIELDS[firstColumn + offset];
+    if (!field) return;
+    changes[field] = TEXT_FIELDS.includes(field) ? value : toCellNumber(value);
+  });
+  return changes as Partial<ReceiptItem>;
+};
 
 interface GivenItemsTableProps {
   items: ReceiptItem[];
   itemErrors: { [key: string]: { [field: string]: string } };
   onUpdateItem: (id: string, field: string, value: any) => void;
+  onFillItem: (id: string, changes: Partial<ReceiptItem>) => void;
   onAddItem: () => void;
+  onPasteItems: (startIndex: number, rows: Partial<ReceiptItem>[]) => void;
   onRemoveItem: (id: string) => void;
   totals: {
     grossWeight: number;
@@ -22,14 +52,58 @@ export function GivenItemsTable({
   items,
   itemErrors,
   onUpdateItem,
+  onFillItem,
   onAddItem,
+  onPasteItems,
   onRemoveItem,
   totals,
 }: GivenItemsTableProps) {
+  const [lookingUpId, setLookingUpId] = useState<string | null>(null);
+  const grid = useEntryGrid({
+    rowCount: items.length,
+    columnCount: GRID_FIELDS.length,
+    onAddRow: onAddItem,
+    // The previous balance row is carried forward, not typed
+    isSkippedRow: (row) => items[row]?.tag === "BALANCE",
+    onCopyDown: (row, column) =>
+      onUpdateItem(
+        items[row].id,
+        GRID_FIELDS[column],
+        items[row - 1][GRID_FIELDS[column]]
+      ),
+    onPasteRows: (row, column, values) =>
+      onPasteItems(
+        row,
+        values.map((cells) => pastedItem(cells, column))
+      ),
+  });
+
+  // Scanners type the tag and press Enter; fill the row from the catalogue.
+  // An unknown tag leaves the row as typed.
+  const lookUpTag = async (item: ReceiptItem) => {
+    const tag = item.tag?.trim();
+    if (!tag) return;
+    setLookingUpId(item.id);
+    try {
+      const ornament = await ornamentServices.getOrnamentByTag(tag);
+      if (ornament) onFillItem(item.id, ornamentToReceiptItem(ornament));
+    } catch {
+      // Already shown by the API error toast
+    } finally {
+      setLookingUpId(null);
+    }
+  };
+
   return (
     <div className="bg-background/50 p-6 rounded-md border">
       <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-medium">Items</h3>
+        <div>
+          <h3 className="text-lg font-medium">Items</h3>
+          <p className="text-xs text-muted-foreground">
+            Enter or Tab moves to the next cell, Ctrl+D copies the cell above,
+            and rows copied from Excel can be pasted in
+          </p>
+        </div>
         <Button
           type="button"
           variant="outline"
@@ -80,6 +154,11 @@ export function GivenItemsTable({
           <tbody>
             {items.map((item, idx) => {
               const currentItemErrors = itemErrors[item.id] || {};
+              const invalid = (field: string) =>
+                currentItemErrors[field]
+                  ? "border-destructive focus-visible:ring-destructive"
+                  : undefined;
+              const tagCell = grid.cellProps(idx, 1);
               return (
                 <tr key={item.id} className="border-b">
                   <td className="p-2">
@@ -95,7 +174,10 @@ export function GivenItemsTable({
                   </td>
                   <td className="p-2">
                     <Input
+                      {...grid.cellProps(idx, 0)}
                       placeholder="Item name"
+                      className={invalid("itemName")}
+                      aria-invalid={!!currentItemErrors.itemName}
                       value={item.itemName}
                       onChange={(e) =>
                         onUpdateItem(item.id, "itemName", e.target.value)
@@ -108,20 +190,35 @@ export function GivenItemsTable({
                     )}
                   </td>
                   <td className="p-2">
-                    <Input
-                      placeholder="Tag"
-                      value={item.tag}
-                      onChange={(e) =>
-                        onUpdateItem(item.id, "tag", e.target.value)
-                      }
-                    />
+                    <div className="relative">
+                      <Input
+                        {...tagCell}
+                        placeholder="Scan or type tag"
+                        value={item.tag}
+                        onChange={(e) =>
+                          onUpdateItem(item.id, "tag", e.target.value)
+                        }
+                        onKeyDown={(e) => {
+                          // The scanner's Enter looks the tag up, then moves
+                          // on to the weights like any other cell
+                          if (e.key === "Enter") lookUpTag(item);
+                          tagCell.onKeyDown(e);
+                        }}
+                      />
+                      {lookingUpId === item.id && (
+                        <Loader2 className="absolute right-2 top-3 h-4 w-4 animate-spin text-muted-foreground" />
+                      )}
+                    </div>
                   </td>
                   <td className="p-2">
                     <Input
+                      {...grid.cellProps(idx, 2)}
                       type="number"
                       placeholder="0.000"
                       step="0.01"
                       min="0"
+                      className={invalid("grossWt")}
+                      aria-invalid={!!currentItemErrors.grossWt}
                       value={item.grossWt || ""}
                       onChange={(e) =>
                         onUpdateItem(
@@ -139,10 +236,13 @@ export function GivenItemsTable({
                   </td>
                   <td className="p-2">
                     <Input
+                      {...grid.cellProps(idx, 3)}
                       type="number"
                       placeholder="0.000"
                       step="0.01"
                       min="0"
+                      className={invalid("stoneWt")}
+                      aria-invalid={!!currentItemErrors.stoneWt}
                       value={item.stoneWt || ""}
                       onChange={(e) =>
                         onUpdateItem(
@@ -160,11 +260,14 @@ export function GivenItemsTable({
                   </td>
                   <td className="p-2">
                     <Input
+                      {...grid.cellProps(idx, 4)}
                       type="number"
                       placeholder="0.000"
                       step="0.01"
                       min="0"
                       max="100"
+                      className={invalid("meltingTouch")}
+                      aria-invalid={!!currentItemErrors.meltingTouch}
                       value={item.meltingTouch || ""}
                       onChange={(e) =>
                         onUpdateItem(
@@ -183,7 +286,7 @@ export function GivenItemsTable({
                   <td className="p-2">
                     <Input
                       readOnly
-                      value={item.netWt ? item.netWt.toFixed(3) : ""}
+                      value={item.netWt ? formatWeight(item.netWt) : ""}
                       placeholder="0.000"
                       className="bg-muted/30"
                     />
@@ -191,13 +294,14 @@ export function GivenItemsTable({
                   <td className="p-2">
                     <Input
                       readOnly
-                      value={item.finalWt ? item.finalWt.toFixed(3) : ""}
+                      value={item.finalWt ? formatWeight(item.finalWt) : ""}
                       placeholder="0.000"
                       className="bg-muted/30"
                     />
                   </td>
                   <td className="p-2">
                     <Input
+                      {...grid.cellProps(idx, 5)}
                       type="number"
                       placeholder="0.000"
                       step="0.01"
@@ -229,16 +333,16 @@ export function GivenItemsTable({
               <td colSpan={3} className="p-2 text-right">
                 Totals:
               </td>
-              <td className="p-2">{totals.grossWeight.toFixed(3)}</td>
-              <td className="p-2">{totals.stoneWeight.toFixed(3)}</td>
-              <td className="p-2">{totals.netWeight.toFixed(3)}</td>
+              <td className="p-2">{formatWeight(totals.grossWeight)}</td>
+              <td className="p-2">{formatWeight(totals.stoneWeight)}</td>
+              <td className="p-2">{formatWeight(totals.netWeight)}</td>
               <td className="p-2">
                 {items
                   .map((item) => Number(item.meltingTouch) || 0)
                   .reduce((acc, curr) => acc + curr, 0)}
               </td>
-              <td className="p-2">{totals.finalWeight.toFixed(3)}</td>
-              <td className="p-2">{totals.stoneAmount.toFixed(3)}</td>
+              <td className="p-2">{formatWeight(totals.finalWeight)}</td>
+              <td className="p-2">{formatAmount(totals.stoneAmount)}</td>
               <td className="p-2"></td>
             </tr>
           </tbody>
@@ -27,7 +27,7 @@ import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 
 interface ReceiptDetailsFormProps {
   form: UseFormReturn<any>;
-  voucherId: string;
+  nextVoucherId: string; // Preview only; the server numbers the receipt on save
   metalType: string;
   setMetalType: (value: string) => void;
   overallWeight: number;
@@ -36,7 +36,7 @@ interface ReceiptDetailsFormProps {
 
 export function ReceiptDetailsForm({
   form,
-  voucherId,
+  nextVoucherId,
   metalType,
   setMetalType,
   overallWeight,
@@ -46,8 +46,12 @@ export function ReceiptDetailsForm({
     <div className="bg-background/50 p-6 rounded-md border">
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-lg font-medium">Receipt Details</h3>
-        <div className="bg-primary/10 px-3 py-1 rounded-md text-primary font-medium">
-          Voucher ID: {voucherId}
+        <div
+          className="bg-primary/10 px-3 py-1 rounded-md text-primary font-medium"
+          title="The number is assigned when the receipt is saved"
+        >
+          Voucher ID:{" "}
+          {nextVoucherId ? `${nextVoucherId} (on save)` : "Assigned on save"}
         </div>
       </div>
 
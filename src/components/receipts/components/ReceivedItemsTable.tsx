@@ -1,6 +1,24 @@
 import { Plus, Trash } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { calculateReceivedItem, formatWeight } from "@/lib/metal-calculations";
+import { toCellNumber } from "@/lib/entry-grid";
+import { useEntryGrid } from "@/hooks/use-entry-grid";
+
+// Cells the keyboard and a paste move through, left to right
+const GRID_FIELDS = ["receivedGold", "melting"] as const;
+
+type PastedReceivedItem = { receivedGold?: string; melting?: string };
+
+// Pasted cells fill the columns from the one pasted into
+const pastedReceivedItem = (cells: string[], firstColumn: number) => {
+  const changes: PastedReceivedItem = {};
+  cells.forEach((value, offset) => {
+    const field = GRID_FIELDS[firstColumn + offset];
+    if (field) changes[field] = String(toCellNumber(value));
+  });
+  return changes;
+};
 
 interface ReceivedItem {
   id: string;
@@ -15,6 +33,10 @@ interface ReceivedItemsTableProps {
   receivedItemErrors: { [key: string]: { [field: string]: string } };
   onUpdateReceivedItem: (id: string, field: string, value: any) => void;
   onAddReceivedItem: () => void;
+  onPasteReceivedItems: (
+    startIndex: number,
+    rows: PastedReceivedItem[]
+  ) => void;
   onRemoveReceivedItem: (id: string) => void;
   receivedTotals: {
     finalWt: number;
@@ -26,13 +48,37 @@ export function ReceivedItemsTable({
   receivedItemErrors,
   onUpdateReceivedItem,
   onAddReceivedItem,
+  onPasteReceivedItems,
   onRemoveReceivedItem,
   receivedTotals,
 }: ReceivedItemsTableProps) {
+  const grid = useEntryGrid({
+    rowCount: receivedItems.length,
+    columnCount: GRID_FIELDS.length,
+    onAddRow: onAddReceivedItem,
+    onCopyDown: (row, column) =>
+      onUpdateReceivedItem(
+        receivedItems[row].id,
+        GRID_FIELDS[column],
+        receivedItems[row - 1][GRID_FIELDS[column]]
+      ),
+    onPasteRows: (row, column, values) =>
+      onPasteReceivedItems(
+        row,
+        values.map((cells) => pastedReceivedItem(cells, column))
+      ),
+  });
+
   return (
     <div className="bg-background/50 p-6 rounded-md border">
       <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-medium">Received Items</h3>
+        <div>
+          <h3 className="text-lg font-medium">Received Items</h3>
+          <p className="text-xs text-muted-foreground">
+            Enter or Tab moves to the next cell, Ctrl+D copies the cell above,
+            and rows copied from Excel can be pasted in
+          </p>
+        </div>
         <Button
           type="button"
           variant="outline"
@@ -70,6 +116,10 @@ export function ReceivedItemsTable({
           <tbody>
             {receivedItems.map((item, idx) => {
               const currentItemErrors = receivedItemErrors[item.id] || {};
+              const invalid = (field: string) =>
+                currentItemErrors[field]
+                  ? "border-destructive focus-visible:ring-destructive"
+                  : undefined;
               return (
                 <tr key={item.id} className="border-b">
                   <td className="p-2">
@@ -86,10 +136,13 @@ export function ReceivedItemsTable({
                   <td className="p-2">{idx + 1}</td>
                   <td className="p-2">
                     <Input
+                      {...grid.cellProps(idx, 0)}
                       type="number"
                       placeholder="0.000"
                       step="0.01"
                       min="0"
+                      className={invalid("receivedGold")}
+                      aria-invalid={!!currentItemErrors.receivedGold}
                       value={item.receivedGold || ""}
                       onChange={(e) =>
                         onUpdateReceivedItem(
@@ -107,11 +160,14 @@ export function ReceivedItemsTable({
                   </td>
                   <td className="p-2">
                     <Input
+                      {...grid.cellProps(idx, 1)}
                       type="number"
                       placeholder="0.000"
                       step="0.01"
                       min="0"
                       max="100"
+                      className={invalid("melting")}
+                      aria-invalid={!!currentItemErrors.melting}
                       value={item.melting || ""}
                       onChange={(e) =>
                         onUpdateReceivedItem(
@@ -132,12 +188,7 @@ export function ReceivedItemsTable({
                       readOnly
                       value={
                         Number(item.receivedGold) && Number(item.melting) >= 0
-                          ? (
-                              Number(item.receivedGold) -
-                              (Number(item.receivedGold) *
-                                Number(item.melting)) /
-                                100
-                            ).toFixed(3)
+                          ? formatWeight(calculateReceivedItem(item).finalWt)
                           : ""
                       }
                       placeholder="0.000"
@@ -161,7 +212,7 @@ export function ReceivedItemsTable({
               <td colSpan={4} className="p-2 text-right">
                 Totals:
               </td>
-              <td className="p-2">{receivedTotals.finalWt.toFixed(3)}</td>
+              <td className="p-2">{formatWeight(receivedTotals.finalWt)}</td>
               <td className="p-2"></td>
             </tr>
           </tbody>
@@ -0,0 +1,47 @@
+import { format } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { DeletionDecision } from "@/models/DeletionRequest";
+
+interface DeletionRequestNoticeProps {
+  deletionRequest?: DeletionDecision;
+}
+
+// Shows the latest cancellation request raised on a receipt and the owner's
+// decision
+export function DeletionRequestNotice({
+  deletionRequest,
+}: DeletionRequestNoticeProps) {
+  if (!deletionRequest) return null;
+
+  const { status, reason, requestedBy, requestedAt } = deletionRequest;
+
+  return (
+    <Alert
+      variant={status === "pending" ? "default" : "destructive"}
+      className="mb-6 print:hidden"
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {status === "pending"
+          ? "Cancellation requested - awaiting owner approval"
+          : `Cancellation ${status}`}
+      </AlertTitle>
+      <AlertDescription>
+        <p>
+          Requested by {requestedBy?.name} on{" "}
+          {format(new Date(requestedAt), "dd MMM yyyy")}: {reason}
+        </p>
+        {deletionRequest.decidedBy && (
+          <p className="mt-1">
+            {status === "approved" ? "Approved" : "Rejected"} by{" "}
+            {deletionRequest.decidedBy.name}
+            {deletionRequest.decidedAt &&
+              ` on ${format(new Date(deletionRequest.decidedAt), "dd MMM yyyy")}`}
+            : {deletionRequest.decisionReason}
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,41 @@
+import { format } from "date-fns";
+import { AlertCircle, Cloud, CloudOff, Loader2 } from "lucide-react";
+import { DraftSaveStatus } from "@/hooks/use-receipt-draft";
+import { DraftLocation } from "@/models/ReceiptDraft";
+
+interface DraftStatusProps {
+  status: DraftSaveStatus;
+  savedOn?: DraftLocation;
+  savedAt?: Date;
+}
+
+// Quiet line under a receipt form saying whether the draft is safe
+export function DraftStatus({ status, savedOn, savedAt }: DraftStatusProps) {
+  if (status === "idle") return null;
+
+  return (
+    <p className="flex items-center gap-2 text-xs text-muted-foreground">
+      {status === "saving" ? (
+        <>
+          <Loader2 className="h-3 w-3 animate-spin" /> Saving draft...
+        </>
+      ) : status === "error" ? (
+        <span className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="h-3 w-3" /> Draft not saved; it will be tried
+          again on the next change
+        </span>
+      ) : savedOn === "device" ? (
+        <>
+          <CloudOff className="h-3 w-3" /> Draft saved on this device
+          {savedAt && ` at ${format(savedAt, "HH:mm")}`}; it moves to the server
+          when the connection is back
+        </>
+      ) : (
+        <>
+          <Cloud className="h-3 w-3" /> Draft saved
+          {savedAt && ` at ${format(savedAt, "HH:mm")}`}
+        </>
+      )}
+    </p>
+  );
+}
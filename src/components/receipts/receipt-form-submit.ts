@@ -1,9 +1,26 @@
 // Updated receipt-form-submit.js
+import { receiptServices } from "@/services/api";
+import {
+  calculateGivenItem,
+  roundAmount,
+  roundWeight,
+  sumGivenItems,
+  toNumber,
+} from "@/lib/metal-calculations";
 
 export const submitReceiptForm = async (data, navigate) => {
   try {
     console.log("Starting submitReceiptForm with data:", data);
 
+    const items = data.items.map((item) => ({
+      description: item.description,
+      tag: item.tag || "",
+      grossWt: item.grossWeight,
+      stoneWt: item.stoneWeight,
+      meltingTouch: item.meltingPercent,
+      stoneAmt: item.stoneAmount,
+    }));
+
     // Format the data according to the API requirements
     const formattedData = {
       clientId: data.client.id,
@@ -14,52 +31,26 @@ export const submitReceiptForm = async (data, navigate) => {
       overallWeight: data.overallWeight || 0,
       issueDate: data.date.toISOString(),
       voucherId: data.voucherId,
-      tableData: data.items.map((item) => ({
-        description: item.description,
-        tag: item.tag || "",
-        grossWeight: parseFloat(item.grossWeight) || 0,
-        stoneWeight: parseFloat(item.stoneWeight) || 0,
-        meltingPercent: parseFloat(item.meltingPercent) || 0,
-        netWeight: parseFloat(item.netWeight) || 0,
-        finalWeight: parseFloat(item.finalWeight) || 0,
-        stoneAmount: parseFloat(item.stoneAmount) || 0,
-      })),
-      totals: {
-        grossWt: data.items.reduce(
-          (sum, item) => sum + (parseFloat(item.grossWeight) || 0),
-          0
-        ),
-        stoneWt: data.items.reduce(
-          (sum, item) => sum + (parseFloat(item.stoneWeight) || 0),
-          0
-        ),
-        netWt: data.items.reduce(
-          (sum, item) => sum + (parseFloat(item.netWeight) || 0),
-          0
-        ),
-        finalWt: data.items.reduce(
-          (sum, item) => sum + (parseFloat(item.finalWeight) || 0),
-          0
-        ),
-        stoneAmt: data.items.reduce(
-          (sum, item) => sum + (parseFloat(item.stoneAmount) || 0),
-          0
-        ),
-      },
+      tableData: items.map((item) => {
+        const { netWt, finalWt } = calculateGivenItem(item);
+        return {
+          description: item.description,
+          tag: item.tag,
+          grossWeight: roundWeight(item.grossWt),
+          stoneWeight: roundWeight(item.stoneWt),
+          meltingPercent: toNumber(item.meltingTouch),
+          netWeight: netWt,
+          finalWeight: finalWt,
+          stoneAmount: roundAmount(item.stoneAmt),
+        };
+      }),
+      totals: sumGivenItems(items),
     };
 
     console.log("Formatted data for API:", formattedData);
 
     // Make the API call
-    const response = await fetch("/api/receipts", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(formattedData),
-    });
-
-    const result = await response.json();
+    const result = await receiptServices.createReceipt(formattedData);
     console.log("API response:", result);
 
     if (!result.success) {
@@ -68,7 +59,7 @@ export const submitReceiptForm = async (data, navigate) => {
     }
 
     // Navigate to receipt details page on success
-    navigate(`/receipts/${result._id}`);
+    navigate(`/receipts/${result.data._id}`);
     return true;
   } catch (error) {
     console.error("Error in submitReceiptForm:", error);
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import { v4 as uuidv4 } from "uuid";
 import { Loader } from "lucide-react";
 import { useForm } from "react-hook-form";
@@ -11,9 +12,36 @@ import * as z from "zod";
 import { Form } from "@/components/ui/form";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { ReceiptItem } from "@/models/Receipt";
-import { receiptServices } from "@/services/receipt-services";
-import { clientServices } from "@/services/api";
+import { ReceiptInput, ReceiptItem } from "@/models/Receipt";
+import { ShopReceiptDraftForm } from "@/models/ReceiptDraft";
+import {
+  calculateBalance,
+  calculateGivenItem,
+  calculateReceivedItem,
+  calculateShopReceiptNet,
+  formatWeight,
+  roundAmount,
+  roundWeight,
+  sumGivenItems,
+  sumReceivedItems,
+} from "@/lib/metal-calculations";
+import {
+  draftServices,
+  syncServices,
+  voucherServices,
+} from "@/services/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { defaultPercent } from "@/lib/settings";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { toAppliedRate } from "@/lib/metal-rates";
+import {
+  isBlankItem,
+  isBlankReceivedItem,
+  validateItem,
+  validateReceivedItem,
+} from "@/lib/receipt-validation";
+import { useReceiptDraft } from "@/hooks/use-receipt-draft";
 
 // Import component parts
 import { ClientInfoBanner } from "./components/ClientInfoBanner";
@@ -23,6 +51,7 @@ import { ReceivedItemsTable } from "./components/ReceivedItemsTable";
 import { BalanceSummary } from "./components/BalanceSummary";
 import { StatusIndicator } from "./components/StatusIndicator";
 import { FormActions } from "./components/FormActions";
+import { DraftStatus } from "./draft-status";
 
 // Validation schema
 const receiptItemSchema = z.object({
@@ -80,11 +109,12 @@ export function ReceiptForm({
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const { settings } = useSettings();
+  const { rateFor } = useMetalRates();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [voucherId, setVoucherId] = useState(
-    `SH-${Math.floor(100000 + Math.random() * 900000)}`
-  );
-  const [metalType, setMetalType] = useState("Gold");
+  const [nextVoucherId, setNextVoucherId] = useState("");
+  const [metalType, setMetalType] = useState(settings.defaults.metalType);
   const [finalWtBalanceTag, setFinalWtBalanceTag] = useState<string>("");
   const [items, setItems] = useState<ReceiptItem[]>([
     {
@@ -93,7 +123,7 @@ export function ReceiptForm({
       tag: "",
       grossWt: "",
       stoneWt: "",
-      meltingTouch: "",
+      meltingTouch: defaultPercent(settings.defaults.meltingTouch),
       netWt: 0,
       finalWt: 0,
       stoneAmt: "",
@@ -106,13 +136,15 @@ export function ReceiptForm({
     {
       id: uuidv4(),
       receivedGold: "",
-      melting: "",
+      melting: defaultPercent(settings.defaults.receivedMelting),
       finalWt: 0,
       date: new Date().toISOString().split("T")[0], // Add date field
     },
   ]);
   const [clientBalance, setClientBalance] = useState<number>(0);
-  const [manualClientBalance, setManualClientBalance] = useState<number>(0);
+  // Set only when the owner types a balance that differs from the calculated one
+  const [balanceOverride, setBalanceOverride] = useState<number | undefined>();
+  const [adjustmentReason, setAdjustmentReason] = useState("");
   const [itemErrors, setItemErrors] = useState<{
     [key: string]: { [field: string]: string };
   }>({});
@@ -129,60 +161,49 @@ export function ReceiptForm({
   });
   const [isLoadingClient, setIsLoadingClient] = useState(false);
 
-  // Helper to extract balance from MongoDB Extended JSON
-  function extractBalance(balance: any): number {
-    if (typeof balance === "number") return balance;
-    if (balance && typeof balance === "object") {
-      if ("$numberInt" in balance) return parseInt(balance.$numberInt, 10);
-      if ("$numberDouble" in balance) return parseFloat(balance.$numberDouble);
-      if ("$numberLong" in balance) return parseInt(balance.$numberLong, 10);
-    }
-    return 0;
-  }
-
   // Fetch client data and balance when client changes
   useEffect(() => {
     const fetchClientData = async () => {
       if (!client?.id) return;
       setIsLoadingClient(true);
       try {
-        // Fetch client details
-        const clientResponse = await clientServices.getClient(client.id);
-        if (clientResponse && clientResponse.client) {
+        // Fetch client details, from this device's copy when offline
+        const { client: clientResponse, balance: balanceValue } =
+          await syncServices.loadClientForEntry(client.id);
+        if (clientResponse) {
           const clientData = {
-            id: clientResponse.client._id,
-            clientName: clientResponse.client.clientName,
-            shopName: clientResponse.client.shopName,
-            phoneNumber: clientResponse.client.phoneNumber,
-            address: clientResponse.client.address || "",
+            id: clientResponse._id,
+            clientName: clientResponse.clientName,
+            shopName: clientResponse.shopName,
+            phoneNumber: clientResponse.phoneNumber,
+            address: clientResponse.address || "",
           };
           setClient(clientData);
 
-          // Use balance from client object (extract value)
-          const balanceValue = extractBalance(clientResponse.client.balance);
+          // The balance is whatever the client's ledger adds up to
           setClientBalance(balanceValue);
-          setManualClientBalance(prev => balanceValue); // Initialize manual balance with current balance
 
           // Always add Previous Balance row for any non-zero balance
-          if (
-            balanceValue !== 0 &&
-            !items.some((item) => item.tag === "BALANCE")
-          ) {
-            setItems([
-              {
-                id: uuidv4(),
-                itemName: "Previous Balance",
-                tag: "BALANCE",
-                grossWt: balanceValue, // use the real value, can be negative
-                stoneWt: 0,
-                meltingTouch: 100,
-                netWt: balanceValue,
-                finalWt: balanceValue,
-                stoneAmt: 0,
-                date: new Date().toISOString().split("T")[0], // Add date field
-              },
-              ...items,
-            ]);
+          if (balanceValue !== 0) {
+            setItems((current) =>
+              current.some((item) => item.tag === "BALANCE")
+                ? current
+                : [
+                    {
+                      id: uuidv4(),
+                      itemName: "Previous Balance",
+                      tag: "BALANCE",
+                      grossWt: balanceValue, // use the real value, can be negative
+                      stoneWt: 0,
+                      meltingTouch: 100,
+                      netWt: balanceValue,
+                      finalWt: balanceValue,
+                      stoneAmt: 0,
+                      date: new Date().toISOString().split("T")[0], // Add date field
+                    },
+                    ...current,
+                  ]
+            );
           }
         }
       } catch (error) {
@@ -209,39 +230,39 @@ export function ReceiptForm({
       if (clientId) {
         setIsLoadingClient(true);
         try {
-          const response = await clientServices.getClient(clientId);
-          if (response && response.client) {
+          const { client: response, balance: balanceValue } =
+            await syncServices.loadClientForEntry(clientId);
+          if (response) {
             const clientData = {
-              id: response.client._id,
-              clientName: response.client.clientName,
-              shopName: response.client.shopName,
-              phoneNumber: response.client.phoneNumber,
-              address: response.client.address || "",
+              id: response._id,
+              clientName: response.clientName,
+              shopName: response.shopName,
+              phoneNumber: response.phoneNumber,
+              address: response.address || "",
             };
             setClient(clientData);
-            // Use balance from client object (extract value)
-            const balanceValue = extractBalance(response.client.balance);
+            // The balance is whatever the client's ledger adds up to
             setClientBalance(balanceValue);
-            setManualClientBalance(balanceValue); // Initialize manual balance with current balance
-            if (
-              balanceValue !== 0 &&
-              !items.some((item) => item.tag === "BALANCE")
-            ) {
-              setItems([
-                {
-                  id: uuidv4(),
-                  itemName: "Previous Balance",
-                  tag: "BALANCE",
-                  grossWt: balanceValue, // use the real value, can be negative
-                  stoneWt: 0,
-                  meltingTouch: 100,
-                  netWt: balanceValue,
-                  finalWt: balanceValue,
-                  stoneAmt: 0,
-                  date: new Date().toISOString().split("T")[0],
-                },
-                ...items,
-              ]);
+            if (balanceValue !== 0) {
+              setItems((current) =>
+                current.some((item) => item.tag === "BALANCE")
+                  ? current
+                  : [
+                      {
+                        id: uuidv4(),
+                        itemName: "Previous Balance",
+                        tag: "BALANCE",
+                        grossWt: balanceValue, // use the real value, can be negative
+                        stoneWt: 0,
+                        meltingTouch: 100,
+                        netWt: balanceValue,
+                        finalWt: balanceValue,
+                        stoneAmt: 0,
+                        date: new Date().toISOString().split("T")[0],
+                      },
+                      ...current,
+                    ]
+              );
             }
           }
         } catch (error) {
@@ -269,19 +290,19 @@ export function ReceiptForm({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [propClient, location.state, navigate, previousPath, toast]);
 
-  // Generate voucher ID
+  // Show the number this receipt is likely to get; the server assigns it on save
   useEffect(() => {
-    const fetchVoucherId = async () => {
+    const fetchNextVoucherId = async () => {
       try {
-        const response = await receiptServices.generateVoucherId();
+        const response = await voucherServices.peekNextVoucherId("shop");
         if (response && response.voucherId) {
-          setVoucherId(response.voucherId);
+          setNextVoucherId(response.voucherId);
         }
       } catch (error) {
-        console.error("Error fetching voucher ID:", error);
+        console.error("Error fetching next voucher number:", error);
       }
     };
-    fetchVoucherId();
+    fetchNextVoucherId();
   }, []);
 
   // Initialize form with client data if provided
@@ -299,46 +320,42 @@ export function ReceiptForm({
     defaultValues: initialValues,
   });
 
-  // Validate a single item
-  const validateItem = (item: ReceiptItem) => {
-    const errors: { [field: string]: string } = {};
-
-    if (item.tag?.toUpperCase() === "BALANCE") {
-      return errors; // Skip validation for balance rows
-    }
-
-    const gross = Number(item.grossWt);
-    const stone = Number(item.stoneWt);
-    const melt = Number(item.meltingTouch);
+  // Draft picked from the drafts list; the previous balance row is kept as
+  // read from the ledger just now
+  const resumeDraftId =
+    new URLSearchParams(location.search).get("draft") || undefined;
+  const { data: resumedDraft } = useQuery({
+    queryKey: ["draft", resumeDraftId],
+    queryFn: () => draftServices.getDraft(resumeDraftId),
+    enabled: !!resumeDraftId,
+  });
 
-    if (!item.itemName?.trim()) {
-      errors.itemName = "Item name is required";
-    }
-    if (item.grossWt === "" || !Number.isFinite(gross) || gross <= 0) {
-      errors.grossWt = "Gross weight must be greater than 0";
-    }
-    if (item.stoneWt !== "" && (!Number.isFinite(stone) || stone < 0)) {
-      errors.stoneWt = "Stone weight cannot be negative";
-    }
-    if (
-      item.meltingTouch === "" ||
-      !Number.isFinite(melt) ||
-      melt <= 0 ||
-      melt > 100
-    ) {
-      errors.meltingTouch = "Melting % must be between 1 and 100";
-    }
-    if (Number.isFinite(stone) && Number.isFinite(gross) && stone > gross) {
-      errors.stoneWt = "Stone weight cannot exceed gross weight";
-    }
+  useEffect(() => {
+    if (!resumedDraft) return;
+    const draftForm = resumedDraft.form as ShopReceiptDraftForm;
+    form.setValue("date", new Date(draftForm.date));
+    form.setValue("metalType", draftForm.metalType);
+    setMetalType(draftForm.metalType);
+    setOverallWeight(draftForm.overallWeight);
+    setItems((current) => [
+      ...current.filter((item) => item.tag === "BALANCE"),
+      ...draftForm.items,
+    ]);
+    setReceivedItems(draftForm.receivedItems as typeof receivedItems);
+    setFinalWtBalanceTag(draftForm.finalWtBalanceTag || "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resumedDraft]);
 
-    return errors;
-  };
+  // The rows that go on the receipt; blank ones are dropped on save
+  const filledItems = items.filter((item) => !isBlankItem(item));
+  const filledReceivedItems = receivedItems.filter(
+    (item) => !isBlankReceivedItem(item)
+  );
 
   // Validate all items
   const validateAllItems = () => {
     const errors: { [key: string]: { [field: string]: string } } = {};
-    items.forEach((item) => {
+    filledItems.forEach((item) => {
       const itemValidation = validateItem(item);
       if (Object.keys(itemValidation).length > 0) {
         errors[item.id] = itemValidation;
@@ -348,41 +365,10 @@ export function ReceiptForm({
     return Object.keys(errors).length === 0;
   };
 
-  // Validate a single received item
-  const validateReceivedItem = (item: any) => {
-    const errors: { [field: string]: string } = {};
-
-    const recGold = Number(item.receivedGold);
-    const recMelt = Number(item.melting);
-
-    // Only validate if there's some input - allow completely empty items
-    const hasAnyInput = item.receivedGold !== "" || item.melting !== "";
-
-    if (hasAnyInput) {
-      if (
-        item.receivedGold === "" ||
-        !Number.isFinite(recGold) ||
-        recGold <= 0
-      ) {
-        errors.receivedGold = "Received gold must be greater than 0";
-      }
-      if (
-        item.melting === "" ||
-        !Number.isFinite(recMelt) ||
-        recMelt <= 0 ||
-        recMelt > 100
-      ) {
-        errors.melting = "Melting % must be between 1 and 100";
-      }
-    }
-
-    return errors;
-  };
-
   // Validate all received items
   const validateAllReceivedItems = () => {
     const errors: { [key: string]: { [field: string]: string } } = {};
-    receivedItems.forEach((item) => {
+    filledReceivedItems.forEach((item) => {
       const itemValidation = validateReceivedItem(item);
       if (Object.keys(itemValidation).length > 0) {
         errors[item.id] = itemValidation;
@@ -391,34 +377,52 @@ export function ReceiptForm({
     setReceivedItemErrors(errors);
     return Object.keys(errors).length === 0;
   };
-  const calculateDerivedValues = (
-    grossWt: number,
-    stoneWt: number,
-    meltingTouch: number
-  ) => {
-    const netWt = grossWt - stoneWt;
-    const finalWt = (netWt * meltingTouch) / 100;
-    return {
-      netWt,
-      finalWt,
-    };
-  };
+  // An empty given row; the melting carries down from the row above, as
+  // a run of items is usually all one touch
+  const blankItem = (above?: ReceiptItem): ReceiptItem => ({
+    id: uuidv4(),
+    itemName: "",
+    tag: "",
+    grossWt: "",
+    stoneWt: "",
+    meltingTouch:
+      above && above.tag !== "BALANCE"
+        ? above.meltingTouch
+        : defaultPercent(settings.defaults.meltingTouch),
+    netWt: 0,
+    finalWt: 0,
+    stoneAmt: "",
+    date: new Date().toISOString().split("T")[0], // Add date field
+  });
 
   // Add a new item row
-  const addItem = () => {
-    const newItem: ReceiptItem = {
-      id: uuidv4(),
-      itemName: "",
-      tag: "",
-      grossWt: "",
-      stoneWt: "",
-      meltingTouch: "",
-      netWt: 0,
-      finalWt: 0,
-      stoneAmt: "",
-      date: new Date().toISOString().split("T")[0], // Add date field
-    };
-    setItems([...items, newItem]);
+  const addItem = () => setItems([...items, blankItem(items[items.length - 1])]);
+
+  // Fill rows pasted from a spreadsheet, from the given row down, adding
+  // rows past the end. The previous balance row is never pasted over.
+  const pasteItems = (startIndex: number, rows: Partial<ReceiptItem>[]) => {
+    const updated = [...items];
+    const errors: { [key: string]: { [field: string]: string } } = {};
+    let index = startIndex;
+    rows.forEach((changes) => {
+      while (updated[index]?.tag === "BALANCE") index++;
+      const item = {
+        ...(updated[index] || blankItem(updated[index - 1])),
+        ...changes,
+      };
+      const { netWt, finalWt } = calculateGivenItem(item);
+      updated[index] = { ...item, netWt, finalWt };
+      errors[item.id] = validateItem(updated[index]);
+      index++;
+    });
+    setItems(updated);
+    setItemErrors((prev) => {
+      const newErrors = { ...prev, ...errors };
+      Object.keys(errors).forEach((id) => {
+        if (Object.keys(errors[id]).length === 0) delete newErrors[id];
+      });
+      return newErrors;
+    });
   };
 
   // Remove an item row
@@ -435,30 +439,22 @@ export function ReceiptForm({
   };
 
   // Update an item field
-  const updateItem = (id: string, field: string, value: any) => {
-    setItems(
-      items.map((item) => {
+  const updateItem = (id: string, field: string, value: any) =>
+    fillItem(id, { [field]: value });
+
+  // Set several fields of a row at once, e.g. from a scanned tag. A tag
+  // lookup lands after other edits, so the change goes on the latest rows.
+  const fillItem = (id: string, changes: Partial<ReceiptItem>) => {
+    setItems((current) =>
+      current.map((item) => {
         if (item.id === id) {
-          const updatedItem = { ...item, [field]: value };
-          if (["grossWt", "stoneWt", "meltingTouch"].includes(field)) {
-            const grossWt =
-              field === "grossWt"
-                ? Number(value) || 0
-                : Number(item.grossWt) || 0;
-            const stoneWt =
-              field === "stoneWt"
-                ? Number(value) || 0
-                : Number(item.stoneWt) || 0;
-            const meltingTouch =
-              field === "meltingTouch"
-                ? Number(value) || 0
-                : Number(item.meltingTouch) || 0;
-
-            const { netWt, finalWt } = calculateDerivedValues(
-              grossWt,
-              stoneWt,
-              meltingTouch
-            );
+          const updatedItem = { ...item, ...changes };
+          if (
+            ["grossWt", "stoneWt", "meltingTouch"].some(
+              (field) => field in changes
+            )
+          ) {
+            const { netWt, finalWt } = calculateGivenItem(updatedItem);
             updatedItem.netWt = netWt;
             updatedItem.finalWt = finalWt;
           }
@@ -482,18 +478,48 @@ export function ReceiptForm({
     );
   };
 
+  // An empty received row, with the melting of the row above
+  const blankReceivedItem = (above?: (typeof receivedItems)[number]) => ({
+    id: uuidv4(),
+    receivedGold: "",
+    melting: above
+      ? above.melting
+      : defaultPercent(settings.defaults.receivedMelting),
+    finalWt: 0,
+    date: new Date().toISOString().split("T")[0], // Add date field
+  });
+
   // Add a new received item row
-  const addReceivedItem = () => {
+  const addReceivedItem = () =>
     setReceivedItems([
       ...receivedItems,
-      {
-        id: uuidv4(),
-        receivedGold: "",
-        melting: "",
-        finalWt: 0,
-        date: new Date().toISOString().split("T")[0], // Add date field
-      },
+      blankReceivedItem(receivedItems[receivedItems.length - 1]),
     ]);
+
+  // Fill received rows pasted from a spreadsheet, adding rows past the end
+  const pasteReceivedItems = (
+    startIndex: number,
+    rows: { receivedGold?: string; melting?: string }[]
+  ) => {
+    const updated = [...receivedItems];
+    const errors: { [key: string]: { [field: string]: string } } = {};
+    rows.forEach((changes, offset) => {
+      const index = startIndex + offset;
+      const item = {
+        ...(updated[index] || blankReceivedItem(updated[index - 1])),
+        ...changes,
+      };
+      updated[index] = { ...item, finalWt: calculateReceivedItem(item).finalWt };
+      errors[item.id] = validateReceivedItem(updated[index]);
+    });
+    setReceivedItems(updated);
+    setReceivedItemErrors((prev) => {
+      const newErrors = { ...prev, ...errors };
+      Object.keys(errors).forEach((id) => {
+        if (Object.keys(errors[id]).length === 0) delete newErrors[id];
+      });
+      return newErrors;
+    });
   };
 
   // Remove a received item row
@@ -515,10 +541,7 @@ export function ReceiptForm({
       receivedItems.map((item) => {
         if (item.id === id) {
           const updated = { ...item, [field]: value };
-          // Calculate final weight: receivedGold - (receivedGold * melting / 100)
-          const receivedGold = Number(updated.receivedGold) || 0;
-          const melting = Number(updated.melting) || 0;
-          updated.finalWt = receivedGold - (receivedGold * melting) / 100;
+          updated.finalWt = calculateReceivedItem(updated).finalWt;
 
           // Validate the updated item and update errors
           const itemValidation = validateReceivedItem(updated);
@@ -540,48 +563,72 @@ export function ReceiptForm({
   };
 
   // Calculate totals
-  const totals = items.reduce(
-    (acc, item) => {
-      return {
-        grossWeight: acc.grossWeight + (Number(item.grossWt) || 0),
-        stoneWeight: acc.stoneWeight + (Number(item.stoneWt) || 0),
-        netWeight: acc.netWeight + (Number(item.netWt) || 0),
-        finalWeight: acc.finalWeight + (Number(item.finalWt) || 0),
-        stoneAmount: acc.stoneAmount + (Number(item.stoneAmt) || 0),
-      };
-    },
-    {
-      grossWeight: 0,
-      stoneWeight: 0,
-      netWeight: 0,
-      finalWeight: 0,
-      stoneAmount: 0,
-    }
-  );
+  const givenTotals = sumGivenItems(items);
+  const totals = {
+    grossWeight: givenTotals.grossWt,
+    stoneWeight: givenTotals.stoneWt,
+    netWeight: givenTotals.netWt,
+    finalWeight: givenTotals.finalWt,
+    stoneAmount: givenTotals.stoneAmt,
+  };
 
   // Calculate received totals
-  const receivedTotals = receivedItems.reduce(
-    (acc, item) => {
-      const receivedGold = Number(item.receivedGold) || 0;
-      const melting = Number(item.melting) || 0;
-      const finalWt = receivedGold - (receivedGold * melting) / 100;
-      return {
-        finalWt: acc.finalWt + finalWt,
-      };
-    },
-    { finalWt: 0 }
-  );
+  const receivedTotals = sumReceivedItems(receivedItems);
 
   // Calculate balance and new client balance
-  const balance = totals.finalWeight - receivedTotals.finalWt + clientBalance; // given - received + od_balance
-  const newClientBalance = manualClientBalance; // Use manual balance instead of calculated
+  const balance = calculateBalance(
+    totals.finalWeight,
+    receivedTotals.finalWt,
+    clientBalance
+  ); // given - received + od_balance
+  const newClientBalance = calculateBalance(
+    calculateShopReceiptNet(items, receivedItems),
+    0,
+    clientBalance
+  );
+  const adjustment =
+    balanceOverride === undefined
+      ? 0
+      : roundWeight(balanceOverride - newClientBalance);
 
   const balanceToAdd = clientBalance;
 
+  // Autosave what has been typed; a draft never touches the client balance
+  const enteredItems = filledItems.filter((item) => item.tag !== "BALANCE");
+  const draftItemCount = enteredItems.length + filledReceivedItems.length;
+  const draftDate = form.watch("date");
+  const draft = useReceiptDraft<ShopReceiptDraftForm>({
+    draftId: resumeDraftId,
+    draft:
+      client?.id && draftItemCount > 0
+        ? {
+            receiptType: "shop",
+            clientId: client.id,
+            clientName: client.clientName,
+            itemCount: draftItemCount,
+            form: {
+              client: {
+                id: client.id,
+                clientName: client.clientName,
+                shopName: client.shopName,
+                phoneNumber: client.phoneNumber,
+                address: client.address,
+              },
+              date: (draftDate || new Date()).toISOString(),
+              metalType: form.watch("metalType"),
+              overallWeight,
+              items: items.filter((item) => item.tag !== "BALANCE"),
+              receivedItems,
+              finalWtBalanceTag,
+            },
+          }
+        : undefined,
+  });
+
   <div className="bg-muted/10 p-3 rounded-md">
     <div className="text-sm text-muted-foreground">Final Wt. + Balance</div>
     <div className="text-lg font-semibold">
-      {(totals.finalWeight + balanceToAdd).toFixed(3)}g
+      {formatWeight(totals.finalWeight + balanceToAdd)}g
     </div>
   </div>;
 
@@ -624,11 +671,18 @@ export function ReceiptForm({
       }
 
       // 4) Check if received items are filled (optional validation)
-      const hasReceivedItems = receivedItems.some(
-        (item) =>
-          (item.receivedGold && Number(item.receivedGold) > 0) ||
-          (item.melting && Number(item.melting) > 0)
-      );
+      const hasReceivedItems = filledReceivedItems.length > 0;
+      if (
+        !hasReceivedItems &&
+        !filledItems.some((item) => item.tag !== "BALANCE")
+      ) {
+        toast({
+          variant: "destructive",
+          title: "No Items",
+          description: "Enter at least one item before saving.",
+        });
+        return setIsSubmitting(false);
+      }
 
       let receivedValid = true;
       if (hasReceivedItems) {
@@ -643,37 +697,23 @@ export function ReceiptForm({
         }
       }
 
-      // 5) Compute totals
-      let totalGross = 0,
-        totalStone = 0,
-        totalNet = 0,
-        totalFinal = 0,
-        totalStoneAmt = 0,
-        receivedFinal = 0;
-
-      items.forEach((it) => {
-        totalGross += parseFloat(it.grossWt.toString()) || 0;
-        totalStone += parseFloat(it.stoneWt.toString()) || 0;
-        totalNet += parseFloat(it.netWt.toString()) || 0;
-        totalFinal += parseFloat(it.finalWt.toString()) || 0;
-        totalStoneAmt += parseFloat(it.stoneAmt.toString()) || 0;
-      });
-
-      // Only calculate received totals if there are valid received items
-      if (hasReceivedItems) {
-        receivedItems.forEach((r) => {
-          receivedFinal += parseFloat(r.finalWt.toString()) || 0;
+      // 5) A hand-entered balance becomes an adjustment, which needs a reason
+      if (adjustment !== 0 && !adjustmentReason.trim()) {
+        toast({
+          variant: "destructive",
+          title: "Reason Required",
+          description: "Explain why the client balance is being changed.",
         });
+        return setIsSubmitting(false);
       }
 
-      const balanceChange = parseFloat((totalFinal - receivedFinal + clientBalance).toFixed(3)); // given - received + od_balance
-      const finalClientBalance = parseFloat(manualClientBalance.toFixed(3)); // Use manual balance
-
       // Determine receipt status
       const receiptStatus = hasReceivedItems ? "complete" : "incomplete";
 
-      // 6) Build payload for backend
-      const payload = {
+      // 6) Build payload for backend, valued at the day's fine rate
+      const { metalType: receiptMetal, date: issueDate } = form.getValues();
+      const rate = rateFor(receiptMetal, issueDate);
+      const payload: ReceiptInput = {
         clientId,
         clientInfo: {
           clientName: client.clientName,
@@ -681,53 +721,78 @@ export function ReceiptForm({
           phoneNumber: client.phoneNumber || "",
           address: client.address || "",
         },
-        metalType: form.getValues().metalType,
-        issueDate: form.getValues().date.toISOString(),
-        voucherId,
+        metalType: receiptMetal,
+        issueDate: issueDate.toISOString(),
+        appliedRate: rate ? toAppliedRate(rate) : undefined,
         status: receiptStatus,
         finalWtBalanceTag: finalWtBalanceTag || undefined, // Include finalWtBalanceTag in the payload
-        givenItems: items.map((it) => ({
+        givenItems: filledItems.map((it) => ({
           itemName: it.itemName,
           tag: it.tag || "",
-          grossWt: parseFloat(it.grossWt.toString()),
-          stoneWt: parseFloat(it.stoneWt.toString()),
+          grossWt: roundWeight(it.grossWt),
+          stoneWt: roundWeight(it.stoneWt),
           meltingTouch: parseFloat(it.meltingTouch.toString()),
-          netWt: parseFloat(it.netWt.toString()),
-          finalWt: parseFloat(it.finalWt.toString()),
-          stoneAmt: parseFloat(it.stoneAmt.toString()),
+          ...calculateGivenItem(it),
+          stoneAmt: roundAmount(it.stoneAmt),
           date: it.date || new Date().toISOString().split("T")[0], // Include date field
         })),
         receivedItems: hasReceivedItems
-          ? receivedItems.map((r) => ({
-              receivedGold: parseFloat(r.receivedGold.toString()),
+          ? filledReceivedItems.map((r) => ({
+              receivedGold: roundWeight(r.receivedGold),
               melting: parseFloat(r.melting.toString()),
-              finalWt: parseFloat(r.finalWt.toString()),
+              finalWt: calculateReceivedItem(r).finalWt,
               date: r.date || new Date().toISOString().split("T")[0], // Include date field
             }))
           : [],
-        previousBalance: parseFloat(clientBalance.toFixed(3))
+        previousBalance: roundWeight(clientBalance)
       };
 
-      // 7) Update client balance first
-      await clientServices.updateClient(clientId, {
-        balance: finalClientBalance,
-        balanceDescription: `Receipt ${voucherId} adjustment`,
+      // 7) Save the receipt and post it, with any correction, to the
+      // client's ledger. Without a connection it waits on this device.
+      const result = await syncServices.saveOrQueue({
+        kind: "shopReceipt",
+        clientId,
+        payload,
+        ledgerAmount: calculateShopReceiptNet(
+          filledItems,
+          filledReceivedItems
+        ),
+        adjustment:
+          adjustment !== 0
+            ? { amount: adjustment, reason: adjustmentReason.trim() }
+            : undefined,
+        baseBalance: clientBalance,
       });
+      // The receipt exists now, or is waiting to sync; the draft is done
+      draft.discardDraft();
 
-      // 8) Create receipt
-      const receiptResponse = await receiptServices.createReceipt(payload);
-      if (!receiptResponse?.success) {
-        throw new Error(receiptResponse?.message || "Failed to save receipt");
+      if (result.status === "queued") {
+        toast({
+          title: "Saved on this device",
+          description: `Receipt ${result.provisionalVoucherId} will sync when the connection is back.`,
+        });
+        navigate(previousPath);
+        return;
       }
 
-      // 9) Success toast & navigation
+      if (result.status === "unfinished") {
+        toast({
+          variant: "destructive",
+          title: "Receipt saved, balance not yet updated",
+          description: `Receipt ${result.voucherId} was saved but could not be posted (${result.error.message}). It stays in the sync queue to finish.`,
+        });
+        navigate(`/receipts/${result.id}`);
+        return;
+      }
+
+      // 8) Success toast & navigation; the server numbered the receipt
       toast({
         title: "Success",
-        description: `Receipt ${voucherId} saved${
+        description: `Receipt ${result.voucherId} saved${
           receiptStatus === "incomplete" ? " as incomplete" : ""
         }.`,
       });
-      navigate(`/receipts/${receiptResponse.data._id}`);
+      navigate(`/receipts/${result.id}`);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       toast({
@@ -760,7 +825,7 @@ export function ReceiptForm({
         {/* Receipt Details */}
         <ReceiptDetailsForm
           form={form}
-          voucherId={voucherId}
+          nextVoucherId={nextVoucherId}
           metalType={metalType}
           setMetalType={setMetalType}
           overallWeight={overallWeight}
@@ -782,7 +847,9 @@ export function ReceiptForm({
               items={items}
               itemErrors={itemErrors}
               onUpdateItem={updateItem}
+              onFillItem={fillItem}
               onAddItem={addItem}
+              onPasteItems={pasteItems}
               onRemoveItem={removeItem}
               totals={totals}
             />
@@ -793,6 +860,7 @@ export function ReceiptForm({
               receivedItemErrors={receivedItemErrors}
               onUpdateReceivedItem={updateReceivedItem}
               onAddReceivedItem={addReceivedItem}
+              onPasteReceivedItems={pasteReceivedItems}
               onRemoveReceivedItem={removeReceivedItem}
               receivedTotals={receivedTotals}
             />
@@ -805,14 +873,23 @@ export function ReceiptForm({
           receivedTotals={receivedTotals}
           newClientBalance={newClientBalance}
           balanceToAdd={balanceToAdd}
-          manualClientBalance={manualClientBalance}
-          setManualClientBalance={setManualClientBalance}
+          balanceOverride={balanceOverride}
+          setBalanceOverride={setBalanceOverride}
+          adjustmentReason={adjustmentReason}
+          setAdjustmentReason={setAdjustmentReason}
+          canAdjust={can("ledger:adjust")}
           finalWtBalanceTag={finalWtBalanceTag}
           setFinalWtBalanceTag={setFinalWtBalanceTag}
         />
 
         {/* Status Indicator */}
-        <StatusIndicator receivedItems={receivedItems} />
+        <StatusIndicator receivedItems={filledReceivedItems} />
+
+        <DraftStatus
+          status={draft.status}
+          savedOn={draft.savedOn}
+          savedAt={draft.savedAt}
+        />
 
         {/* Form Actions */}
         <FormActions
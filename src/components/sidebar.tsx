@@ -4,6 +4,14 @@ import { Link, useLocation } from "react-router-dom";
 import {
   Settings,
   Home,
+  UserCog,
+  ClipboardCheck,
+  BarChart3,
+  IndianRupee,
+  Hammer,
+  ClipboardList,
+  Warehouse,
+  Tags,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -11,6 +19,8 @@ import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { QuickLinks } from "@/components/quick-links";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
 
 interface SidebarProps {
   isOpen: boolean;
@@ -94,6 +104,8 @@ function SidebarItem({
 export function Sidebar({ isOpen, onClose, children }: SidebarProps) {
   const location = useLocation();
   const isMobile = useIsMobile();
+  const { can } = useAuth();
+  const { settings } = useSettings();
 
   return (
     <>
@@ -114,7 +126,7 @@ export function Sidebar({ isOpen, onClose, children }: SidebarProps) {
       >
         <div className="flex items-center border-b py-2 px-4">
           <Link to="/" className="flex items-center gap-2">
-           <img src="/logo.jpg" alt="" className=" w-40 h-20" />
+           <img src={settings.business.logo} alt="" className=" w-40 h-20" />
           </Link>
         </div>
         <ScrollArea className="h-[calc(100vh-4rem)]">
@@ -131,8 +143,68 @@ export function Sidebar({ isOpen, onClose, children }: SidebarProps) {
               isActive={location.pathname === "/"}
             />
             
+            <SidebarItem
+              href="/reports"
+              icon={<BarChart3 className="h-4 w-4" />}
+              title="Reports"
+              isActive={location.pathname === "/reports"}
+            />
+
+            <SidebarItem
+              href="/rates"
+              icon={<IndianRupee className="h-4 w-4" />}
+              title="Metal Rates"
+              isActive={location.pathname === "/rates"}
+            />
+
+            <SidebarItem
+              href="/orders"
+              icon={<ClipboardList className="h-4 w-4" />}
+              title="Orders"
+              isActive={location.pathname.startsWith("/orders")}
+            />
+
+            <SidebarItem
+              href="/karigars"
+              icon={<Hammer className="h-4 w-4" />}
+              title="Karigars"
+              isActive={location.pathname.startsWith("/karigars")}
+            />
+
+            <SidebarItem
+              href="/inventory"
+              icon={<Warehouse className="h-4 w-4" />}
+              title="Inventory"
+              isActive={location.pathname === "/inventory"}
+            />
+
+            <SidebarItem
+              href="/ornaments"
+              icon={<Tags className="h-4 w-4" />}
+              title="Catalogue"
+              isActive={location.pathname.startsWith("/ornaments")}
+            />
+
             <Separator className="my-2" />
-            
+
+            {can("receipts:delete") && (
+              <SidebarItem
+                href="/approvals"
+                icon={<ClipboardCheck className="h-4 w-4" />}
+                title="Approvals"
+                isActive={location.pathname === "/approvals"}
+              />
+            )}
+
+            {can("users:manage") && (
+              <SidebarItem
+                href="/users"
+                icon={<UserCog className="h-4 w-4" />}
+                title="Users"
+                isActive={location.pathname === "/users"}
+              />
+            )}
+
             <SidebarItem
               href="/settings"
               icon={<Settings className="h-4 w-4" />}
@@ -0,0 +1,124 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SortOrder } from "@/models/Api";
+import { Input } from "@/components/ui/input";
+import { TableHead } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface SortableHeadProps<S extends string> {
+  label: string;
+  sortKey: S;
+  sort: { sortBy: S; sortOrder: SortOrder };
+  onSort: (sortKey: S) => void;
+  className?: string;
+}
+
+// Column header that sorts the list by its key when clicked
+export function SortableHead<S extends string>({
+  label,
+  sortKey,
+  sort,
+  onSort,
+  className,
+}: SortableHeadProps<S>) {
+  const active = sort.sortBy === sortKey;
+  const Icon = !active
+    ? ArrowUpDown
+    : sort.sortOrder === "asc"
+      ? ArrowUp
+      : ArrowDown;
+
+  return (
+    <TableHead className={className}>
+      <button
+        type="button"
+        className={cn(
+          "inline-flex items-center gap-1 hover:text-foreground",
+          active && "text-foreground"
+        )}
+        onClick={() => onSort(sortKey)}
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  );
+}
+
+interface ListPaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+// Previous and next with the page count between them, hidden for one page
+export function ListPagination({
+  page,
+  totalPages,
+  onPageChange,
+}: ListPaginationProps) {
+  if (totalPages <= 1) return null;
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            onClick={() => onPageChange(Math.max(page - 1, 1))}
+            className={
+              page === 1 ? "pointer-events-none opacity-50" : "cursor-pointer"
+            }
+          />
+        </PaginationItem>
+        <PaginationItem className="px-4 text-sm text-muted-foreground">
+          Page {page} of {totalPages}
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationNext
+            onClick={() => onPageChange(Math.min(page + 1, totalPages))}
+            className={
+              page === totalPages
+                ? "pointer-events-none opacity-50"
+                : "cursor-pointer"
+            }
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
+
+interface DateRangeFilterProps {
+  from?: string;
+  to?: string;
+  onChange: (key: "from" | "to", value: string) => void;
+}
+
+// Two date inputs bounding a list, either end optional
+export function DateRangeFilter({ from, to, onChange }: DateRangeFilterProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="date"
+        aria-label="From date"
+        className="w-auto"
+        value={from || ""}
+        onChange={(e) => onChange("from", e.target.value)}
+      />
+      <span className="text-sm text-muted-foreground">to</span>
+      <Input
+        type="date"
+        aria-label="To date"
+        className="w-auto"
+        value={to || ""}
+        onChange={(e) => onChange("to", e.target.value)}
+      />
+    </div>
+  );
+}
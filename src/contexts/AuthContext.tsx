@@ -0,0 +1,81 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import { authServices } from "@/services/auth-services";
+import { AUTH_EXPIRED_EVENT, getAuthToken } from "@/services/api-config";
+import { User } from "@/models/User";
+import { hasPermission, Permission } from "@/lib/permissions";
+
+interface AuthContextType {
+  user: User | null;
+  isLoading: boolean;
+  login: (email: string, password: string) => Promise<User>;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(!!getAuthToken());
+
+  // Restore the session from a stored token on first load
+  useEffect(() => {
+    if (!getAuthToken()) return;
+
+    authServices
+      .getCurrentUser()
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // The API layer clears the token on a 401; mirror that here
+  useEffect(() => {
+    const handleExpired = () => setUser(null);
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const login = async (email: string, password: string) => {
+    const session = await authServices.login(email, password);
+    setUser(session.user);
+    return session.user;
+  };
+
+  const logout = async () => {
+    await authServices.logout();
+    setUser(null);
+  };
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(user?.role, permission),
+    [user]
+  );
+
+  const value: AuthContextType = {
+    user,
+    isLoading,
+    login,
+    logout,
+    can,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -1,53 +1,8 @@
 import React, { createContext, useContext, useState, ReactNode } from "react";
 import { clientServices, receiptServices } from "../services/api";
 import { toast } from "@/components/ui/use-toast";
-
-// Define types for our state
-interface Client {
-  id: string;
-  shopName: string;
-  clientName: string;
-  phoneNumber: string;
-  address: string;
-  createdAt: string;
-  updatedAt: string;
-  balance?: number;
-  balanceHistory?: {
-    date: Date | null;
-    amount: number;
-  }[];
-}
-
-interface ReceiptItem {
-  itemName: string;
-  tag: string;
-  grossWt: number;
-  stoneWt: number;
-  meltingTouch: number;
-  stoneAmt: number;
-}
-
-interface Receipt {
-  id: string;
-  clientId: string;
-  clientInfo: {
-    clientName: string;
-    shopName: string;
-    phoneNumber: string;
-  };
-  metalType: string;
-  issueDate: string;
-  items: ReceiptItem[];
-  totals: {
-    grossWt: number;
-    stoneWt: number;
-    netWt: number;
-    finalWt: number;
-    stoneAmt: number;
-  };
-  createdAt: string;
-  updatedAt: string;
-}
+import { Client, ClientInput } from "@/models/Client";
+import { Receipt, ReceiptInput } from "@/models/Receipt";
 
 interface DataContextType {
   clients: Client[];
@@ -63,20 +18,12 @@ interface DataContextType {
   fetchClients: () => Promise<void>;
   fetchReceipts: () => Promise<void>;
   fetchClientReceipts: (clientId: string) => Promise<Receipt[]>;
-  addClient: (
-    clientData: Omit<Client, "id" | "createdAt" | "updatedAt">
-  ) => Promise<Client>;
+  addClient: (clientData: ClientInput) => Promise<Client>;
   updateClient: (id: string, clientData: Partial<Client>) => Promise<Client>;
   deleteClient: (id: string) => Promise<void>;
-  addReceipt: (
-    receiptData: Omit<Receipt, "id" | "createdAt" | "updatedAt">
-  ) => Promise<Receipt>;
-  updateReceipt: (
-    id: string,
-    receiptData: Partial<Receipt>
-  ) => Promise<Receipt>;
+  addReceipt: (receiptData: ReceiptInput) => Promise<Receipt>;
+  updateReceipt: (id: string, receiptData: ReceiptInput) => Promise<Receipt>;
   deleteReceipt: (id: string) => Promise<void>;
-  generateVoucherId: () => Promise<string>;
   getClientById: (id: string) => Promise<Client>;
 }
 
@@ -124,8 +71,8 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     setError((prev) => ({ ...prev, receipts: null }));
 
     try {
-      const data = await receiptServices.getReceipts();
-      setReceipts(data);
+      const response = await receiptServices.getReceipts();
+      setReceipts(response.data);
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to fetch receipts";
@@ -143,8 +90,8 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   // Fetch receipts for a specific client
   const fetchClientReceipts = async (clientId: string) => {
     try {
-      const data = await receiptServices.getClientReceipts(clientId);
-      return data;
+      const response = await receiptServices.getClientReceipts(clientId);
+      return response.data;
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to fetch Shop receipts";
@@ -158,9 +105,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // Add new client
-  const addClient = async (
-    clientData: Omit<Client, "id" | "createdAt" | "updatedAt">
-  ) => {
+  const addClient = async (clientData: ClientInput) => {
     try {
       const newClient = await clientServices.createClient(clientData);
       setClients((prev) => [...prev, newClient]);
@@ -186,7 +131,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     try {
       const updatedClient = await clientServices.updateClient(id, clientData);
       setClients((prev) =>
-        prev.map((client) => (client.id === id ? updatedClient : client))
+        prev.map((client) => (client._id === id ? updatedClient : client))
       );
       toast({
         title: "Success",
@@ -209,7 +154,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   const deleteClient = async (id: string) => {
     try {
       await clientServices.deleteClient(id);
-      setClients((prev) => prev.filter((client) => client.id !== id));
+      setClients((prev) => prev.filter((client) => client._id !== id));
       toast({
         title: "Success",
         description: "Client deleted successfully",
@@ -227,11 +172,10 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // Add new receipt
-  const addReceipt = async (
-    receiptData: Omit<Receipt, "id" | "createdAt" | "updatedAt">
-  ) => {
+  const addReceipt = async (receiptData: ReceiptInput) => {
     try {
-      const newReceipt = await receiptServices.createReceipt(receiptData);
+      const { data: newReceipt } =
+        await receiptServices.createReceipt(receiptData);
       setReceipts((prev) => [...prev, newReceipt]);
       toast({
         title: "Success",
@@ -251,14 +195,14 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // Update receipt
-  const updateReceipt = async (id: string, receiptData: Partial<Receipt>) => {
+  const updateReceipt = async (id: string, receiptData: ReceiptInput) => {
     try {
-      const updatedReceipt = await receiptServices.updateReceipt(
+      const { data: updatedReceipt } = await receiptServices.updateReceipt(
         id,
         receiptData
       );
       setReceipts((prev) =>
-        prev.map((receipt) => (receipt.id === id ? updatedReceipt : receipt))
+        prev.map((receipt) => (receipt._id === id ? updatedReceipt : receipt))
       );
       toast({
         title: "Success",
@@ -281,7 +225,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   const deleteReceipt = async (id: string) => {
     try {
       await receiptServices.deleteReceipt(id);
-      setReceipts((prev) => prev.filter((receipt) => receipt.id !== id));
+      setReceipts((prev) => prev.filter((receipt) => receipt._id !== id));
       toast({
         title: "Success",
         description: "Receipt deleted successfully",
@@ -298,24 +242,6 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  // Generate a unique voucher ID
-  const generateVoucherId = async () => {
-    try {
-      const data = await receiptServices.generateVoucherId();
-      return data.voucherId;
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to generate voucher ID";
-      toast({
-        title: "Error",
-        description: errorMessage,
-        variant: "destructive",
-      });
-      // Return a fallback ID in case of error
-      return `GS-${Date.now().toString().slice(-6)}`;
-    }
-  };
-
   // Helper to extract balance from MongoDB Extended JSON
   function extractBalance(val: any): number {
     if (typeof val === "number") return val;
@@ -327,27 +253,14 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     return 0;
   }
 
-  // Fetch a single client by ID and return with parsed balance and balanceHistory
+  // Fetch a single client by ID and return with parsed balance
   const getClientById = async (id: string) => {
     try {
       const client = await clientServices.getClient(id);
       if (!client) throw new Error("Client not found");
-      // Parse balance and balanceHistory
-      const parsedBalance = extractBalance(client.balance);
-      const parsedBalanceHistory = (client.balanceHistory || []).map(
-        (entry: any) => ({
-          ...entry,
-          amount: extractBalance(entry.amount),
-          date:
-            entry.date && entry.date.$date
-              ? new Date(Number(entry.date.$date.$numberLong))
-              : null,
-        })
-      );
       return {
         ...client,
-        balance: parsedBalance,
-        balanceHistory: parsedBalanceHistory,
+        balance: extractBalance(client.balance),
       };
     } catch (err) {
       const errorMessage =
@@ -376,7 +289,6 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     addReceipt,
     updateReceipt,
     deleteReceipt,
-    generateVoucherId,
     getClientById,
   };
 
@@ -0,0 +1,70 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import { settingsServices } from "@/services/settings-services";
+import { useAuth } from "@/contexts/AuthContext";
+import { AppSettings } from "@/models/Settings";
+import { applySettings, getSettings } from "@/lib/settings";
+
+interface SettingsContextType {
+  settings: AppSettings;
+  isLoading: boolean;
+  updateSettings: (settings: AppSettings) => Promise<AppSettings>;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(
+  undefined
+);
+
+export const SettingsProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<AppSettings>(getSettings());
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Settings are behind auth, so fetch once someone is signed in
+  useEffect(() => {
+    if (!user) return;
+
+    setIsLoading(true);
+    settingsServices
+      .getSettings()
+      .then((saved) => setSettings(applySettings(saved)))
+      .catch(() => {
+        // Keep the cached copy; the API layer has already shown the error
+      })
+      .finally(() => setIsLoading(false));
+  }, [user]);
+
+  const updateSettings = async (next: AppSettings) => {
+    const saved = await settingsServices.updateSettings(next);
+    const applied = applySettings(saved || next);
+    setSettings(applied);
+    return applied;
+  };
+
+  const value: SettingsContextType = {
+    settings,
+    isLoading,
+    updateSettings,
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error("useSettings must be used within a SettingsProvider");
+  }
+  return context;
+};
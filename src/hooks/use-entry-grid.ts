@@ -0,0 +1,114 @@
+import { ClipboardEvent, KeyboardEvent, useEffect, useRef } from "react";
+import { parsePastedRows } from "@/lib/entry-grid";
+
+interface UseEntryGridOptions {
+  rowCount: number;
+  columnCount: number; // Cells that take input, left to right
+  onAddRow: () => void;
+  onCopyDown?: (row: number, column: number) => void;
+  onPasteRows?: (row: number, column: number, values: string[][]) => void;
+  // Rows the keyboard and a paste pass over, e.g. the carried-forward balance
+  isSkippedRow?: (row: number) => boolean;
+}
+
+// Keyboard entry for an item table: Enter or Tab moves to the next cell and
+// past the last one onto a new row, the arrow keys move between rows,
+// Ctrl+D copies the cell above and pasted Excel rows fill the grid
+export function useEntryGrid({
+  rowCount,
+  columnCount,
+  onAddRow,
+  onCopyDown,
+  onPasteRows,
+  isSkippedRow = () => false,
+}: UseEntryGridOptions) {
+  const cells = useRef(new Map<string, HTMLInputElement>());
+  // Cell to focus once a row added from the keyboard has rendered
+  const pendingFocus = useRef<{ row: number; column: number } | null>(null);
+
+  const focusCell = (row: number, column: number) => {
+    const cell = cells.current.get(`${row}:${column}`);
+    if (!cell) return false;
+    cell.focus();
+    cell.select();
+    return true;
+  };
+
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    const { row, column } = pendingFocus.current;
+    if (focusCell(row, column)) pendingFocus.current = null;
+  }, [rowCount]);
+
+  // The nearest row from this one, going down (1) or up (-1), that takes
+  // input; past either end when there is none
+  const nearestRow = (row: number, step: 1 | -1) => {
+    while (row >= 0 && row < rowCount && isSkippedRow(row)) row += step;
+    return row;
+  };
+
+  const moveTo = (row: number, column: number) => {
+    row = nearestRow(row, 1);
+    if (row < rowCount) {
+      focusCell(row, column);
+      return;
+    }
+    pendingFocus.current = { row, column };
+    onAddRow();
+  };
+
+  const handleKeyDown = (
+    event: KeyboardEvent<HTMLInputElement>,
+    row: number,
+    column: number
+  ) => {
+    const isLastColumn = column === columnCount - 1;
+
+    if (event.key === "Enter" || (event.key === "Tab" && !event.shiftKey)) {
+      event.preventDefault();
+      moveTo(isLastColumn ? row + 1 : row, isLastColumn ? 0 : column + 1);
+    } else if (event.key === "Tab" && event.shiftKey) {
+      const previousRow = nearestRow(row - 1, -1);
+      if (column === 0 && previousRow < 0) return; // Out of the grid as usual
+      event.preventDefault();
+      if (column > 0) focusCell(row, column - 1);
+      else focusCell(previousRow, columnCount - 1);
+    } else if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      // Number inputs would otherwise nudge the weight
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      focusCell(nearestRow(row + step, step), column);
+    } else if (
+      onCopyDown &&
+      row > 0 &&
+      !isSkippedRow(row - 1) &&
+      (event.ctrlKey || event.metaKey) &&
+      event.key.toLowerCase() === "d"
+    ) {
+      event.preventDefault();
+      onCopyDown(row, column);
+    }
+  };
+
+  // Spread onto each input cell, numbering columns left to right. Cells of a
+  // skipped row are left out of the grid and keep the browser's keys.
+  const cellProps = (row: number, column: number) => ({
+    ref: (element: HTMLInputElement | null) => {
+      const key = `${row}:${column}`;
+      if (element && !isSkippedRow(row)) cells.current.set(key, element);
+      else cells.current.delete(key);
+    },
+    onKeyDown: (event: KeyboardEvent<HTMLInputElement>) => {
+      if (!isSkippedRow(row)) handleKeyDown(event, row, column);
+    },
+    onPaste: (event: ClipboardEvent<HTMLInputElement>) => {
+      if (!onPasteRows) return;
+      const values = parsePastedRows(event.clipboardData.getData("text"));
+      if (!values) return;
+      event.preventDefault();
+      onPasteRows(nearestRow(row, 1), column, values);
+    },
+  });
+
+  return { cellProps, focusCell };
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { karigarServices } from "@/services/karigar-services";
+
+export const KARIGARS_QUERY_KEY = ["karigars"];
+
+// Every karigar, active or not; work receipts only offer the active ones
+export function useKarigars() {
+  const { data: karigars = [], isLoading } = useQuery({
+    queryKey: KARIGARS_QUERY_KEY,
+    queryFn: () => karigarServices.getKarigars(),
+  });
+
+  return { karigars, isLoading };
+}
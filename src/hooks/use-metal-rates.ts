@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { rateServices } from "@/services/rate-services";
+import { findApplicableRate, WORK_RECEIPT_METAL } from "@/lib/metal-rates";
+
+export const METAL_RATES_QUERY_KEY = ["metalRates"];
+
+// The whole rate register, shared by every screen that values weights
+export function useMetalRates() {
+  const { data: rates = [], isLoading } = useQuery({
+    queryKey: METAL_RATES_QUERY_KEY,
+    queryFn: () => rateServices.getRates(),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    rates,
+    isLoading,
+    // Fine rate for a metal on a date, today by default
+    rateFor: (metal: string = WORK_RECEIPT_METAL, date?: Date) =>
+      findApplicableRate(rates, metal, date),
+  };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { syncServices } from "@/services/sync-services";
+import { PENDING_WRITES_CHANGED_EVENT } from "@/lib/offline-queue";
+import { PendingWrite } from "@/models/PendingWrite";
+
+const RETRY_INTERVAL = 60 * 1000;
+
+// The offline queue, synced when the connection comes back, on load and
+// every minute while anything is still waiting
+export function useOfflineSync() {
+  const queryClient = useQueryClient();
+  const [writes, setWrites] = useState<PendingWrite[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(() => {
+    syncServices
+      .getPendingWrites()
+      .then(setWrites)
+      .catch((error) => console.error("Error reading offline queue:", error));
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!navigator.onLine) return;
+    setIsSyncing(true);
+    try {
+      const synced = await syncServices.syncPendingWrites();
+      // Lists and balances fetched while offline are now out of date
+      if (synced > 0) queryClient.invalidateQueries();
+    } catch (error) {
+      console.error("Error syncing offline queue:", error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    refresh();
+    syncNow();
+    window.addEventListener(PENDING_WRITES_CHANGED_EVENT, refresh);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener(PENDING_WRITES_CHANGED_EVENT, refresh);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [refresh, syncNow]);
+
+  const pendingCount = writes.filter(
+    (write) => write.status === "pending"
+  ).length;
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const timer = window.setInterval(syncNow, RETRY_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [pendingCount, syncNow]);
+
+  return {
+    writes,
+    pendingCount,
+    isOnline,
+    isSyncing,
+    syncNow,
+    retryWrite: async (write: PendingWrite) => {
+      await syncServices.retryWrite(write);
+      await syncNow();
+    },
+    discardWrite: syncServices.discardWrite,
+  };
+}
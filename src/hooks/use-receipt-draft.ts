@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { draftServices } from "@/services/api";
+import {
+  DraftLocation,
+  ReceiptDraftForm,
+  ReceiptDraftInput,
+} from "@/models/ReceiptDraft";
+
+// Wait for a pause in typing before saving
+const AUTOSAVE_DELAY = 2000;
+
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error";
+
+interface UseReceiptDraftOptions<F extends ReceiptDraftForm> {
+  draftId?: string; // Draft being resumed
+  draft?: ReceiptDraftInput<F>; // Undefined until there is something worth keeping
+}
+
+// Autosaves a receipt form as a draft while it is typed, to the server or
+// to this device when offline. Call discardDraft once the receipt is saved.
+export function useReceiptDraft<F extends ReceiptDraftForm>({
+  draftId: resumedId,
+  draft,
+}: UseReceiptDraftOptions<F>) {
+  const queryClient = useQueryClient();
+  const [draftId, setDraftId] = useState(resumedId);
+  const [status, setStatus] = useState<DraftSaveStatus>("idle");
+  const [savedOn, setSavedOn] = useState<DraftLocation>();
+  const [savedAt, setSavedAt] = useState<Date>();
+
+  const latest = useRef(draft);
+  latest.current = draft;
+  const draftIdRef = useRef(resumedId);
+  const lastSaved = useRef<string>();
+  // One save at a time, so a slow first save can't create two drafts
+  const saving = useRef(Promise.resolve());
+  const isDiscarded = useRef(false);
+  // Once the server couldn't be reached, keep to this device until the
+  // connection is back rather than fail a request on every save
+  const deviceOnly = useRef(false);
+
+  const save = useCallback(() => {
+    saving.current = saving.current.then(async () => {
+      const current = latest.current;
+      if (!current || isDiscarded.current) return;
+      const snapshot = JSON.stringify(current);
+      if (snapshot === lastSaved.current) return;
+
+      setStatus("saving");
+      try {
+        const saved = await draftServices.saveDraft(
+          draftIdRef.current,
+          current,
+          { deviceOnly: deviceOnly.current }
+        );
+        draftIdRef.current = saved._id;
+        lastSaved.current = snapshot;
+        deviceOnly.current = saved.savedOn === "device";
+        setDraftId(saved._id);
+        setSavedOn(saved.savedOn);
+        setSavedAt(new Date());
+        setStatus("saved");
+        queryClient.invalidateQueries({ queryKey: ["drafts"] });
+      } catch (error) {
+        console.error("Error autosaving draft:", error);
+        setStatus("error");
+      }
+    });
+    return saving.current;
+  }, [queryClient]);
+
+  const serialized = draft ? JSON.stringify(draft) : undefined;
+
+  useEffect(() => {
+    if (!serialized || serialized === lastSaved.current) return;
+    const timer = window.setTimeout(save, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [serialized, save]);
+
+  // Move a draft kept on this device up to the server when back online
+  useEffect(() => {
+    const handleOnline = () => {
+      if (!deviceOnly.current) return;
+      deviceOnly.current = false;
+      lastSaved.current = undefined;
+      save();
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [save]);
+
+  // Keep the last few keystrokes when leaving the page mid-pause
+  useEffect(() => () => void save(), [save]);
+
+  // The receipt was saved, or the draft is no longer wanted
+  const discardDraft = useCallback(async () => {
+    isDiscarded.current = true;
+    await saving.current;
+    const id = draftIdRef.current;
+    if (!id) return;
+    try {
+      await draftServices.deleteDraft(id);
+      queryClient.invalidateQueries({ queryKey: ["drafts"] });
+    } catch (error) {
+      console.error("Error discarding draft:", error);
+    }
+  }, [queryClient]);
+
+  return { draftId, status, savedOn, savedAt, discardDraft };
+}
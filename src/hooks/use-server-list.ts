@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import {
+  keepPreviousData,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  ListFilters,
+  ListParams,
+  PaginatedResponse,
+  SortOrder,
+} from "@/models/Api";
+
+interface ServerListOptions<T, S extends string> {
+  queryKey: string[];
+  fetchPage: (params: ListParams<S>) => Promise<PaginatedResponse<T>>;
+  defaultSort: { sortBy: S; sortOrder: SortOrder };
+  pageSize?: number;
+}
+
+// One page of a server-paged list, with the search, sort and filters that
+// produced it. The next page is fetched in the background so paging forward
+// does not wait on the network.
+export function useServerList<T, S extends string>({
+  queryKey,
+  fetchPage,
+  defaultSort,
+  pageSize = 20,
+}: ServerListOptions<T, S>) {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [search, setSearchTerm] = useState("");
+  const [sort, setSortState] = useState(defaultSort);
+  const [filters, setFilters] = useState<ListFilters>({});
+
+  const params: ListParams<S> = {
+    page,
+    limit: pageSize,
+    search: search.trim() || undefined,
+    ...sort,
+    ...filters,
+  };
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: [...queryKey, params],
+    queryFn: () => fetchPage(params),
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
+  });
+  const totalPages = data?.pagination?.totalPages || 1;
+
+  useEffect(() => {
+    if (page >= totalPages) return;
+    const next = { ...params, page: page + 1 };
+    queryClient.prefetchQuery({
+      queryKey: [...queryKey, next],
+      queryFn: () => fetchPage(next),
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [JSON.stringify(params), totalPages]);
+
+  // Anything that changes which records match starts again from page 1
+  const setSearch = (value: string) => {
+    setSearchTerm(value);
+    setPage(1);
+  };
+
+  const setFilter = (key: keyof ListFilters, value?: string) => {
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+    setPage(1);
+  };
+
+  // A second click on the same column flips the order; a new column starts
+  // with the largest or latest first
+  const toggleSort = (sortBy: S) => {
+    setSortState((current) => ({
+      sortBy,
+      sortOrder:
+        current.sortBy === sortBy && current.sortOrder === "desc"
+          ? "asc"
+          : "desc",
+    }));
+    setPage(1);
+  };
+
+  return {
+    items: data?.data || [],
+    total: data?.pagination?.total ?? 0,
+    page,
+    setPage,
+    totalPages,
+    search,
+    setSearch,
+    sort,
+    toggleSort,
+    filters,
+    setFilter,
+    isLoading,
+    isError,
+    refetch,
+  };
+}
@@ -0,0 +1,72 @@
+import { AuditChange, AuditValue } from "@/models/AuditEntry";
+
+// Bookkeeping the server rewrites on every save, not worth a history line
+const IGNORED_FIELDS = ["_id", "__v", "createdAt", "updatedAt", "createdBy"];
+
+// Nested objects and arrays become dotted paths, e.g. "items.0.grossWeight"
+const flatten = (
+  value: unknown,
+  path = "",
+  fields: Record<string, AuditValue> = {}
+): Record<string, AuditValue> => {
+  if (value instanceof Date) {
+    fields[path] = value.toISOString();
+  } else if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, child]) => {
+      if (IGNORED_FIELDS.includes(key)) return;
+      flatten(child, path ? `${path}.${key}` : key, fields);
+    });
+  } else if (path) {
+    fields[path] = (value ?? null) as AuditValue;
+  }
+  return fields;
+};
+
+// Forms send numbers as strings and drop empty fields, so "2.5" matches 2.5
+// and a missing field matches an empty one
+const sameValue = (a: AuditValue, b: AuditValue) =>
+  String(a ?? "") === String(b ?? "");
+
+// Field-by-field differences between two copies of a record. Pass nothing
+// for `before` on a create and nothing for `after` on a delete.
+export const diffFields = (before?: object, after?: object): AuditChange[] => {
+  const previous = flatten(before);
+  const next = flatten(after);
+  const fields = Array.from(
+    new Set([...Object.keys(previous), ...Object.keys(next)])
+  );
+
+  return fields
+    .filter((field) => !sameValue(previous[field], next[field]))
+    .map((field) => ({
+      field,
+      before: previous[field] ?? null,
+      after: next[field] ?? null,
+    }));
+};
+
+// "items.0.grossWeight" -> "Items #1 › gross weight"
+export const auditFieldLabel = (field: string): string => {
+  const label = field
+    .split(".")
+    .map((part) =>
+      /^\d+$/.test(part)
+        ? `#${Number(part) + 1}`
+        : part.replace(/([A-Z])/g, " $1").toLowerCase()
+    )
+    .join(" › ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+export const formatAuditValue = (value: AuditValue): string => {
+  if (value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+export const auditActionLabels = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  balance: "Balance changed",
+};
@@ -0,0 +1,58 @@
+import { Client } from "@/models/Client";
+
+// The last copy of each client and their balance this device fetched, kept in
+// localStorage so a receipt can still be entered against them offline
+
+const CLIENT_CACHE_KEY = "clientCache";
+
+export interface CachedClient {
+  client: Client;
+  balance?: number; // Fine grams, as the ledger last added up
+  cachedAt: string;
+}
+
+const getCache = (): Record<string, CachedClient> => {
+  try {
+    return JSON.parse(localStorage.getItem(CLIENT_CACHE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const setCache = (cache: Record<string, CachedClient>) => {
+  try {
+    localStorage.setItem(CLIENT_CACHE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    // A full localStorage only costs offline entry, not the fetch itself
+    console.error("Error caching clients:", error);
+  }
+};
+
+export const getCachedClient = (id: string): CachedClient | undefined =>
+  getCache()[id];
+
+// The balance stored on a client is only the one from before the ledger, so
+// a client list refreshes the details and keeps the balance the ledger gave
+export const cacheClients = (clients: Client[]) => {
+  const cache = getCache();
+  const cachedAt = new Date().toISOString();
+  for (const client of clients) {
+    cache[client._id] = {
+      client,
+      balance: cache[client._id]?.balance,
+      cachedAt,
+    };
+  }
+  setCache(cache);
+};
+
+export const cacheClientBalance = (clientId: string, balance: number) => {
+  const cache = getCache();
+  if (!cache[clientId]) return; // Nothing to enter a receipt against yet
+  cache[clientId] = {
+    ...cache[clientId],
+    balance,
+    cachedAt: new Date().toISOString(),
+  };
+  setCache(cache);
+};
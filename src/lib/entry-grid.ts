@@ -0,0 +1,16 @@
+// Helpers for the spreadsheet-style item tables
+
+// Rows and cells copied from Excel arrive tab separated, one row per line.
+// A single value is left to the browser's own paste.
+export const parsePastedRows = (text: string): string[][] | null => {
+  if (!/[\t\n]/.test(text)) return null;
+  const rows = text.replace(/\r/g, "").replace(/\n+$/, "").split("\n");
+  return rows.map((row) => row.split("\t").map((cell) => cell.trim()));
+};
+
+// A pasted weight or percentage; Excel may add thousands separators.
+// Blank or unreadable cells stay empty so validation can point at them.
+export const toCellNumber = (value: string): number | "" => {
+  const number = parseFloat(value.replace(/,/g, ""));
+  return Number.isFinite(number) ? number : "";
+};
@@ -0,0 +1,128 @@
+import { Receipt } from "@/models/Receipt";
+import { AppliedRate } from "@/models/MetalRate";
+import {
+  GstSplit,
+  TaxInvoiceLine,
+  TaxInvoiceTotals,
+} from "@/models/TaxInvoice";
+import {
+  calculateGivenItem,
+  roundAmount,
+  roundWeight,
+  sumAmounts,
+  toNumber,
+} from "./metal-calculations";
+import { valueAtRate } from "./metal-rates";
+
+// Articles of jewellery of precious metal
+export const JEWELLERY_HSN_CODE = "7113";
+
+// GST on jewellery, split half and half between centre and state when the
+// sale stays within the state
+export const JEWELLERY_GST_PERCENT = 3;
+
+// States and union territories with their GST state codes
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+export const stateCode = (state?: string) =>
+  INDIAN_STATES.find((s) => s.name === state)?.code || "";
+
+// IGST when the client is in another state; a client with no state on file
+// is taken to be local
+export const gstSplitFor = (
+  businessState?: string,
+  clientState?: string
+): GstSplit =>
+  businessState && clientState && businessState !== clientState
+    ? "inter-state"
+    : "intra-state";
+
+// One line per ornament handed over on the receipt; making charges are
+// entered on the invoice, keyed by the line's position
+export const buildInvoiceLines = (
+  receipt: Receipt,
+  rate: AppliedRate,
+  makingCharges: (number | string)[] = []
+): TaxInvoiceLine[] =>
+  (receipt.givenItems || receipt.items || [])
+    .filter((item) => item.tag !== "BALANCE")
+    .map((item, index) => {
+      const { netWt, finalWt } = calculateGivenItem(item);
+      const metalValue = valueAtRate(finalWt, rate) ?? 0;
+      const making = roundAmount(makingCharges[index]);
+      const stone = roundAmount(item.stoneAmt);
+      return {
+        description: item.tag
+          ? `${item.itemName} (${item.tag})`
+          : item.itemName,
+        hsnCode: JEWELLERY_HSN_CODE,
+        grossWeight: roundWeight(item.grossWt),
+        netWeight: netWt,
+        touch: toNumber(item.meltingTouch),
+        fineWeight: finalWt,
+        metalValue,
+        makingCharges: making,
+        stoneCharges: stone,
+        taxableValue: sumAmounts([metalValue, making, stone]),
+      };
+    });
+
+export const calculateInvoiceTotals = (
+  lines: TaxInvoiceLine[],
+  split: GstSplit
+): TaxInvoiceTotals => {
+  const taxableValue = sumAmounts(lines.map((line) => line.taxableValue));
+  const tax = roundAmount((taxableValue * JEWELLERY_GST_PERCENT) / 100);
+  const halfTax = roundAmount(tax / 2);
+  const cgst = split === "intra-state" ? halfTax : 0;
+  const sgst = split === "intra-state" ? roundAmount(tax - halfTax) : 0;
+  const igst = split === "inter-state" ? tax : 0;
+  const exactTotal = sumAmounts([taxableValue, cgst, sgst, igst]);
+  // Invoices are settled in whole rupees
+  const grandTotal = Math.round(exactTotal);
+  return {
+    taxableValue,
+    cgst,
+    sgst,
+    igst,
+    roundOff: roundAmount(grandTotal - exactTotal),
+    grandTotal,
+  };
+};
@@ -0,0 +1,63 @@
+import { AdminReceipt } from "@/models/AdminReceipt";
+import { Karigar } from "@/models/Karigar";
+import { calculateBalance, roundTo, sumWeights } from "./metal-calculations";
+
+export const KARIGAR_SKILLS = [
+  "Casting",
+  "Stone setting",
+  "Polishing",
+  "Chain making",
+  "Bangles",
+  "Filigree",
+  "Enamelling",
+  "Engraving",
+];
+
+// Making charge agreed for the kind of work a product name mentions
+export const makingChargeFor = (karigar: Karigar | undefined, product = "") =>
+  karigar?.makingChargeRates.find(
+    (rate) =>
+      rate.category &&
+      product.toLowerCase().includes(rate.category.toLowerCase())
+  )?.percent;
+
+// Making charge a new received line starts at: the karigar's first rate
+export const defaultMakingCharge = (karigar: Karigar | undefined) =>
+  karigar?.makingChargeRates[0]?.percent;
+
+const isLive = (receipt: AdminReceipt) => receipt.status !== "cancelled";
+
+// Weight of metal issued on a job, in the ornament weight it should come
+// back as
+export const jobIssued = (receipt: AdminReceipt) =>
+  receipt.given?.items?.length ? sumWeights([receipt.given.total]) : 0;
+
+// Ornament weight returned on a job, net of stones and before making charge
+export const jobReturned = (receipt: AdminReceipt) =>
+  receipt.received?.items?.length
+    ? sumWeights([receipt.received.totalSubTotal])
+    : 0;
+
+// Metal issued but not yet back, still with the karigar
+export const isPendingJob = (receipt: AdminReceipt) =>
+  isLive(receipt) && jobIssued(receipt) > 0 && receipt.status !== "complete";
+
+// Metal the karigar is holding across all their jobs
+export const karigarHolding = (receipts: AdminReceipt[]) => {
+  const live = receipts.filter(isLive);
+  return calculateBalance(
+    sumWeights(live.map(jobIssued)),
+    sumWeights(live.map(jobReturned))
+  );
+};
+
+// Share of the metal issued on finished jobs that did not come back
+export const wastagePercent = (receipts: AdminReceipt[]) => {
+  const finished = receipts.filter(
+    (receipt) => isLive(receipt) && receipt.status === "complete"
+  );
+  const issued = sumWeights(finished.map(jobIssued));
+  if (!issued) return null;
+  const lost = calculateBalance(issued, sumWeights(finished.map(jobReturned)));
+  return roundTo((lost / issued) * 100, 2);
+};
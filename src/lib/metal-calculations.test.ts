@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  calculateGivenItem,
+  calculateShopReceiptNet,
+  calculateWorkGivenItem,
+  calculateWorkReceivedItem,
+  formatWeight,
+  roundTo,
+  roundWeight,
+  setRoundingMode,
+  setWeightDecimals,
+  sumGivenItems,
+  sumWeights,
+} from "./metal-calculations";
+
+afterEach(() => {
+  setRoundingMode("half-up");
+  setWeightDecimals(3);
+});
+
+describe("roundTo", () => {
+  it("rounds ties up in half-up mode", () => {
+    expect(roundTo(2.5, 0, "half-up")).toBe(3);
+    expect(roundTo(1.0005, 3, "half-up")).toBe(1.001);
+    expect(roundTo(1.2344, 3, "half-up")).toBe(1.234);
+  });
+
+  it("rounds ties to the even digit in half-even mode", () => {
+    expect(roundTo(2.5, 0, "half-even")).toBe(2);
+    expect(roundTo(3.5, 0, "half-even")).toBe(4);
+    expect(roundTo(1.0005, 3, "half-even")).toBe(1);
+    expect(roundTo(1.0015, 3, "half-even")).toBe(1.002);
+  });
+
+  it("mirrors negative values", () => {
+    expect(roundTo(-2.5, 0, "half-up")).toBe(-3);
+    expect(roundTo(-2.5, 0, "half-even")).toBe(-2);
+    expect(roundTo(-1.2346, 3, "half-up")).toBe(-1.235);
+  });
+
+  it("strips binary noise before deciding a tie", () => {
+    // 1.005 * 100 is 100.49999999999999 in floating point
+    expect(roundTo(1.005, 2, "half-up")).toBe(1.01);
+    expect(roundTo(0.1 + 0.2, 3, "half-up")).toBe(0.3);
+  });
+
+  it("never returns negative zero", () => {
+    expect(Object.is(roundTo(-0.0001, 3), 0)).toBe(true);
+  });
+
+  it("follows the configured mode by default", () => {
+    setRoundingMode("half-even");
+    expect(roundWeight(0.0025)).toBe(0.002);
+    setRoundingMode("half-up");
+    expect(roundWeight(0.0025)).toBe(0.003);
+  });
+});
+
+describe("calculateGivenItem", () => {
+  it("takes the stones off and applies the touch", () => {
+    expect(
+      calculateGivenItem({
+        grossWt: "10.5",
+        stoneWt: "0.5",
+        meltingTouch: 91.6,
+      })
+    ).toEqual({ netWt: 10, finalWt: 9.16 });
+    expect(
+      calculateGivenItem({ grossWt: 12.345, stoneWt: 0.1, meltingTouch: 91.6 })
+    ).toEqual({ netWt: 12.245, finalWt: 11.216 });
+  });
+
+  it("treats blank inputs as zero", () => {
+    expect(calculateGivenItem({ grossWt: "", meltingTouch: 91.6 })).toEqual({
+      netWt: 0,
+      finalWt: 0,
+    });
+  });
+});
+
+describe("work receipt items", () => {
+  it("converts metal given at its purity over the melting", () => {
+    expect(
+      calculateWorkGivenItem({ pureWeight: 10, purePercent: 99.5, melting: 92 })
+    ).toEqual({ total: 10.815 });
+  });
+
+  it("does not divide by a missing melting", () => {
+    expect(
+      calculateWorkGivenItem({ pureWeight: 2, purePercent: 50, melting: 0 })
+    ).toEqual({ total: 100 });
+  });
+
+  it("adds the making charge to ornaments net of stones", () => {
+    expect(
+      calculateWorkReceivedItem({
+        finalOrnamentsWt: 20,
+        stoneWeight: 1.5,
+        makingChargePercent: 10,
+      })
+    ).toEqual({ subTotal: 18.5, total: 20.35 });
+  });
+});
+
+describe("sumGivenItems", () => {
+  it("totals the rounded lines so the footer matches the column", () => {
+    const items = Array.from({ length: 3 }, () => ({
+      grossWt: 1,
+      stoneWt: 0,
+      meltingTouch: 33.35,
+      stoneAmt: 10.005,
+    }));
+    const lines = items.map(calculateGivenItem);
+    const totals = sumGivenItems(items);
+
+    expect(lines[0].finalWt).toBe(0.334);
+    expect(totals.finalWt).toBe(sumWeights(lines.map((line) => line.finalWt)));
+    // Summing the raw 0.3335s would give 1.001
+    expect(totals.finalWt).toBe(1.002);
+    expect(totals.stoneAmt).toBe(30.03);
+  });
+});
+
+describe("calculateShopReceiptNet", () => {
+  it("leaves the previous balance row out", () => {
+    const givenItems = [
+      { tag: "BALANCE", grossWt: 50, stoneWt: 0, meltingTouch: 100 },
+      { tag: "R1", grossWt: 10, stoneWt: 0, meltingTouch: 91.6 },
+    ];
+    const receivedItems = [{ receivedGold: 5, melting: 10 }];
+
+    expect(calculateShopReceiptNet(givenItems, receivedItems)).toBe(4.66);
+  });
+});
+
+describe("weight decimals setting", () => {
+  it("changes what is shown, not what is kept", () => {
+    setWeightDecimals(2);
+    expect(roundWeight(1.2345)).toBe(1.235);
+    expect(sumWeights([0.004, 0.004])).toBe(0.008);
+    expect(formatWeight(1.2345)).toBe("1.24");
+  });
+});
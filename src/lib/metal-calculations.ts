@@ -0,0 +1,212 @@
+// Single source of truth for weight math on shop and work receipts. Forms,
+// detail pages and PDFs all go through here so the figures on screen, in the
+// database and on paper agree to the milligram.
+
+export type RoundingMode = "half-up" | "half-even";
+
+// Weights are kept to the milligram, money to the paisa. The decimals
+// setting only changes how many places a weight is shown with; stored and
+// summed weights stay at the milligram so balances never shift with it.
+export const WEIGHT_DECIMALS = 3;
+export const DEFAULT_WEIGHT_DECIMALS = WEIGHT_DECIMALS;
+export const AMOUNT_DECIMALS = 2;
+
+let roundingMode: RoundingMode = "half-up";
+let weightDecimals = DEFAULT_WEIGHT_DECIMALS;
+
+export const getRoundingMode = () => roundingMode;
+
+export const setRoundingMode = (mode: RoundingMode) => {
+  roundingMode = mode;
+};
+
+export const getWeightDecimals = () => weightDecimals;
+
+// Places a weight is shown with; never more than are kept
+export const setWeightDecimals = (decimals: number) => {
+  weightDecimals = Math.min(decimals, WEIGHT_DECIMALS);
+};
+
+// Form inputs arrive as strings, Mongo numbers sometimes as null
+export const toNumber = (value: unknown): number => {
+  if (typeof value === "number") return isFinite(value) ? value : 0;
+  if (typeof value === "string") return parseFloat(value) || 0;
+  return 0;
+};
+
+export const roundTo = (
+  value: number,
+  decimals: number,
+  mode: RoundingMode = roundingMode
+): number => {
+  const factor = Math.pow(10, decimals);
+  // toPrecision strips binary noise so 1.0005 * 1000 is treated as 1000.5
+  const scaled = Number((Math.abs(value) * factor).toPrecision(15));
+  const floor = Math.floor(scaled);
+  const diff = scaled - floor;
+
+  let rounded: number;
+  if (diff > 0.5 + 1e-9) {
+    rounded = floor + 1;
+  } else if (diff < 0.5 - 1e-9) {
+    rounded = floor;
+  } else if (mode === "half-even") {
+    rounded = floor % 2 === 0 ? floor : floor + 1;
+  } else {
+    rounded = floor + 1;
+  }
+
+  // Half-up rounds away from zero so negative balances mirror positive ones
+  const result = (Math.sign(value) * rounded) / factor;
+  return result === 0 ? 0 : result;
+};
+
+export const roundWeight = (value: unknown) =>
+  roundTo(toNumber(value), WEIGHT_DECIMALS);
+
+export const roundAmount = (value: unknown) =>
+  roundTo(toNumber(value), AMOUNT_DECIMALS);
+
+export const formatWeight = (value: unknown) =>
+  roundTo(roundWeight(value), weightDecimals).toFixed(weightDecimals);
+
+export const formatAmount = (value: unknown) =>
+  roundAmount(value).toFixed(AMOUNT_DECIMALS);
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+// Adds up stored line values the same way the forms total them
+export const sumWeights = (values: unknown[]) =>
+  roundWeight(sum(values.map(roundWeight)));
+
+export const sumAmounts = (values: unknown[]) =>
+  roundAmount(sum(values.map(roundAmount)));
+
+// ---- Shop receipts ----
+
+export interface GivenItemInput {
+  grossWt?: number | string;
+  stoneWt?: number | string;
+  meltingTouch?: number | string;
+  stoneAmt?: number | string;
+}
+
+export interface ReceivedItemInput {
+  receivedGold?: number | string;
+  melting?: number | string;
+}
+
+// Fine gold in an ornament handed over: (gross - stone) at the given touch
+export const calculateGivenItem = (item: GivenItemInput) => {
+  const netWt = roundWeight(toNumber(item.grossWt) - toNumber(item.stoneWt));
+  const finalWt = roundWeight((netWt * toNumber(item.meltingTouch)) / 100);
+  return { netWt, finalWt };
+};
+
+// Fine gold returned by the shop: the received weight less the melting loss
+export const calculateReceivedItem = (item: ReceivedItemInput) => {
+  const receivedGold = toNumber(item.receivedGold);
+  const finalWt = roundWeight(
+    receivedGold - (receivedGold * toNumber(item.melting)) / 100
+  );
+  return { finalWt };
+};
+
+// Totals are the sum of the already-rounded line values, never recomputed
+// from raw inputs, so a column always adds up to its footer
+export const sumGivenItems = (items: GivenItemInput[]) => {
+  const lines = items.map(calculateGivenItem);
+  return {
+    grossWt: sumWeights(items.map((item) => item.grossWt)),
+    stoneWt: sumWeights(items.map((item) => item.stoneWt)),
+    netWt: sumWeights(lines.map((l) => l.netWt)),
+    finalWt: sumWeights(lines.map((l) => l.finalWt)),
+    stoneAmt: sumAmounts(items.map((item) => item.stoneAmt)),
+  };
+};
+
+export const sumReceivedItems = (items: ReceivedItemInput[]) => ({
+  finalWt: sumWeights(items.map((item) => calculateReceivedItem(item).finalWt)),
+});
+
+// What a shop receipt adds to the client's balance. The "Previous Balance"
+// row (tag BALANCE) only carries the old balance forward, so it is left out.
+export const calculateShopReceiptNet = (
+  givenItems: (GivenItemInput & { tag?: string })[],
+  receivedItems: ReceivedItemInput[]
+) =>
+  calculateBalance(
+    sumGivenItems(givenItems.filter((item) => item.tag !== "BALANCE")).finalWt,
+    sumReceivedItems(receivedItems).finalWt
+  );
+
+// ---- Work receipts ----
+
+export interface WorkGivenItemInput {
+  pureWeight?: number | string;
+  purePercent?: number | string;
+  melting?: number | string;
+}
+
+export interface WorkReceivedItemInput {
+  finalOrnamentsWt?: number | string;
+  stoneWeight?: number | string;
+  makingChargePercent?: number | string;
+}
+
+// Metal issued to a karigar, converted at its purity over the agreed melting
+export const calculateWorkGivenItem = (item: WorkGivenItemInput) => {
+  const melting = toNumber(item.melting) || 1;
+  const total = roundWeight(
+    (toNumber(item.pureWeight) * toNumber(item.purePercent)) / melting
+  );
+  return { total };
+};
+
+// Finished ornaments: net of stones, plus the making charge taken in metal
+export const calculateWorkReceivedItem = (item: WorkReceivedItemInput) => {
+  const subTotal = roundWeight(
+    toNumber(item.finalOrnamentsWt) - toNumber(item.stoneWeight)
+  );
+  const total = roundWeight(
+    subTotal * (1 + toNumber(item.makingChargePercent) / 100)
+  );
+  return { subTotal, total };
+};
+
+export const sumWorkGivenItems = (items: WorkGivenItemInput[]) => ({
+  totalPureWeight: sumWeights(
+    items.map(
+      (item) => (toNumber(item.pureWeight) * toNumber(item.purePercent)) / 100
+    )
+  ),
+  total: sumWeights(items.map((item) => calculateWorkGivenItem(item).total)),
+});
+
+export const sumWorkReceivedItems = (items: WorkReceivedItemInput[]) => {
+  const lines = items.map(calculateWorkReceivedItem);
+  return {
+    totalOrnamentsWt: sumWeights(items.map((item) => item.finalOrnamentsWt)),
+    totalStoneWeight: sumWeights(items.map((item) => item.stoneWeight)),
+    totalSubTotal: sumWeights(lines.map((l) => l.subTotal)),
+    total: sumWeights(lines.map((l) => l.total)),
+  };
+};
+
+// ---- Balances ----
+
+// What the client owes in fine metal after this receipt
+export const calculateBalance = (
+  givenTotal: unknown,
+  receivedTotal: unknown,
+  previousBalance: unknown = 0
+) =>
+  roundWeight(
+    roundWeight(givenTotal) -
+      roundWeight(receivedTotal) +
+      roundWeight(previousBalance)
+  );
+
+// A client's balance is the sum of their ledger entries
+export const calculateLedgerBalance = (entries: { amount: unknown }[]) =>
+  sumWeights(entries.map((entry) => entry.amount));
@@ -0,0 +1,62 @@
+import { endOfDay } from "date-fns";
+import { AppliedRate, MetalRate } from "@/models/MetalRate";
+import { AMOUNT_DECIMALS, roundAmount, toNumber } from "./metal-calculations";
+
+// Purities the register takes for each metal, finest first
+export const METAL_PURITIES: Record<string, string[]> = {
+  Gold: ["24K", "22K", "18K"],
+  Silver: ["999", "925"],
+  Platinum: ["950"],
+};
+
+export const RATE_METALS = Object.keys(METAL_PURITIES);
+
+// Balances and receipt totals are in fine metal, so they are valued at the
+// finest purity recorded for the metal
+export const finePurity = (metal: string) =>
+  METAL_PURITIES[metal]?.[0] ?? METAL_PURITIES.Gold[0];
+
+// Work receipts don't record a metal; the workshop only handles gold
+export const WORK_RECEIPT_METAL = "Gold";
+
+const time = (value: string | Date) => new Date(value).getTime();
+
+// The rate in force on a date: the last one recorded on or before it
+export const findApplicableRate = (
+  rates: MetalRate[],
+  metal: string,
+  date: Date = new Date(),
+  purity: string = finePurity(metal)
+): MetalRate | undefined => {
+  const cutoff = endOfDay(date).getTime();
+  return rates
+    .filter(
+      (rate) =>
+        rate.metal === metal &&
+        rate.purity === purity &&
+        time(rate.date) <= cutoff
+    )
+    .sort(
+      (a, b) =>
+        time(b.date) - time(a.date) || time(b.createdAt) - time(a.createdAt)
+    )[0];
+};
+
+export const toAppliedRate = (rate: MetalRate): AppliedRate => ({
+  metal: rate.metal,
+  purity: rate.purity,
+  ratePerGram: rate.ratePerGram,
+  date: rate.date,
+});
+
+// Rupee value of a fine weight, or null when no rate applies
+export const valueAtRate = (
+  fineWeight: unknown,
+  rate?: Pick<AppliedRate, "ratePerGram"> | null
+) => (rate ? roundAmount(toNumber(fineWeight) * rate.ratePerGram) : null);
+
+export const formatRupees = (amount: unknown) =>
+  `₹${roundAmount(amount).toLocaleString("en-IN", {
+    minimumFractionDigits: AMOUNT_DECIMALS,
+    maximumFractionDigits: AMOUNT_DECIMALS,
+  })}`;
@@ -0,0 +1,84 @@
+import { PendingWrite } from "@/models/PendingWrite";
+
+// Saves waiting to reach the server, kept in IndexedDB so they survive a
+// closed tab or a restart. Every change fires PENDING_WRITES_CHANGED_EVENT.
+
+const DB_NAME = "goldsmith-offline";
+const DB_VERSION = 1;
+const STORE = "pendingWrites";
+
+export const PENDING_WRITES_CHANGED_EVENT = "pending-writes-changed";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request and resolve once its transaction has committed
+const runInStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notifyChanged = () =>
+  window.dispatchEvent(new Event(PENDING_WRITES_CHANGED_EVENT));
+
+// Oldest first, the order they have to reach the server in
+export const getPendingWrites = async (): Promise<PendingWrite[]> => {
+  const writes = await runInStore<PendingWrite[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return writes.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const getPendingWrite = (id: string) =>
+  runInStore<PendingWrite | undefined>("readonly", (store) => store.get(id));
+
+export const putPendingWrite = async (write: PendingWrite) => {
+  await runInStore("readwrite", (store) => store.put(write));
+  notifyChanged();
+};
+
+export const deletePendingWrite = async (id: string) => {
+  await runInStore("readwrite", (store) => store.delete(id));
+  notifyChanged();
+};
+
+const DEVICE_KEY = "offlineDeviceId";
+const COUNTER_KEY = "offlineVoucherCounter";
+
+// Stand-in number shown on a receipt until the server numbers it, e.g.
+// OFF-K3F9-0007. The device part keeps two counters from clashing.
+export const nextProvisionalVoucherId = () => {
+  let device = localStorage.getItem(DEVICE_KEY);
+  if (!device) {
+    device = Math.random().toString(36).slice(2, 6).toUpperCase();
+    localStorage.setItem(DEVICE_KEY, device);
+  }
+  const next = Number(localStorage.getItem(COUNTER_KEY) || 0) + 1;
+  localStorage.setItem(COUNTER_KEY, String(next));
+  return `OFF-${device}-${String(next).padStart(4, "0")}`;
+};
@@ -0,0 +1,27 @@
+import { OldGoldItem, PurityTestMethod } from "@/models/OldGoldPurchase";
+import { roundWeight, sumWeights, toNumber } from "./metal-calculations";
+
+export const testMethodLabels: Record<PurityTestMethod, string> = {
+  touchstone: "Touchstone",
+  xrf: "XRF",
+};
+
+// Net is what is left to melt; fine is the pure metal in it at the tested
+// touch
+export const calculateOldGoldItem = (item: OldGoldItem) => {
+  const netWeight = roundWeight(
+    toNumber(item.grossWeight) -
+      toNumber(item.stoneWeight) -
+      toNumber(item.dustWeight)
+  );
+  return {
+    netWeight,
+    fineWeight: roundWeight((netWeight * toNumber(item.touch)) / 100),
+  };
+};
+
+export const calculateOldGoldTotals = (items: OldGoldItem[]) => ({
+  grossWeight: sumWeights(items.map((item) => item.grossWeight)),
+  netWeight: sumWeights(items.map((item) => item.netWeight)),
+  fineWeight: sumWeights(items.map((item) => item.fineWeight)),
+});
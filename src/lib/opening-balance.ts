@@ -0,0 +1,77 @@
+import { Client } from "@/models/Client";
+import { LedgerEntry, LedgerEntryInput } from "@/models/LedgerEntry";
+import { roundWeight } from "./metal-calculations";
+
+// Clients from before the ledger carry the balance the old forms kept on the
+// client record. It goes into the ledger once, as an opening entry dated
+// from when the client was added, ahead of everything posted since.
+export const OPENING_BALANCE_REASON = "Opening balance carried over";
+
+export const isOpeningEntry = (entry: LedgerEntry) =>
+  entry.sourceType === "opening";
+
+const earliest = (dates: (string | Date | undefined)[]) => {
+  const times = dates
+    .map((date) => new Date(date).getTime())
+    .filter((time) => !isNaN(time));
+  return times.length ? new Date(Math.min(...times)) : null;
+};
+
+// The entry to post, or null when it is posted already or there is nothing
+// to carry over
+export const openingEntryFor = (
+  client: Client,
+  entries: LedgerEntry[]
+): LedgerEntryInput | null => {
+  const amount = roundWeight(client.balance);
+  if (amount === 0 || entries.some(isOpeningEntry)) return null;
+  return {
+    clientId: client._id,
+    type: "adjustment",
+    amount,
+    date:
+      earliest([client.createdAt, ...entries.map((entry) => entry.date)]) ||
+      new Date(),
+    sourceType: "opening",
+    sourceId: client._id,
+    reason: OPENING_BALANCE_REASON,
+  };
+};
+
+// Until the opening entry is posted, the stored balance stands in for it so
+// the ledger, the statement and new receipts start from the right figure
+export const withOpeningBalance = (
+  entries: LedgerEntry[],
+  client: Client
+): LedgerEntry[] => {
+  const opening = openingEntryFor(client, entries);
+  if (!opening) return entries;
+  return [
+    {
+      ...opening,
+      _id: `opening-${client._id}`,
+      createdBy: { _id: "", name: "-" },
+      createdAt: opening.date,
+    } as LedgerEntry,
+    ...entries,
+  ];
+};
+
+// A stand-in from withOpeningBalance rather than a posted entry
+export const isPendingOpening = (entry: LedgerEntry) =>
+  entry._id === `opening-${entry.clientId}`;
+
+// Receipts saved before the ledger never posted to it; the stored balance,
+// and so the opening entry, already counts them
+export const isBeforeLedger = (
+  receipt: { _id: string; createdAt: string | Date },
+  entries: LedgerEntry[]
+) => {
+  if (entries.some((entry) => entry.sourceId === receipt._id)) return false;
+  const ledgerStart = earliest(
+    entries
+      .filter((entry) => !isOpeningEntry(entry))
+      .map((entry) => entry.createdAt)
+  );
+  return !ledgerStart || new Date(receipt.createdAt) < ledgerStart;
+};
@@ -0,0 +1,31 @@
+import { differenceInCalendarDays } from "date-fns";
+import { Order, OrderStatus } from "@/models/Order";
+
+// The pipeline, in the order an order moves through it
+export const ORDER_STATUSES: OrderStatus[] = [
+  "ordered",
+  "issued",
+  "in-progress",
+  "received",
+  "delivered",
+];
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  ordered: "Ordered",
+  issued: "Issued to Karigar",
+  "in-progress": "In Progress",
+  received: "Received",
+  delivered: "Delivered",
+};
+
+export const nextOrderStatus = (status: OrderStatus) =>
+  ORDER_STATUSES[ORDER_STATUSES.indexOf(status) + 1];
+
+// Days past the due date, 0 if not yet due or already delivered
+export const daysOverdue = (order: Order, today: Date = new Date()) =>
+  order.status === "delivered"
+    ? 0
+    : Math.max(differenceInCalendarDays(today, new Date(order.dueDate)), 0);
+
+export const isOverdue = (order: Order, today?: Date) =>
+  daysOverdue(order, today) > 0;
@@ -0,0 +1,67 @@
+import { jsPDF } from "jspdf";
+import { Ornament } from "@/models/Ornament";
+import { encodeCode128 } from "./barcode";
+import { formatWeight } from "./metal-calculations";
+import { purityLabel } from "./stock";
+
+// One label per page, sized for the barbell tags tied to jewellery: the
+// barcode on one wing, the weights on the other, folding round the piece
+export const LABEL_WIDTH = 56;
+export const LABEL_HEIGHT = 12;
+const WING_WIDTH = 26;
+const BARCODE_HEIGHT = 7;
+
+export const generateOrnamentLabels = (ornaments: Ornament[]) => {
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "mm",
+    format: [LABEL_HEIGHT, LABEL_WIDTH],
+  });
+
+  ornaments.forEach((ornament, index) => {
+    if (index > 0) doc.addPage([LABEL_HEIGHT, LABEL_WIDTH], "landscape");
+
+    const barcode = encodeCode128(ornament.tagNumber);
+    const moduleWidth = WING_WIDTH / barcode.width;
+    doc.setFillColor(0, 0, 0);
+    barcode.bars.forEach((bar) =>
+      doc.rect(
+        1 + bar.x * moduleWidth,
+        1,
+        bar.width * moduleWidth,
+        BARCODE_HEIGHT,
+        "F"
+      )
+    );
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(6);
+    doc.text(ornament.tagNumber, 1 + WING_WIDTH / 2, BARCODE_HEIGHT + 3, {
+      align: "center",
+    });
+
+    const textX = LABEL_WIDTH - WING_WIDTH + 1;
+    doc.setFontSize(5.5);
+    doc.text(ornament.itemName.slice(0, 22), textX, 3);
+    doc.setFont("helvetica", "normal");
+    doc.text(
+      `${ornament.metal} ${purityLabel(ornament.metal, ornament.touch)}`,
+      textX,
+      5.5
+    );
+    doc.text(
+      `G ${formatWeight(ornament.grossWeight)}  S ${formatWeight(
+        ornament.stoneWeight
+      )}`,
+      textX,
+      8
+    );
+    doc.setFont("helvetica", "bold");
+    doc.text(`N ${formatWeight(ornament.netWeight)}g`, textX, 10.5);
+  });
+
+  doc.save(
+    ornaments.length === 1
+      ? `label-${ornaments[0].tagNumber}.pdf`
+      : `labels-${ornaments.length}.pdf`
+  );
+};
@@ -0,0 +1,24 @@
+import { Ornament } from "@/models/Ornament";
+import { ReceiptItem } from "@/models/Receipt";
+
+export const ORNAMENT_CATEGORIES = [
+  "Rings",
+  "Chains",
+  "Necklaces",
+  "Bangles",
+  "Earrings",
+  "Pendants",
+  "Anklets",
+  "Coins",
+];
+
+// What a scanned tag fills in on a shop receipt's given row
+export const ornamentToReceiptItem = (
+  ornament: Ornament
+): Partial<ReceiptItem> => ({
+  itemName: ornament.itemName,
+  tag: ornament.tagNumber,
+  grossWt: ornament.grossWeight,
+  stoneWt: ornament.stoneWeight,
+  meltingTouch: ornament.touch,
+});
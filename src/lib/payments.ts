@@ -0,0 +1,100 @@
+import { LedgerEntry } from "@/models/LedgerEntry";
+import { Payment, PaymentMethod } from "@/models/Payment";
+import { Receipt } from "@/models/Receipt";
+import {
+  calculateBalance,
+  calculateLedgerBalance,
+  roundWeight,
+  sumWeights,
+  toNumber,
+} from "./metal-calculations";
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  bank: "Bank transfer",
+  metal: "Metal",
+};
+
+// Fine grams a rupee amount buys at the rate
+export const fineForAmount = (amount: unknown, ratePerGram: unknown) => {
+  const rate = toNumber(ratePerGram);
+  return rate > 0 ? roundWeight(toNumber(amount) / rate) : 0;
+};
+
+// Pure metal in what the client handed over
+export const fineForMetal = (weight: unknown, touch: unknown) =>
+  roundWeight((toNumber(weight) * toNumber(touch)) / 100);
+
+export interface ReceiptDue {
+  receipt: Receipt;
+  due: number; // Fine grams the receipt put on the balance
+  paid: number; // Fine grams allocated to it so far
+  outstanding: number;
+}
+
+// What each shop receipt still owes: its net posting on the ledger less the
+// payments already set against it
+export const receiptDues = (
+  receipts: Receipt[],
+  ledgerEntries: LedgerEntry[],
+  payments: Payment[]
+): ReceiptDue[] =>
+  receipts
+    .filter((receipt) => receipt.status !== "cancelled")
+    .map((receipt) => {
+      const due = calculateLedgerBalance(
+        ledgerEntries.filter((entry) => entry.sourceId === receipt._id)
+      );
+      const paid = sumWeights(
+        payments.flatMap((payment) =>
+          payment.allocations
+            .filter((allocation) => allocation.receiptId === receipt._id)
+            .map((allocation) => allocation.fineWeight)
+        )
+      );
+      return {
+        receipt,
+        due,
+        paid,
+        outstanding: Math.max(calculateBalance(due, paid), 0),
+      };
+    });
+
+export const paymentStatusFor = (
+  due: number,
+  paid: number
+): Receipt["paymentStatus"] =>
+  paid <= 0 ? "Pending" : paid >= due ? "Paid" : "Partial";
+
+// A receipt's status, worked out each time it is shown from what is set
+// against it and what it posts now, so it follows later edits. A cancelled
+// receipt owes nothing and has no status; what was set against it no longer
+// counts anywhere.
+export const receiptPaymentStatus = (
+  receipt: Receipt,
+  ledgerEntries: LedgerEntry[],
+  payments: Payment[]
+): Receipt["paymentStatus"] | undefined => {
+  const [due] = receiptDues([receipt], ledgerEntries, payments);
+  return due ? paymentStatusFor(due.due, due.paid) : undefined;
+};
+
+// Spread a payment over the receipts, oldest first
+export const allocateOldestFirst = (dues: ReceiptDue[], fineWeight: number) => {
+  let remaining = roundWeight(fineWeight);
+  return [...dues]
+    .sort(
+      (a, b) =>
+        new Date(a.receipt.issueDate).getTime() -
+        new Date(b.receipt.issueDate).getTime()
+    )
+    .reduce<Record<string, number>>((allocations, { receipt, outstanding }) => {
+      const share = Math.min(outstanding, remaining);
+      if (share > 0) {
+        allocations[receipt._id] = share;
+        remaining = calculateBalance(remaining, share);
+      }
+      return allocations;
+    }, {});
+};
@@ -0,0 +1,120 @@
+import { jsPDF } from "jspdf";
+import { UserOptions } from "jspdf-autotable";
+import { getSettings } from "./settings";
+
+// Shared look for every PDF we hand to a client: golden page border, logo at
+// the top centre, plain black-on-white grid tables, business details and the
+// footer text from Settings along the bottom
+
+export const brandTableStyles: Partial<UserOptions> = {
+  theme: "grid",
+  styles: { fontSize: 8, cellPadding: 2, textColor: [0, 0, 0] },
+  headStyles: {
+    fillColor: [255, 255, 255],
+    textColor: [0, 0, 0],
+    fontStyle: "bold",
+    lineWidth: 0.1,
+    lineColor: [0, 0, 0],
+  },
+  bodyStyles: {
+    lineWidth: 0.1,
+    lineColor: [0, 0, 0],
+  },
+};
+
+export const drawBrandLogo = (
+  doc: jsPDF,
+  x = 85,
+  y = 5,
+  width = 40,
+  height = 20
+) => {
+  const { logo } = getSettings().business;
+  if (!logo) return;
+  try {
+    // Uploaded logos are data URLs; the bundled one is a JPEG
+    const imageFormat = logo.startsWith("data:image/png") ? "PNG" : "JPEG";
+    doc.addImage(logo, imageFormat, x, y, width, height);
+  } catch (logoError) {
+    console.warn("Logo not found, continuing without logo");
+  }
+};
+
+export const drawBrandFrame = (doc: jsPDF) => {
+  doc.setDrawColor(204, 153, 0); // Golden border color (RGB)
+  doc.setLineWidth(1);
+  doc.rect(5, 5, 200, 287); // A4 page border (210x297 mm, with 5mm margin)
+
+  drawBrandLogo(doc);
+
+  doc.setTextColor(0, 0, 0);
+};
+
+// Call just before saving so it lands on every page the tables added
+export const drawBrandFooter = (doc: jsPDF) => {
+  const { business, pdfFooter } = getSettings();
+  const details = [
+    business.name,
+    business.address.replace(/\s*\n\s*/g, ", "),
+    business.phoneNumber,
+    business.gstin && `GSTIN: ${business.gstin}`,
+  ]
+    .filter(Boolean)
+    .join("  •  ");
+  const lines = [details, pdfFooter].filter(Boolean);
+  if (lines.length === 0) return;
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(80, 80, 80);
+    lines.forEach((line, index) => {
+      doc.text(
+        line,
+        pageWidth / 2,
+        pageHeight - 9 - (lines.length - 1 - index) * 4,
+        { align: "center", maxWidth: pageWidth - 20 }
+      );
+    });
+  }
+  doc.setTextColor(0, 0, 0);
+};
+
+// Faint diagonal stamp across every page of a cancelled receipt; call before
+// the footer so the footer stays readable on top
+export const drawCancelledWatermark = (doc: jsPDF) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(80);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(240, 180, 180);
+    doc.text("CANCELLED", pageWidth / 2, pageHeight / 2, {
+      align: "center",
+      angle: 30,
+    });
+  }
+  doc.setTextColor(0, 0, 0);
+};
+
+// Bold label, then ": value" lined up in a second column
+export const drawLabelledField = (
+  doc: jsPDF,
+  label: string,
+  value: string,
+  x: number,
+  y: number
+) => {
+  doc.setFont("helvetica", "bold");
+  doc.text(label, x, y);
+  doc.setFont("helvetica", "normal");
+  doc.text(`: ${value || "-"}`, x + 35, y);
+};
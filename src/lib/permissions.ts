@@ -0,0 +1,65 @@
+import { UserRole } from "@/models/User";
+
+export type Permission =
+  | "clients:create"
+  | "clients:edit"
+  | "clients:delete"
+  | "receipts:create"
+  | "receipts:edit"
+  | "receipts:delete"
+  | "receipts:request-delete"
+  | "ledger:adjust"
+  | "ledger:reverse"
+  | "settings:manage"
+  | "rates:manage"
+  | "karigars:manage"
+  | "orders:manage"
+  | "inventory:manage"
+  | "ornaments:manage"
+  | "users:manage";
+
+export const roleLabels: Record<UserRole, string> = {
+  owner: "Owner",
+  staff: "Counter Staff",
+  accountant: "Accountant (read-only)",
+};
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  owner: [
+    "clients:create",
+    "clients:edit",
+    "clients:delete",
+    "receipts:create",
+    "receipts:edit",
+    "receipts:delete",
+    "ledger:adjust",
+    "ledger:reverse",
+    "settings:manage",
+    "rates:manage",
+    "karigars:manage",
+    "orders:manage",
+    "inventory:manage",
+    "ornaments:manage",
+    "users:manage",
+  ],
+  // Counter staff can enter new work but cannot change or remove saved receipts;
+  // they may ask an owner to delete one instead
+  staff: [
+    "clients:create",
+    "clients:edit",
+    "receipts:create",
+    "receipts:request-delete",
+    "orders:manage",
+    "ornaments:manage",
+  ],
+  // Accountants only read data and export PDFs
+  accountant: [],
+};
+
+export function hasPermission(
+  role: UserRole | undefined,
+  permission: Permission
+): boolean {
+  if (!role) return false;
+  return rolePermissions[role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,132 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { OldGoldPurchase } from "@/models/OldGoldPurchase";
+import { formatWeight, toNumber } from "./metal-calculations";
+import { formatRupees } from "./metal-rates";
+import { testMethodLabels } from "./old-gold";
+import {
+  brandTableStyles,
+  drawBrandFooter,
+  drawBrandFrame,
+  drawLabelledField,
+} from "./pdf-branding";
+
+export const generatePurchaseVoucher = (purchase: OldGoldPurchase) => {
+  const doc = new jsPDF("p", "mm", "a4");
+  drawBrandFrame(doc);
+
+  const marginLeft = 25;
+  let y = 35;
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("Old Gold Purchase Voucher", 105, y, { align: "center" });
+  y += 10;
+
+  doc.setFontSize(11);
+  drawLabelledField(doc, "Voucher", purchase.voucherId, marginLeft, y);
+  y += 6;
+  drawLabelledField(
+    doc,
+    "Date",
+    format(new Date(purchase.date), "dd MMM yyyy"),
+    marginLeft,
+    y
+  );
+  y += 6;
+  drawLabelledField(doc, "Customer", purchase.clientName, marginLeft, y);
+  y += 4;
+
+  autoTable(doc, {
+    ...brandTableStyles,
+    startY: y + 3,
+    head: [
+      [
+        "S.NO",
+        "Description",
+        "Gross (g)",
+        "Stone (g)",
+        "Dust (g)",
+        "Net (g)",
+        "Tested By",
+        "Touch %",
+        "Fine (g)",
+      ],
+    ],
+    body: [
+      ...purchase.items.map((item, index) => [
+        index + 1,
+        item.description,
+        formatWeight(item.grossWeight),
+        formatWeight(item.stoneWeight),
+        formatWeight(item.dustWeight),
+        formatWeight(item.netWeight),
+        testMethodLabels[item.testMethod],
+        toNumber(item.touch).toFixed(2),
+        formatWeight(item.fineWeight),
+      ]),
+      [
+        "",
+        "Total",
+        formatWeight(purchase.totals.grossWeight),
+        "",
+        "",
+        formatWeight(purchase.totals.netWeight),
+        "",
+        "",
+        formatWeight(purchase.totals.fineWeight),
+      ],
+    ],
+    columnStyles: {
+      2: { halign: "right" },
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+      7: { halign: "right" },
+      8: { halign: "right" },
+    },
+    margin: { left: 15, right: 15 },
+  });
+
+  y =
+    (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable
+      .finalY + 10;
+  doc.setFontSize(11);
+  drawLabelledField(
+    doc,
+    "Rate",
+    `${formatRupees(purchase.appliedRate.ratePerGram)} per g, ${
+      purchase.appliedRate.metal
+    } ${purchase.appliedRate.purity}`,
+    marginLeft,
+    y
+  );
+  y += 6;
+  drawLabelledField(
+    doc,
+    "Net Value",
+    formatRupees(purchase.value),
+    marginLeft,
+    y
+  );
+  y += 6;
+  drawLabelledField(
+    doc,
+    "Settlement",
+    purchase.settlement === "credit"
+      ? `${formatWeight(purchase.totals.fineWeight)}g fine credited to balance`
+      : `${formatRupees(purchase.value)} paid`,
+    marginLeft,
+    y
+  );
+
+  // Both parties sign for the metal changing hands
+  y += 25;
+  doc.setFont("helvetica", "normal");
+  doc.text("Customer's signature", marginLeft, y);
+  doc.text("For the shop", 185, y, { align: "right" });
+
+  drawBrandFooter(doc);
+  doc.save(`purchase-${purchase.voucherId}.pdf`);
+};
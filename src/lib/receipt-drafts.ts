@@ -0,0 +1,30 @@
+import { ReceiptDraft } from "@/models/ReceiptDraft";
+
+// Drafts that could not reach the server, kept in localStorage until the
+// next autosave with a connection moves them up
+
+const DEVICE_DRAFTS_KEY = "receiptDrafts";
+export const DEVICE_DRAFT_PREFIX = "device-";
+
+export const isDeviceDraftId = (id?: string) =>
+  !!id && id.startsWith(DEVICE_DRAFT_PREFIX);
+
+export const getDeviceDrafts = (): ReceiptDraft[] => {
+  try {
+    return JSON.parse(localStorage.getItem(DEVICE_DRAFTS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const setDeviceDrafts = (drafts: ReceiptDraft[]) =>
+  localStorage.setItem(DEVICE_DRAFTS_KEY, JSON.stringify(drafts));
+
+export const putDeviceDraft = (draft: ReceiptDraft) =>
+  setDeviceDrafts([
+    ...getDeviceDrafts().filter((d) => d._id !== draft._id),
+    draft,
+  ]);
+
+export const deleteDeviceDraft = (id: string) =>
+  setDeviceDrafts(getDeviceDrafts().filter((d) => d._id !== id));
@@ -0,0 +1,82 @@
+import { ReceiptItem, ReceivedItem } from "@/models/Receipt";
+
+// Field name to message, for the fields of one row that need fixing
+export type ItemErrors = { [field: string]: string };
+
+// A shop receipt's given row. The previous balance row is whatever the
+// ledger says, so it is never checked.
+export const validateItem = (item: ReceiptItem): ItemErrors => {
+  const errors: ItemErrors = {};
+
+  if (item.tag?.toUpperCase() === "BALANCE") {
+    return errors; // Skip validation for balance rows
+  }
+
+  const gross = Number(item.grossWt);
+  const stone = Number(item.stoneWt);
+  const melt = Number(item.meltingTouch);
+
+  if (!item.itemName?.trim()) {
+    errors.itemName = "Item name is required";
+  }
+  if (item.grossWt === "" || !Number.isFinite(gross) || gross <= 0) {
+    errors.grossWt = "Gross weight must be greater than 0";
+  }
+  if (item.stoneWt !== "" && (!Number.isFinite(stone) || stone < 0)) {
+    errors.stoneWt = "Stone weight cannot be negative";
+  }
+  if (
+    item.meltingTouch === "" ||
+    !Number.isFinite(melt) ||
+    melt <= 0 ||
+    melt > 100
+  ) {
+    errors.meltingTouch = "Melting % must be between 1 and 100";
+  }
+  if (Number.isFinite(stone) && Number.isFinite(gross) && stone > gross) {
+    errors.stoneWt = "Stone weight cannot exceed gross weight";
+  }
+
+  return errors;
+};
+
+// A shop receipt's received row; a row left completely empty is fine
+export const validateReceivedItem = (item: ReceivedItem): ItemErrors => {
+  const errors: ItemErrors = {};
+
+  const recGold = Number(item.receivedGold);
+  const recMelt = Number(item.melting);
+
+  // Only validate if there's some input - allow completely empty items
+  const hasAnyInput = item.receivedGold !== "" || item.melting !== "";
+
+  if (hasAnyInput) {
+    if (item.receivedGold === "" || !Number.isFinite(recGold) || recGold <= 0) {
+      errors.receivedGold = "Received gold must be greater than 0";
+    }
+    if (
+      item.melting === "" ||
+      !Number.isFinite(recMelt) ||
+      recMelt <= 0 ||
+      recMelt > 100
+    ) {
+      errors.melting = "Melting % must be between 1 and 100";
+    }
+  }
+
+  return errors;
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || String(value).trim() === "";
+
+// A row nothing was typed into, such as the spare one the keyboard adds past
+// the end. Its melting is filled in from the row above, so that alone does
+// not count; such rows are left off the receipt rather than checked.
+export const isBlankItem = (item: ReceiptItem) =>
+  [item.itemName, item.tag, item.grossWt, item.stoneWt, item.stoneAmt].every(
+    isEmpty
+  );
+
+export const isBlankReceivedItem = (item: ReceivedItem) =>
+  [item.receivedGold, item.stoneWt, item.stoneAmt].every(isEmpty);
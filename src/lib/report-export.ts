@@ -0,0 +1,92 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { Report, ReportColumn, ReportRow } from "./reports";
+import { formatWeight } from "./metal-calculations";
+import {
+  brandTableStyles,
+  drawBrandFooter,
+  drawBrandFrame,
+} from "./pdf-branding";
+
+// The text a report cell shows on screen, in the CSV and in the PDF
+export const formatReportCell = (row: ReportRow, column: ReportColumn) => {
+  const value = row[column.key];
+  if (column.weight) return formatWeight(value);
+  return value === undefined || value === null ? "" : String(value);
+};
+
+const reportBody = (report: Report) =>
+  [...report.rows, ...(report.totals ? [report.totals] : [])].map((row) =>
+    report.columns.map((column) => formatReportCell(row, column))
+  );
+
+const csvField = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const downloadReportCsv = (report: Report, fileName: string) => {
+  const lines = [
+    report.columns.map((column) => column.label),
+    ...reportBody(report),
+  ].map((cells) => cells.map(csvField).join(","));
+
+  const blob = new Blob([lines.join("\n")], {
+    type: "text/csv;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadReportPdf = (
+  report: Report,
+  title: string,
+  subtitle: string,
+  fileName: string
+) => {
+  const doc = new jsPDF("p", "mm", "a4");
+  drawBrandFrame(doc);
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text(title, 105, 35, { align: "center" });
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(subtitle, 105, 41, { align: "center" });
+
+  const body = reportBody(report);
+  const subtotalRows = new Set(
+    report.rows
+      .map((row, index) => (row.isSubtotal ? index : -1))
+      .filter((index) => index >= 0)
+  );
+  const totalsIndex = report.totals ? body.length - 1 : -1;
+
+  autoTable(doc, {
+    ...brandTableStyles,
+    startY: 46,
+    head: [report.columns.map((column) => column.label)],
+    body,
+    didParseCell: function (data) {
+      if (
+        data.section === "body" &&
+        (subtotalRows.has(data.row.index) || data.row.index === totalsIndex)
+      ) {
+        data.cell.styles.fontStyle = "bold";
+        data.cell.styles.fillColor = [240, 240, 240];
+      }
+    },
+    columnStyles: Object.fromEntries(
+      report.columns
+        .map((column, index) => [index, column] as const)
+        .filter(([, column]) => column.weight)
+        .map(([index]) => [index, { halign: "right" as const }])
+    ),
+    margin: { left: 10, right: 10 },
+  });
+
+  drawBrandFooter(doc);
+  doc.save(`${fileName}.pdf`);
+};
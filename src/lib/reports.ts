@@ -0,0 +1,534 @@
+import {
+  differenceInCalendarDays,
+  endOfDay,
+  format,
+  startOfDay,
+} from "date-fns";
+import { Receipt } from "@/models/Receipt";
+import { AdminReceipt } from "@/models/AdminReceipt";
+import {
+  calculateBalance,
+  calculateReceivedItem,
+  calculateWorkReceivedItem,
+  roundTo,
+  roundWeight,
+  sumGivenItems,
+  sumReceivedItems,
+  sumWeights,
+  toNumber,
+} from "./metal-calculations";
+import { jobIssued, jobReturned } from "./karigars";
+
+export const METAL_TYPES = ["Gold", "Silver", "Platinum", "Other"];
+
+export interface ReportFilters {
+  from: Date;
+  to: Date;
+  metalType: string; // "all" or one of METAL_TYPES
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  weight?: boolean; // Fine-gram column: right aligned, shown to 3 decimals
+}
+
+// Keyed by column; isSubtotal marks per-group rows such as day totals
+export type ReportRow = Record<string, string | number | boolean>;
+
+export interface Report {
+  columns: ReportColumn[];
+  rows: ReportRow[];
+  totals?: ReportRow;
+}
+
+// Work receipts do not record a metal, so they only appear when the report
+// is not narrowed to one metal
+const UNSPECIFIED_METAL = "-";
+
+// One dated movement of fine metal, the common shape every report reads from
+interface Movement {
+  date: Date;
+  voucherId: string;
+  kind: "Shop" | "Work";
+  clientId: string;
+  clientName: string;
+  metalType: string;
+  given: number;
+  received: number;
+}
+
+const shopGivenItems = (receipt: Receipt) =>
+  (receipt.givenItems || receipt.items || []).filter(
+    (item) => item.tag !== "BALANCE"
+  );
+
+const toMovements = (
+  shopReceipts: Receipt[],
+  workReceipts: AdminReceipt[]
+): Movement[] => [
+  ...shopReceipts
+    .filter((receipt) => receipt.status !== "cancelled")
+    .map((receipt) => ({
+      date: new Date(receipt.issueDate),
+      voucherId: receipt.voucherId,
+      kind: "Shop" as const,
+      clientId: receipt.clientId,
+      clientName: receipt.clientInfo?.clientName || "-",
+      metalType: receipt.metalType || UNSPECIFIED_METAL,
+      given: sumGivenItems(shopGivenItems(receipt)).finalWt,
+      received: sumReceivedItems(receipt.receivedItems || []).finalWt,
+    })),
+  ...workReceipts.flatMap((receipt) => {
+    const base = {
+      voucherId: receipt.voucherId,
+      kind: "Work" as const,
+      clientId: receipt.clientId,
+      clientName: receipt.clientName || "-",
+      metalType: UNSPECIFIED_METAL,
+    };
+    const movements: Movement[] = [];
+    if (receipt.given?.items?.length) {
+      movements.push({
+        ...base,
+        date: new Date(receipt.given.date),
+        given: roundWeight(receipt.given.total),
+        received: 0,
+      });
+    }
+    if (receipt.received?.items?.length) {
+      movements.push({
+        ...base,
+        date: new Date(receipt.received.date),
+        given: 0,
+        received: roundWeight(receipt.received.total),
+      });
+    }
+    return movements;
+  }),
+];
+
+const matchesMetal = (metalType: string, filters: ReportFilters) =>
+  filters.metalType === "all" || metalType === filters.metalType;
+
+const inRange = (date: Date, filters: ReportFilters) =>
+  !isNaN(date.getTime()) &&
+  date >= startOfDay(filters.from) &&
+  date <= endOfDay(filters.to);
+
+const byDate = (a: { date: Date }, b: { date: Date }) =>
+  a.date.getTime() - b.date.getTime();
+
+const percent = (part: number, whole: number) =>
+  whole ? roundTo((part / whole) * 100, 2).toFixed(2) : "-";
+
+// ---- Day book ----
+
+export const buildDayBook = (
+  shopReceipts: Receipt[],
+  workReceipts: AdminReceipt[],
+  filters: ReportFilters
+): Report => {
+  const movements = toMovements(shopReceipts, workReceipts)
+    .filter(
+      (m) => inRange(m.date, filters) && matchesMetal(m.metalType, filters)
+    )
+    .sort(byDate);
+
+  const rows: ReportRow[] = [];
+  let day = "";
+  let dayMovements: Movement[] = [];
+  const closeDay = () => {
+    if (!dayMovements.length) return;
+    rows.push({
+      isSubtotal: true,
+      date: day,
+      voucherId: "",
+      kind: "",
+      clientName: `${dayMovements.length} entries`,
+      metalType: "",
+      given: sumWeights(dayMovements.map((m) => m.given)),
+      received: sumWeights(dayMovements.map((m) => m.received)),
+    });
+  };
+
+  movements.forEach((m) => {
+    const movementDay = format(m.date, "dd MMM yyyy");
+    if (movementDay !== day) {
+      closeDay();
+      day = movementDay;
+      dayMovements = [];
+    }
+    dayMovements.push(m);
+    rows.push({
+      date: movementDay,
+      voucherId: m.voucherId,
+      kind: m.kind,
+      clientName: m.clientName,
+      metalType: m.metalType,
+      given: m.given,
+      received: m.received,
+    });
+  });
+  closeDay();
+
+  return {
+    columns: [
+      { key: "date", label: "Date" },
+      { key: "voucherId", label: "Voucher" },
+      { key: "kind", label: "Type" },
+      { key: "clientName", label: "Client" },
+      { key: "metalType", label: "Metal" },
+      { key: "given", label: "Given (g)", weight: true },
+      { key: "received", label: "Received (g)", weight: true },
+    ],
+    rows,
+    totals: {
+      date: "Total",
+      voucherId: "",
+      kind: "",
+      clientName: `${movements.length} entries`,
+      metalType: "",
+      given: sumWeights(movements.map((m) => m.given)),
+      received: sumWeights(movements.map((m) => m.received)),
+    },
+  };
+};
+
+// ---- Metal-wise given vs received ----
+
+export const buildMetalSummary = (
+  shopReceipts: Receipt[],
+  workReceipts: AdminReceipt[],
+  filters: ReportFilters
+): Report => {
+  const movements = toMovements(shopReceipts, workReceipts).filter(
+    (m) => inRange(m.date, filters) && matchesMetal(m.metalType, filters)
+  );
+  const metals = Array.from(new Set(movements.map((m) => m.metalType))).sort();
+
+  const summarise = (label: string, group: Movement[]): ReportRow => {
+    const given = sumWeights(group.map((m) => m.given));
+    const received = sumWeights(group.map((m) => m.received));
+    return {
+      metalType: label,
+      vouchers: new Set(group.map((m) => m.voucherId)).size,
+      given,
+      received,
+      net: calculateBalance(given, received),
+    };
+  };
+
+  return {
+    columns: [
+      { key: "metalType", label: "Metal" },
+      { key: "vouchers", label: "Vouchers" },
+      { key: "given", label: "Given (g)", weight: true },
+      { key: "received", label: "Received (g)", weight: true },
+      { key: "net", label: "Net (g)", weight: true },
+    ],
+    rows: metals.map((metal) =>
+      summarise(
+        metal === UNSPECIFIED_METAL ? "Work receipts" : metal,
+        movements.filter((m) => m.metalType === metal)
+      )
+    ),
+    totals: summarise("Total", movements),
+  };
+};
+
+// ---- Outstanding balances with ageing ----
+
+const AGEING_BUCKETS = [
+  { key: "days0to30", label: "0-30 days", maxDays: 30 },
+  { key: "days31to60", label: "31-60 days", maxDays: 60 },
+  { key: "days61to90", label: "61-90 days", maxDays: 90 },
+  { key: "days90plus", label: "90+ days", maxDays: Infinity },
+];
+
+// Receipts of metal settle the oldest metal given first, so whatever is
+// still owed is aged from the date it was handed over
+export const buildOutstanding = (
+  shopReceipts: Receipt[],
+  workReceipts: AdminReceipt[],
+  filters: ReportFilters
+): Report => {
+  const asOf = endOfDay(filters.to);
+  const movements = toMovements(shopReceipts, workReceipts)
+    .filter(
+      (m) =>
+        !isNaN(m.date.getTime()) &&
+        m.date <= asOf &&
+        matchesMetal(m.metalType, filters)
+    )
+    .sort(byDate);
+
+  const clients = new Map<string, Movement[]>();
+  movements.forEach((m) => {
+    clients.set(m.clientId, [...(clients.get(m.clientId) || []), m]);
+  });
+
+  const rows: ReportRow[] = [];
+  clients.forEach((clientMovements) => {
+    const lots: { date: Date; amount: number }[] = [];
+    let credit = 0;
+    clientMovements.forEach((m) => {
+      if (m.given) lots.push({ date: m.date, amount: m.given });
+      credit = roundWeight(credit + m.received);
+      while (credit > 0 && lots.length) {
+        const settled = Math.min(credit, lots[0].amount);
+        lots[0].amount = roundWeight(lots[0].amount - settled);
+        credit = roundWeight(credit - settled);
+        if (lots[0].amount === 0) lots.shift();
+      }
+    });
+
+    const balance = calculateBalance(
+      sumWeights(lots.map((lot) => lot.amount)),
+      credit
+    );
+    if (balance === 0) return;
+
+    const row: ReportRow = {
+      clientName: clientMovements[clientMovements.length - 1].clientName,
+      balance,
+    };
+    AGEING_BUCKETS.forEach((bucket, index) => {
+      const minDays = index === 0 ? 0 : AGEING_BUCKETS[index - 1].maxDays + 1;
+      row[bucket.key] = sumWeights(
+        lots
+          .filter((lot) => {
+            const age = differenceInCalendarDays(asOf, lot.date);
+            return age >= minDays && age <= bucket.maxDays;
+          })
+          .map((lot) => lot.amount)
+      );
+    });
+    rows.push(row);
+  });
+
+  rows.sort((a, b) => Number(b.balance) - Number(a.balance));
+
+  const totals: ReportRow = {
+    clientName: `${rows.length} clients`,
+    balance: sumWeights(rows.map((r) => r.balance)),
+  };
+  AGEING_BUCKETS.forEach((bucket) => {
+    totals[bucket.key] = sumWeights(rows.map((r) => r[bucket.key]));
+  });
+
+  return {
+    columns: [
+      { key: "clientName", label: "Client" },
+      ...AGEING_BUCKETS.map((bucket) => ({
+        key: bucket.key,
+        label: `${bucket.label} (g)`,
+        weight: true,
+      })),
+      { key: "balance", label: "Balance (g)", weight: true },
+    ],
+    rows,
+    totals,
+  };
+};
+
+// ---- Wastage / melting loss ----
+
+// Metal lost when old gold brought in by a shop is melted down: the weight
+// received less the fine weight credited for it
+export const buildWastage = (
+  shopReceipts: Receipt[],
+  filters: ReportFilters
+): Report => {
+  const rows: ReportRow[] = shopReceipts
+    .filter(
+      (receipt) =>
+        receipt.status !== "cancelled" &&
+        receipt.receivedItems?.length &&
+        inRange(new Date(receipt.issueDate), filters) &&
+        matchesMetal(receipt.metalType, filters)
+    )
+    .sort((a, b) =>
+      byDate({ date: new Date(a.issueDate) }, { date: new Date(b.issueDate) })
+    )
+    .map((receipt) => {
+      const items = receipt.receivedItems || [];
+      const receivedGold = sumWeights(items.map((item) => item.receivedGold));
+      const finalWt = sumWeights(
+        items.map((item) => calculateReceivedItem(item).finalWt)
+      );
+      const loss = roundWeight(receivedGold - finalWt);
+      return {
+        date: format(new Date(receipt.issueDate), "dd MMM yyyy"),
+        voucherId: receipt.voucherId,
+        clientName: receipt.clientInfo?.clientName || "-",
+        metalType: receipt.metalType,
+        receivedGold,
+        finalWt,
+        loss,
+        lossPercent: percent(loss, receivedGold),
+      };
+    });
+
+  const receivedGold = sumWeights(rows.map((r) => r.receivedGold));
+  const loss = sumWeights(rows.map((r) => r.loss));
+
+  return {
+    columns: [
+      { key: "date", label: "Date" },
+      { key: "voucherId", label: "Voucher" },
+      { key: "clientName", label: "Client" },
+      { key: "metalType", label: "Metal" },
+      { key: "receivedGold", label: "Received (g)", weight: true },
+      { key: "finalWt", label: "Fine (g)", weight: true },
+      { key: "loss", label: "Melting Loss (g)", weight: true },
+      { key: "lossPercent", label: "Loss %" },
+    ],
+    rows,
+    totals: {
+      date: "Total",
+      voucherId: "",
+      clientName: "",
+      metalType: "",
+      receivedGold,
+      finalWt: sumWeights(rows.map((r) => r.finalWt)),
+      loss,
+      lossPercent: percent(loss, receivedGold),
+    },
+  };
+};
+
+// ---- Making-charge income ----
+
+// Making charge on work receipts is taken in metal on top of the ornaments'
+// net weight, so income is reported in fine grams
+export const buildMakingCharges = (
+  workReceipts: AdminReceipt[],
+  filters: ReportFilters
+): Report => {
+  // Work receipts carry no metal, so a metal filter leaves nothing to show
+  const receipts = matchesMetal(UNSPECIFIED_METAL, filters) ? workReceipts : [];
+
+  const rows: ReportRow[] = receipts
+    .filter(
+      (receipt) =>
+        receipt.received?.items?.length &&
+        inRange(new Date(receipt.received.date), filters)
+    )
+    .sort((a, b) =>
+      byDate(
+        { date: new Date(a.received.date) },
+        { date: new Date(b.received.date) }
+      )
+    )
+    .map((receipt) => {
+      const lines = receipt.received.items.map(calculateWorkReceivedItem);
+      const netWt = sumWeights(lines.map((l) => l.subTotal));
+      const charge = sumWeights(
+        lines.map((l) => roundWeight(l.total - l.subTotal))
+      );
+      return {
+        date: format(new Date(receipt.received.date), "dd MMM yyyy"),
+        voucherId: receipt.voucherId,
+        clientName: receipt.clientName || "-",
+        ornamentsWt: sumWeights(
+          receipt.received.items.map((item) => toNumber(item.finalOrnamentsWt))
+        ),
+        netWt,
+        chargePercent: percent(charge, netWt),
+        charge,
+      };
+    });
+
+  const netWt = sumWeights(rows.map((r) => r.netWt));
+  const charge = sumWeights(rows.map((r) => r.charge));
+
+  return {
+    columns: [
+      { key: "date", label: "Date" },
+      { key: "voucherId", label: "Voucher" },
+      { key: "clientName", label: "Client" },
+      { key: "ornamentsWt", label: "Ornaments (g)", weight: true },
+      { key: "netWt", label: "Net of Stones (g)", weight: true },
+      { key: "chargePercent", label: "MC %" },
+      { key: "charge", label: "Making Charge (g)", weight: true },
+    ],
+    rows,
+    totals: {
+      date: "Total",
+      voucherId: "",
+      clientName: "",
+      ornamentsWt: sumWeights(rows.map((r) => r.ornamentsWt)),
+      netWt,
+      chargePercent: percent(charge, netWt),
+      charge,
+    },
+  };
+};
+
+// ---- Karigar wastage vs agreed ----
+
+// Jobs finished in the period, per karigar: the share of metal issued that
+// did not come back, against the wastage agreed when the jobs were issued
+export const buildKarigarPerformance = (
+  workReceipts: AdminReceipt[],
+  filters: ReportFilters
+): Report => {
+  const receipts = matchesMetal(UNSPECIFIED_METAL, filters) ? workReceipts : [];
+  const finished = receipts.filter(
+    (receipt) =>
+      receipt.karigarId &&
+      receipt.status === "complete" &&
+      receipt.received?.items?.length &&
+      inRange(new Date(receipt.received.date), filters)
+  );
+
+  const karigars = new Map<string, AdminReceipt[]>();
+  finished.forEach((receipt) => {
+    karigars.set(receipt.karigarId, [
+      ...(karigars.get(receipt.karigarId) || []),
+      receipt,
+    ]);
+  });
+
+  const summarise = (label: string, jobs: AdminReceipt[]): ReportRow => {
+    const issued = sumWeights(jobs.map(jobIssued));
+    const returned = sumWeights(jobs.map(jobReturned));
+    const wastage = calculateBalance(issued, returned);
+    // Allowance on each job's metal at the rate agreed for it
+    const allowed = sumWeights(
+      jobs.map(
+        (job) => (jobIssued(job) * toNumber(job.agreedWastagePercent)) / 100
+      )
+    );
+    return {
+      karigarName: label,
+      jobs: jobs.length,
+      issued,
+      returned,
+      wastage,
+      wastagePercent: percent(wastage, issued),
+      agreedPercent: percent(allowed, issued),
+      excess: calculateBalance(wastage, allowed),
+    };
+  };
+
+  const rows = Array.from(karigars.values())
+    .map((jobs) => summarise(jobs[0].karigarName || "-", jobs))
+    .sort((a, b) => Number(b.excess) - Number(a.excess));
+
+  return {
+    columns: [
+      { key: "karigarName", label: "Karigar" },
+      { key: "jobs", label: "Jobs" },
+      { key: "issued", label: "Issued (g)", weight: true },
+      { key: "returned", label: "Returned (g)", weight: true },
+      { key: "wastage", label: "Wastage (g)", weight: true },
+      { key: "wastagePercent", label: "Wastage %" },
+      { key: "agreedPercent", label: "Agreed %" },
+      { key: "excess", label: "Over Agreed (g)", weight: true },
+    ],
+    rows,
+    totals: summarise(`${rows.length} karigars`, finished),
+  };
+};
@@ -0,0 +1,25 @@
+// How well a record matches what was typed. An exact match beats a prefix,
+// a prefix beats a word starting with the text, and that beats a match
+// anywhere. Earlier fields weigh more, so list the most telling one first.
+export const matchScore = (
+  query: string,
+  fields: (string | undefined)[]
+): number => {
+  const text = query.trim().toLowerCase();
+  if (!text) return 0;
+
+  return fields.reduce((best, field, index) => {
+    const value = field?.toLowerCase();
+    if (!value) return best;
+
+    let score = 0;
+    if (value === text) score = 100;
+    else if (value.startsWith(text)) score = 75;
+    else if (value.split(/[\s\-/]+/).some((word) => word.startsWith(text)))
+      score = 50;
+    else if (value.includes(text)) score = 25;
+
+    // Each later field is worth a little less than the one before it
+    return Math.max(best, score && score - index * 5);
+  }, 0);
+};
@@ -0,0 +1,98 @@
+import { AppSettings } from "@/models/Settings";
+import {
+  DEFAULT_WEIGHT_DECIMALS,
+  setRoundingMode,
+  setWeightDecimals,
+} from "@/lib/metal-calculations";
+
+// Business-wide settings. The server holds the master copy; the last one seen
+// is cached in localStorage so PDFs and forms have it before the first fetch.
+// Code outside React (PDF generators) reads getSettings().
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  business: {
+    name: "",
+    address: "",
+    phoneNumber: "",
+    gstin: "",
+    state: "",
+    logo: "/logo.jpg",
+  },
+  vouchers: {
+    shop: { prefix: "SH-", padding: 4, financialYearReset: true },
+    work: { prefix: "GA-", padding: 4, financialYearReset: true },
+    bill: { prefix: "GB-", padding: 4, financialYearReset: true },
+    order: { prefix: "OR-", padding: 4, financialYearReset: true },
+    // Tags stay on the ornament, so they never restart
+    tag: { prefix: "TG-", padding: 5, financialYearReset: false },
+    purchase: { prefix: "PG-", padding: 4, financialYearReset: true },
+    invoice: { prefix: "INV-", padding: 4, financialYearReset: true },
+    payment: { prefix: "PY-", padding: 4, financialYearReset: true },
+  },
+  defaults: {
+    metalType: "Gold",
+    meltingTouch: 0,
+    receivedMelting: 0,
+    purePercent: 0,
+    workMelting: 0,
+  },
+  weightDecimals: DEFAULT_WEIGHT_DECIMALS,
+  roundingMode: "half-up",
+  pdfFooter: "",
+};
+
+const SETTINGS_KEY = "appSettings";
+
+// Fill in anything the stored copy is missing, e.g. fields added since it was saved
+const withDefaults = (settings: Partial<AppSettings>): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...settings,
+  business: { ...DEFAULT_SETTINGS.business, ...settings.business },
+  vouchers: {
+    shop: { ...DEFAULT_SETTINGS.vouchers.shop, ...settings.vouchers?.shop },
+    work: { ...DEFAULT_SETTINGS.vouchers.work, ...settings.vouchers?.work },
+    bill: { ...DEFAULT_SETTINGS.vouchers.bill, ...settings.vouchers?.bill },
+    order: { ...DEFAULT_SETTINGS.vouchers.order, ...settings.vouchers?.order },
+    tag: { ...DEFAULT_SETTINGS.vouchers.tag, ...settings.vouchers?.tag },
+    purchase: {
+      ...DEFAULT_SETTINGS.vouchers.purchase,
+      ...settings.vouchers?.purchase,
+    },
+    invoice: {
+      ...DEFAULT_SETTINGS.vouchers.invoice,
+      ...settings.vouchers?.invoice,
+    },
+    payment: {
+      ...DEFAULT_SETTINGS.vouchers.payment,
+      ...settings.vouchers?.payment,
+    },
+  },
+  defaults: { ...DEFAULT_SETTINGS.defaults, ...settings.defaults },
+});
+
+const readCachedSettings = (): AppSettings => {
+  try {
+    const cached = localStorage.getItem(SETTINGS_KEY);
+    return withDefaults(cached ? JSON.parse(cached) : {});
+  } catch (error) {
+    console.warn("Ignoring unreadable cached settings");
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let currentSettings = DEFAULT_SETTINGS;
+
+export const getSettings = () => currentSettings;
+
+export const applySettings = (settings: Partial<AppSettings>) => {
+  currentSettings = withDefaults(settings);
+  setWeightDecimals(currentSettings.weightDecimals);
+  setRoundingMode(currentSettings.roundingMode);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(currentSettings));
+  return currentSettings;
+};
+
+applySettings(readCachedSettings());
+
+// Value for a pre-filled percentage input; 0 means no default
+export const defaultPercent = (value: number) => (value ? String(value) : "");
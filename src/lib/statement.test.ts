@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { Client } from "@/models/Client";
+import { LedgerEntry } from "@/models/LedgerEntry";
+import { Receipt } from "@/models/Receipt";
+import { calculateLedgerBalance } from "./metal-calculations";
+import { withOpeningBalance } from "./opening-balance";
+import { buildStatement } from "./statement";
+
+const client = {
+  _id: "client-1",
+  balance: 10,
+  createdAt: "2023-06-01",
+} as Client;
+
+// A shop receipt giving the client `fine` grams of pure gold
+const shopReceipt = (_id: string, date: string, fine: number) =>
+  ({
+    _id,
+    clientId: client._id,
+    voucherId: _id.toUpperCase(),
+    issueDate: date,
+    createdAt: date,
+    status: "complete",
+    givenItems: [
+      { itemName: "Chain", grossWt: fine, stoneWt: 0, meltingTouch: 100 },
+    ],
+    receivedItems: [],
+  }) as unknown as Receipt;
+
+const entry = (
+  _id: string,
+  date: string,
+  amount: number,
+  changes: Partial<LedgerEntry> = {}
+) =>
+  ({
+    _id,
+    clientId: client._id,
+    type: "receipt",
+    date,
+    createdAt: date,
+    amount,
+    ...changes,
+  }) as LedgerEntry;
+
+const statementFor = (receipts: Receipt[], entries: LedgerEntry[]) =>
+  buildStatement({
+    shopReceipts: receipts,
+    workReceipts: [],
+    ledgerEntries: entries,
+    from: new Date("2023-01-01"),
+    to: new Date("2025-12-31"),
+  });
+
+describe("buildStatement", () => {
+  it("counts receipts from before the ledger through the opening balance", () => {
+    const entries = withOpeningBalance(
+      [entry("e1", "2025-02-01", 5, { sourceType: "shop", sourceId: "r2" })],
+      client
+    );
+    const statement = statementFor(
+      [shopReceipt("r1", "2024-01-01", 10), shopReceipt("r2", "2025-02-01", 5)],
+      entries
+    );
+
+    expect(statement.lines.map((line) => line.voucherId)).toEqual(["-", "R2"]);
+    expect(statement.closingBalance).toBe(15);
+    expect(statement.closingBalance).toBe(calculateLedgerBalance(entries));
+  });
+
+  it("keeps a cancelled receipt beside its reversal", () => {
+    const entries = [
+      entry("e1", "2025-02-01", 5, {
+        sourceType: "shop",
+        sourceId: "r2",
+        reversedByEntryId: "e2",
+      }),
+      entry("e2", "2025-03-01", -5, {
+        type: "reversal",
+        sourceType: "shop",
+        sourceId: "r2",
+        reversesEntryId: "e1",
+        reason: "Wrong client",
+      }),
+    ];
+    const cancelled = {
+      ...shopReceipt("r2", "2025-02-01", 5),
+      status: "cancelled",
+    } as Receipt;
+    const statement = statementFor(
+      [cancelled],
+      withOpeningBalance(entries, { ...client, balance: 0 })
+    );
+
+    expect(statement.lines.map((line) => line.particulars)).toEqual([
+      "Shop receipt (cancelled)",
+      "Reversal: Wrong client",
+    ]);
+    expect(statement.closingBalance).toBe(0);
+    expect(statement.closingBalance).toBe(calculateLedgerBalance(entries));
+  });
+});
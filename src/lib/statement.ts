@@ -0,0 +1,167 @@
+import { endOfDay, startOfDay } from "date-fns";
+import { Receipt } from "@/models/Receipt";
+import { AdminReceipt } from "@/models/AdminReceipt";
+import { LedgerEntry, LedgerSourceType } from "@/models/LedgerEntry";
+import {
+  calculateBalance,
+  roundWeight,
+  sumGivenItems,
+  sumReceivedItems,
+  sumWeights,
+} from "./metal-calculations";
+import { isBeforeLedger } from "./opening-balance";
+
+export interface StatementLine {
+  date: Date;
+  voucherId: string;
+  particulars: string;
+  given: number; // Fine grams added to what the client owes
+  received: number; // Fine grams taken off it
+  balance: number; // Running balance after this line
+  link?: string;
+}
+
+export interface Statement {
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalGiven: number;
+  totalReceived: number;
+  closingBalance: number;
+}
+
+type Movement = Omit<StatementLine, "balance">;
+
+// A cancelled receipt stays on the statement, marked, alongside the reversal
+// the ledger posted for it, so the two cancel out on the running balance
+const cancelledMark = (receipt: { status: string }) =>
+  receipt.status === "cancelled" ? " (cancelled)" : "";
+
+const shopMovements = (receipt: Receipt): Movement[] => {
+  const givenItems = (receipt.givenItems || receipt.items || []).filter(
+    (item) => item.tag !== "BALANCE"
+  );
+  return [
+    {
+      date: new Date(receipt.issueDate),
+      voucherId: receipt.voucherId,
+      particulars: `Shop receipt${cancelledMark(receipt)}`,
+      given: sumGivenItems(givenItems).finalWt,
+      received: sumReceivedItems(receipt.receivedItems || []).finalWt,
+      link: `/receipts/${receipt._id}`,
+    },
+  ];
+};
+
+// Work receipts hand metal over and take ornaments back on different days,
+// so each half is its own line
+const workMovements = (receipt: AdminReceipt): Movement[] => {
+  const movements: Movement[] = [];
+  const link = `/admin-receipts/${receipt._id}`;
+  if (receipt.given?.items?.length) {
+    movements.push({
+      date: new Date(receipt.given.date),
+      voucherId: receipt.voucherId,
+      particulars: `Work receipt - metal given${cancelledMark(receipt)}`,
+      given: roundWeight(receipt.given.total),
+      received: 0,
+      link,
+    });
+  }
+  if (receipt.received?.items?.length) {
+    movements.push({
+      date: new Date(receipt.received.date),
+      voucherId: receipt.voucherId,
+      particulars: `Work receipt - ornaments received${cancelledMark(receipt)}`,
+      given: 0,
+      received: roundWeight(receipt.received.total),
+      link,
+    });
+  }
+  return movements;
+};
+
+// Shop and work receipts are listed from the receipts themselves; everything
+// else that moved the balance (old gold credited, bills settled in cash,
+// adjustments, payments, reversals) comes from the ledger. Receipts from
+// before the ledger are left out: the opening balance already counts them.
+const otherSources: Partial<
+  Record<LedgerSourceType, { label: string; path: string }>
+> = {
+  purchase: { label: "Old gold purchase", path: "/purchases" },
+  bill: { label: "Work bill settled", path: "/admin-bills" },
+  payment: { label: "Payment", path: "/payments" },
+};
+
+const otherSource = (entry: LedgerEntry) =>
+  entry.sourceType && otherSources[entry.sourceType];
+
+const ledgerMovement = (entry: LedgerEntry): Movement => {
+  const source = otherSource(entry);
+  const label = source
+    ? source.label
+    : `${entry.type[0].toUpperCase()}${entry.type.slice(1)}`;
+  return {
+    date: new Date(entry.date),
+    voucherId: entry.voucherId || "-",
+    particulars: entry.reason ? `${label}: ${entry.reason}` : label,
+    given: entry.amount > 0 ? roundWeight(entry.amount) : 0,
+    received: entry.amount < 0 ? roundWeight(-entry.amount) : 0,
+    ...(source && { link: `${source.path}/${entry.sourceId}` }),
+  };
+};
+
+export const buildStatement = ({
+  shopReceipts,
+  workReceipts,
+  ledgerEntries,
+  from,
+  to,
+}: {
+  shopReceipts: Receipt[];
+  workReceipts: AdminReceipt[];
+  ledgerEntries: LedgerEntry[];
+  from: Date;
+  to: Date;
+}): Statement => {
+  const start = startOfDay(from);
+  const end = endOfDay(to);
+
+  const afterLedger = (receipt: Receipt | AdminReceipt) =>
+    !isBeforeLedger(receipt, ledgerEntries);
+
+  const movements = [
+    ...shopReceipts.filter(afterLedger).flatMap(shopMovements),
+    ...workReceipts.filter(afterLedger).flatMap(workMovements),
+    ...ledgerEntries
+      .filter((entry) => entry.type !== "receipt" || otherSource(entry))
+      .map(ledgerMovement),
+  ]
+    .filter((m) => !isNaN(m.date.getTime()) && m.date <= end)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const earlier = movements.filter((m) => m.date < start);
+  const openingBalance = calculateBalance(
+    sumWeights(earlier.map((m) => m.given)),
+    sumWeights(earlier.map((m) => m.received))
+  );
+
+  let balance = openingBalance;
+  const lines = movements
+    .filter((m) => m.date >= start)
+    .map((m) => {
+      balance = calculateBalance(m.given, m.received, balance);
+      return { ...m, balance };
+    });
+
+  return {
+    from: start,
+    to: end,
+    openingBalance,
+    lines,
+    totalGiven: sumWeights(lines.map((l) => l.given)),
+    totalReceived: sumWeights(lines.map((l) => l.received)),
+    closingBalance: balance,
+  };
+};
@@ -0,0 +1,137 @@
+import { ReceiptInput } from "@/models/Receipt";
+import { StockMovement } from "@/models/Stock";
+import { OldGoldPurchaseInput } from "@/models/OldGoldPurchase";
+import {
+  calculateGivenItem,
+  roundTo,
+  roundWeight,
+  sumWeights,
+  toNumber,
+} from "./metal-calculations";
+import { WORK_RECEIPT_METAL } from "./metal-rates";
+
+// Metal moving through a receipt: positive coming in, negative going out
+export interface StockLine {
+  metal: string;
+  touch: number;
+  weight: number;
+}
+
+export interface Vault {
+  key: string;
+  metal: string;
+  touch: number;
+  weight: number;
+  fineWeight: number;
+}
+
+// Touch behind each purity the rate register uses
+const PURITY_TOUCH: Record<string, Record<string, number>> = {
+  Gold: { "24K": 99.9, "22K": 91.6, "18K": 75 },
+  Silver: { "999": 99.9, "925": 92.5 },
+  Platinum: { "950": 95 },
+};
+
+export const normaliseTouch = (touch: unknown) => roundTo(toNumber(touch), 2);
+
+export const vaultKey = (metal: string, touch: unknown) =>
+  `${metal}|${normaliseTouch(touch)}`;
+
+// "22K (91.6%)" for the usual purities, otherwise just the touch
+export const purityLabel = (metal: string, touch: number) => {
+  const purity = Object.entries(PURITY_TOUCH[metal] || {}).find(
+    ([, value]) => value === normaliseTouch(touch)
+  )?.[0];
+  return purity ? `${purity} (${touch}%)` : `${touch}%`;
+};
+
+// Add up lines or movements per vault
+export const sumByVault = (lines: StockLine[]): Vault[] => {
+  const vaults = new Map<string, Vault>();
+  lines.forEach((line) => {
+    const key = vaultKey(line.metal, line.touch);
+    const vault = vaults.get(key) || {
+      key,
+      metal: line.metal,
+      touch: normaliseTouch(line.touch),
+      weight: 0,
+      fineWeight: 0,
+    };
+    vault.weight = roundWeight(vault.weight + toNumber(line.weight));
+    vault.fineWeight = roundWeight((vault.weight * vault.touch) / 100);
+    vaults.set(key, vault);
+  });
+  return Array.from(vaults.values()).sort(
+    (a, b) => a.metal.localeCompare(b.metal) || b.touch - a.touch
+  );
+};
+
+export const stockBalances = (movements: StockMovement[]) =>
+  sumByVault(movements);
+
+// Ornaments handed over leave stock at their net weight and touch; metal the
+// shop brings in arrives at its weight, its touch being what melting leaves
+export const shopReceiptStock = (receipt: ReceiptInput): StockLine[] => {
+  const metal = receipt.metalType || "Gold";
+  return [
+    ...(receipt.givenItems || [])
+      .filter((item) => item.tag !== "BALANCE")
+      .map((item) => ({
+        metal,
+        touch: normaliseTouch(item.meltingTouch),
+        weight: -calculateGivenItem(item).netWt,
+      })),
+    ...(receipt.receivedItems || []).map((item) => ({
+      metal,
+      touch: normaliseTouch(100 - toNumber(item.melting)),
+      weight: roundWeight(item.receivedGold),
+    })),
+  ].filter((line) => line.weight !== 0);
+};
+
+// The parts of a work receipt that move metal; the edit page keeps its own
+// copy of the receipt, so only the fields are asked for
+interface WorkReceiptMetal {
+  given?: { items: { pureWeight?: unknown; purePercent?: unknown }[] };
+  received?: { items: { finalOrnamentsWt?: unknown; stoneWeight?: unknown }[] };
+}
+
+// Metal issued to a karigar leaves at its touch. Finished ornaments come
+// back net of stones at the touch of the metal issued for them.
+export const workReceiptStock = (receipt: WorkReceiptMetal): StockLine[] => {
+  const givenItems = receipt.given?.items || [];
+  const issuedWeight = sumWeights(givenItems.map((item) => item.pureWeight));
+  const issuedFine = sumWeights(
+    givenItems.map(
+      (item) => (toNumber(item.pureWeight) * toNumber(item.purePercent)) / 100
+    )
+  );
+  const ornamentTouch = issuedWeight
+    ? normaliseTouch((issuedFine / issuedWeight) * 100)
+    : 0;
+
+  return [
+    ...givenItems.map((item) => ({
+      metal: WORK_RECEIPT_METAL,
+      touch: normaliseTouch(item.purePercent),
+      weight: -roundWeight(item.pureWeight),
+    })),
+    ...(receipt.received?.items || []).map((item) => ({
+      metal: WORK_RECEIPT_METAL,
+      touch: ornamentTouch,
+      weight: roundWeight(
+        toNumber(item.finalOrnamentsWt) - toNumber(item.stoneWeight)
+      ),
+    })),
+  ].filter((line) => line.weight !== 0);
+};
+
+// Old gold comes in at its cleaned weight and the touch it tested at
+export const purchaseStock = (purchase: OldGoldPurchaseInput): StockLine[] =>
+  purchase.items
+    .map((item) => ({
+      metal: purchase.metal,
+      touch: normaliseTouch(item.touch),
+      weight: roundWeight(item.netWeight),
+    }))
+    .filter((line) => line.weight !== 0);
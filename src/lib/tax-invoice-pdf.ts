@@ -0,0 +1,181 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { TaxInvoice } from "@/models/TaxInvoice";
+import { formatAmount, formatWeight, toNumber } from "./metal-calculations";
+import { formatRupees } from "./metal-rates";
+import { JEWELLERY_GST_PERCENT, stateCode } from "./gst";
+import { getSettings } from "./settings";
+import {
+  brandTableStyles,
+  drawBrandFooter,
+  drawBrandFrame,
+  drawLabelledField,
+} from "./pdf-branding";
+
+const withStateCode = (state?: string) =>
+  state ? `${state}${stateCode(state) ? ` (${stateCode(state)})` : ""}` : "";
+
+// Seller and buyer blocks, the item table with HSN codes, then the tax
+// summary in the layout GST rules ask for
+export const generateTaxInvoicePdf = (invoice: TaxInvoice) => {
+  const { business } = getSettings();
+  const doc = new jsPDF("p", "mm", "a4");
+  drawBrandFrame(doc);
+
+  const marginLeft = 15;
+  const rightColumn = 110;
+  let y = 33;
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("Tax Invoice", 105, y, { align: "center" });
+  y += 9;
+
+  doc.setFontSize(9);
+  drawLabelledField(doc, "Invoice No", invoice.invoiceNumber, marginLeft, y);
+  drawLabelledField(
+    doc,
+    "Date",
+    format(new Date(invoice.date), "dd MMM yyyy"),
+    rightColumn,
+    y
+  );
+  y += 5;
+  drawLabelledField(doc, "Receipt", invoice.receiptVoucherId, marginLeft, y);
+  drawLabelledField(
+    doc,
+    "Place of Supply",
+    withStateCode(invoice.placeOfSupply),
+    rightColumn,
+    y
+  );
+  y += 8;
+
+  doc.setFont("helvetica", "bold");
+  doc.text("Sold by", marginLeft, y);
+  doc.text("Billed to", rightColumn, y);
+  y += 5;
+  doc.setFont("helvetica", "normal");
+  const seller = [
+    business.name,
+    business.address,
+    withStateCode(business.state) && `State: ${withStateCode(business.state)}`,
+    business.gstin && `GSTIN: ${business.gstin}`,
+  ].filter(Boolean);
+  const buyer = [
+    invoice.clientName,
+    invoice.clientAddress,
+    invoice.placeOfSupply && `State: ${withStateCode(invoice.placeOfSupply)}`,
+    invoice.clientGstin ? `GSTIN: ${invoice.clientGstin}` : "Unregistered",
+  ].filter(Boolean);
+  const sellerLines = doc.splitTextToSize(seller.join("\n"), 85);
+  const buyerLines = doc.splitTextToSize(buyer.join("\n"), 85);
+  doc.text(sellerLines, marginLeft, y);
+  doc.text(buyerLines, rightColumn, y);
+  y += Math.max(sellerLines.length, buyerLines.length) * 4;
+
+  autoTable(doc, {
+    ...brandTableStyles,
+    startY: y + 2,
+    head: [
+      [
+        "S.NO",
+        "Description",
+        "HSN",
+        "Gross (g)",
+        "Net (g)",
+        "Touch %",
+        "Fine (g)",
+        "Metal Value",
+        "Making",
+        "Stone",
+        "Taxable Value",
+      ],
+    ],
+    body: [
+      ...invoice.lines.map((line, index) => [
+        index + 1,
+        line.description,
+        line.hsnCode,
+        formatWeight(line.grossWeight),
+        formatWeight(line.netWeight),
+        toNumber(line.touch).toFixed(2),
+        formatWeight(line.fineWeight),
+        formatAmount(line.metalValue),
+        formatAmount(line.makingCharges),
+        formatAmount(line.stoneCharges),
+        formatAmount(line.taxableValue),
+      ]),
+    ],
+    columnStyles: {
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+      6: { halign: "right" },
+      7: { halign: "right" },
+      8: { halign: "right" },
+      9: { halign: "right" },
+      10: { halign: "right" },
+    },
+    styles: { ...brandTableStyles.styles, fontSize: 7 },
+    margin: { left: marginLeft, right: 15 },
+  });
+
+  y =
+    (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable
+      .finalY + 4;
+
+  const { totals } = invoice;
+  const halfRate = JEWELLERY_GST_PERCENT / 2;
+  const taxRows =
+    invoice.gstSplit === "inter-state"
+      ? [[`IGST @ ${JEWELLERY_GST_PERCENT}%`, formatAmount(totals.igst)]]
+      : [
+          [`CGST @ ${halfRate}%`, formatAmount(totals.cgst)],
+          [`SGST @ ${halfRate}%`, formatAmount(totals.sgst)],
+        ];
+  autoTable(doc, {
+    ...brandTableStyles,
+    startY: y,
+    body: [
+      ["Taxable Value", formatAmount(totals.taxableValue)],
+      ...taxRows,
+      ["Round Off", formatAmount(totals.roundOff)],
+      [
+        { content: "Grand Total", styles: { fontStyle: "bold" } },
+        {
+          content: formatRupees(totals.grandTotal),
+          styles: { fontStyle: "bold" },
+        },
+      ],
+    ],
+    columnStyles: { 1: { halign: "right" } },
+    margin: { left: 120, right: 15 },
+  });
+
+  y =
+    (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable
+      .finalY + 8;
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    `Metal valued at ${formatRupees(invoice.appliedRate.ratePerGram)} per g, ${
+      invoice.appliedRate.metal
+    } ${invoice.appliedRate.purity}, rate of ${format(
+      new Date(invoice.appliedRate.date),
+      "dd MMM yyyy"
+    )}`,
+    marginLeft,
+    y
+  );
+
+  y += 20;
+  doc.setFontSize(9);
+  doc.text(`For ${business.name || "the seller"}`, 195, y, { align: "right" });
+  y += 12;
+  doc.text("Authorised Signatory", 195, y, { align: "right" });
+
+  drawBrandFooter(doc);
+  doc.save(`invoice-${invoice.invoiceNumber.replace(/\//g, "-")}.pdf`);
+};
@@ -0,0 +1,39 @@
+import { AuditEntityType, AuditEntryInput } from "@/models/AuditEntry";
+
+// History entries the server refused or never got, kept in localStorage so
+// the history panel can say they are missing and send them again
+
+const UNRECORDED_CHANGES_KEY = "unrecordedChanges";
+
+export interface UnrecordedChange {
+  id: string;
+  entry: AuditEntryInput;
+  failedAt: string;
+}
+
+const getAll = (): UnrecordedChange[] => {
+  try {
+    return JSON.parse(localStorage.getItem(UNRECORDED_CHANGES_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const setAll = (changes: UnrecordedChange[]) =>
+  localStorage.setItem(UNRECORDED_CHANGES_KEY, JSON.stringify(changes));
+
+// Oldest first, the order they were made in
+export const getUnrecordedChanges = (
+  entityType: AuditEntityType,
+  entityId: string
+) =>
+  getAll().filter(
+    ({ entry }) =>
+      entry.entityType === entityType && entry.entityId === entityId
+  );
+
+export const putUnrecordedChange = (change: UnrecordedChange) =>
+  setAll([...getAll(), change]);
+
+export const deleteUnrecordedChange = (id: string) =>
+  setAll(getAll().filter((change) => change.id !== id));
@@ -0,0 +1,34 @@
+import { VoucherSeries, VoucherSeriesSettings } from "@/models/Settings";
+
+// Voucher numbers are assigned by the server when a document is saved. This
+// mirrors its format so Settings can show what the next number will look like.
+
+export const voucherSeriesLabels: Record<VoucherSeries, string> = {
+  shop: "Client Receipt",
+  work: "Work Receipt",
+  bill: "Work Bill",
+  order: "Customer Order",
+  tag: "Ornament Tag",
+  purchase: "Old Gold Purchase",
+  invoice: "Tax Invoice",
+  payment: "Payment",
+};
+
+// Indian financial year, April to March, e.g. "24-25"
+export const financialYearLabel = (date: Date) => {
+  const startYear =
+    date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  const short = (year: number) => (year % 100).toString().padStart(2, "0");
+  return `${short(startYear)}-${short(startYear + 1)}`;
+};
+
+export const formatVoucherNumber = (
+  series: VoucherSeriesSettings,
+  sequence: number,
+  date: Date = new Date()
+) => {
+  const number = sequence.toString().padStart(series.padding, "0");
+  return series.financialYearReset
+    ? `${series.prefix}${financialYearLabel(date)}/${number}`
+    : `${series.prefix}${number}`;
+};
@@ -0,0 +1,128 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { WorkBill } from "@/models/WorkBill";
+import { formatWeight } from "./metal-calculations";
+import { formatRupees } from "./metal-rates";
+import {
+  brandTableStyles,
+  drawBrandFooter,
+  drawBrandFrame,
+  drawLabelledField,
+} from "./pdf-branding";
+
+export const generateWorkBillPdf = (bill: WorkBill) => {
+  const doc = new jsPDF("p", "mm", "a4");
+  drawBrandFrame(doc);
+
+  const marginLeft = 25;
+  let y = 35;
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("Work Bill", 105, y, { align: "center" });
+  y += 10;
+
+  doc.setFontSize(11);
+  drawLabelledField(doc, "Bill No", bill.voucherId, marginLeft, y);
+  y += 6;
+  drawLabelledField(
+    doc,
+    "Date",
+    format(new Date(bill.date), "dd MMM yyyy"),
+    marginLeft,
+    y
+  );
+  y += 6;
+  drawLabelledField(doc, "Client", bill.clientName, marginLeft, y);
+  y += 4;
+
+  autoTable(doc, {
+    ...brandTableStyles,
+    startY: y + 3,
+    head: [
+      [
+        "S.NO",
+        "Receipt",
+        "Karigar",
+        "Pure Given (g)",
+        "Ornaments (g)",
+        "Making (g)",
+        "Balance (g)",
+      ],
+    ],
+    body: [
+      ...bill.lines.map((line, index) => [
+        index + 1,
+        line.voucherId,
+        line.karigarName || "-",
+        formatWeight(line.givenPureWeight),
+        formatWeight(line.receivedOrnamentWeight),
+        formatWeight(line.makingChargeWeight),
+        formatWeight(line.balanceWeight),
+      ]),
+      [
+        "",
+        "Total",
+        "",
+        formatWeight(bill.totals.givenPureWeight),
+        formatWeight(bill.totals.receivedOrnamentWeight),
+        formatWeight(bill.totals.makingChargeWeight),
+        formatWeight(bill.totals.balanceWeight),
+      ],
+    ],
+    columnStyles: {
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+      6: { halign: "right" },
+    },
+    margin: { left: 15, right: 15 },
+  });
+
+  y =
+    (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable
+      .finalY + 10;
+  doc.setFontSize(11);
+  drawLabelledField(
+    doc,
+    "Rate",
+    `${formatRupees(bill.appliedRate.ratePerGram)} per g, ${
+      bill.appliedRate.metal
+    } ${bill.appliedRate.purity}`,
+    marginLeft,
+    y
+  );
+  y += 6;
+  drawLabelledField(
+    doc,
+    "Making Charge",
+    formatRupees(bill.makingChargeValue),
+    marginLeft,
+    y
+  );
+  y += 6;
+  drawLabelledField(
+    doc,
+    "Settlement",
+    bill.settlement === "cash"
+      ? `${formatRupees(bill.balanceValue)} for ${formatWeight(
+          bill.totals.balanceWeight
+        )}g fine`
+      : `${formatWeight(bill.totals.balanceWeight)}g fine carried on balance`,
+    marginLeft,
+    y
+  );
+  if (bill.notes) {
+    y += 6;
+    drawLabelledField(doc, "Notes", bill.notes, marginLeft, y);
+  }
+
+  y += 25;
+  doc.setFont("helvetica", "normal");
+  doc.text("Client's signature", marginLeft, y);
+  doc.text("For the shop", 185, y, { align: "right" });
+
+  drawBrandFooter(doc);
+  doc.save(`work-bill-${bill.voucherId.replace(/\//g, "-")}.pdf`);
+};
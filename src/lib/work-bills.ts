@@ -0,0 +1,40 @@
+import { AdminReceipt } from "@/models/AdminReceipt";
+import { WorkBillLine, WorkBillTotals } from "@/models/WorkBill";
+import {
+  calculateBalance,
+  roundWeight,
+  sumWeights,
+} from "./metal-calculations";
+
+// A completed job that has not been put on a bill yet
+export const isBillable = (receipt: AdminReceipt) =>
+  receipt.status === "complete" && !receipt.billId;
+
+// The job's weights as the receipt stored them; the balance matches what the
+// receipt posted to the client's ledger
+export const workBillLine = (receipt: AdminReceipt): WorkBillLine => {
+  const given = receipt.given?.items?.length ? receipt.given.total : 0;
+  const received = receipt.received?.items?.length ? receipt.received : null;
+  return {
+    receiptId: receipt._id,
+    voucherId: receipt.voucherId,
+    karigarName: receipt.karigarName,
+    givenPureWeight: roundWeight(given),
+    receivedOrnamentWeight: roundWeight(received?.totalSubTotal),
+    makingChargeWeight: received
+      ? calculateBalance(received.total, received.totalSubTotal)
+      : 0,
+    balanceWeight: calculateBalance(given, received?.total ?? 0),
+  };
+};
+
+export const calculateWorkBillTotals = (
+  lines: WorkBillLine[]
+): WorkBillTotals => ({
+  givenPureWeight: sumWeights(lines.map((line) => line.givenPureWeight)),
+  receivedOrnamentWeight: sumWeights(
+    lines.map((line) => line.receivedOrnamentWeight)
+  ),
+  makingChargeWeight: sumWeights(lines.map((line) => line.makingChargeWeight)),
+  balanceWeight: sumWeights(lines.map((line) => line.balanceWeight)),
+});
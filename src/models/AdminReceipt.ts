@@ -0,0 +1,79 @@
+import { DeletionDecision, ReceiptCancellation } from "./DeletionRequest";
+import { AppliedRate } from "./MetalRate";
+
+// Metal handed over to the karigar for a job
+export interface AdminGivenItem {
+  _id?: string;
+  id?: string;
+  productName: string;
+  pureWeight: number | string;
+  purePercent: number | string;
+  melting: number | string;
+  total: number;
+  tag?: string;
+  date?: string;
+}
+
+// Finished ornaments returned by the karigar
+export interface AdminReceivedItem {
+  _id?: string;
+  id?: string;
+  productName: string;
+  finalOrnamentsWt: number | string;
+  stoneWeight: number | string;
+  makingChargePercent: number | string;
+  mc?: number | string;
+  subTotal: number;
+  total: number;
+  tag?: string;
+  date?: string;
+}
+
+export interface AdminGivenDetails {
+  date: string | Date;
+  items: AdminGivenItem[];
+  totalPureWeight?: number;
+  total?: number;
+}
+
+export interface AdminReceivedDetails {
+  date: string | Date;
+  items: AdminReceivedItem[];
+  totalOrnamentsWt?: number;
+  totalStoneWeight?: number;
+  totalSubTotal?: number;
+  total?: number;
+}
+
+export interface ManualCalculations {
+  givenTotal: number | string;
+  receivedTotal: number | string;
+  operation: string;
+  result: number | string;
+}
+
+export interface AdminReceipt {
+  _id: string;
+  clientId: string;
+  clientName: string;
+  karigarId?: string; // Karigar the job was issued to
+  karigarName?: string;
+  agreedWastagePercent?: number; // Karigar's agreed wastage when issued
+  voucherId: string; // Assigned by the server on save, kept even if cancelled
+  provisionalVoucherId?: string; // Number shown while it waited to sync from an offline device
+  clientRequestId?: string; // Lets the server ignore a repeated offline sync
+  status: "complete" | "incomplete" | "empty" | "cancelled" | string;
+  given?: AdminGivenDetails;
+  received?: AdminReceivedDetails;
+  manualCalculations?: ManualCalculations;
+  appliedRate?: AppliedRate; // Fine gold rate on the day it was created
+  billId?: string; // Work bill it was settled on, set by the server
+  deletionRequest?: DeletionDecision;
+  cancellation?: ReceiptCancellation;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+export type AdminReceiptInput = Partial<
+  Omit<AdminReceipt, "_id" | "createdAt" | "updatedAt">
+>;
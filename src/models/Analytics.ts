@@ -0,0 +1,43 @@
+import { Receipt } from "./Receipt";
+
+export interface StatTrend {
+  value: number;
+  isPositive: boolean;
+}
+
+export interface DashboardStat {
+  value: string | number;
+  trend?: StatTrend;
+}
+
+export interface DashboardStats {
+  stats: {
+    totalClients: DashboardStat;
+    totalReceipts: DashboardStat;
+    adminReceipts: DashboardStat;
+    totalWeight: DashboardStat;
+  };
+  recentActivity: Receipt[];
+}
+
+export interface SalesByDate {
+  date: string;
+  count: number;
+  totalWeight: number;
+}
+
+export interface MetalTypeDistribution {
+  type: string;
+  count: number;
+  totalWeight?: number;
+}
+
+export interface MonthlyWeight {
+  month: number; // 1-12
+  totalWeight: number;
+}
+
+export interface YearlyComparison {
+  currentYear: MonthlyWeight[];
+  previousYear: MonthlyWeight[];
+}
@@ -0,0 +1,51 @@
+// Envelope used by the receipts, auth and newer endpoints
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+  count?: number;
+}
+
+export interface VoucherIdResponse {
+  voucherId: string;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+export interface Pagination {
+  page: number; // From 1
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+// Lists the server pages through, one page per request
+export interface PaginatedResponse<T> extends ApiResponse<T[]> {
+  pagination: Pagination;
+}
+
+export type SortOrder = "asc" | "desc";
+
+// Sort keys shared by the voucher lists; weight is each list's headline
+// weight, e.g. the final weight of a shop receipt
+export type ListSortKey = "date" | "voucher" | "client" | "weight";
+
+// Filters a list endpoint may narrow by; each accepts the ones that apply
+export interface ListFilters {
+  status?: string;
+  metal?: string;
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string;
+}
+
+// Query string accepted by the paginated list endpoints
+export interface ListParams<S extends string = ListSortKey>
+  extends ListFilters {
+  page?: number; // From 1
+  limit?: number;
+  search?: string;
+  sortBy?: S;
+  sortOrder?: SortOrder;
+}
@@ -0,0 +1,31 @@
+// Shop receipts, work receipts and clients keep a history
+export type AuditEntityType = "shop" | "work" | "client";
+
+// balance: the client's gold balance moved by a ledger entry
+export type AuditAction = "create" | "update" | "delete" | "balance";
+
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditChange {
+  field: string; // Dotted path, e.g. "items.0.grossWeight"
+  before: AuditValue;
+  after: AuditValue;
+}
+
+export interface AuditEntry {
+  _id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  voucherId?: string;
+  changes: AuditChange[];
+  reason?: string;
+  createdBy: { _id: string; name: string };
+  createdAt: string | Date;
+}
+
+// Body accepted by POST /audit; the server stamps the user and time
+export type AuditEntryInput = Omit<
+  AuditEntry,
+  "_id" | "createdBy" | "createdAt"
+>;
@@ -0,0 +1,22 @@
+export interface Client {
+  _id: string;
+  shopName: string;
+  clientName: string;
+  phoneNumber: string;
+  address: string;
+  email?: string;
+  state?: string; // For the GST place of supply
+  gstin?: string;
+  active?: boolean;
+  balance?: number; // Pure-gold balance the old forms kept; carried into the ledger as its opening entry
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+// The balance only moves through ledger entries, never through a client update
+export type ClientInput = Omit<
+  Client,
+  "_id" | "balance" | "createdAt" | "updatedAt"
+>;
+
+export type ClientSortKey = "client" | "shop" | "date" | "balance";
@@ -0,0 +1,32 @@
+export type DeletionRequestStatus = "pending" | "approved" | "rejected";
+
+// Shop receipts live under /receipts, work receipts under /admin-receipts
+export type DeletableReceiptType = "shop" | "work";
+
+export interface DeletionDecision {
+  status: DeletionRequestStatus;
+  reason: string; // Why the deletion was requested
+  requestedBy: { _id: string; name: string };
+  requestedAt: string | Date;
+  decidedBy?: { _id: string; name: string };
+  decisionReason?: string; // Owner's note when approving or rejecting
+  decidedAt?: string | Date;
+}
+
+export interface DeletionRequest extends DeletionDecision {
+  _id: string;
+  receiptId: string;
+  receiptType: DeletableReceiptType;
+  voucherId?: string;
+  clientName?: string;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+// Set on a cancelled receipt. The voucher keeps its number; what it posted
+// to the ledger and the stock register is reversed.
+export interface ReceiptCancellation {
+  reason: string;
+  cancelledBy?: { _id: string; name: string }; // Stamped by the server
+  cancelledAt: string | Date;
+}
@@ -0,0 +1,22 @@
+// Making charge agreed with a karigar for one kind of work
+export interface MakingChargeRate {
+  category: string;
+  percent: number;
+}
+
+// A worker the shop issues metal to for making ornaments
+export interface Karigar {
+  _id: string;
+  name: string;
+  phoneNumber: string;
+  address?: string;
+  skills: string[];
+  agreedWastagePercent: number; // Loss allowed on metal issued, per job
+  makingChargeRates: MakingChargeRate[];
+  active: boolean;
+  notes?: string;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+export type KarigarInput = Omit<Karigar, "_id" | "createdAt" | "updatedAt">;
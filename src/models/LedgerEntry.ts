@@ -0,0 +1,37 @@
+// receipt: a shop or work receipt saved or edited
+// payment: money or metal the client handed over
+// adjustment: an owner correcting the balance by hand, always with a reason
+// reversal: cancels an earlier entry by posting its opposite
+export type LedgerEntryType = "receipt" | "payment" | "adjustment" | "reversal";
+
+// opening: the balance a client carried from before the ledger
+export type LedgerSourceType =
+  "shop" | "work" | "purchase" | "bill" | "payment" | "opening";
+
+export interface LedgerEntry {
+  _id: string;
+  clientId: string;
+  type: LedgerEntryType;
+  date: string | Date;
+  amount: number; // Fine grams; positive when the client owes more
+  voucherId?: string;
+  sourceType?: LedgerSourceType;
+  sourceId?: string; // Receipt that produced this entry
+  reversesEntryId?: string;
+  reversedByEntryId?: string;
+  reason?: string;
+  createdBy: { _id: string; name: string };
+  createdAt: string | Date;
+}
+
+// Body accepted by POST /ledger; the server stamps the user and creation time
+export type LedgerEntryInput = Pick<
+  LedgerEntry,
+  "clientId" | "type" | "amount"
+> &
+  Partial<
+    Pick<
+      LedgerEntry,
+      "date" | "voucherId" | "sourceType" | "sourceId" | "reason"
+    >
+  >;
@@ -0,0 +1,25 @@
+// One line of the daily rate register: the price of a gram of a metal at a
+// given purity, as recorded by the owner for that day
+export interface MetalRate {
+  _id: string;
+  metal: string; // Gold, Silver, Platinum
+  purity: string; // e.g. 24K, 22K, 999
+  ratePerGram: number; // Rupees
+  date: string | Date;
+  createdBy?: { _id: string; name: string };
+  createdAt: string | Date;
+}
+
+export type MetalRateInput = Pick<
+  MetalRate,
+  "metal" | "purity" | "ratePerGram" | "date"
+>;
+
+// Copy of the rate a receipt was valued at, saved on the receipt so later
+// rate changes don't alter its valuation
+export interface AppliedRate {
+  metal: string;
+  purity: string;
+  ratePerGram: number;
+  date: string | Date;
+}
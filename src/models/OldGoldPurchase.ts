@@ -0,0 +1,47 @@
+import { AppliedRate } from "./MetalRate";
+
+export type PurityTestMethod = "touchstone" | "xrf";
+
+// How the customer is settled: rupees in hand, or the fine weight taken off
+// what they owe on their gold balance
+export type PurchaseSettlement = "payout" | "credit";
+
+export interface OldGoldItem {
+  id: string;
+  description: string;
+  grossWeight: number | string; // Allow string for empty state
+  stoneWeight: number | string; // Stones removed
+  dustWeight: number | string; // Dirt, lac and solder lost on cleaning
+  netWeight: number; // Always calculated, so number
+  testMethod: PurityTestMethod;
+  touch: number | string; // Tested purity, %
+  fineWeight: number; // Always calculated, so number
+}
+
+// Old jewellery bought from or exchanged by a customer
+export interface OldGoldPurchase {
+  _id: string;
+  voucherId: string; // Assigned by the server on save
+  clientId: string;
+  clientName: string;
+  date: string | Date;
+  metal: string;
+  items: OldGoldItem[];
+  totals: {
+    grossWeight: number;
+    netWeight: number;
+    fineWeight: number;
+  };
+  appliedRate: AppliedRate; // Fine rate the metal was bought at
+  value: number; // Rupees
+  settlement: PurchaseSettlement;
+  notes?: string;
+  createdBy?: { _id: string; name: string };
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+export type OldGoldPurchaseInput = Omit<
+  OldGoldPurchase,
+  "_id" | "voucherId" | "createdBy" | "createdAt" | "updatedAt"
+>;
@@ -0,0 +1,38 @@
+// Where an order is on its way from the counter to the customer
+export type OrderStatus =
+  "ordered" | "issued" | "in-progress" | "received" | "delivered";
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  changedAt: string | Date;
+  changedBy?: { _id: string; name: string };
+}
+
+// A piece a client has asked for, followed through to delivery
+export interface Order {
+  _id: string;
+  orderNumber: string; // Assigned by the server on save, in the order series
+  clientId: string;
+  clientName: string;
+  item: string;
+  designPhoto?: string; // Reference image as a data URL
+  metal: string;
+  purity: string;
+  targetWeight: number;
+  dueDate: string | Date;
+  notes?: string;
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  karigarId?: string; // Set once the metal is issued
+  karigarName?: string;
+  receiptIds: string[]; // Client receipts for this order
+  workReceiptIds: string[]; // Work receipts that made it
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+// Status and history are changed through the status endpoint only
+export type OrderInput = Omit<
+  Order,
+  "_id" | "orderNumber" | "status" | "statusHistory" | "createdAt" | "updatedAt"
+>;
@@ -0,0 +1,21 @@
+// A finished piece in the shop, identified by the tag number on its label
+export interface Ornament {
+  _id: string;
+  tagNumber: string; // Assigned by the server from the tag series
+  itemName: string;
+  category: string;
+  metal: string;
+  touch: number; // Purity as a percentage, e.g. 91.6
+  grossWeight: number;
+  stoneWeight: number;
+  netWeight: number;
+  stoneDetails?: string; // e.g. "3 rubies, 12 CZ"
+  photo?: string; // Data URL
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+export type OrnamentInput = Omit<
+  Ornament,
+  "_id" | "tagNumber" | "createdAt" | "updatedAt"
+>;
@@ -0,0 +1,36 @@
+import { AppliedRate } from "./MetalRate";
+
+export type PaymentMethod = "cash" | "upi" | "bank" | "metal";
+
+// Part of a payment set against one shop receipt, in fine grams
+export interface PaymentAllocation {
+  receiptId: string;
+  voucherId: string;
+  fineWeight: number;
+}
+
+// Money or metal a client hands over to bring their gold balance down
+export interface Payment {
+  _id: string;
+  voucherId: string; // Assigned by the server on save
+  clientId: string;
+  clientName: string;
+  date: string | Date;
+  method: PaymentMethod;
+  amount?: number; // Rupees, for cash, UPI and bank payments
+  appliedRate?: AppliedRate; // Rate the rupees were converted to metal at
+  metalWeight?: number; // Grams handed over, for metal payments
+  touch?: number; // Purity of that metal, %
+  fineWeight: number; // Fine grams taken off the balance
+  reference?: string; // UPI or bank transaction reference
+  allocations: PaymentAllocation[];
+  notes?: string;
+  createdBy?: { _id: string; name: string };
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+export type PaymentInput = Omit<
+  Payment,
+  "_id" | "voucherId" | "createdBy" | "createdAt" | "updatedAt"
+>;
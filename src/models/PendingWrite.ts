@@ -0,0 +1,64 @@
+import { ReceiptInput } from "./Receipt";
+import { AdminReceiptInput } from "./AdminReceipt";
+import { ClientInput } from "./Client";
+
+// A hand-entered balance correction posted alongside a receipt
+export interface PendingAdjustment {
+  amount: number;
+  reason: string;
+}
+
+export interface PendingShopReceipt {
+  kind: "shopReceipt";
+  clientId: string;
+  payload: ReceiptInput;
+  ledgerAmount: number; // Net weight to post to the client's ledger
+  adjustment?: PendingAdjustment;
+  baseBalance: number; // Client balance the receipt was entered against
+  // Net posted for the client by this device's other writes that synced
+  // after this one was entered; the server balance is expected to include it
+  syncedBefore?: number;
+}
+
+export interface PendingWorkReceipt {
+  kind: "workReceipt";
+  clientId: string;
+  payload: AdminReceiptInput;
+  ledgerAmount: number;
+  adjustment?: PendingAdjustment;
+  baseBalance: number;
+  syncedBefore?: number;
+}
+
+export interface PendingClientUpdate {
+  kind: "clientUpdate";
+  clientId: string;
+  payload: Partial<ClientInput>;
+  baseUpdatedAt: string; // Client's updatedAt when the edit was started
+}
+
+export type PendingWriteData =
+  PendingShopReceipt | PendingWorkReceipt | PendingClientUpdate;
+
+export type PendingWriteStatus = "pending" | "conflict" | "failed";
+
+// How far a receipt's sync got: once the server has the receipt, a retry
+// posts what is left instead of saving it again
+export interface PendingWriteProgress {
+  id: string; // The receipt the server saved
+  voucherId?: string;
+  adjustmentPosted?: boolean;
+}
+
+// A save kept on this device until the server has accepted it
+export interface PendingWrite {
+  id: string; // Sent as clientRequestId; see "Offline Sync Contract" in backend-setup.md
+  data: PendingWriteData;
+  provisionalVoucherId?: string;
+  status: PendingWriteStatus;
+  error?: string;
+  force?: boolean; // Sync even though the server copy changed meanwhile
+  progress?: PendingWriteProgress;
+  attempts: number;
+  createdAt: string;
+}
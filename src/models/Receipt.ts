@@ -1,14 +1,20 @@
+import { DeletionDecision, ReceiptCancellation } from "./DeletionRequest";
+import { AppliedRate } from "./MetalRate";
+
 export interface ReceivedItem {
-  id: string;
-  description: string;
-  type: string;
-  weight: number | string;
-  amount: number | string;
+  _id?: string;
+  id?: string;
+  receivedGold: number | string; // Weight of metal received back
+  melting: number | string;
+  finalWt: number; // Always calculated, so number
+  stoneWt?: number | string;
+  stoneAmt?: number | string;
   date?: string; // Add date field for each received item
 }
 
 export interface ReceiptItem {
-  id: string;
+  _id?: string;
+  id?: string;
   itemName: string; // Changed from description
   tag?: string;
   grossWt: number | string; // Allow string for empty state
@@ -17,6 +23,7 @@ export interface ReceiptItem {
   netWt: number; // Always calculated, so number
   finalWt: number; // Always calculated, so number
   stoneAmt?: number | string; // Allow string for empty state
+  totalInvoiceAmount?: number;
   date?: string; // Add date field for each item
   // Removed rate and amount as they weren't in the MongoDB document
 }
@@ -33,8 +40,11 @@ export interface Receipt {
   };
   metalType: string;
   issueDate: string | Date; // Changed from date
-  voucherId: string; // Added this field
+  voucherId: string; // Assigned by the server on save, kept even if cancelled
+  provisionalVoucherId?: string; // Number shown while it waited to sync from an offline device
+  clientRequestId?: string; // Lets the server ignore a repeated offline sync
   givenItems: ReceiptItem[]; // Changed from items to givenItems
+  items?: ReceiptItem[]; // Older receipts stored given items here
   receivedItems?: ReceivedItem[]; // Add receivedItems
   totals: {
     // Changed from individual total fields
@@ -46,12 +56,21 @@ export interface Receipt {
     totalInvoiceAmount?: number; // Add total invoice amount
   };
   overallWeight?: number;
+  previousBalance?: number; // Client balance before this receipt
+  appliedRate?: AppliedRate; // Fine rate on the day it was created
   finalWtBalanceTag?: string; // Tag for Final Wt. + Balance
   paymentStatus: "Pending" | "Paid" | "Partial"; // Added this field
   isCompleted: boolean; // Added this field
   status: "incomplete" | "complete" | "cancelled"; // Receipt status field
+  deletionRequest?: DeletionDecision; // Latest cancellation request and owner decision
+  cancellation?: ReceiptCancellation;
   createdAt: string | Date;
   updatedAt: string | Date;
   // Removed unit as it wasn't in the MongoDB document
   // Removed totalAmount as it wasn't in the MongoDB document
 }
+
+// Body accepted by POST/PUT /receipts
+export type ReceiptInput = Partial<
+  Omit<Receipt, "_id" | "createdAt" | "updatedAt">
+>;
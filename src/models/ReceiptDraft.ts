@@ -0,0 +1,60 @@
+import { ReceiptItem, ReceivedItem } from "./Receipt";
+import { AdminGivenItem, AdminReceivedItem } from "./AdminReceipt";
+
+export type DraftReceiptType = "shop" | "work";
+
+// Where a draft is kept: on the server, or on this device while offline
+export type DraftLocation = "server" | "device";
+
+// Shop receipt form as typed so far. The previous balance row is left out;
+// it is read from the ledger again when the draft is resumed.
+export interface ShopReceiptDraftForm {
+  client: {
+    id: string;
+    clientName: string;
+    shopName?: string;
+    phoneNumber?: string;
+    address?: string;
+  };
+  date: string;
+  metalType: string;
+  overallWeight: number;
+  items: ReceiptItem[];
+  receivedItems: ReceivedItem[];
+  finalWtBalanceTag?: string;
+}
+
+// Work receipt form as typed so far
+export interface WorkReceiptDraftForm {
+  clientId: string;
+  karigarId?: string;
+  givenDate: string;
+  givenItems: AdminGivenItem[];
+  receivedDate: string;
+  receivedItems: AdminReceivedItem[];
+  operation: string;
+}
+
+export type ReceiptDraftForm = ShopReceiptDraftForm | WorkReceiptDraftForm;
+
+// A receipt still being entered. It is not a receipt yet: nothing reaches
+// the client's ledger or stock until it is saved through the form.
+export interface ReceiptDraft<F extends ReceiptDraftForm = ReceiptDraftForm> {
+  _id: string; // Device drafts use a "device-" id until they reach the server
+  receiptType: DraftReceiptType;
+  clientId: string;
+  clientName: string;
+  itemCount: number; // Rows with something in them, for the drafts list
+  form: F;
+  savedOn: DraftLocation;
+  serverId?: string; // Server draft a device copy was saved over while offline
+  createdBy?: { _id: string; name: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReceiptDraftInput<F extends ReceiptDraftForm = ReceiptDraftForm> =
+  Omit<
+    ReceiptDraft<F>,
+    "_id" | "savedOn" | "serverId" | "createdBy" | "createdAt" | "updatedAt"
+  >;
@@ -0,0 +1,47 @@
+import { RoundingMode } from "@/lib/metal-calculations";
+
+export interface BusinessProfile {
+  name: string;
+  address: string;
+  phoneNumber: string;
+  gstin: string;
+  state: string; // Decides CGST/SGST or IGST on tax invoices
+  logo: string; // URL or data URL, printed on every PDF
+}
+
+export type VoucherSeries =
+  | "shop"
+  | "work"
+  | "bill"
+  | "order"
+  | "tag"
+  | "purchase"
+  | "invoice"
+  | "payment";
+
+// The server keeps the counter for each series and assigns the next number
+// when a receipt or bill is saved, so numbers never collide or skip
+export interface VoucherSeriesSettings {
+  prefix: string;
+  padding: number; // Digits in the running number, e.g. 4 gives 0007
+  financialYearReset: boolean; // Restart at 1 every April, year in the number
+}
+
+// Pre-filled on new receipt rows; 0 leaves the field blank
+export interface ReceiptDefaults {
+  metalType: string;
+  meltingTouch: number; // Shop receipt, given items
+  receivedMelting: number; // Shop receipt, received items
+  purePercent: number; // Work receipt, given items
+  workMelting: number; // Work receipt, given items
+}
+
+export interface AppSettings {
+  business: BusinessProfile;
+  vouchers: Record<VoucherSeries, VoucherSeriesSettings>;
+  defaults: ReceiptDefaults;
+  weightDecimals: number; // Places weights are shown with; they are kept to 3
+  roundingMode: RoundingMode;
+  pdfFooter: string;
+  updatedAt?: string | Date;
+}
@@ -0,0 +1,45 @@
+export type StockSourceType =
+  | "shop"
+  | "work"
+  | "purchase"
+  | "stock-take"
+  | "manual";
+
+// Metal moving into (positive) or out of (negative) a vault. A vault is one
+// metal at one touch, so 22K and fine gold are counted apart.
+export interface StockMovement {
+  _id: string;
+  metal: string;
+  touch: number; // Purity as a percentage, e.g. 91.6
+  weight: number; // Grams, signed
+  sourceType: StockSourceType;
+  sourceId?: string; // Receipt or stock-take that caused it
+  voucherId?: string;
+  note?: string;
+  reversal?: boolean; // Set by a cancellation; later saves post nothing
+  createdBy?: { _id: string; name: string };
+  createdAt: string | Date;
+}
+
+export type StockMovementInput = Omit<
+  StockMovement,
+  "_id" | "createdBy" | "createdAt"
+>;
+
+// A physical count of one vault against what the movements say is there
+export interface StockTake {
+  _id: string;
+  metal: string;
+  touch: number;
+  expectedWeight: number;
+  physicalWeight: number;
+  variance: number; // Physical less expected
+  note?: string;
+  createdBy?: { _id: string; name: string };
+  createdAt: string | Date;
+}
+
+export type StockTakeInput = Omit<
+  StockTake,
+  "_id" | "variance" | "createdBy" | "createdAt"
+>;
@@ -0,0 +1,52 @@
+import { AppliedRate } from "./MetalRate";
+
+export type GstSplit = "intra-state" | "inter-state";
+
+// One ornament sold, valued at the day's rate
+export interface TaxInvoiceLine {
+  description: string;
+  hsnCode: string;
+  grossWeight: number;
+  netWeight: number;
+  touch: number;
+  fineWeight: number;
+  metalValue: number; // Rupees, fine weight at the rate
+  makingCharges: number; // Rupees
+  stoneCharges: number; // Rupees
+  taxableValue: number;
+}
+
+export interface TaxInvoiceTotals {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  roundOff: number;
+  grandTotal: number;
+}
+
+// A GST tax invoice raised against a completed shop receipt
+export interface TaxInvoice {
+  _id: string;
+  invoiceNumber: string; // Assigned by the server, restarting each April
+  receiptId: string;
+  receiptVoucherId: string;
+  clientId: string;
+  clientName: string;
+  clientAddress: string;
+  clientGstin?: string;
+  placeOfSupply: string; // Client's state
+  gstSplit: GstSplit;
+  date: string | Date;
+  appliedRate: AppliedRate;
+  lines: TaxInvoiceLine[];
+  totals: TaxInvoiceTotals;
+  createdBy?: { _id: string; name: string };
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+export type TaxInvoiceInput = Omit<
+  TaxInvoice,
+  "_id" | "invoiceNumber" | "createdBy" | "createdAt" | "updatedAt"
+>;
@@ -0,0 +1,24 @@
+export type UserRole = "owner" | "staff" | "accountant";
+
+export interface User {
+  _id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  isActive: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AuthSession {
+  token: string;
+  user: User;
+}
+
+export interface InviteUserData {
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}
@@ -0,0 +1,46 @@
+import { AppliedRate } from "./MetalRate";
+
+// carry: the fine balance stays on the client's ledger
+// cash: the client settles the fine balance in money at the bill's rate
+export type WorkBillSettlement = "carry" | "cash";
+
+// One completed work receipt on the bill
+export interface WorkBillLine {
+  receiptId: string;
+  voucherId: string;
+  karigarName?: string;
+  givenPureWeight: number; // Metal issued, at the agreed melting
+  receivedOrnamentWeight: number; // Ornaments back, net of stones
+  makingChargeWeight: number; // Metal taken as making charge
+  balanceWeight: number; // Fine grams the client owes on the job
+}
+
+export interface WorkBillTotals {
+  givenPureWeight: number;
+  receivedOrnamentWeight: number;
+  makingChargeWeight: number;
+  balanceWeight: number;
+}
+
+export interface WorkBill {
+  _id: string;
+  voucherId: string; // Assigned by the server in the bill series
+  clientId: string;
+  clientName: string;
+  date: string | Date;
+  lines: WorkBillLine[];
+  totals: WorkBillTotals;
+  appliedRate: AppliedRate;
+  makingChargeValue: number; // Rupees
+  balanceValue: number; // Rupees
+  settlement: WorkBillSettlement;
+  notes?: string;
+  createdBy?: { _id: string; name: string };
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+export type WorkBillInput = Omit<
+  WorkBill,
+  "_id" | "voucherId" | "createdBy" | "createdAt" | "updatedAt"
+>;
@@ -0,0 +1,153 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { workBillServices } from "@/services/api";
+import { generateWorkBillPdf } from "@/lib/work-bill-pdf";
+import { formatRupees } from "@/lib/metal-rates";
+import { formatWeight } from "@/lib/metal-calculations";
+
+export default function WorkBillDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: bill, isLoading } = useQuery({
+    queryKey: ["workBill", id],
+    queryFn: () => workBillServices.getWorkBill(id),
+    enabled: !!id,
+  });
+
+  if (isLoading || !bill) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-lg">Loading work bill...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/admin-bills")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Work Bills
+      </Button>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold flex items-center gap-3">
+            Work Bill {bill.voucherId}
+            <Badge variant="outline">
+              {bill.settlement === "cash" ? "Settled in cash" : "On balance"}
+            </Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            <Link to={`/clients/${bill.clientId}`} className="hover:underline">
+              {bill.clientName}
+            </Link>{" "}
+            • {format(new Date(bill.date), "dd MMM yyyy")}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => generateWorkBillPdf(bill)}>
+          <Download className="mr-2 h-4 w-4" /> Download PDF
+        </Button>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto mb-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Receipt</TableHead>
+              <TableHead>Karigar</TableHead>
+              <TableHead className="text-right">Pure Given</TableHead>
+              <TableHead className="text-right">Ornaments</TableHead>
+              <TableHead className="text-right">Making</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bill.lines.map((line) => (
+              <TableRow key={line.receiptId}>
+                <TableCell className="font-medium">
+                  <Link
+                    to={`/admin-receipts/${line.receiptId}`}
+                    className="hover:underline"
+                  >
+                    {line.voucherId}
+                  </Link>
+                </TableCell>
+                <TableCell>{line.karigarName || "-"}</TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(line.givenPureWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(line.receivedOrnamentWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(line.makingChargeWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(line.balanceWeight)}g
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2}>Total</TableCell>
+              <TableCell className="text-right">
+                {formatWeight(bill.totals.givenPureWeight)}g
+              </TableCell>
+              <TableCell className="text-right">
+                {formatWeight(bill.totals.receivedOrnamentWeight)}g
+              </TableCell>
+              <TableCell className="text-right">
+                {formatWeight(bill.totals.makingChargeWeight)}g
+              </TableCell>
+              <TableCell className="text-right">
+                {formatWeight(bill.totals.balanceWeight)}g
+              </TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 space-y-3">
+        <h2 className="text-xl font-serif font-medium">Settlement</h2>
+        <dl className="grid grid-cols-2 gap-y-2 text-sm max-w-xl">
+          <dt className="text-muted-foreground">Rate</dt>
+          <dd>
+            {formatRupees(bill.appliedRate.ratePerGram)} per g,{" "}
+            {bill.appliedRate.metal} {bill.appliedRate.purity}
+          </dd>
+          <dt className="text-muted-foreground">Making charge</dt>
+          <dd>{formatRupees(bill.makingChargeValue)}</dd>
+          <dt className="text-muted-foreground">Balance</dt>
+          <dd>
+            {formatWeight(bill.totals.balanceWeight)}g fine
+            {bill.settlement === "cash"
+              ? `, settled for ${formatRupees(bill.balanceValue)}`
+              : ", carried on the client's balance"}
+          </dd>
+        </dl>
+        {bill.notes && (
+          <p className="text-sm text-muted-foreground">{bill.notes}</p>
+        )}
+      </div>
+    </div>
+  );
+}
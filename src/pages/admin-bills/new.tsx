@@ -0,0 +1,363 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  adminReceiptServices,
+  clientServices,
+  ledgerServices,
+  workBillServices,
+} from "@/services/api";
+import { WorkBillInput, WorkBillSettlement } from "@/models/WorkBill";
+import {
+  calculateWorkBillTotals,
+  isBillable,
+  workBillLine,
+} from "@/lib/work-bills";
+import {
+  finePurity,
+  formatRupees,
+  valueAtRate,
+  WORK_RECEIPT_METAL,
+} from "@/lib/metal-rates";
+import {
+  formatWeight,
+  roundAmount,
+  roundWeight,
+} from "@/lib/metal-calculations";
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+
+export default function NewWorkBillPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { rateFor } = useMetalRates();
+  const [clientId, setClientId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [date, setDate] = useState(format(new Date(), DATE_INPUT_FORMAT));
+  const [ratePerGram, setRatePerGram] = useState("");
+  const [settlement, setSettlement] = useState<WorkBillSettlement>("carry");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: clients = [] } = useQuery({
+    queryKey: ["clients"],
+    queryFn: () => clientServices.getClients(),
+  });
+  const client = clients.find((c) => c._id === clientId);
+
+  const { data: receipts = [], isLoading: isLoadingReceipts } = useQuery({
+    queryKey: ["adminReceipts", { clientId }],
+    queryFn: () => adminReceiptServices.getAdminReceipts({ clientId }),
+    enabled: !!clientId,
+  });
+  const billable = receipts.filter(isBillable);
+
+  // Start from the register's fine rate for the day, as purchases do
+  const registerRate = rateFor(WORK_RECEIPT_METAL, new Date(date));
+  useEffect(() => {
+    setRatePerGram(registerRate ? String(registerRate.ratePerGram) : "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [registerRate?._id]);
+
+  const lines = billable
+    .filter((receipt) => selectedIds.includes(receipt._id))
+    .map(workBillLine);
+  const totals = calculateWorkBillTotals(lines);
+  const rate = { ratePerGram: roundAmount(ratePerGram) };
+  const makingChargeValue = valueAtRate(totals.makingChargeWeight, rate) ?? 0;
+  const balanceValue = valueAtRate(totals.balanceWeight, rate) ?? 0;
+
+  const handleClientChange = (value: string) => {
+    setClientId(value);
+    setSelectedIds([]);
+  };
+
+  const toggleReceipt = (id: string, checked: boolean) =>
+    setSelectedIds((current) =>
+      checked ? [...current, id] : current.filter((r) => r !== id)
+    );
+
+  const canSave = client && lines.length > 0 && rate.ratePerGram > 0;
+
+  const saveBill = async () => {
+    setIsSaving(true);
+    try {
+      const billData: WorkBillInput = {
+        clientId,
+        clientName: client.clientName,
+        date,
+        lines,
+        totals,
+        appliedRate: {
+          metal: WORK_RECEIPT_METAL,
+          purity: finePurity(WORK_RECEIPT_METAL),
+          ratePerGram: rate.ratePerGram,
+          date,
+        },
+        makingChargeValue,
+        balanceValue,
+        settlement,
+        notes: notes.trim() || undefined,
+      };
+      const bill = await workBillServices.createWorkBill(billData);
+
+      // The receipts already put the balance on the ledger; paying it in
+      // cash takes it back off as a payment, carrying it forward leaves it
+      if (settlement === "cash" && roundWeight(totals.balanceWeight) !== 0) {
+        await ledgerServices.createEntry({
+          clientId,
+          type: "payment",
+          amount: -roundWeight(totals.balanceWeight),
+          date,
+          sourceType: "bill",
+          sourceId: bill._id,
+          voucherId: bill.voucherId,
+        });
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["workBills"] });
+      queryClient.invalidateQueries({ queryKey: ["adminReceipts"] });
+      toast({
+        title: "Work bill saved",
+        description: `${bill.voucherId}: ${lines.length} receipt(s) for ${bill.clientName}`,
+      });
+      navigate(`/admin-bills/${bill._id}`);
+    } catch (error) {
+      console.error("Error saving work bill:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/admin-bills")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Work Bills
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">New Work Bill</h1>
+        <p className="text-muted-foreground">
+          Bill a client's finished jobs and settle what they owe
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={handleClientChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((c) => (
+                  <SelectItem key={c._id} value={c._id}>
+                    {c.clientName}
+                    {c.shopName ? ` (${c.shopName})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="billDate">Date</Label>
+            <Input
+              id="billDate"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {clientId && (
+          <div className="overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]"></TableHead>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>Karigar</TableHead>
+                  <TableHead className="text-right">Pure Given</TableHead>
+                  <TableHead className="text-right">Ornaments</TableHead>
+                  <TableHead className="text-right">Making</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingReceipts ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-6">
+                      <Loader2 className="h-5 w-5 animate-spin inline mr-2" />
+                      Loading receipts...
+                    </TableCell>
+                  </TableRow>
+                ) : billable.length > 0 ? (
+                  billable.map((receipt) => {
+                    const line = workBillLine(receipt);
+                    return (
+                      <TableRow key={receipt._id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(receipt._id)}
+                            onCheckedChange={(checked) =>
+                              toggleReceipt(receipt._id, checked === true)
+                            }
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {receipt.voucherId}
+                        </TableCell>
+                        <TableCell>{receipt.karigarName || "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {formatWeight(line.givenPureWeight)}g
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatWeight(line.receivedOrnamentWeight)}g
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatWeight(line.makingChargeWeight)}g
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatWeight(line.balanceWeight)}g
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className="text-center py-6 text-muted-foreground"
+                    >
+                      No completed work receipts waiting to be billed
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+              {lines.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Selected</TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(totals.givenPureWeight)}g
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(totals.receivedOrnamentWeight)}g
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(totals.makingChargeWeight)}g
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(totals.balanceWeight)}g
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="billRate">
+              Rate per gram, {WORK_RECEIPT_METAL}{" "}
+              {finePurity(WORK_RECEIPT_METAL)} (₹)
+            </Label>
+            <Input
+              id="billRate"
+              type="number"
+              step="0.01"
+              min="0"
+              value={ratePerGram}
+              onChange={(e) => setRatePerGram(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {registerRate
+                ? `Register rate ${formatRupees(registerRate.ratePerGram)} since ${format(new Date(registerRate.date), "dd MMM")}`
+                : "No rate in the register for this day"}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Making Charge Value</Label>
+            <div className="h-10 flex items-center text-2xl font-bold">
+              {formatRupees(makingChargeValue)}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Settlement</Label>
+            <RadioGroup
+              value={settlement}
+              onValueChange={(value) =>
+                setSettlement(value as WorkBillSettlement)
+              }
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="carry" />
+                Carry {formatWeight(totals.balanceWeight)}g fine on the client's
+                balance
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="cash" />
+                Settle in cash for {formatRupees(balanceValue)}
+              </label>
+            </RadioGroup>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="billNotes">Notes</Label>
+          <Textarea
+            id="billNotes"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={saveBill} disabled={!canSave || isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save Bill
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
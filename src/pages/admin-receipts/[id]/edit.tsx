@@ -3,39 +3,34 @@ import { useParams, useNavigate } from "react-router-dom";
 import { ArrowLeft, Save, Download, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import axios from "axios";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
+import {
+  adminReceiptServices,
+  ledgerServices,
+  stockServices,
+} from "@/services/api";
+import {
+  calculateBalance,
+  calculateWorkGivenItem,
+  calculateWorkReceivedItem,
+  formatWeight,
+  roundWeight,
+  sumWorkGivenItems,
+  sumWorkReceivedItems,
+  toNumber,
+} from "@/lib/metal-calculations";
+import { drawBrandFooter, drawBrandLogo } from "@/lib/pdf-branding";
+import { workReceiptStock } from "@/lib/stock";
+
+// Its postings were reversed; saving would post them all over again
+const CANCELLED_ERROR =
+  "This receipt has been cancelled and can no longer be edited.";
 
 // Attach autoTable to jsPDF
 (jsPDF as any).autoTable = autoTable;
 
-// API client setup
-const api = axios.create({
-  baseURL: "https://backend-goldsmith.onrender.com/api",
-  headers: {
-    "Content-Type": "application/json",
-  },
-});
-
-// Utility function to safely format numbers
-const safeToFixed = (value: unknown, decimals = 2): string => {
-  const num =
-    typeof value === "number"
-      ? value
-      : typeof value === "string"
-      ? parseFloat(value) || 0
-      : 0;
-  return num.toFixed(decimals);
-};
-
 // Types for our data
-interface Client {
-  id: string;
-  name: string;
-  balance: number;
-}
-
 interface ReceiptItem {
   productName: string;
   pureWeight?: number;
@@ -80,60 +75,6 @@ interface AdminReceipt {
   };
 }
 
-// Client API functions
-const clientApi = {
-  getClientById: async (id: string): Promise<Client> => {
-    try {
-      const response = await api.get(`/clients/${id}`);
-      const c = response.data;
-      return {
-        id: c._id,
-        name: c.clientName,
-        balance: Number(c.balance) || 0,
-      };
-    } catch (error) {
-      console.error(`Error fetching client ${id}:`, error);
-      throw error;
-    }
-  },
-  updateClientBalance: async (id: string, balance: number): Promise<void> => {
-    try {
-      await api.put(`/clients/${id}`, { balance });
-    } catch (error) {
-      console.error(`Error updating client ${id} balance:`, error);
-      throw error;
-    }
-  },
-};
-
-// Work Receipt API functions
-const adminReceiptApi = {
-  getAdminReceiptById: async (id: string): Promise<AdminReceipt> => {
-    try {
-      const response = await api.get(`/admin-receipts/${id}`);
-      return response.data as AdminReceipt;
-    } catch (error) {
-      console.error(`Error fetching Work Receipt ${id}:`, error);
-      throw error;
-    }
-  },
-  updateAdminReceipt: async (
-    id: string,
-    data: Partial<AdminReceipt>
-  ): Promise<AdminReceipt> => {
-    try {
-      console.log("Sending update data:", JSON.stringify(data, null, 2));
-      const response = await api.put(`/admin-receipts/${id}`, data);
-      return response.data as AdminReceipt;
-    } catch (error: any) {
-      console.error(`Error updating Work Receipt ${id}:`, error);
-      console.error("Error response data:", error.response?.data);
-      console.error("Error response status:", error.response?.status);
-      throw error;
-    }
-  },
-};
-
 export default function EditAdminReceiptPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -156,7 +97,11 @@ export default function EditAdminReceiptPage() {
       setError(null);
       try {
         // Fetch receipt
-        const data = await adminReceiptApi.getAdminReceiptById(id);
+        const data = await adminReceiptServices.getAdminReceipt(id);
+        if (data.status === "cancelled") {
+          setError(CANCELLED_ERROR);
+          return;
+        }
 
         // Deep clone and ensure all numeric fields are numbers
         const initializedData = JSON.parse(JSON.stringify(data));
@@ -226,8 +171,9 @@ export default function EditAdminReceiptPage() {
 
         // Fetch client balance
         if (data.clientId) {
-          const client = await clientApi.getClientById(data.clientId);
-          setClientBalance(client.balance);
+          setClientBalance(
+            await ledgerServices.getClientBalance(data.clientId)
+          );
         }
       } catch (err) {
         console.error("Error fetching data:", err);
@@ -300,10 +246,7 @@ export default function EditAdminReceiptPage() {
       // Recalculate totals for given items
       if (transactionType === "given") {
         if (["pureWeight", "purePercent", "melting"].includes(field)) {
-          const pureWeight = updatedItem.pureWeight || 0;
-          const purePercent = updatedItem.purePercent || 0;
-          const melting = updatedItem.melting || 1;
-          updatedItem.total = (pureWeight * purePercent) / melting;
+          updatedItem.total = calculateWorkGivenItem(updatedItem).total;
         }
       }
 
@@ -314,12 +257,7 @@ export default function EditAdminReceiptPage() {
             field
           )
         ) {
-          const finalOrnamentsWt = updatedItem.finalOrnamentsWt || 0;
-          const stoneWeight = updatedItem.stoneWeight || 0;
-          updatedItem.subTotal = finalOrnamentsWt - stoneWeight;
-          updatedItem.total =
-            updatedItem.subTotal *
-            (1 + (updatedItem.makingChargePercent || 0) / 100);
+          Object.assign(updatedItem, calculateWorkReceivedItem(updatedItem));
         }
       }
 
@@ -327,36 +265,10 @@ export default function EditAdminReceiptPage() {
       updatedItems[index] = updatedItem;
 
       // Calculate transaction totals
-      const totals = {
-        total: updatedItems.reduce((sum, item) => sum + (item.total || 0), 0),
-        totalPureWeight:
-          transactionType === "given"
-            ? updatedItems.reduce(
-                (sum, item) =>
-                  sum +
-                  ((item.pureWeight || 0) * (item.purePercent || 0)) / 100,
-                0
-              )
-            : prev[transactionType].totalPureWeight,
-        totalOrnamentsWt:
-          transactionType === "received"
-            ? updatedItems.reduce(
-                (sum, item) => sum + (item.finalOrnamentsWt || 0),
-                0
-              )
-            : prev[transactionType].totalOrnamentsWt,
-        totalStoneWeight:
-          transactionType === "received"
-            ? updatedItems.reduce(
-                (sum, item) => sum + (item.stoneWeight || 0),
-                0
-              )
-            : prev[transactionType].totalStoneWeight,
-        totalSubTotal:
-          transactionType === "received"
-            ? updatedItems.reduce((sum, item) => sum + (item.subTotal || 0), 0)
-            : prev[transactionType].totalSubTotal,
-      };
+      const totals =
+        transactionType === "given"
+          ? sumWorkGivenItems(updatedItems)
+          : sumWorkReceivedItems(updatedItems);
 
       return {
         ...prev,
@@ -416,36 +328,10 @@ export default function EditAdminReceiptPage() {
       updatedItems.splice(index, 1);
 
       // Recalculate totals
-      const totals = {
-        total: updatedItems.reduce((sum, item) => sum + (item.total || 0), 0),
-        totalPureWeight:
-          transactionType === "given"
-            ? updatedItems.reduce(
-                (sum, item) =>
-                  sum +
-                  ((item.pureWeight || 0) * (item.purePercent || 0)) / 100,
-                0
-              )
-            : prev[transactionType].totalPureWeight,
-        totalOrnamentsWt:
-          transactionType === "received"
-            ? updatedItems.reduce(
-                (sum, item) => sum + (item.finalOrnamentsWt || 0),
-                0
-              )
-            : prev[transactionType].totalOrnamentsWt,
-        totalStoneWeight:
-          transactionType === "received"
-            ? updatedItems.reduce(
-                (sum, item) => sum + (item.stoneWeight || 0),
-                0
-              )
-            : prev[transactionType].totalStoneWeight,
-        totalSubTotal:
-          transactionType === "received"
-            ? updatedItems.reduce((sum, item) => sum + (item.subTotal || 0), 0)
-            : prev[transactionType].totalSubTotal,
-      };
+      const totals =
+        transactionType === "given"
+          ? sumWorkGivenItems(updatedItems)
+          : sumWorkReceivedItems(updatedItems);
 
       return {
         ...prev,
@@ -458,8 +344,8 @@ export default function EditAdminReceiptPage() {
     });
   };
 
-  // Calculate balance
-  const calculateBalance = () => {
+  // Apply the chosen operation to the given and received totals
+  const calculateManualResult = () => {
     const givenTotal = Number(receipt?.given?.total) || 0;
     const receivedTotal = Number(receipt?.received?.total) || 0;
     const operation =
@@ -478,16 +364,27 @@ export default function EditAdminReceiptPage() {
       default:
         result = 0;
     }
-    return result;
+    return roundWeight(result);
   };
 
   // Calculate new client balance
+  // The ledger already holds this receipt as first saved, so swap its old net
+  // weight for the new one
   const calculateNewClientBalance = () => {
     if (!receipt) return clientBalance;
-    
-    const givenTotal = Number(receipt.given?.total) || 0;
-    const receivedTotal = Number(receipt.received?.total) || 0;
-    return (givenTotal - receivedTotal) + clientBalance;
+
+    const balanceBeforeReceipt = calculateBalance(
+      clientBalance,
+      calculateBalance(
+        originalReceipt?.given?.total,
+        originalReceipt?.received?.total
+      )
+    );
+    return calculateBalance(
+      receipt.given?.total,
+      receipt.received?.total,
+      balanceBeforeReceipt
+    );
   };
 
   // Handle save
@@ -532,9 +429,7 @@ export default function EditAdminReceiptPage() {
         }
       }
 
-      // Update client balance first
       const newClientBalance = calculateNewClientBalance();
-      await clientApi.updateClientBalance(receipt.clientId, newClientBalance);
 
       // Update receipt status
       const shouldBeComplete =
@@ -545,12 +440,11 @@ export default function EditAdminReceiptPage() {
 
       // Prepare manual calculations
       const manualCalculations = {
-        givenTotal: Math.round((Number(receipt.given.total) || 0) * 100) / 100,
-        receivedTotal:
-          Math.round((Number(receipt.received.total) || 0) * 100) / 100,
+        givenTotal: roundWeight(receipt.given.total),
+        receivedTotal: roundWeight(receipt.received.total),
         operation:
           receipt.manualCalculations?.operation || "subtract-given-received",
-        result: Math.round(calculateBalance() * 100) / 100,
+        result: calculateManualResult(),
       };
 
       // Clean up the data to ensure all numeric fields are properly formatted
@@ -563,10 +457,10 @@ export default function EditAdminReceiptPage() {
           items: receipt.given.items.map((item) => {
             const cleanedItem: any = {
               productName: item.productName,
-              pureWeight: Number(item.pureWeight) || 0,
+              pureWeight: roundWeight(item.pureWeight),
               purePercent: Number(item.purePercent) || 0,
               melting: Number(item.melting) || 0,
-              total: Math.round((Number(item.total) || 0) * 100) / 100, // Fix floating point precision
+              total: roundWeight(item.total),
               date: item.date || new Date().toISOString().split("T")[0],
             };
 
@@ -589,21 +483,20 @@ export default function EditAdminReceiptPage() {
 
             return cleanedItem;
           }),
-          total: Math.round((Number(receipt.given.total) || 0) * 100) / 100,
+          total: roundWeight(receipt.given.total),
           totalPureWeight:
-            Math.round((Number(receipt.given.totalPureWeight) || 0) * 100) /
-            100,
+            roundWeight(receipt.given.totalPureWeight),
         },
         received: {
           ...receipt.received,
           items: receipt.received.items.map((item) => {
             const cleanedItem: any = {
               productName: item.productName,
-              finalOrnamentsWt: Number(item.finalOrnamentsWt) || 0,
-              stoneWeight: Number(item.stoneWeight) || 0,
-              subTotal: Math.round((Number(item.subTotal) || 0) * 100) / 100,
+              finalOrnamentsWt: roundWeight(item.finalOrnamentsWt),
+              stoneWeight: roundWeight(item.stoneWeight),
+              subTotal: roundWeight(item.subTotal),
               makingChargePercent: Number(item.makingChargePercent) || 0,
-              total: Math.round((Number(item.total) || 0) * 100) / 100, // Fix floating point precision
+              total: roundWeight(item.total),
               date: item.date || new Date().toISOString().split("T")[0],
             };
 
@@ -626,29 +519,43 @@ export default function EditAdminReceiptPage() {
 
             return cleanedItem;
           }),
-          total: Math.round((Number(receipt.received.total) || 0) * 100) / 100,
+          total: roundWeight(receipt.received.total),
           totalOrnamentsWt:
-            Math.round((Number(receipt.received.totalOrnamentsWt) || 0) * 100) /
-            100,
+            roundWeight(receipt.received.totalOrnamentsWt),
           totalStoneWeight:
-            Math.round((Number(receipt.received.totalStoneWeight) || 0) * 100) /
-            100,
+            roundWeight(receipt.received.totalStoneWeight),
           totalSubTotal:
-            Math.round((Number(receipt.received.totalSubTotal) || 0) * 100) /
-            100,
+            roundWeight(receipt.received.totalSubTotal),
         },
       };
 
       // Remove unnecessary fields that might cause issues
       const { _id, __v, createdAt, updatedAt, ...updateData } = cleanedReceipt;
 
-      await adminReceiptApi.updateAdminReceipt(id, updateData);
+      // It may have been cancelled since the page was opened
+      const current = await adminReceiptServices.getAdminReceipt(id);
+      if (current.status === "cancelled") throw new Error(CANCELLED_ERROR);
+
+      await adminReceiptServices.updateAdminReceipt(id, updateData);
+      await ledgerServices.recordReceipt({
+        clientId: receipt.clientId,
+        sourceType: "work",
+        sourceId: id,
+        voucherId: receipt.voucherId,
+        amount: calculateBalance(receipt.given.total, receipt.received.total),
+      });
+      await stockServices.recordReceiptStock({
+        sourceType: "work",
+        sourceId: id,
+        voucherId: receipt.voucherId,
+        lines: workReceiptStock(receipt),
+      });
       setClientBalance(newClientBalance);
 
       toast({
         title: "Success",
-        description: `Receipt updated successfully. New client balance: ${newClientBalance.toFixed(
-          2
+        description: `Receipt updated successfully. New client balance: ${formatWeight(
+          newClientBalance
         )}`,
       });
       navigate(`/admin-receipts/${id}`);
@@ -676,7 +583,6 @@ export default function EditAdminReceiptPage() {
     const contentWidth = pageWidth - margin * 2;
 
     // Helper functions
-    const formatNumber = (num: number) => num.toFixed(2);
     const formatDate = (dateStr: string) => {
       try {
         return new Date(dateStr).toLocaleDateString();
@@ -691,14 +597,8 @@ export default function EditAdminReceiptPage() {
     doc.rect(5, 5, pageWidth - 10, pageHeight - 10);
 
     // Add logo - centered at top
-    let currentY = 25;
-    try {
-      // If you have a logo file, you can add it here
-      // doc.addImage(logoBase64, "PNG", pageWidth/2 - 20, 15, 40, 20);
-      // currentY = 45;
-    } catch (error) {
-      console.warn("Logo not found, continuing without logo");
-    }
+    drawBrandLogo(doc, pageWidth / 2 - 20, 8, 40, 20);
+    let currentY = 35;
 
     // Title
     doc.setFont("helvetica", "bold");
@@ -747,10 +647,10 @@ export default function EditAdminReceiptPage() {
 
       const givenTableData = receipt.given.items.map((item) => [
         item.productName,
-        formatNumber(item.pureWeight),
-        formatNumber(item.purePercent) + "%",
-        formatNumber(item.melting),
-        formatNumber(item.total),
+        formatWeight(item.pureWeight),
+        toNumber(item.purePercent).toFixed(2) + "%",
+        toNumber(item.melting).toFixed(2),
+        formatWeight(item.total),
       ]);
 
       autoTable(doc, {
@@ -793,10 +693,10 @@ export default function EditAdminReceiptPage() {
 
       const receivedTableData = receipt.received.items.map((item) => [
         item.productName,
-        formatNumber(item.finalOrnamentsWt),
-        formatNumber(item.stoneWeight),
-        formatNumber(item.makingChargePercent) + "%",
-        formatNumber(item.total),
+        formatWeight(item.finalOrnamentsWt),
+        formatWeight(item.stoneWeight),
+        toNumber(item.makingChargePercent).toFixed(2) + "%",
+        formatWeight(item.total),
       ]);
 
       autoTable(doc, {
@@ -831,7 +731,7 @@ export default function EditAdminReceiptPage() {
     }
 
     // Summary section
-    const balance = calculateBalance();
+    const balance = calculateManualResult();
 
     doc.setFont("helvetica", "bold");
     doc.setFontSize(11);
@@ -839,9 +739,9 @@ export default function EditAdminReceiptPage() {
     currentY += 10;
 
     const summaryData = [
-      ["Given Total:", formatNumber(receipt.given.total)],
-      ["Received Total:", formatNumber(receipt.received.total)],
-      ["Balance (Given - Received):", formatNumber(balance)],
+      ["Given Total:", formatWeight(receipt.given.total)],
+      ["Received Total:", formatWeight(receipt.received.total)],
+      ["Balance (Given - Received):", formatWeight(balance)],
     ];
 
     summaryData.forEach(([label, value]) => {
@@ -863,6 +763,7 @@ export default function EditAdminReceiptPage() {
       align: "center",
     });
 
+    drawBrandFooter(doc);
     doc.save(`receipt-${receipt.voucherId}.pdf`);
   };
 
@@ -898,7 +799,11 @@ export default function EditAdminReceiptPage() {
     return (
       <div className="container py-6">
         <div className="text-center py-12">
-          <h2 className="text-2xl font-bold mb-2">Receipt Not Found</h2>
+          <h2 className="text-2xl font-bold mb-2">
+            {error === CANCELLED_ERROR
+              ? "Receipt Cancelled"
+              : "Receipt Not Found"}
+          </h2>
           <p className="text-muted-foreground mb-6">
             {error ||
               "The receipt you are looking for does not exist or has been removed."}
@@ -1118,7 +1023,7 @@ export default function EditAdminReceiptPage() {
                     <td className="py-2 px-4">
                       <input
                         type="number"
-                        value={safeToFixed(item.total)}
+                        value={formatWeight(item.total)}
                         readOnly
                         className="w-full border rounded px-2 py-1 bg-gray-100"
                         placeholder="0.00"
@@ -1157,7 +1062,7 @@ export default function EditAdminReceiptPage() {
                     Total:
                   </td>
                   <td className="py-2 px-4 font-medium">
-                    {safeToFixed(receipt.given?.total)}
+                    {formatWeight(receipt.given?.total)}
                   </td>
                   <td></td>
                 </tr>
@@ -1285,7 +1190,7 @@ export default function EditAdminReceiptPage() {
                     <td className="py-2 px-4">
                       <input
                         type="number"
-                        value={safeToFixed(item.subTotal)}
+                        value={formatWeight(item.subTotal)}
                         readOnly
                         className="w-full border rounded px-2 py-1 bg-gray-100"
                         placeholder="0.00"
@@ -1312,7 +1217,7 @@ export default function EditAdminReceiptPage() {
                     <td className="py-2 px-4">
                       <input
                         type="number"
-                        value={safeToFixed(item.total)}
+                        value={formatWeight(item.total)}
                         readOnly
                         className="w-full border rounded px-2 py-1 bg-gray-100"
                         placeholder="0.00"
@@ -1351,7 +1256,7 @@ export default function EditAdminReceiptPage() {
                     Total:
                   </td>
                   <td className="py-2 px-4 font-medium">
-                    {safeToFixed(receipt.received?.total)}
+                    {formatWeight(receipt.received?.total)}
                   </td>
                   <td></td>
                 </tr>
@@ -1366,25 +1271,25 @@ export default function EditAdminReceiptPage() {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <p className="text-sm text-gray-500">Given Total (g)</p>
-              <p className="font-medium">{safeToFixed(receipt.given?.total)}</p>
+              <p className="font-medium">{formatWeight(receipt.given?.total)}</p>
             </div>
             <div>
               <p className="text-sm text-gray-500">Received Total (g)</p>
               <p className="font-medium">
-                {safeToFixed(receipt.received?.total)}
+                {formatWeight(receipt.received?.total)}
               </p>
             </div>
             <div>
               <p className="text-sm text-gray-500">
                 Current Client Balance (g)
               </p>
-              <p className="font-medium">{safeToFixed(clientBalance)}</p>
+              <p className="font-medium">{formatWeight(clientBalance)}</p>
             </div>
             
             <div>
               <p className="text-sm text-gray-500">New Client Balance (g)</p>
               <p className="font-medium">
-                {safeToFixed(calculateNewClientBalance())}
+                {formatWeight(calculateNewClientBalance())}
               </p>
             </div>
           </div>
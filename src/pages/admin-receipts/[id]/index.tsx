@@ -3,104 +3,31 @@ import { useParams, useNavigate } from "react-router-dom";
 import { ArrowLeft, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import axios from "axios";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import { format } from "date-fns";
+import { DeletionRequestNotice } from "@/components/receipts/deletion-request-notice";
+import {
+  CancellationNotice,
+  CancelledWatermark,
+} from "@/components/receipts/cancelled-receipt";
+import { adminReceiptServices, clientServices } from "@/services/api";
+import { AdminReceipt } from "@/models/AdminReceipt";
+import { Client } from "@/models/Client";
+import { calculateBalance, formatWeight } from "@/lib/metal-calculations";
+import {
+  drawBrandFooter,
+  drawBrandFrame,
+  drawCancelledWatermark,
+} from "@/lib/pdf-branding";
+import { AppliedRateSummary } from "@/components/rates/applied-rate-summary";
+import { AuditHistory } from "@/components/audit/audit-history";
 
 // Attach autoTable to jsPDF
 (jsPDF as any).autoTable = autoTable;
 
-// API client setup
-const api = axios.create({
-  baseURL: "https://backend-goldsmith.onrender.com/api",
-  headers: {
-    "Content-Type": "application/json",
-  },
-});
-
-// Types for our receipt data
-interface ReceiptItem {
-  productName: string;
-  pureWeight?: number | string;
-  purePercent?: number | string;
-  melting?: number | string;
-  total?: number | string;
-  finalOrnamentsWt?: number | string;
-  stoneWeight?: number | string;
-  subTotal?: number | string;
-  makingChargePercent?: number | string;
-  date?: string;
-  tag?: string;
-  _id: string;
-}
-
-interface TransactionDetails {
-  date: string;
-  items: ReceiptItem[];
-  total?: number | string;
-  totalPureWeight?: number | string;
-  totalOrnamentsWt?: number | string;
-  totalStoneWeight?: number | string;
-  totalSubTotal?: number | string;
-}
-
-interface AdminReceipt {
-  _id: string;
-  clientId: string;
-  clientName: string;
-  status: string;
-  voucherId: string;
-  given: TransactionDetails;
-  received: TransactionDetails;
-  createdAt: string;
-  updatedAt: string;
-  __v: number;
-  manualCalculations: {
-    givenTotal: number | string;
-    receivedTotal: number | string;
-    operation: string;
-    result: number | string;
-  };
-}
-
-// Interface for client details fetched from /api/clients/:id
-interface ClientDetails {
-  _id: string;
-  shopName: string;
-  clientName: string;
-  phoneNumber: string;
-  address: string;
-  email: string;
-  active: boolean;
-  balance?: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Work Receipt API functions
-const adminReceiptApi = {
-  getAdminReceiptById: async (id: string): Promise<AdminReceipt> => {
-    try {
-      const response = await api.get(`/admin-receipts/${id}`);
-      return response.data as AdminReceipt;
-    } catch (error) {
-      console.error(`Error fetching Work Receipt ${id}:`, error);
-      throw error;
-    }
-  },
-  getClientById: async (clientId: string): Promise<ClientDetails> => {
-    try {
-      const response = await api.get(`/clients/${clientId}`);
-      return response.data as ClientDetails;
-    } catch (error) {
-      console.error(`Error fetching client ${clientId}:`, error);
-      throw error;
-    }
-  },
-};
-
 // Helper to convert a value to a number and format it with toFixed
 const formatNumber = (
   value: number | string | undefined,
@@ -112,7 +39,7 @@ const formatNumber = (
 };
 
 // Helper to format date
-const formatDate = (dateString: string | undefined) => {
+const formatDate = (dateString: string | Date | undefined) => {
   if (!dateString) return "N/A";
   return new Date(dateString).toLocaleDateString("en-US", {
     year: "numeric",
@@ -124,23 +51,12 @@ const formatDate = (dateString: string | undefined) => {
 // Updated generatePDF function to use client details
 const generatePDF = async (
   receipt: AdminReceipt,
-  client: ClientDetails | null
+  client: Client | null
 ) => {
   const doc = new jsPDF("p", "mm", "a4");
   const pageWidth = doc.internal.pageSize.getWidth();
 
-  // Set golden border (approximating the color from the image)
-  doc.setDrawColor(204, 153, 0); // Golden border color (RGB)
-  doc.setLineWidth(1);
-  doc.rect(5, 5, 200, 287); // A4 page border (210x297 mm, with 5mm margin)
-
-  // Add logo at the top center
-  const logoPath = "/logo.jpg"; // Using the provided logo path
-  try {
-    doc.addImage(logoPath, "JPEG", 85, 5, 40, 20); // Centered logo, adjusted size to fit design
-  } catch (logoError) {
-    console.warn("Logo not found, continuing without logo");
-  }
+  drawBrandFrame(doc);
 
   // Dynamic Fields (aligned with design)
   doc.setFontSize(11);
@@ -198,10 +114,10 @@ const generatePDF = async (
   const givenTableBody = givenItems.map((item, index) => [
     index + 1,
     item.productName || "-",
-    formatNumber(item.pureWeight),
+    formatWeight(item.pureWeight),
     formatNumber(item.purePercent),
     formatNumber(item.melting),
-    formatNumber(item.total),
+    formatWeight(item.total),
     item.date ? format(new Date(item.date), "dd/MM/yyyy") : "—",
   ]);
 
@@ -212,7 +128,7 @@ const generatePDF = async (
     "",
     "",
     "",
-    formatNumber(receipt.given?.total),
+    formatWeight(receipt.given?.total),
     "",
   ]);
 
@@ -282,12 +198,12 @@ const generatePDF = async (
     index + 1,
     item.productName || "-",
     item.date ? format(new Date(item.date), "dd/MM/yyyy") : "—",
-    formatNumber(item.finalOrnamentsWt),
-    formatNumber(item.stoneWeight),
+    formatWeight(item.finalOrnamentsWt),
+    formatWeight(item.stoneWeight),
     formatNumber(item.makingChargePercent, 2),
-    formatNumber(Number(item.total) - Number(item.subTotal)),
-    formatNumber(item.subTotal),
-    formatNumber(item.total),
+    formatWeight(Number(item.total) - Number(item.subTotal)),
+    formatWeight(item.subTotal),
+    formatWeight(item.total),
   ]);
 
   // Add totals row for received items
@@ -295,12 +211,12 @@ const generatePDF = async (
     "",
     "Total:",
     "",
-    formatNumber(receipt.received?.totalOrnamentsWt),
-    formatNumber(receipt.received?.totalStoneWeight),
+    formatWeight(receipt.received?.totalOrnamentsWt),
+    formatWeight(receipt.received?.totalStoneWeight),
     "",
     "",
-    formatNumber(receipt.received?.totalSubTotal),
-    formatNumber(receipt.received?.total),
+    formatWeight(receipt.received?.totalSubTotal),
+    formatWeight(receipt.received?.total),
   ]);
 
   autoTable(doc, {
@@ -365,12 +281,15 @@ const generatePDF = async (
   ];
 
   const balanceValues = [
-    formatNumber(client?.balance || 0, 2),
-    formatNumber(receipt.given?.total),
-    formatNumber(receipt.received?.total),
-    formatNumber(
-      (client?.balance || 0) + Number(receipt.given?.total || 0) - Number(receipt.received?.total || 0),
-      3
+    formatWeight(client?.balance),
+    formatWeight(receipt.given?.total),
+    formatWeight(receipt.received?.total),
+    formatWeight(
+      calculateBalance(
+        receipt.given?.total,
+        receipt.received?.total,
+        client?.balance
+      )
     ),
   ];
 
@@ -464,6 +383,8 @@ const generatePDF = async (
     receipt.clientName?.replace(/[^a-zA-Z0-9]/g, "_") ||
     "unknown"
   }.pdf`;
+  if (receipt.status === "cancelled") drawCancelledWatermark(doc);
+  drawBrandFooter(doc);
   doc.save(fileName);
 };
 
@@ -472,7 +393,7 @@ export default function AdminReceiptDetailPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [receipt, setReceipt] = useState<AdminReceipt | null>(null);
-  const [client, setClient] = useState<ClientDetails | null>(null);
+  const [client, setClient] = useState<Client | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -485,12 +406,12 @@ export default function AdminReceiptDetailPage() {
       setError(null);
       try {
         // Fetch receipt data
-        const receiptData = await adminReceiptApi.getAdminReceiptById(id);
+        const receiptData = await adminReceiptServices.getAdminReceipt(id);
         setReceipt(receiptData); // Fixed syntax error: removed space between set and Receipt
 
         // Fetch client data using clientId from receipt
         if (receiptData?.clientId) {
-          const clientData = await adminReceiptApi.getClientById(
+          const clientData = await clientServices.getClient(
             receiptData.clientId
           );
           setClient(clientData);
@@ -559,12 +480,14 @@ export default function AdminReceiptDetailPage() {
   }
 
   // Calculate final balance including client's current balance
-  const calculateFinalBalance = () => {
-    const givenTotal = parseFloat(String(receipt.given?.total || 0));
-    const receivedTotal = parseFloat(String(receipt.received?.total || 0));
-    const currentBalance = client?.balance || 0;
-    return (givenTotal - receivedTotal + currentBalance).toFixed(3);
-  };
+  const calculateFinalBalance = () =>
+    formatWeight(
+      calculateBalance(
+        receipt.given?.total,
+        receipt.received?.total,
+        client?.balance
+      )
+    );
 
   return (
     <div className="container py-6">
@@ -577,6 +500,13 @@ export default function AdminReceiptDetailPage() {
             <p className="text-gray-500">
               Work Receipt for: {client?.clientName || receipt.clientName}
             </p>
+            {receipt.karigarName && (
+              <p className="text-gray-500">
+                Issued to: {receipt.karigarName}
+                {receipt.agreedWastagePercent !== undefined &&
+                  ` (agreed wastage ${receipt.agreedWastagePercent}%)`}
+              </p>
+            )}
 
             <p className="text-gray-500">
               Status:
@@ -586,6 +516,8 @@ export default function AdminReceiptDetailPage() {
                     ? "bg-green-100 text-green-800"
                     : receipt.status === "incomplete"
                     ? "bg-yellow-100 text-yellow-800"
+                    : receipt.status === "cancelled"
+                    ? "bg-red-100 text-red-800"
                     : "bg-gray-100 text-gray-800"
                 }`}
               >
@@ -608,367 +540,387 @@ export default function AdminReceiptDetailPage() {
 
         <Separator className="my-6" />
 
-        {/* Given Items Section */}
-        <div className="mb-8">
-          <h2 className="text-xl font-semibold mb-2">Given Items</h2>
-
-          <div className="mb-4">
-            <h3 className="text-lg font-medium mb-2">
-              Given Details (Client: {client?.clientName || receipt.clientName})
-            </h3>
-            <p className="text-gray-600 mb-4">
-              {receipt.given?.date
-                ? format(new Date(receipt.given.date), "MMMM do, yyyy")
-                : format(new Date(), "MMMM do, yyyy")}
-            </p>
-          </div>
-
-          {receipt.given?.items?.length ? (
-            <div className="overflow-x-auto mb-4">
-              <table className="w-full border-collapse border">
-                <thead>
-                  <tr className="bg-gray-50 border-b">
-                    <th className="py-2 px-4 text-sm font-semibold text-left border">
-                      Product Name
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Date
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Pure Weight (g)
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Pure %
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Melting
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Total (g)
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {receipt.given.items.map((item, index) => (
-                    <tr key={index} className="border-b">
-                      <td className="py-2 px-4 border">
-                        {item.productName || "Product Name"}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {item.date
-                          ? format(new Date(item.date), "dd-MM-yyyy")
-                          : format(new Date(), "dd-MM-yyyy")}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.pureWeight)}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.purePercent)}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.melting)}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.total, 2)}
-                      </td>
-                    </tr>
-                  ))}
-                  <tr className="bg-gray-50 font-medium">
-                    <td className="py-2 px-4 border">Totals</td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">
-                      {formatNumber(receipt.given?.totalPureWeight, 2)}
-                    </td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">
-                      {formatNumber(receipt.given?.total, 2)}
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          ) : (
-            <div className="overflow-x-auto mb-4">
-              <table className="w-full border-collapse border">
-                <thead>
-                  <tr className="bg-gray-50 border-b">
-                    <th className="py-2 px-4 text-sm font-semibold text-left border">
-                      Product Name
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Date
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Pure Weight (g)
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Pure %
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Melting
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Total (g)
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr>
-                    <td className="py-2 px-4 border">Product Name</td>
-                    <td className="py-2 px-4 text-center border">
-                      {format(new Date(), "dd-MM-yyyy")}
-                    </td>
-                    <td className="py-2 px-4 text-center border">
-                      Pure Weight
-                    </td>
-                    <td className="py-2 px-4 text-center border">Pure %</td>
-                    <td className="py-2 px-4 text-center border">Melting</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                  </tr>
-                  <tr className="bg-gray-50 font-medium">
-                    <td className="py-2 px-4 border">Totals</td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                  </tr>
-                </tbody>
-              </table>
+        <CancellationNotice cancellation={receipt.cancellation} />
+        <DeletionRequestNotice deletionRequest={receipt.deletionRequest} />
+
+        <Tabs defaultValue="details">
+          <TabsList className="mb-6">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="relative mt-0">
+            {receipt.status === "cancelled" && <CancelledWatermark />}
+            {/* Given Items Section */}
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-2">Given Items</h2>
+
+              <div className="mb-4">
+                <h3 className="text-lg font-medium mb-2">
+                  Given Details (Client: {client?.clientName || receipt.clientName})
+                </h3>
+                <p className="text-gray-600 mb-4">
+                  {receipt.given?.date
+                    ? format(new Date(receipt.given.date), "MMMM do, yyyy")
+                    : format(new Date(), "MMMM do, yyyy")}
+                </p>
+              </div>
+
+              {receipt.given?.items?.length ? (
+                <div className="overflow-x-auto mb-4">
+                  <table className="w-full border-collapse border">
+                    <thead>
+                      <tr className="bg-gray-50 border-b">
+                        <th className="py-2 px-4 text-sm font-semibold text-left border">
+                          Product Name
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Date
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Pure Weight (g)
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Pure %
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Melting
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Total (g)
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {receipt.given.items.map((item, index) => (
+                        <tr key={index} className="border-b">
+                          <td className="py-2 px-4 border">
+                            {item.productName || "Product Name"}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {item.date
+                              ? format(new Date(item.date), "dd-MM-yyyy")
+                              : format(new Date(), "dd-MM-yyyy")}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatWeight(item.pureWeight)}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatNumber(item.purePercent)}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatNumber(item.melting)}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatWeight(item.total)}
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="bg-gray-50 font-medium">
+                        <td className="py-2 px-4 border">Totals</td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">
+                          {formatWeight(receipt.given?.totalPureWeight)}
+                        </td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">
+                          {formatWeight(receipt.given?.total)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="overflow-x-auto mb-4">
+                  <table className="w-full border-collapse border">
+                    <thead>
+                      <tr className="bg-gray-50 border-b">
+                        <th className="py-2 px-4 text-sm font-semibold text-left border">
+                          Product Name
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Date
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Pure Weight (g)
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Pure %
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Melting
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Total (g)
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr>
+                        <td className="py-2 px-4 border">Product Name</td>
+                        <td className="py-2 px-4 text-center border">
+                          {format(new Date(), "dd-MM-yyyy")}
+                        </td>
+                        <td className="py-2 px-4 text-center border">
+                          Pure Weight
+                        </td>
+                        <td className="py-2 px-4 text-center border">Pure %</td>
+                        <td className="py-2 px-4 text-center border">Melting</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                      </tr>
+                      <tr className="bg-gray-50 font-medium">
+                        <td className="py-2 px-4 border">Totals</td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Given Summary Cards */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-gray-50 p-4 rounded-lg">
+                <div>
+                  <p className="text-sm text-gray-500">Totals</p>
+                  <p className="font-medium">
+                    {formatWeight(receipt.given?.total)} g
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">OD Balance</p>
+                  <p className="font-medium">
+                    {formatWeight(client?.balance)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Calculation</p>
+                  <p className="font-medium">
+                    {formatWeight(receipt.given?.total)} +{" "}
+                    {formatWeight(client?.balance)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Final Given Total</p>
+                  <p className="font-medium">
+                    {formatWeight(
+                      Number(receipt.given?.total || 0) +
+                        Number(client?.balance || 0)
+                    )}
+                  </p>
+                </div>
+              </div>
             </div>
-          )}
-
-          {/* Given Summary Cards */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-gray-50 p-4 rounded-lg">
-            <div>
-              <p className="text-sm text-gray-500">Totals</p>
-              <p className="font-medium">
-                {formatNumber(receipt.given?.total)} g
-              </p>
-            </div>
-            <div>
-              <p className="text-sm text-gray-500">OD Balance</p>
-              <p className="font-medium">
-                {client && typeof client.balance === "number"
-                  ? client.balance.toFixed(3)
-                  : "0.000"}
-              </p>
-            </div>
-            <div>
-              <p className="text-sm text-gray-500">Calculation</p>
-              <p className="font-medium">
-                {formatNumber(receipt.given?.total)} +{" "}
-                {client && typeof client.balance === "number"
-                  ? client.balance.toFixed(3)
-                  : "0.000"}
-              </p>
-            </div>
-            <div>
-              <p className="text-sm text-gray-500">Final Given Total</p>
-              <p className="font-medium">
-                {formatNumber(
-                  Number(receipt.given?.total || 0) +
-                    Number(client?.balance || 0)
-                )}
-              </p>
-            </div>
-          </div>
-        </div>
-
-        <Separator className="my-6" />
 
-        {/* Received Items Section */}
-        <div className="mb-8">
-          <h2 className="text-xl font-semibold mb-2">Received Items</h2>
-
-          <div className="mb-4">
-            <h3 className="text-lg font-medium mb-2">
-              Received Details (Client:{" "}
-              {client?.clientName || receipt.clientName})
-            </h3>
-            <p className="text-gray-600 mb-4">
-              {receipt.received?.date
-                ? format(new Date(receipt.received.date), "MMMM do, yyyy")
-                : format(new Date(), "MMMM do, yyyy")}
-            </p>
-          </div>
-
-          {receipt.received?.items?.length ? (
-            <div className="overflow-x-auto mb-4">
-              <table className="w-full border-collapse border">
-                <thead>
-                  <tr className="bg-gray-50 border-b">
-                    <th className="py-2 px-4 text-sm font-semibold text-left border">
-                      Product Name
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Date
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Final Ornaments Wt (g)
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Stone Weight (g)
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Touch
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      MC
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Subtotal (g)
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Total (g)
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {receipt.received.items.map((item, index) => (
-                    <tr key={index} className="border-b">
-                      <td className="py-2 px-4 border">
-                        {item.productName || "Product Name"}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {item.date
-                          ? format(new Date(item.date), "dd-MM-yyyy")
-                          : format(new Date(), "dd-MM-yyyy")}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.finalOrnamentsWt)}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.stoneWeight)}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.makingChargePercent, 2)}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(
-                          Number(item.total) - Number(item.subTotal),
-                          2
-                        )}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.subTotal, 2)}
-                      </td>
-                      <td className="py-2 px-4 text-center border">
-                        {formatNumber(item.total, 2)}
-                      </td>
-                    </tr>
-                  ))}
-                  <tr className="bg-gray-50 font-medium">
-                    <td className="py-2 px-4 border">Totals</td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">
-                      {formatNumber(receipt.received?.totalOrnamentsWt, 2)}
-                    </td>
-                    <td className="py-2 px-4 text-center border">
-                      {formatNumber(receipt.received?.totalStoneWeight, 2)}
-                    </td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                    <td className="py-2 px-4 text-center border">
-                      {formatNumber(receipt.received?.totalSubTotal, 2)}
-                    </td>
-                    <td className="py-2 px-4 text-center border">
-                      {formatNumber(receipt.received?.total, 2)}
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          ) : (
-            <div className="overflow-x-auto mb-4">
-              <table className="w-full border-collapse border">
-                <thead>
-                  <tr className="bg-gray-50 border-b">
-                    <th className="py-2 px-4 text-sm font-semibold text-left border">
-                      Product Name
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Date
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Final Ornaments Wt (g)
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Stone Weight (g)
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Touch
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      MC
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Subtotal (g)
-                    </th>
-                    <th className="py-2 px-4 text-sm font-semibold text-center border">
-                      Total (g)
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr>
-                    <td className="py-2 px-4 border">Product Name</td>
-                    <td className="py-2 px-4 text-center border">
-                      {format(new Date(), "dd-MM-yyyy")}
-                    </td>
-                    <td className="py-2 px-4 text-center border">
-                      Final Ornaments Wt
-                    </td>
-                    <td className="py-2 px-4 text-center border">0</td>
-                    <td className="py-2 px-4 text-center border">Touch</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                  </tr>
-                  <tr className="bg-gray-50 font-medium">
-                    <td className="py-2 px-4 border">Totals</td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                    <td className="py-2 px-4 text-center border">-</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                    <td className="py-2 px-4 text-center border">0.00</td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          )}
-
-          {/* Received Summary Cards */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-blue-50 p-4 rounded-lg">
-            <div>
-              <p className="text-sm text-gray-500">Totals</p>
-              <p className="font-medium">
-                {formatNumber(receipt.received?.total)}
-              </p>
-            </div>
-            <div>
-              <p className="text-sm text-gray-500">Current Balance</p>
-              <p className="font-medium">
-                {client && typeof client.balance === "number"
-                  ? client.balance.toFixed(3)
-                  : "0.000"}
-              </p>
+            <Separator className="my-6" />
+
+            {/* Received Items Section */}
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-2">Received Items</h2>
+
+              <div className="mb-4">
+                <h3 className="text-lg font-medium mb-2">
+                  Received Details (Client:{" "}
+                  {client?.clientName || receipt.clientName})
+                </h3>
+                <p className="text-gray-600 mb-4">
+                  {receipt.received?.date
+                    ? format(new Date(receipt.received.date), "MMMM do, yyyy")
+                    : format(new Date(), "MMMM do, yyyy")}
+                </p>
+              </div>
+
+              {receipt.received?.items?.length ? (
+                <div className="overflow-x-auto mb-4">
+                  <table className="w-full border-collapse border">
+                    <thead>
+                      <tr className="bg-gray-50 border-b">
+                        <th className="py-2 px-4 text-sm font-semibold text-left border">
+                          Product Name
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Date
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Final Ornaments Wt (g)
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Stone Weight (g)
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Touch
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          MC
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Subtotal (g)
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Total (g)
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {receipt.received.items.map((item, index) => (
+                        <tr key={index} className="border-b">
+                          <td className="py-2 px-4 border">
+                            {item.productName || "Product Name"}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {item.date
+                              ? format(new Date(item.date), "dd-MM-yyyy")
+                              : format(new Date(), "dd-MM-yyyy")}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatWeight(item.finalOrnamentsWt)}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatWeight(item.stoneWeight)}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatNumber(item.makingChargePercent, 2)}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatWeight(
+                              Number(item.total) - Number(item.subTotal)
+                            )}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatWeight(item.subTotal)}
+                          </td>
+                          <td className="py-2 px-4 text-center border">
+                            {formatWeight(item.total)}
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="bg-gray-50 font-medium">
+                        <td className="py-2 px-4 border">Totals</td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">
+                          {formatWeight(receipt.received?.totalOrnamentsWt)}
+                        </td>
+                        <td className="py-2 px-4 text-center border">
+                          {formatWeight(receipt.received?.totalStoneWeight)}
+                        </td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                        <td className="py-2 px-4 text-center border">
+                          {formatWeight(receipt.received?.totalSubTotal)}
+                        </td>
+                        <td className="py-2 px-4 text-center border">
+                          {formatWeight(receipt.received?.total)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="overflow-x-auto mb-4">
+                  <table className="w-full border-collapse border">
+                    <thead>
+                      <tr className="bg-gray-50 border-b">
+                        <th className="py-2 px-4 text-sm font-semibold text-left border">
+                          Product Name
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Date
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Final Ornaments Wt (g)
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Stone Weight (g)
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Touch
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          MC
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Subtotal (g)
+                        </th>
+                        <th className="py-2 px-4 text-sm font-semibold text-center border">
+                          Total (g)
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr>
+                        <td className="py-2 px-4 border">Product Name</td>
+                        <td className="py-2 px-4 text-center border">
+                          {format(new Date(), "dd-MM-yyyy")}
+                        </td>
+                        <td className="py-2 px-4 text-center border">
+                          Final Ornaments Wt
+                        </td>
+                        <td className="py-2 px-4 text-center border">0</td>
+                        <td className="py-2 px-4 text-center border">Touch</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                      </tr>
+                      <tr className="bg-gray-50 font-medium">
+                        <td className="py-2 px-4 border">Totals</td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                        <td className="py-2 px-4 text-center border">-</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                        <td className="py-2 px-4 text-center border">0.00</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Received Summary Cards */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-blue-50 p-4 rounded-lg">
+                <div>
+                  <p className="text-sm text-gray-500">Totals</p>
+                  <p className="font-medium">
+                    {formatWeight(receipt.received?.total)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Current Balance</p>
+                  <p className="font-medium">
+                    {formatWeight(client?.balance)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Calculation</p>
+                  <p className="font-medium">
+                    ({formatWeight(receipt.given?.total)} - {formatWeight(receipt.received?.total)}) + {formatWeight(client?.balance)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Final Total (Given-Received)+Balance</p>
+                  <p className="font-medium">{calculateFinalBalance()}</p>
+                </div>
+              </div>
+
+              <div className="mt-4">
+                <AppliedRateSummary
+                  rate={receipt.appliedRate}
+                  lines={[
+                    { label: "Given", weight: receipt.given?.total },
+                    { label: "Received", weight: receipt.received?.total },
+                  ]}
+                />
+              </div>
             </div>
-            <div>
-              <p className="text-sm text-gray-500">Calculation</p>
-              <p className="font-medium">
-                ({formatNumber(receipt.given?.total)} - {formatNumber(receipt.received?.total)}) + {client?.balance?.toFixed(3) || '0.000'}
-              </p>
-            </div>
-            <div>
-              <p className="text-sm text-gray-500">Final Total (Given-Received)+Balance</p>
-              <p className="font-medium">{calculateFinalBalance()}</p>
-            </div>
-          </div>
-        </div>
+          </TabsContent>
+
+          <TabsContent value="history" className="mt-0">
+            <AuditHistory entityType="work" entityId={receipt._id} />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -1,6 +1,5 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -12,95 +11,62 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
-import { adminReceiptServices } from "@/services/api-admin";
-import { Eye, Trash, Edit, Search } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { adminReceiptServices } from "@/services/api";
+import { AdminReceipt } from "@/models/AdminReceipt";
+import { Eye, Ban, Edit, Search } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
 import {
-  Pagination,
-  PaginationContent,
-  PaginationItem,
-  PaginationLink,
-  PaginationNext,
-  PaginationPrevious,
-} from "@/components/ui/pagination";
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DateRangeFilter,
+  ListPagination,
+  SortableHead,
+} from "@/components/ui/list-controls";
+import { useServerList } from "@/hooks/use-server-list";
+import { CancelReceiptDialog } from "@/components/receipts/cancel-receipt-dialog";
+import { formatWeight } from "@/lib/metal-calculations";
 
-interface AdminReceipt {
-  _id: string;
-  clientName: string;
-  status: "complete" | "incomplete" | "empty";
-  voucherId: string;
-  createdAt: string;
-  updatedAt: string;
-  given: {
-    date: string;
-    total: number;
-  };
-  received: {
-    date: string;
-    total: number;
-  };
-}
+const RECEIPTS_PER_PAGE = 20;
 
 const AdminReceiptsPage = () => {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [page, setPage] = useState(1);
-  const [receiptsPerPage] = useState(10);
-  const { toast } = useToast();
+  const { can } = useAuth();
+  const [receiptToCancel, setReceiptToCancel] = useState<string | null>(null);
 
   const {
-    data: adminReceipts,
+    items: receipts,
+    page,
+    setPage,
+    totalPages,
+    search,
+    setSearch,
+    sort,
+    toggleSort,
+    filters,
+    setFilter,
     isLoading,
     isError,
     refetch,
-  } = useQuery({
-    queryKey: ["adminReceipts"],
-    queryFn: adminReceiptServices.getAdminReceipts,
+  } = useServerList({
+    queryKey: ["adminReceipts", "page"],
+    fetchPage: adminReceiptServices.getAdminReceiptPage,
+    defaultSort: { sortBy: "date", sortOrder: "desc" },
+    pageSize: RECEIPTS_PER_PAGE,
   });
 
-  const handleDelete = async (id: string) => {
-    if (window.confirm("Are you sure you want to delete this Work Receipt?")) {
-      try {
-        await adminReceiptServices.deleteAdminReceipt(id);
-        toast({
-          title: "Success",
-          description: "Work Receipt deleted successfully",
-        });
-        refetch();
-      } catch (error) {
-        toast({
-          title: "Error",
-          description: "Failed to delete Work Receipt",
-          variant: "destructive",
-        });
-      }
-    }
-  };
-
-  // Filter receipts based on search term
-  const filteredReceipts = adminReceipts
-    ? adminReceipts.filter(
-        (receipt: AdminReceipt) =>
-          receipt.clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          receipt.voucherId.toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    : [];
-
-  // Calculate pagination
-  const indexOfLastReceipt = page * receiptsPerPage;
-  const indexOfFirstReceipt = indexOfLastReceipt - receiptsPerPage;
-  const currentReceipts = filteredReceipts.slice(
-    indexOfFirstReceipt,
-    indexOfLastReceipt
-  );
-  const totalPages = Math.ceil(filteredReceipts.length / receiptsPerPage);
-
   return (
     <div className="container p-6 mx-auto">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-serif font-bold">Work Receipts</h1>
-        <Button asChild>
-          <Link to="/admin-receipts/new">New Work Receipt</Link>
-        </Button>
+        {can("receipts:create") && (
+          <Button asChild>
+            <Link to="/admin-receipts/new">New Work Receipt</Link>
+          </Button>
+        )}
       </div>
 
       <Card>
@@ -113,11 +79,35 @@ const AdminReceiptsPage = () => {
                 type="search"
                 placeholder="Search by client name or voucher ID..."
                 className="pl-8"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
               />
             </div>
           </div>
+          <div className="flex flex-col md:flex-row gap-2 mt-2">
+            <Select
+              value={filters.status || "all"}
+              onValueChange={(value) =>
+                setFilter("status", value === "all" ? undefined : value)
+              }
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="complete">Complete</SelectItem>
+                <SelectItem value="incomplete">Incomplete</SelectItem>
+                <SelectItem value="empty">Empty</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            <DateRangeFilter
+              from={filters.from}
+              to={filters.to}
+              onChange={setFilter}
+            />
+          </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -126,22 +116,44 @@ const AdminReceiptsPage = () => {
             <p className="text-center py-4 text-destructive">
               Error loading Work Receipts. Please try again later.
             </p>
-          ) : filteredReceipts.length > 0 ? (
+          ) : receipts.length > 0 ? (
             <>
               <div className="rounded-md border">
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Voucher ID</TableHead>
-                      <TableHead>Client Name</TableHead>
+                      <SortableHead
+                        label="Voucher ID"
+                        sortKey="voucher"
+                        sort={sort}
+                        onSort={toggleSort}
+                      />
+                      <SortableHead
+                        label="Client Name"
+                        sortKey="client"
+                        sort={sort}
+                        onSort={toggleSort}
+                      />
                       <TableHead>Status</TableHead>
-                      <TableHead>Given Date</TableHead>
+                      <SortableHead
+                        label="Given Date"
+                        sortKey="date"
+                        sort={sort}
+                        onSort={toggleSort}
+                      />
                       <TableHead>Received Date</TableHead>
+                      <SortableHead
+                        label="Given Wt (g)"
+                        sortKey="weight"
+                        sort={sort}
+                        onSort={toggleSort}
+                        className="text-right"
+                      />
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {currentReceipts.map((receipt: AdminReceipt) => (
+                    {receipts.map((receipt: AdminReceipt) => (
                       <TableRow key={receipt._id}>
                         <TableCell className="font-medium">
                           {receipt.voucherId}
@@ -153,8 +165,8 @@ const AdminReceiptsPage = () => {
                               receipt.status === "complete"
                                 ? "bg-green-100 text-green-800"
                                 : receipt.status === "incomplete"
-                                ? "bg-yellow-100 text-yellow-800"
-                                : "bg-gray-100 text-gray-800"
+                                  ? "bg-yellow-100 text-yellow-800"
+                                  : "bg-gray-100 text-gray-800"
                             }`}
                           >
                             {receipt.status}
@@ -166,6 +178,9 @@ const AdminReceiptsPage = () => {
                         <TableCell>
                           {new Date(receipt.received.date).toLocaleDateString()}
                         </TableCell>
+                        <TableCell className="text-right">
+                          {formatWeight(receipt.given?.total)}
+                        </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end space-x-2">
                             <Button variant="outline" size="sm" asChild>
@@ -173,18 +188,34 @@ const AdminReceiptsPage = () => {
                                 <Eye className="h-4 w-4" />
                               </Link>
                             </Button>
-                            <Button variant="outline" size="sm" asChild>
-                              <Link to={`/admin-receipts/${receipt._id}/edit`}>
-                                <Edit className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleDelete(receipt._id)}
-                            >
-                              <Trash className="h-4 w-4" />
-                            </Button>
+                            {can("receipts:edit") &&
+                              receipt.status !== "cancelled" && (
+                                <Button variant="outline" size="sm" asChild>
+                                  <Link
+                                    to={`/admin-receipts/edit/${receipt._id}`}
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Link>
+                                </Button>
+                              )}
+                            {(can("receipts:delete") ||
+                              can("receipts:request-delete")) &&
+                              receipt.status !== "cancelled" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    setReceiptToCancel(receipt._id)
+                                  }
+                                  title={
+                                    can("receipts:delete")
+                                      ? "Cancel Receipt"
+                                      : "Request Cancellation"
+                                  }
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -193,46 +224,11 @@ const AdminReceiptsPage = () => {
                 </Table>
               </div>
 
-              {totalPages > 1 && (
-                <Pagination className="mt-4">
-                  <PaginationContent>
-                    <PaginationItem>
-                      <PaginationPrevious
-                        onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
-                        className={
-                          page === 1
-                            ? "pointer-events-none opacity-50"
-                            : "cursor-pointer"
-                        }
-                      />
-                    </PaginationItem>
-
-                    {[...Array(totalPages)].map((_, i) => (
-                      <PaginationItem key={i + 1}>
-                        <PaginationLink
-                          onClick={() => setPage(i + 1)}
-                          isActive={page === i + 1}
-                        >
-                          {i + 1}
-                        </PaginationLink>
-                      </PaginationItem>
-                    ))}
-
-                    <PaginationItem>
-                      <PaginationNext
-                        onClick={() =>
-                          setPage((prev) => Math.min(prev + 1, totalPages))
-                        }
-                        className={
-                          page === totalPages
-                            ? "pointer-events-none opacity-50"
-                            : "cursor-pointer"
-                        }
-                      />
-                    </PaginationItem>
-                  </PaginationContent>
-                </Pagination>
-              )}
+              <ListPagination
+                page={page}
+                totalPages={totalPages}
+                onPageChange={setPage}
+              />
             </>
           ) : (
             <div className="py-4 text-center">
@@ -244,6 +240,14 @@ const AdminReceiptsPage = () => {
           )}
         </CardContent>
       </Card>
+
+      <CancelReceiptDialog
+        open={!!receiptToCancel}
+        onOpenChange={(open) => !open && setReceiptToCancel(null)}
+        receiptId={receiptToCancel}
+        receiptType="work"
+        onDone={() => refetch()}
+      />
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import {
   ArrowLeft,
   Search,
@@ -23,87 +23,61 @@ import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { v4 as uuidv4 } from "uuid";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import axios from "axios";
-
-const api = axios.create({
-  baseURL: "https://backend-goldsmith.onrender.com/api",
-  headers: {
-    "Content-Type": "application/json",
-  },
+import {
+  adminReceiptServices,
+  clientServices,
+  draftServices,
+  ledgerServices,
+  stockServices,
+  syncServices,
+  voucherServices,
+} from "@/services/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { Client as ClientRecord } from "@/models/Client";
+import { AdminReceiptInput } from "@/models/AdminReceipt";
+import { WorkReceiptDraftForm } from "@/models/ReceiptDraft";
+import {
+  calculateBalance,
+  calculateWorkGivenItem,
+  calculateWorkReceivedItem,
+  formatWeight,
+  roundWeight,
+  sumWorkGivenItems,
+  sumWorkReceivedItems,
+} from "@/lib/metal-calculations";
+import { useSettings } from "@/contexts/SettingsContext";
+import { defaultPercent } from "@/lib/settings";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { toAppliedRate, WORK_RECEIPT_METAL } from "@/lib/metal-rates";
+import { useKarigars } from "@/hooks/use-karigars";
+import { defaultMakingCharge, makingChargeFor } from "@/lib/karigars";
+import { workReceiptStock } from "@/lib/stock";
+import { useReceiptDraft } from "@/hooks/use-receipt-draft";
+import { DraftStatus } from "@/components/receipts/draft-status";
+
+// Flatten a client record into the shape the picker works with
+const toClientOption = (c: ClientRecord): Client => ({
+  id: c._id,
+  name: c.clientName,
+  shopName: c.shopName,
+  phoneNumber: c.phoneNumber,
+  address: c.address,
+  balance: c.balance || 0,
 });
 
-const clientApi = {
-  getClients: async (): Promise<Client[]> => {
-    const response = await api.get("/clients");
-    const data = response.data;
-    const rawList = Array.isArray(data)
-      ? data
-      : Array.isArray(data.clients)
-      ? data.clients
-      : [];
-    return rawList.map((c: any) => ({
-      id: c._id,
-      name: c.clientName,
-      shopName: c.shopName,
-      phoneNumber: c.phoneNumber,
-      address: c.address,
-      balance: c.balance || 0,
-    }));
-  },
-
-  getClientById: async (id: string) => {
-    const response = await api.get(`/clients/${id}`);
-    const c = response.data;
-    return {
-      id: c._id,
-      name: c.clientName,
-      shopName: c.shopName,
-      phoneNumber: c.phoneNumber,
-      address: c.address,
-      balance: c.balance || 0,
-    };
-  },
-};
-
-const adminReceiptApi = {
-  getAdminReceipts: async (clientId: string | null = null) => {
-    const params = clientId ? { clientId } : {};
-    const response = await api.get("/admin-receipts", { params });
-    return response.data;
-  },
-
-  getAdminReceiptById: async (id: string) => {
-    const response = await api.get(`/admin-receipts/${id}`);
-    return response.data;
-  },
-
-  createAdminReceipt: async (receiptData: any) => {
-    const response = await api.post("/admin-receipts", receiptData);
-    return response.data;
-  },
-
-  updateAdminReceipt: async (id: string, receiptData: any) => {
-    const response = await api.put(`/admin-receipts/${id}`, receiptData);
-    return response.data;
-  },
-
-  deleteAdminReceipt: async (id: string) => {
-    const response = await api.delete(`/admin-receipts/${id}`);
-    return response.data;
-  },
-
-  generateVoucherId: async () => {
-    const response = await api.get("/admin-receipts/generate-voucher-id");
-    return response.data.voucherId;
-  },
-};
-
 const mockClients = [
   {
     id: "683eb8582febef63b0100fc8",
@@ -182,7 +156,26 @@ interface ReceivedItem {
 export default function NewAdminReceiptPage() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
+  // Client chosen before opening the page, e.g. from the command palette
+  const [searchParams] = useSearchParams();
+  const presetClientId = searchParams.get("client");
+  // Draft picked from the drafts list
+  const resumeDraftId = searchParams.get("draft") || undefined;
   const { toast } = useToast();
+  const { can } = useAuth();
+  const { settings } = useSettings();
+  const { rateFor } = useMetalRates();
+
+  // Fine gold rate in force on a date, stored on new receipts
+  const appliedRateOn = (date: Date) => {
+    const rate = rateFor(WORK_RECEIPT_METAL, date);
+    return rate ? toAppliedRate(rate) : undefined;
+  };
+  const { karigars } = useKarigars();
+  // Karigar the job is issued to, and the one already saved on the receipt
+  const [karigarId, setKarigarId] = useState<string>("");
+  const [savedKarigarId, setSavedKarigarId] = useState<string>("");
+  const selectedKarigar = karigars.find((karigar) => karigar._id === karigarId);
   const [searchTerm, setSearchTerm] = useState<string>("");
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [activeTab, setActiveTab] = useState<string>("given");
@@ -190,6 +183,8 @@ export default function NewAdminReceiptPage() {
   const [isSubmittingReceived, setIsSubmittingReceived] =
     useState<boolean>(false);
   const [voucherId, setVoucherId] = useState<string>("");
+  // Preview for a new receipt; the server assigns the number on save
+  const [nextVoucherId, setNextVoucherId] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [clients, setClients] = useState<Client[]>([]);
   const [isLoadingClients, setIsLoadingClients] = useState<boolean>(false);
@@ -202,8 +197,8 @@ export default function NewAdminReceiptPage() {
       id: uuidv4(),
       productName: "",
       pureWeight: "",
-      purePercent: "",
-      melting: "",
+      purePercent: defaultPercent(settings.defaults.purePercent),
+      melting: defaultPercent(settings.defaults.workMelting),
       total: 0,
       tag: "",
       date: format(new Date(), "yyyy-MM-dd"), // Add default date
@@ -227,30 +222,29 @@ export default function NewAdminReceiptPage() {
   const [manualReceivedTotal, setManualReceivedTotal] = useState<number>(0);
   const [operation, setOperation] = useState<string>("subtract-given-received");
   const [clientBalance, setClientBalance] = useState<number>(0);
-  const [manualClientBalance, setManualClientBalance] = useState<number>(0); // Always start with 0
+  // OD balance shown on the receipt; starts at the ledger balance and, if
+  // changed by hand, is posted as an adjustment with the reason below
+  const [manualClientBalance, setManualClientBalance] = useState<number>(0);
+  const [adjustmentReason, setAdjustmentReason] = useState("");
 
   useEffect(() => {
     const initPage = async () => {
       try {
         if (!id) {
-          try {
-            const generatedId = await adminReceiptApi.generateVoucherId();
-            setVoucherId(generatedId);
-          } catch (error) {
-            setVoucherId(
-              `GA-${new Date().getFullYear().toString().substr(-2)}${(
-                new Date().getMonth() + 1
-              )
-                .toString()
-                .padStart(2, "0")}-${Math.floor(1000 + Math.random() * 9000)}`
-            );
-          }
+          voucherServices
+            .peekNextVoucherId("work")
+            .then((response) => setNextVoucherId(response.voucherId))
+            .catch(() => setNextVoucherId(""));
         }
 
         await loadClients();
 
         if (id) {
           await loadReceiptData(id);
+        } else if (resumeDraftId) {
+          await resumeDraft(resumeDraftId);
+        } else if (presetClientId) {
+          await handleSelectClient({ id: presetClientId } as Client);
         }
       } catch (error) {
         toast({
@@ -267,7 +261,9 @@ export default function NewAdminReceiptPage() {
   const loadClients = async () => {
     setIsLoadingClients(true);
     try {
-      const clientsData = await clientApi.getClients();
+      const clientsData = (await clientServices.getClients()).map(
+        toClientOption
+      );
       if (Array.isArray(clientsData)) {
         setClients(clientsData);
       } else {
@@ -289,23 +285,33 @@ export default function NewAdminReceiptPage() {
     }
   };
 
+  // The client with their balance, from this device's copy when offline
+  const loadClient = async (clientId: string) => {
+    const { client, balance } = await syncServices.loadClientForEntry(
+      clientId
+    );
+    setSelectedClient(toClientOption(client));
+    setClientBalance(balance);
+    setManualClientBalance(balance);
+    setAdjustmentReason("");
+  };
+
   const loadReceiptData = async (receiptId: string) => {
     setIsLoading(true);
     try {
-      const receipt = await adminReceiptApi.getAdminReceiptById(receiptId);
+      const receipt = await adminReceiptServices.getAdminReceipt(receiptId);
 
       if (receipt.voucherId) {
         setVoucherId(receipt.voucherId);
       }
+      if (receipt.karigarId) {
+        setKarigarId(receipt.karigarId);
+        setSavedKarigarId(receipt.karigarId);
+      }
 
       try {
         if (receipt.clientId) {
-          const client = await clientApi.getClientById(receipt.clientId);
-          if (client) {
-            setSelectedClient(client);
-            setClientBalance(client.balance || 0);
-            // Don't set manualClientBalance - keep it at 0 for manual entry
-          }
+          await loadClient(receipt.clientId);
         }
       } catch (clientError) {
         if (receipt.clientName) {
@@ -367,8 +373,10 @@ export default function NewAdminReceiptPage() {
       }
 
       if (receipt.manualCalculations) {
-        setManualGivenTotal(receipt.manualCalculations.givenTotal || 0);
-        setManualReceivedTotal(receipt.manualCalculations.receivedTotal || 0);
+        setManualGivenTotal(Number(receipt.manualCalculations.givenTotal) || 0);
+        setManualReceivedTotal(
+          Number(receipt.manualCalculations.receivedTotal) || 0
+        );
         setOperation(
           receipt.manualCalculations.operation || "subtract-given-received"
         );
@@ -384,6 +392,19 @@ export default function NewAdminReceiptPage() {
     }
   };
 
+  // Put a draft back into the form; the OD balance is read afresh
+  const resumeDraft = async (draftId: string) => {
+    const draft = await draftServices.getDraft(draftId);
+    const draftForm = draft.form as WorkReceiptDraftForm;
+    await handleSelectClient({ id: draftForm.clientId } as Client);
+    setKarigarId(draftForm.karigarId || "");
+    setGivenDate(new Date(draftForm.givenDate));
+    setGivenItems(draftForm.givenItems as GivenItem[]);
+    setReceivedDate(new Date(draftForm.receivedDate));
+    setReceivedItems(draftForm.receivedItems as ReceivedItem[]);
+    setOperation(draftForm.operation);
+  };
+
   const filteredClients = Array.isArray(clients)
     ? clients.filter((client) => {
         const matchesShopName = client.shopName
@@ -400,10 +421,7 @@ export default function NewAdminReceiptPage() {
 
   const handleSelectClient = async (client: Client) => {
     try {
-      const clientData = await clientApi.getClientById(client.id);
-      setSelectedClient(clientData);
-      setClientBalance(clientData.balance || 0);
-      // Don't set manualClientBalance - keep it at 0 for manual entry
+      await loadClient(client.id);
     } catch (error) {
       toast({
         variant: "destructive",
@@ -418,8 +436,8 @@ export default function NewAdminReceiptPage() {
       id: uuidv4(),
       productName: "",
       pureWeight: "",
-      purePercent: "",
-      melting: "",
+      purePercent: defaultPercent(settings.defaults.purePercent),
+      melting: defaultPercent(settings.defaults.workMelting),
       total: 0,
       date: format(new Date(), "yyyy-MM-dd"),
       tag: ""
@@ -456,11 +474,7 @@ export default function NewAdminReceiptPage() {
 
           // Only recalculate for numeric fields
           if (["pureWeight", "purePercent", "melting"].includes(field)) {
-            const pureWeight = parseFloat(updatedItem.pureWeight) || 0;
-            const purePercent = parseFloat(updatedItem.purePercent) || 0;
-            const melting = parseFloat(updatedItem.melting) || 1;
-
-            updatedItem.total = (pureWeight * purePercent) / melting;
+            updatedItem.total = calculateWorkGivenItem(updatedItem).total;
           }
 
           return updatedItem;
@@ -476,7 +490,7 @@ export default function NewAdminReceiptPage() {
       productName: "",
       finalOrnamentsWt: "",
       stoneWeight: "0",
-      makingChargePercent: "",
+      makingChargePercent: String(defaultMakingCharge(selectedKarigar) ?? ""),
       subTotal: 0,
       total: 0,
       date: format(new Date(), "yyyy-MM-dd"), // Add default date
@@ -507,21 +521,23 @@ export default function NewAdminReceiptPage() {
         if (item.id === id) {
           const updatedItem = { ...item, [field]: value };
 
+          // Use the karigar's rate for the kind of work the product names
+          const agreedCharge =
+            field === "productName"
+              ? makingChargeFor(selectedKarigar, value)
+              : undefined;
+          if (agreedCharge !== undefined) {
+            updatedItem.makingChargePercent = String(agreedCharge);
+          }
+
           // Only recalculate for numeric fields
           if (
+            agreedCharge !== undefined ||
             ["finalOrnamentsWt", "stoneWeight", "makingChargePercent"].includes(
               field
             )
           ) {
-            const finalOrnamentsWt =
-              parseFloat(updatedItem.finalOrnamentsWt) || 0;
-            const stoneWeight = parseFloat(updatedItem.stoneWeight) || 0;
-            const makingChargePercent =
-              parseFloat(updatedItem.makingChargePercent) || 0;
-
-            updatedItem.subTotal = finalOrnamentsWt - stoneWeight;
-            updatedItem.total =
-              updatedItem.subTotal * (1 + makingChargePercent / 100);
+            Object.assign(updatedItem, calculateWorkReceivedItem(updatedItem));
           }
 
           return updatedItem;
@@ -531,27 +547,9 @@ export default function NewAdminReceiptPage() {
     );
   };
 
-  const givenTotals = {
-    totalPureWeight: givenItems.reduce((acc, item) => {
-      const pureWeight = parseFloat(item.pureWeight) || 0;
-      const purePercent = parseFloat(item.purePercent) || 0;
-      return acc + (pureWeight * purePercent) / 100;
-    }, 0),
-    total: givenItems.reduce((acc, item) => acc + item.total, 0),
-  };
+  const givenTotals = sumWorkGivenItems(givenItems);
 
-  const receivedTotals = {
-    totalOrnamentsWt: receivedItems.reduce(
-      (acc, item) => acc + (parseFloat(item.finalOrnamentsWt) || 0),
-      0
-    ),
-    totalStoneWeight: receivedItems.reduce(
-      (acc, item) => acc + (parseFloat(item.stoneWeight) || 0),
-      0
-    ),
-    totalSubTotal: receivedItems.reduce((acc, item) => acc + item.subTotal, 0),
-    total: receivedItems.reduce((acc, item) => acc + item.total, 0),
-  };
+  const receivedTotals = sumWorkReceivedItems(receivedItems);
 
   useEffect(() => {
     setManualGivenTotal(givenTotals.total);
@@ -578,29 +576,150 @@ export default function NewAdminReceiptPage() {
       default:
         result = 0;
     }
-    return result;
+    return roundWeight(result);
   };
 
-  // Calculate the new balance based on given and received items
-  useEffect(() => {
-    if (!selectedClient) return;
-    
-    const givenTotal = givenItems.reduce((sum, item) => sum + item.total, 0);
-    const receivedTotal = receivedItems.reduce((sum, item) => sum + item.total, 0);
-    
-    // The new balance is the current client balance plus given items minus received items
-    const newBalance = selectedClient.balance + givenTotal - receivedTotal;
-    
-    // Only update if the balance has actually changed
-    if (Math.abs(newBalance - manualClientBalance) > 0.001) {
-      setManualClientBalance(parseFloat(newBalance.toFixed(3)));
+  const hasGivenItems = givenItems.some(
+    (item) => parseFloat(item.pureWeight) > 0
+  );
+  const hasReceivedItems = receivedItems.some(
+    (item) => parseFloat(item.finalOrnamentsWt) > 0
+  );
+
+  const adjustment = roundWeight(manualClientBalance - clientBalance);
+
+  // Autosave a new receipt while it is typed; a draft never touches the
+  // client balance or stock
+  const draftItemCount =
+    givenItems.filter((item) => item.productName || item.pureWeight).length +
+    receivedItems.filter((item) => item.productName || item.finalOrnamentsWt)
+      .length;
+  const draft = useReceiptDraft<WorkReceiptDraftForm>({
+    draftId: resumeDraftId,
+    draft:
+      !id && selectedClient && draftItemCount > 0
+        ? {
+            receiptType: "work",
+            clientId: selectedClient.id,
+            clientName: selectedClient.name,
+            itemCount: draftItemCount,
+            form: {
+              clientId: selectedClient.id,
+              karigarId: karigarId || undefined,
+              givenDate: givenDate.toISOString(),
+              givenItems,
+              receivedDate: receivedDate.toISOString(),
+              receivedItems,
+              operation,
+            },
+          }
+        : undefined,
+  });
+
+  const calculateNewBalance = () =>
+    calculateBalance(
+      givenTotals.total,
+      receivedTotals.total,
+      manualClientBalance
+    );
+
+  // The karigar and their terms as they stand when the job is issued
+  const karigarFields = () =>
+    selectedKarigar
+      ? {
+          karigarId: selectedKarigar._id,
+          karigarName: selectedKarigar.name,
+          agreedWastagePercent: selectedKarigar.agreedWastagePercent,
+        }
+      : {};
+
+  const checkAdjustmentReason = () => {
+    if (adjustment === 0 || adjustmentReason.trim()) return true;
+    toast({
+      variant: "destructive",
+      title: "Reason Required",
+      description: "Explain why the OD balance was changed.",
+    });
+    return false;
+  };
+
+  // Post the receipt's net weight, then any OD balance correction, to the
+  // client's ledger, and its metal to stock
+  const postToLedger = async (receiptId: string, amount: number) => {
+    await ledgerServices.recordReceipt({
+      clientId: selectedClient.id,
+      sourceType: "work",
+      sourceId: receiptId,
+      voucherId,
+      amount,
+    });
+    await stockServices.recordReceiptStock({
+      sourceType: "work",
+      sourceId: receiptId,
+      voucherId,
+      lines: workReceiptStock({
+        given: { items: hasGivenItems ? givenItems : [] },
+        received: { items: hasReceivedItems ? receivedItems : [] },
+      }),
+    });
+    if (adjustment !== 0) {
+      await ledgerServices.createEntry({
+        clientId: selectedClient.id,
+        type: "adjustment",
+        amount: adjustment,
+        voucherId,
+        reason: adjustmentReason.trim(),
+      });
+      setClientBalance(manualClientBalance);
+      setAdjustmentReason("");
     }
-  }, [givenItems, receivedItems, selectedClient]);
-  
-  const calculateNewBalance = () => {
-    const givenTotal = givenItems.reduce((sum, item) => sum + item.total, 0);
-    const receivedTotal = receivedItems.reduce((sum, item) => sum + item.total, 0);
-    return (selectedClient?.balance || 0) + givenTotal - receivedTotal;
+  };
+
+  // Save a new receipt and post it to the ledger, or keep it on this device
+  // until the connection is back. Returns false when it had to wait.
+  const saveNewReceipt = async (
+    receiptData: AdminReceiptInput,
+    ledgerAmount: number
+  ) => {
+    const result = await syncServices.saveOrQueue({
+      kind: "workReceipt",
+      clientId: selectedClient.id,
+      payload: receiptData,
+      ledgerAmount,
+      adjustment:
+        adjustment !== 0
+          ? { amount: adjustment, reason: adjustmentReason.trim() }
+          : undefined,
+      baseBalance: clientBalance,
+    });
+    // The receipt exists now, or is waiting to sync; the draft is done
+    draft.discardDraft();
+
+    if (result.status === "queued") {
+      toast({
+        title: "Saved on this device",
+        description: `Work receipt ${result.provisionalVoucherId} will sync when the connection is back.`,
+      });
+      navigate("/admin-receipts");
+      return false;
+    }
+
+    if (result.status === "unfinished") {
+      toast({
+        variant: "destructive",
+        title: "Work receipt saved, balance not yet updated",
+        description: `Work receipt ${result.voucherId} was saved but could not be posted (${result.error.message}). It stays in the sync queue to finish.`,
+      });
+      navigate(`/admin-receipts/${result.id}`, { replace: true });
+      return false;
+    }
+
+    if (adjustment !== 0) {
+      setClientBalance(manualClientBalance);
+      setAdjustmentReason("");
+    }
+    navigate(`/admin-receipts/${result.id}`, { replace: true });
+    return true;
   };
 
   const saveGivenData = async () => {
@@ -638,18 +757,12 @@ export default function NewAdminReceiptPage() {
         }
       }
 
-      // Calculate the new balance based on given and received items
-      const givenTotal = givenItems.reduce((sum, item) => sum + item.total, 0);
-      const receivedTotal = receivedItems.reduce((sum, item) => sum + item.total, 0);
-      const newBalance = (selectedClient.balance || 0) + givenTotal - receivedTotal;
-      
-      // Update client balance in the database
-      await api.put(`/clients/${selectedClient.id}`, {
-        balance: newBalance,
-      });
-      
-      // Update the manual client balance to match the new balance
-      setManualClientBalance(newBalance);
+      if (!checkAdjustmentReason()) {
+        setIsSubmittingGiven(false);
+        return;
+      }
+
+      const newBalance = calculateNewBalance();
 
       // Prepare given data
       const givenData = {
@@ -665,8 +778,10 @@ export default function NewAdminReceiptPage() {
       const receiptData: any = {
         clientId: selectedClient.id,
         clientName: selectedClient.name,
+        ...karigarFields(),
         given: givenData,
         status,
+        appliedRate: appliedRateOn(givenDate),
         manualCalculations: {
           givenTotal: manualGivenTotal,
           receivedTotal: manualReceivedTotal,
@@ -675,10 +790,16 @@ export default function NewAdminReceiptPage() {
         },
       };
 
+      const ledgerAmount = calculateBalance(
+        givenTotals.total,
+        hasReceivedItems ? receivedTotals.total : 0
+      );
+
       if (id) {
         // Update existing receipt
-        await adminReceiptApi.updateAdminReceipt(id, {
+        await adminReceiptServices.updateAdminReceipt(id, {
           given: givenData,
+          ...(karigarId !== savedKarigarId && karigarFields()),
           status,
           manualCalculations: {
             givenTotal: manualGivenTotal,
@@ -687,6 +808,8 @@ export default function NewAdminReceiptPage() {
             result: calculateManualResult(),
           },
         });
+        await postToLedger(id, ledgerAmount);
+        setSavedKarigarId(karigarId);
       } else {
         // Create new receipt
         if (hasReceivedItems) {
@@ -700,23 +823,12 @@ export default function NewAdminReceiptPage() {
           };
         }
 
-        const newReceipt = await adminReceiptApi.createAdminReceipt(
-          receiptData
-        );
-        if (newReceipt && newReceipt._id) {
-          navigate(`/admin-receipts/${newReceipt._id}`, { replace: true });
-        }
+        if (!(await saveNewReceipt(receiptData, ledgerAmount))) return;
       }
 
-      // Update frontend state
-      setClientBalance(newBalance);
-      // Don't update manualClientBalance - let user control it manually
-
       toast({
         title: "Success",
-        description: `Given items saved successfully. New balance: ${newBalance.toFixed(
-          2
-        )}`,
+        description: `Given items saved successfully. New balance: ${formatWeight(newBalance)}`,
       });
     } catch (error: any) {
       toast({
@@ -763,18 +875,12 @@ export default function NewAdminReceiptPage() {
         }
       }
 
-      // Calculate the new balance based on given and received items
-      const givenTotal = givenItems.reduce((sum, item) => sum + item.total, 0);
-      const receivedTotal = receivedItems.reduce((sum, item) => sum + item.total, 0);
-      const newBalance = (selectedClient.balance || 0) + givenTotal - receivedTotal;
-      
-      // Update client balance in the database
-      await api.put(`/clients/${selectedClient.id}`, {
-        balance: newBalance,
-      });
-      
-      // Update the manual client balance to match the new balance
-      setManualClientBalance(newBalance);
+      if (!checkAdjustmentReason()) {
+        setIsSubmittingReceived(false);
+        return;
+      }
+
+      const newBalance = calculateNewBalance();
 
       // Prepare received data with MC
       const receivedItemsWithMC = receivedItems.map((item) => ({
@@ -795,8 +901,10 @@ export default function NewAdminReceiptPage() {
       const receiptData: any = {
         clientId: selectedClient.id,
         clientName: selectedClient.name,
+        ...karigarFields(),
         received: receivedData,
         status,
+        appliedRate: appliedRateOn(receivedDate),
         manualCalculations: {
           givenTotal: manualGivenTotal,
           receivedTotal: manualReceivedTotal,
@@ -805,10 +913,16 @@ export default function NewAdminReceiptPage() {
         },
       };
 
+      const ledgerAmount = calculateBalance(
+        hasGivenItems ? givenTotals.total : 0,
+        receivedTotals.total
+      );
+
       if (id) {
         // Update existing receipt
-        await adminReceiptApi.updateAdminReceipt(id, {
+        await adminReceiptServices.updateAdminReceipt(id, {
           received: receivedData,
+          ...(karigarId !== savedKarigarId && karigarFields()),
           status,
           manualCalculations: {
             givenTotal: manualGivenTotal,
@@ -817,6 +931,8 @@ export default function NewAdminReceiptPage() {
             result: calculateManualResult(),
           },
         });
+        await postToLedger(id, ledgerAmount);
+        setSavedKarigarId(karigarId);
       } else {
         // Create new receipt
         if (hasGivenItems) {
@@ -828,23 +944,12 @@ export default function NewAdminReceiptPage() {
           };
         }
 
-        const newReceipt = await adminReceiptApi.createAdminReceipt(
-          receiptData
-        );
-        if (newReceipt && newReceipt._id) {
-          navigate(`/admin-receipts/${newReceipt._id}`, { replace: true });
-        }
+        if (!(await saveNewReceipt(receiptData, ledgerAmount))) return;
       }
 
-      // Update frontend state
-      setClientBalance(newBalance);
-      // Don't update manualClientBalance - let user control it manually
-
       toast({
         title: "Success",
-        description: `Received items saved successfully. New balance: ${newBalance.toFixed(
-          2
-        )}`,
+        description: `Received items saved successfully. New balance: ${formatWeight(newBalance)}`,
       });
     } catch (error: any) {
       toast({
@@ -879,6 +984,11 @@ export default function NewAdminReceiptPage() {
             ? "Manage given and received items. Data will be saved to the database."
             : "Filter and select a client. Client data is loaded from the database."}
         </p>
+        <DraftStatus
+          status={draft.status}
+          savedOn={draft.savedOn}
+          savedAt={draft.savedAt}
+        />
         {selectedClient && (
           <div className="mt-4 p-4 border rounded-md bg-muted/50">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -893,16 +1003,25 @@ export default function NewAdminReceiptPage() {
                   placeholder="0.000"
                   className="mt-1 w-32 inline-block ml-2"
                   step="0.001"
+                  disabled={!can("ledger:adjust")}
                 />
+                {adjustment !== 0 && (
+                  <Input
+                    value={adjustmentReason}
+                    onChange={(e) => setAdjustmentReason(e.target.value)}
+                    placeholder="Reason for adjustment"
+                    className="mt-2 text-sm font-normal"
+                  />
+                )}
               </div>
               <div className="font-medium text-lg">
-                Given Total: {givenTotals.total.toFixed(2)}
+                Given Total: {formatWeight(givenTotals.total)}
               </div>
               <div className="font-medium text-lg">
-                Received Total: {receivedTotals.total.toFixed(2)}
+                Received Total: {formatWeight(receivedTotals.total)}
               </div>
               <div className="font-medium text-lg md:col-span-3">
-                Final Balance: {calculateNewBalance().toFixed(2)}
+                Final Balance: {formatWeight(calculateNewBalance())}
               </div>
             </div>
           </div>
@@ -958,7 +1077,7 @@ export default function NewAdminReceiptPage() {
                             <div>Shop: {client.shopName}</div>
                             <div>Phone: {client.phoneNumber}</div>
                             <div>Address: {client.address}</div>
-                            <div>Balance: {client.balance.toFixed(2)}</div>
+                            <div>Balance: {formatWeight(client.balance)}</div>
                           </div>
                         </div>
                         <Button
@@ -991,9 +1110,39 @@ export default function NewAdminReceiptPage() {
                   Manage given and received items. Data will be saved to the
                   database.
                 </CardDescription>
+                <div className="flex items-center gap-2 mt-3">
+                  <span className="text-sm font-medium">Issued to</span>
+                  <Select value={karigarId} onValueChange={setKarigarId}>
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue placeholder="Select karigar" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {karigars
+                        .filter(
+                          (karigar) =>
+                            karigar.active || karigar._id === karigarId
+                        )
+                        .map((karigar) => (
+                          <SelectItem key={karigar._id} value={karigar._id}>
+                            {karigar.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedKarigar && (
+                    <span className="text-xs text-muted-foreground">
+                      Agreed wastage{" "}
+                      {selectedKarigar.agreedWastagePercent.toFixed(2)}%
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="bg-primary/10 px-3 py-1 rounded-md text-primary font-medium">
-                Voucher ID: {voucherId}
+                Voucher ID:{" "}
+                {voucherId ||
+                  (nextVoucherId
+                    ? `${nextVoucherId} (on save)`
+                    : "Assigned on save")}
               </div>
             </CardHeader>
             <CardContent>
@@ -1154,7 +1303,7 @@ export default function NewAdminReceiptPage() {
                                 Total (g)
                               </label>
                               <div className="font-medium">
-                                {item.total.toFixed(2)}
+                                {formatWeight(item.total)}
                               </div>
                             </div>
                             <div className="flex items-center">
@@ -1171,10 +1320,10 @@ export default function NewAdminReceiptPage() {
                         {/* Totals Row */}
                         <div className="grid grid-cols-1 md:grid-cols-8 gap-4 p-3 border rounded-md bg-muted/50 font-medium">
                           <div className="md:col-span-3">Totals</div>
-                          <div>{givenTotals.totalPureWeight.toFixed(2)}</div>
+                          <div>{formatWeight(givenTotals.totalPureWeight)}</div>
                           <div>-</div>
                           <div>-</div>
-                          <div>{givenTotals.total.toFixed(2)}</div>
+                          <div>{formatWeight(givenTotals.total)}</div>
                           <div></div>
                         </div>
                         {/* Balance Calculation Table */}
@@ -1192,7 +1341,7 @@ export default function NewAdminReceiptPage() {
                             <tbody>
                               <tr>
                                 <td className="py-2">
-                                  {givenTotals.total.toFixed(3)} g
+                                  {formatWeight(givenTotals.total)} g
                                 </td>
                                 <td className="py-2">
                                   <Input
@@ -1206,6 +1355,7 @@ export default function NewAdminReceiptPage() {
                                     placeholder="0.000"
                                     className="w-24"
                                     step="0.001"
+                                    disabled={!can("ledger:adjust")}
                                   />
                                 </td>
                                 <td className="py-2">
@@ -1219,10 +1369,10 @@ export default function NewAdminReceiptPage() {
                                   />
                                 </td>
                                 <td className="py-2">
-                                  {`${givenTotals.total.toFixed(3)} + ${(manualClientBalance || 0).toFixed(3)}`}
+                                  {`${formatWeight(givenTotals.total)} + ${formatWeight(manualClientBalance)}`}
                                 </td>
                                 <td className="py-2">
-                                  {(givenTotals.total + (manualClientBalance || 0)).toFixed(3)}
+                                  {formatWeight(givenTotals.total + (manualClientBalance || 0))}
                                 </td>
                               </tr>
                             </tbody>
@@ -1412,7 +1562,7 @@ export default function NewAdminReceiptPage() {
                                 MC
                               </label>
                               <div className="font-medium">
-                                {(item.total - item.subTotal).toFixed(2)}
+                                {formatWeight(item.total - item.subTotal)}
                               </div>
                             </div>
                             <div>
@@ -1420,7 +1570,7 @@ export default function NewAdminReceiptPage() {
                                 Subtotal (g)
                               </label>
                               <div className="font-medium">
-                                {item.subTotal.toFixed(2)}
+                                {formatWeight(item.subTotal)}
                               </div>
                             </div>
                             <div>
@@ -1428,7 +1578,7 @@ export default function NewAdminReceiptPage() {
                                 Total (g)
                               </label>
                               <div className="font-medium">
-                                {item.total.toFixed(2)}
+                                {formatWeight(item.total)}
                               </div>
                             </div>
                             <div className="flex items-center">
@@ -1447,14 +1597,14 @@ export default function NewAdminReceiptPage() {
                         <div className="grid grid-cols-1 md:grid-cols-8 gap-4 p-3 border rounded-md bg-muted/50 font-medium">
                           <div className="md:col-span-3">Totals</div>
                           <div>
-                            {receivedTotals.totalOrnamentsWt.toFixed(2)}
+                            {formatWeight(receivedTotals.totalOrnamentsWt)}
                           </div>
                           <div>
-                            {receivedTotals.totalStoneWeight.toFixed(2)}
+                            {formatWeight(receivedTotals.totalStoneWeight)}
                           </div>
                           <div>-</div>
-                          <div>{receivedTotals.totalSubTotal.toFixed(2)}</div>
-                          <div>{receivedTotals.total.toFixed(2)}</div>
+                          <div>{formatWeight(receivedTotals.totalSubTotal)}</div>
+                          <div>{formatWeight(receivedTotals.total)}</div>
                           <div></div>
                         </div>
 
@@ -1504,7 +1654,7 @@ export default function NewAdminReceiptPage() {
                           <tbody>
                             <tr>
                               <td className="py-2">
-                                {receivedTotals.total.toFixed(3)}{" "}
+                                {formatWeight(receivedTotals.total)}{" "}
                               </td>
                               <td className="py-2">
                                 <Input
@@ -1518,15 +1668,16 @@ export default function NewAdminReceiptPage() {
                                   placeholder="0.000"
                                   className="w-24"
                                   step="0.001"
+                                  disabled={!can("ledger:adjust")}
                                 />
                               </td>
                               <td className="py-2">
-                                {receivedTotals.total.toFixed(3)} + {manualClientBalance.toFixed(3)}
+                                {formatWeight(receivedTotals.total)} + {formatWeight(manualClientBalance)}
                               </td>
                               <td className="py-2">
-                                {(
+                                {formatWeight(
                                   receivedTotals.total + Number(manualClientBalance)
-                                ).toFixed(3)}
+                                )}
                               </td>
                             </tr>
                             <tr className="border-t">
@@ -1535,9 +1686,9 @@ export default function NewAdminReceiptPage() {
                               <td className="py-2"></td>
                               <td className="py-2">
                                 ={" "}
-                                {(
+                                {formatWeight(
                                   receivedTotals.total + Number(manualClientBalance)
-                                ).toFixed(3)}
+                                )}
                               </td>
                             </tr>
                           </tbody>
@@ -1563,7 +1714,7 @@ export default function NewAdminReceiptPage() {
                   <Input
                     type="number"
                     // value={manualGivenTotal}
-                    placeholder={manualGivenTotal.toFixed(3)}
+                    placeholder={formatWeight(manualGivenTotal)}
                     min="0"
                     step="0.01"
                     onChange={(e) =>
@@ -1595,8 +1746,8 @@ export default function NewAdminReceiptPage() {
                   </label>
                   <Input
                     type="number"
-                    // value={manualReceivedTotal.toFixed(3)}
-                    placeholder={manualReceivedTotal.toFixed(3)}
+                    // value={formatWeight(manualReceivedTotal)}
+                    placeholder={formatWeight(manualReceivedTotal)}
                     min="0"
                     step="0.001"
                     onChange={(e) =>
@@ -1610,7 +1761,7 @@ export default function NewAdminReceiptPage() {
                 <div className="flex justify-between items-center">
                   <div className="font-medium">Result:</div>
                   <div className="text-xl font-bold">
-                    {calculateManualResult().toFixed(2)}
+                    {formatWeight(calculateManualResult())}
                   </div>
                 </div>
               </div>
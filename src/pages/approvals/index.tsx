@@ -0,0 +1,294 @@
+import axios from "axios";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Loader2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cancellationServices, deletionRequestServices } from "@/services/api";
+import {
+  DeletionRequest,
+  DeletionRequestStatus,
+} from "@/models/DeletionRequest";
+
+type Decision = "approve" | "reject";
+
+const statusVariants: Record<
+  DeletionRequestStatus,
+  "default" | "secondary" | "destructive"
+> = {
+  pending: "secondary",
+  approved: "destructive",
+  rejected: "default",
+};
+
+export default function ApprovalsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] =
+    useState<DeletionRequestStatus>("pending");
+  const [selectedRequest, setSelectedRequest] =
+    useState<DeletionRequest | null>(null);
+  const [decision, setDecision] = useState<Decision>("approve");
+  const [decisionReason, setDecisionReason] = useState("");
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: ["deletionRequests", statusFilter],
+    queryFn: () => deletionRequestServices.getDeletionRequests(statusFilter),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({
+      request,
+      decision,
+      reason,
+    }: {
+      request: DeletionRequest;
+      decision: Decision;
+      reason: string;
+    }) => {
+      if (decision === "reject") {
+        return deletionRequestServices.rejectRequest(request._id, reason);
+      }
+      // Cancel rather than delete, so the balance and stock are reversed
+      await cancellationServices.cancelReceipt(
+        request.receiptType,
+        request.receiptId,
+        request.reason
+      );
+      return deletionRequestServices.approveRequest(request._id, reason);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["deletionRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["adminReceipts"] });
+      queryClient.invalidateQueries({ queryKey: ["ledger"] });
+      toast({
+        title:
+          variables.decision === "approve"
+            ? "Cancellation Approved"
+            : "Cancellation Rejected",
+        description:
+          variables.decision === "approve"
+            ? "The receipt has been cancelled and its balance reversed."
+            : "The receipt has been kept.",
+      });
+      closeDecisionDialog();
+    },
+    // Server errors are toasted by the API client; this covers the refusals
+    onError: (error: Error) => {
+      if (axios.isAxiosError(error)) return;
+      toast({
+        title: "Could Not Approve",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDecisionDialog = (request: DeletionRequest, value: Decision) => {
+    setSelectedRequest(request);
+    setDecision(value);
+    setDecisionReason("");
+  };
+
+  const closeDecisionDialog = () => {
+    setSelectedRequest(null);
+    setDecisionReason("");
+  };
+
+  const receiptLink = (request: DeletionRequest) =>
+    request.receiptType === "work"
+      ? `/admin-receipts/${request.receiptId}`
+      : `/receipts/${request.receiptId}`;
+
+  return (
+    <div className="container py-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Approvals</h1>
+        <p className="text-muted-foreground">
+          Review cancellation requests raised by staff
+        </p>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6">
+        <Tabs
+          value={statusFilter}
+          onValueChange={(value) =>
+            setStatusFilter(value as DeletionRequestStatus)
+          }
+          className="mb-6"
+        >
+          <TabsList>
+            <TabsTrigger value="pending">Pending</TabsTrigger>
+            <TabsTrigger value="approved">Approved</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Voucher</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Requested By</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading requests...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : requests.length > 0 ? (
+              requests.map((request) => (
+                <TableRow key={request._id}>
+                  <TableCell className="font-medium">
+                    <Link to={receiptLink(request)} className="hover:underline">
+                      {request.voucherId || "View receipt"}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    {request.receiptType === "work" ? "Work" : "Shop"}
+                  </TableCell>
+                  <TableCell>{request.clientName || "-"}</TableCell>
+                  <TableCell>
+                    <div>{request.requestedBy?.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(request.requestedAt), "dd MMM yyyy")}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <div>{request.reason}</div>
+                    {request.decisionReason && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {request.decidedBy?.name}: {request.decisionReason}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[request.status]}>
+                      {request.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {request.status === "pending" && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDecisionDialog(request, "reject")}
+                        >
+                          <X className="mr-1 h-4 w-4" /> Reject
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => openDecisionDialog(request, "approve")}
+                        >
+                          <Check className="mr-1 h-4 w-4" /> Approve
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No {statusFilter} requests
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog
+        open={!!selectedRequest}
+        onOpenChange={(open) => !open && closeDecisionDialog()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision === "approve"
+                ? "Approve Cancellation"
+                : "Reject Cancellation"}
+            </DialogTitle>
+            <DialogDescription>
+              {decision === "approve"
+                ? "The receipt will be cancelled and what it added to the client's balance and stock reversed."
+                : "The receipt will be kept and the requester notified."}{" "}
+              Your reason is recorded on the receipt.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Textarea
+              placeholder="Reason for your decision"
+              value={decisionReason}
+              onChange={(e) => setDecisionReason(e.target.value)}
+              disabled={decisionMutation.isPending}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeDecisionDialog}
+              disabled={decisionMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant={decision === "approve" ? "destructive" : "default"}
+              disabled={decisionMutation.isPending || !decisionReason.trim()}
+              onClick={() =>
+                selectedRequest &&
+                decisionMutation.mutate({
+                  request: selectedRequest,
+                  decision,
+                  reason: decisionReason.trim(),
+                })
+              }
+            >
+              {decisionMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              {decision === "approve" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { invoiceServices } from "@/services/api";
+import { JEWELLERY_GST_PERCENT } from "@/lib/gst";
+import { generateTaxInvoicePdf } from "@/lib/tax-invoice-pdf";
+import { formatRupees } from "@/lib/metal-rates";
+import { formatAmount, formatWeight, toNumber } from "@/lib/metal-calculations";
+
+export default function TaxInvoiceDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: invoice, isLoading } = useQuery({
+    queryKey: ["invoice", id],
+    queryFn: () => invoiceServices.getInvoice(id),
+    enabled: !!id,
+  });
+
+  if (isLoading || !invoice) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-lg">Loading invoice...</span>
+      </div>
+    );
+  }
+
+  const { totals } = invoice;
+  const taxRows =
+    invoice.gstSplit === "inter-state"
+      ? [{ label: `IGST @ ${JEWELLERY_GST_PERCENT}%`, amount: totals.igst }]
+      : [
+          {
+            label: `CGST @ ${JEWELLERY_GST_PERCENT / 2}%`,
+            amount: totals.cgst,
+          },
+          {
+            label: `SGST @ ${JEWELLERY_GST_PERCENT / 2}%`,
+            amount: totals.sgst,
+          },
+        ];
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/client-bills")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Client Bills
+      </Button>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold flex items-center gap-3">
+            Invoice {invoice.invoiceNumber}
+            <Badge variant="outline">
+              {invoice.gstSplit === "inter-state" ? "IGST" : "CGST + SGST"}
+            </Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {invoice.clientName} •{" "}
+            {format(new Date(invoice.date), "dd MMM yyyy")} • Receipt{" "}
+            <Link to={`/receipts/${invoice.receiptId}`} className="underline">
+              {invoice.receiptVoucherId}
+            </Link>
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => generateTaxInvoicePdf(invoice)}
+        >
+          <Download className="mr-2 h-4 w-4" /> Download PDF
+        </Button>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto mb-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Description</TableHead>
+              <TableHead>HSN</TableHead>
+              <TableHead className="text-right">Gross</TableHead>
+              <TableHead className="text-right">Net</TableHead>
+              <TableHead className="text-right">Touch %</TableHead>
+              <TableHead className="text-right">Fine</TableHead>
+              <TableHead className="text-right">Metal Value</TableHead>
+              <TableHead className="text-right">Making</TableHead>
+              <TableHead className="text-right">Stone</TableHead>
+              <TableHead className="text-right">Taxable</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoice.lines.map((line, index) => (
+              <TableRow key={index}>
+                <TableCell>{line.description}</TableCell>
+                <TableCell>{line.hsnCode}</TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(line.grossWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(line.netWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {toNumber(line.touch).toFixed(2)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(line.fineWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatAmount(line.metalValue)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatAmount(line.makingCharges)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatAmount(line.stoneCharges)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatAmount(line.taxableValue)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-card card-premium rounded-lg p-6 space-y-3">
+          <h2 className="text-xl font-serif font-medium">Billed To</h2>
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Client</dt>
+            <dd>{invoice.clientName}</dd>
+            <dt className="text-muted-foreground">Address</dt>
+            <dd className="whitespace-pre-line">
+              {invoice.clientAddress || "-"}
+            </dd>
+            <dt className="text-muted-foreground">GSTIN</dt>
+            <dd>{invoice.clientGstin || "Unregistered"}</dd>
+            <dt className="text-muted-foreground">Place of supply</dt>
+            <dd>{invoice.placeOfSupply || "-"}</dd>
+            <dt className="text-muted-foreground">Rate</dt>
+            <dd>
+              {formatRupees(invoice.appliedRate.ratePerGram)} per g,{" "}
+              {invoice.appliedRate.metal} {invoice.appliedRate.purity}
+            </dd>
+          </dl>
+        </div>
+
+        <div className="bg-card card-premium rounded-lg p-6">
+          <h2 className="text-xl font-serif font-medium mb-4">Tax Summary</h2>
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Taxable value</dt>
+            <dd className="text-right">{formatAmount(totals.taxableValue)}</dd>
+            {taxRows.map((row) => (
+              <div key={row.label} className="contents">
+                <dt className="text-muted-foreground">{row.label}</dt>
+                <dd className="text-right">{formatAmount(row.amount)}</dd>
+              </div>
+            ))}
+            <dt className="text-muted-foreground">Round off</dt>
+            <dd className="text-right">{formatAmount(totals.roundOff)}</dd>
+            <dt className="font-bold">Grand total</dt>
+            <dd className="text-right font-bold">
+              {formatRupees(totals.grandTotal)}
+            </dd>
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+}
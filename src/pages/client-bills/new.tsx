@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { useSettings } from "@/contexts/SettingsContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  clientServices,
+  invoiceServices,
+  receiptServices,
+} from "@/services/api";
+import {
+  buildInvoiceLines,
+  calculateInvoiceTotals,
+  gstSplitFor,
+  JEWELLERY_GST_PERCENT,
+} from "@/lib/gst";
+import { formatRupees, toAppliedRate } from "@/lib/metal-rates";
+import { formatAmount, formatWeight } from "@/lib/metal-calculations";
+
+export default function NewTaxInvoicePage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { settings } = useSettings();
+  const { rateFor } = useMetalRates();
+  const [searchParams] = useSearchParams();
+  const [receiptId, setReceiptId] = useState(searchParams.get("receipt") || "");
+  // Making charges in rupees, one per line
+  const [makingCharges, setMakingCharges] = useState<string[]>([]);
+
+  // Only completed receipts are billed; the client has taken the ornaments
+  const { data: receipts = [] } = useQuery({
+    queryKey: ["receipts", { status: "complete" }],
+    queryFn: async () =>
+      (await receiptServices.getReceipts({ status: "complete" })).data || [],
+  });
+  const receipt = receipts.find((r) => r._id === receiptId);
+
+  const { data: client } = useQuery({
+    queryKey: ["client", receipt?.clientId],
+    queryFn: () => clientServices.getClient(receipt.clientId),
+    enabled: !!receipt?.clientId,
+  });
+
+  // The rate recorded on the receipt, else the register's rate for its day
+  const registerRate = receipt
+    ? rateFor(receipt.metalType, new Date(receipt.issueDate))
+    : undefined;
+  const appliedRate =
+    receipt?.appliedRate || (registerRate && toAppliedRate(registerRate));
+
+  const gstSplit = gstSplitFor(settings.business.state, client?.state);
+  const lines =
+    receipt && appliedRate
+      ? buildInvoiceLines(receipt, appliedRate, makingCharges)
+      : [];
+  const totals = calculateInvoiceTotals(lines, gstSplit);
+
+  const handleReceiptChange = (value: string) => {
+    setReceiptId(value);
+    setMakingCharges([]);
+  };
+
+  const setMakingCharge = (index: number, value: string) =>
+    setMakingCharges((current) => {
+      const next = [...current];
+      next[index] = value;
+      return next;
+    });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      invoiceServices.createInvoice({
+        receiptId: receipt._id,
+        receiptVoucherId: receipt.voucherId,
+        clientId: receipt.clientId,
+        clientName:
+          receipt.clientInfo.shopName || receipt.clientInfo.clientName,
+        clientAddress: client?.address || receipt.clientInfo.address || "",
+        clientGstin: client?.gstin || undefined,
+        placeOfSupply: client?.state || settings.business.state,
+        gstSplit,
+        date: new Date(),
+        appliedRate,
+        lines,
+        totals,
+      }),
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      toast({
+        title: "Invoice created",
+        description: `Tax invoice ${invoice.invoiceNumber} for ${invoice.clientName}`,
+      });
+      navigate(`/client-bills/${invoice._id}`);
+    },
+  });
+
+  const canSave = receipt && appliedRate && lines.length > 0;
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/client-bills")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Client Bills
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">New Tax Invoice</h1>
+        <p className="text-muted-foreground">
+          Bill the ornaments on a completed receipt, with GST at{" "}
+          {JEWELLERY_GST_PERCENT}%
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Receipt</Label>
+            <Select value={receiptId} onValueChange={handleReceiptChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a completed receipt" />
+              </SelectTrigger>
+              <SelectContent>
+                {receipts.map((r) => (
+                  <SelectItem key={r._id} value={r._id}>
+                    {r.voucherId} • {r.clientInfo?.clientName} •{" "}
+                    {format(new Date(r.issueDate), "dd MMM yyyy")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {receipt && (
+            <div className="space-y-1 text-sm">
+              <div>
+                <span className="text-muted-foreground">Place of supply: </span>
+                {client?.state || settings.business.state || "Not set"}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Client GSTIN: </span>
+                {client?.gstin || "Unregistered"}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Rate: </span>
+                {appliedRate
+                  ? `${formatRupees(appliedRate.ratePerGram)} per g, ${
+                      appliedRate.metal
+                    } ${appliedRate.purity}`
+                  : "No rate in the register for the receipt's day"}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {!settings.business.state && (
+          <p className="text-sm text-amber-600">
+            Set the business state in Settings so inter-state sales are charged
+            IGST.
+          </p>
+        )}
+
+        {lines.length > 0 && (
+          <div className="overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead>HSN</TableHead>
+                  <TableHead className="text-right">Net Wt.</TableHead>
+                  <TableHead className="text-right">Fine Wt.</TableHead>
+                  <TableHead className="text-right">Metal Value</TableHead>
+                  <TableHead className="w-[140px]">Making (₹)</TableHead>
+                  <TableHead className="text-right">Stone</TableHead>
+                  <TableHead className="text-right">Taxable</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell>{line.hsnCode}</TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(line.netWeight)}g
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(line.fineWeight)}g
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(line.metalValue)}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={makingCharges[index] || ""}
+                        onChange={(e) => setMakingCharge(index, e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(line.stoneCharges)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(line.taxableValue)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={7}>Taxable value</TableCell>
+                  <TableCell className="text-right">
+                    {formatAmount(totals.taxableValue)}
+                  </TableCell>
+                </TableRow>
+                {gstSplit === "inter-state" ? (
+                  <TableRow>
+                    <TableCell colSpan={7}>
+                      IGST @ {JEWELLERY_GST_PERCENT}%
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(totals.igst)}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <>
+                    <TableRow>
+                      <TableCell colSpan={7}>
+                        CGST @ {JEWELLERY_GST_PERCENT / 2}%
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(totals.cgst)}
+                      </TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={7}>
+                        SGST @ {JEWELLERY_GST_PERCENT / 2}%
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(totals.sgst)}
+                      </TableCell>
+                    </TableRow>
+                  </>
+                )}
+                <TableRow>
+                  <TableCell colSpan={7}>Round off</TableCell>
+                  <TableCell className="text-right">
+                    {formatAmount(totals.roundOff)}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={7} className="font-bold">
+                    Grand total
+                  </TableCell>
+                  <TableCell className="text-right font-bold">
+                    {formatRupees(totals.grandTotal)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canSave || createMutation.isPending}
+          >
+            {createMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Create Invoice
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
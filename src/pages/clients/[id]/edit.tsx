@@ -6,7 +6,6 @@ import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import { toast } from "sonner";
-import axios from "axios";
 import {
   Form,
   FormControl,
@@ -19,9 +18,15 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Skeleton } from "@/components/ui/skeleton";
-
-// API configuration
-const API_BASE_URL = "https://backend-goldsmith.onrender.com/api";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { clientServices, syncServices } from "@/services/api";
+import { INDIAN_STATES } from "@/lib/gst";
 
 // Form validation schema
 const clientFormSchema = z.object({
@@ -34,6 +39,8 @@ const clientFormSchema = z.object({
     .regex(/^[0-9]+$/, "Phone number must contain only digits"),
   address: z.string().min(1, "Address is required"),
   email: z.string().email("Invalid email address").optional().or(z.literal("")),
+  state: z.string().optional(),
+  gstin: z.string().optional(),
   active: z.boolean().default(true),
 });
 
@@ -45,6 +52,8 @@ export default function EditClientPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
+  // When the loaded copy was last saved, to spot edits made meanwhile
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState("");
 
   const form = useForm<ClientFormValues>({
     resolver: zodResolver(clientFormSchema),
@@ -54,6 +63,8 @@ export default function EditClientPage() {
       phoneNumber: "",
       address: "",
       email: "",
+      state: "",
+      gstin: "",
       active: true,
     },
   });
@@ -68,19 +79,22 @@ export default function EditClientPage() {
     const fetchClient = async () => {
       try {
         setIsLoading(true);
-        const response = await axios.get(`${API_BASE_URL}/clients/${id}`);
+        const client = await clientServices.getClient(id);
 
-        if (!response.data) {
+        if (!client) {
           throw new Error("Client not found");
         }
 
         // Transform empty strings to undefined for optional fields
         const clientData = {
-          ...response.data,
-          email: response.data.email || "",
+          ...client,
+          email: client.email || "",
+          state: client.state || "",
+          gstin: client.gstin || "",
         };
 
         form.reset(clientData);
+        setBaseUpdatedAt(String(client.updatedAt));
       } catch (err) {
         console.error("Failed to fetch client:", err);
         const errorMessage =
@@ -110,9 +124,24 @@ export default function EditClientPage() {
       const payload = {
         ...data,
         email: data.email || undefined, // Convert empty string to undefined
+        state: data.state || undefined,
+        gstin: data.gstin || undefined,
       };
 
-      await axios.put(`${API_BASE_URL}/clients/${id}`, payload);
+      const result = await syncServices.saveOrQueue({
+        kind: "clientUpdate",
+        clientId: id,
+        payload,
+        baseUpdatedAt,
+      });
+
+      if (result.status === "queued") {
+        toast.info("Saved on this device", {
+          description: "The changes will sync when the connection is back.",
+        });
+        navigate(`/clients/${id}`);
+        return;
+      }
 
       toast.success("Client updated successfully", {
         action: {
@@ -276,6 +305,57 @@ export default function EditClientPage() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="state"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>State</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={isSubmitting}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select state" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INDIAN_STATES.map((state) => (
+                          <SelectItem key={state.code} value={state.name}>
+                            {state.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="gstin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>GSTIN</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Only for registered businesses"
+                        maxLength={15}
+                        {...field}
+                        onChange={(e) =>
+                          field.onChange(e.target.value.toUpperCase())
+                        }
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="address"
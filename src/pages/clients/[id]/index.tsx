@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import axios from "axios";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import {
@@ -31,22 +31,22 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
-
-// API configuration
-const API_BASE_URL = "https://backend-goldsmith.onrender.com/api";
-const CLIENT_RECEIPTS_URL = `${API_BASE_URL}/receipts`;
-const ADMIN_RECEIPTS_URL = `${API_BASE_URL}/admin-receipts`;
-
-interface Client {
-  _id: string;
-  shopName: string;
-  clientName: string;
-  phoneNumber: string;
-  address: string;
-  email: string;
-  active: boolean;
-  createdAt: string;
-}
+import {
+  adminReceiptServices,
+  clientServices,
+  receiptServices,
+} from "@/services/api";
+import { Client } from "@/models/Client";
+import { ClientLedger } from "@/components/clients/client-ledger";
+import { ClientPayments } from "@/components/clients/client-payments";
+import { AuditHistory } from "@/components/audit/audit-history";
+import { CancelReceiptDialog } from "@/components/receipts/cancel-receipt-dialog";
+import { drawBrandFooter, drawBrandFrame } from "@/lib/pdf-branding";
+import {
+  calculateBalance,
+  formatWeight,
+  sumWeights,
+} from "@/lib/metal-calculations";
 
 interface AdminReceipt {
   _id: string;
@@ -136,14 +136,14 @@ interface ReceiptsTableProps {
   receipts: Receipt[];
   onViewReceipt: (receipt: Receipt) => void;
   onDownloadReceipt: (receiptId: string, type: "client" | "admin") => void;
-  onDeleteReceipt: (receiptId: string, type: "client" | "admin") => void;
+  onCancelReceipt: (receiptId: string, type: "client" | "admin") => void;
 }
 
 function ReceiptsTable({
   receipts,
   onViewReceipt,
   onDownloadReceipt,
-  onDeleteReceipt,
+  onCancelReceipt,
 }: ReceiptsTableProps) {
   console.log("Rendering ReceiptsTable with receipts:", receipts);
   if (!receipts || receipts.length === 0) {
@@ -268,22 +268,10 @@ const generatePDF = (receipt: any) => {
   const doc = new jsPDF("p", "mm", "a4");
   const pageWidth = doc.internal.pageSize.getWidth();
 
-  // Set golden border (approximating the color from the image)
-  doc.setDrawColor(204, 153, 0); // Golden border color (RGB)
-  doc.setLineWidth(1);
-  doc.rect(5, 5, 200, 287); // A4 page border (210x297 mm, with 5mm margin)
-
-  // Add logo at the top center
-  const logoPath = "/logo.jpg"; // Using the provided logo path
-  try {
-    doc.addImage(logoPath, "JPEG", 85, 5, 40, 20); // Centered logo, adjusted size to fit design
-  } catch (logoError) {
-    console.warn("Logo not found, continuing without logo");
-  }
+  drawBrandFrame(doc);
 
   // Dynamic Fields (aligned with design)
   doc.setFontSize(11);
-  doc.setTextColor(0, 0, 0); // Black text
   let y = 35;
   const marginLeft = 25;
 
@@ -355,8 +343,8 @@ const generatePDF = (receipt: any) => {
       index + 1,
       receipt.type === "admin" ? item.productName || "-" : item.itemName || "-",
       receipt.type === "admin"
-        ? formatNumber(item.pureWeight, 3)
-        : formatNumber(item.grossWt, 3),
+        ? formatWeight(item.pureWeight)
+        : formatWeight(item.grossWt),
       receipt.type === "admin"
         ? formatNumber(item.purePercent, 2)
         : formatNumber(item.meltingTouch, 2),
@@ -364,8 +352,8 @@ const generatePDF = (receipt: any) => {
         ? formatNumber(item.melting, 2)
         : formatNumber(item.meltingTouch, 2),
       receipt.type === "admin"
-        ? formatNumber(item.total, 3)
-        : formatNumber(item.finalWt, 3),
+        ? formatWeight(item.total)
+        : formatWeight(item.finalWt),
       receipt.type === "admin"
         ? item.date
           ? formatDate(item.date)
@@ -383,8 +371,8 @@ const generatePDF = (receipt: any) => {
       "",
       "",
       receipt.type === "admin"
-        ? formatNumber(receipt.given?.total)
-        : formatNumber(receipt.totals?.finalWt),
+        ? formatWeight(receipt.given?.total)
+        : formatWeight(receipt.totals?.finalWt),
       "",
     ]);
 
@@ -471,19 +459,19 @@ const generatePDF = (receipt: any) => {
         ? formatDate(item.date)
         : "—",
       receipt.type === "admin"
-        ? formatNumber(item.finalOrnamentsWt, 3)
-        : formatNumber(item.finalWt, 3),
+        ? formatWeight(item.finalOrnamentsWt)
+        : formatWeight(item.finalWt),
       receipt.type === "admin"
-        ? formatNumber(item.stoneWeight, 3)
-        : formatNumber(item.stoneWt, 3),
+        ? formatWeight(item.stoneWeight)
+        : formatWeight(item.stoneWt),
       receipt.type === "admin"
         ? formatNumber(item.makingChargePercent, 2)
         : formatNumber(item.meltingTouch, 2),
       receipt.type === "admin"
-        ? formatNumber(item.subTotal, 3)
-        : formatNumber(item.finalWt, 3),
+        ? formatWeight(item.subTotal)
+        : formatWeight(item.finalWt),
       receipt.type === "admin"
-        ? formatNumber(item.total, 3)
+        ? formatWeight(item.total)
         : formatNumber(item.totalInvoiceAmount, 3),
     ]);
 
@@ -493,32 +481,23 @@ const generatePDF = (receipt: any) => {
       "Total:",
       "",
       receipt.type === "admin"
-        ? formatNumber(receipt.received?.totalOrnamentsWt)
-        : formatNumber(
-            receivedItems.reduce(
-              (acc: number, item: any) => acc + Number(item.finalWt || 0),
-              0
-            )
+        ? formatWeight(receipt.received?.totalOrnamentsWt)
+        : formatWeight(
+            sumWeights(receivedItems.map((item: any) => item.finalWt))
           ),
       receipt.type === "admin"
-        ? formatNumber(receipt.received?.totalStoneWeight)
-        : formatNumber(
-            receivedItems.reduce(
-              (acc: number, item: any) => acc + Number(item.stoneWt || 0),
-              0
-            )
+        ? formatWeight(receipt.received?.totalStoneWeight)
+        : formatWeight(
+            sumWeights(receivedItems.map((item: any) => item.stoneWt))
           ),
       "",
       receipt.type === "admin"
-        ? formatNumber(receipt.received?.totalSubTotal)
-        : formatNumber(
-            receivedItems.reduce(
-              (acc: number, item: any) => acc + Number(item.finalWt || 0),
-              0
-            )
+        ? formatWeight(receipt.received?.totalSubTotal)
+        : formatWeight(
+            sumWeights(receivedItems.map((item: any) => item.finalWt))
           ),
       receipt.type === "admin"
-        ? formatNumber(receipt.received?.total)
+        ? formatWeight(receipt.received?.total)
         : formatNumber(receipt.totals?.totalInvoiceAmount),
     ]);
 
@@ -588,12 +567,10 @@ const generatePDF = (receipt: any) => {
 
     balanceValues = [
       formatNumber(0, 2), // Admin receipts don't have client balance
-      formatNumber(receipt.given?.total),
-      formatNumber(receipt.received?.total),
-      formatNumber(
-        Number(receipt.given?.total || 0) -
-          Number(receipt.received?.total || 0),
-        3
+      formatWeight(receipt.given?.total),
+      formatWeight(receipt.received?.total),
+      formatWeight(
+        calculateBalance(receipt.given?.total, receipt.received?.total)
       ),
     ];
   } else {
@@ -605,8 +582,8 @@ const generatePDF = (receipt: any) => {
     ];
 
     balanceValues = [
-      formatNumber(receipt.totals?.grossWt, 3) + "g",
-      formatNumber(receipt.totals?.finalWt, 3) + "g",
+      formatWeight(receipt.totals?.grossWt) + "g",
+      formatWeight(receipt.totals?.finalWt) + "g",
       "₹" + formatNumber(receipt.totals?.totalInvoiceAmount, 2),
       "₹" + formatNumber(receipt.totals?.balanceDue, 2),
     ];
@@ -661,11 +638,11 @@ const generatePDF = (receipt: any) => {
     ];
 
     additionalValues = [
-      formatNumber(receipt.manualCalculations?.givenTotal || 0),
+      formatWeight(receipt.manualCalculations?.givenTotal || 0),
       receipt.manualCalculations?.operation?.replace(/-/g, " ") ||
         "subtract given received",
-      formatNumber(receipt.manualCalculations?.receivedTotal || 0),
-      formatNumber(receipt.manualCalculations?.result || 0),
+      formatWeight(receipt.manualCalculations?.receivedTotal || 0),
+      formatWeight(receipt.manualCalculations?.result || 0),
     ];
   } else {
     // For client receipts, show payment information
@@ -717,6 +694,7 @@ const generatePDF = (receipt: any) => {
     margin: { left: 15, right: 25 },
   });
 
+  drawBrandFooter(doc);
   return doc;
 };
 
@@ -724,6 +702,7 @@ export default function ClientDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { can } = useAuth();
   const [client, setClient] = useState<Client | null>(null);
   const [clientReceipts, setClientReceipts] = useState<ClientReceipt[]>([]);
   const [adminReceipts, setAdminReceipts] = useState<AdminReceipt[]>([]);
@@ -737,7 +716,14 @@ export default function ClientDetailsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [receiptModalOpen, setReceiptModalOpen] = useState(false);
   const [selectedReceipt, setSelectedReceipt] = useState<Receipt | null>(null);
-  const [activeTab, setActiveTab] = useState<"all" | "client" | "admin">("all");
+  const [receiptToCancel, setReceiptToCancel] = useState<{
+    id: string;
+    type: "client" | "admin";
+  } | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [activeTab, setActiveTab] = useState<
+    "all" | "client" | "admin" | "history"
+  >("all");
 
   // Fetch all data
   useEffect(() => {
@@ -751,14 +737,14 @@ export default function ClientDetailsPage() {
         setIsLoading(true);
 
         // Fetch client data
-        const clientResponse = await axios.get(`${API_BASE_URL}/clients/${id}`);
-        setClient(clientResponse.data);
+        const clientData = await clientServices.getClient(id);
+        setClient(clientData);
 
         // Fetch client receipts
-        const clientReceiptsResponse = await axios.get(
-          `${CLIENT_RECEIPTS_URL}/client/${id}`
+        const clientReceiptsResponse = await receiptServices.getClientReceipts(
+          id
         );
-        const clientReceiptsData = clientReceiptsResponse.data.data.map(
+        const clientReceiptsData = clientReceiptsResponse.data.map(
           (r: any) => ({
             ...r,
             type: "client",
@@ -767,10 +753,10 @@ export default function ClientDetailsPage() {
         setClientReceipts(clientReceiptsData);
 
         // Fetch Work Receipts for this client
-        const adminReceiptsResponse = await axios.get(
-          `${ADMIN_RECEIPTS_URL}?clientId=${id}`
+        const adminReceiptsResponse = await adminReceiptServices.getAdminReceipts(
+          { clientId: id }
         );
-        const adminReceiptsData = adminReceiptsResponse.data.map((r: any) => ({
+        const adminReceiptsData = adminReceiptsResponse.map((r: any) => ({
           ...r,
           type: "admin",
         }));
@@ -828,7 +814,7 @@ export default function ClientDetailsPage() {
     };
 
     fetchData();
-  }, [id, toast]);
+  }, [id, toast, reloadCount]);
 
   // Filter receipts based on active tab
   const getFilteredReceipts = () => {
@@ -915,41 +901,10 @@ export default function ClientDetailsPage() {
     }
   };
 
-  const handleDeleteReceipt = async (
-    receiptId: string,
-    type: "client" | "admin"
-  ) => {
-    try {
-      const url =
-        type === "client"
-          ? `${CLIENT_RECEIPTS_URL}/${receiptId}`
-          : `${ADMIN_RECEIPTS_URL}/${receiptId}`;
-
-      await axios.delete(url);
-
-      // Update the appropriate receipts list
-      if (type === "client") {
-        setClientReceipts(clientReceipts.filter((r) => r._id !== receiptId));
-      } else {
-        setAdminReceipts(adminReceipts.filter((r) => r._id !== receiptId));
-      }
-
-      // Close modal if open
-      if (selectedReceipt?._id === receiptId) {
-        setReceiptModalOpen(false);
-      }
-
-      toast({
-        title: "Success",
-        description: "Receipt deleted successfully",
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to delete receipt",
-        variant: "destructive",
-      });
-    }
+  // Saved receipts are cancelled, not deleted, so what they posted is reversed
+  const handleCancelReceipt = (receiptId: string, type: "client" | "admin") => {
+    setReceiptModalOpen(false);
+    setReceiptToCancel({ id: receiptId, type });
   };
 
   if (isLoading) {
@@ -994,21 +949,33 @@ export default function ClientDetailsPage() {
           </p>
         </div>
         <div className="mt-4 md:mt-0 space-x-2">
-          <Button onClick={() => navigate(`/clients/${id}/edit`)}>
-            <Edit className="mr-2 h-4 w-4" /> Edit Client
-          </Button>
-          <Button
-            variant="outline"
-            onClick={() => handleCreateReceipt("client")}
-          >
-            <Plus className="mr-2 h-4 w-4" /> New Shop Receipt
-          </Button>
           <Button
             variant="outline"
-            onClick={() => navigate("/admin-receipts/new")}
+            onClick={() => navigate(`/clients/${id}/statement`)}
           >
-            <Plus className="mr-2 h-4 w-4" /> New Work Receipt
+            <FileText className="mr-2 h-4 w-4" /> Statement
           </Button>
+          {can("clients:edit") && (
+            <Button onClick={() => navigate(`/clients/${id}/edit`)}>
+              <Edit className="mr-2 h-4 w-4" /> Edit Client
+            </Button>
+          )}
+          {can("receipts:create") && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleCreateReceipt("client")}
+              >
+                <Plus className="mr-2 h-4 w-4" /> New Shop Receipt
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate("/admin-receipts/new")}
+              >
+                <Plus className="mr-2 h-4 w-4" /> New Work Receipt
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
@@ -1090,7 +1057,7 @@ export default function ClientDetailsPage() {
         <Tabs
           defaultValue="all"
           onValueChange={(value) =>
-            setActiveTab(value as "all" | "client" | "admin")
+            setActiveTab(value as "all" | "client" | "admin" | "history")
           }
         >
           <div className="flex justify-between items-center mb-6">
@@ -1101,6 +1068,7 @@ export default function ClientDetailsPage() {
               <TabsTrigger value="all">All</TabsTrigger>
               <TabsTrigger value="client">Client</TabsTrigger>
               <TabsTrigger value="admin">Admin</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
           </div>
 
@@ -1109,7 +1077,7 @@ export default function ClientDetailsPage() {
               receipts={getFilteredReceipts()}
               onViewReceipt={handleViewReceipt}
               onDownloadReceipt={handleDownloadReceipt}
-              onDeleteReceipt={handleDeleteReceipt}
+              onCancelReceipt={handleCancelReceipt}
             />
           </TabsContent>
 
@@ -1118,7 +1086,7 @@ export default function ClientDetailsPage() {
               receipts={getFilteredReceipts()}
               onViewReceipt={handleViewReceipt}
               onDownloadReceipt={handleDownloadReceipt}
-              onDeleteReceipt={handleDeleteReceipt}
+              onCancelReceipt={handleCancelReceipt}
             />
           </TabsContent>
 
@@ -1127,12 +1095,26 @@ export default function ClientDetailsPage() {
               receipts={getFilteredReceipts()}
               onViewReceipt={handleViewReceipt}
               onDownloadReceipt={handleDownloadReceipt}
-              onDeleteReceipt={handleDeleteReceipt}
+              onCancelReceipt={handleCancelReceipt}
             />
           </TabsContent>
+
+          <TabsContent value="history" className="mt-0">
+            <AuditHistory entityType="client" entityId={client._id} />
+          </TabsContent>
         </Tabs>
       </div>
 
+      {/* Gold balance ledger */}
+      <div className="bg-card card-premium rounded-lg p-6 mt-8">
+        <ClientLedger clientId={client._id} />
+      </div>
+
+      {/* Payments received */}
+      <div className="bg-card card-premium rounded-lg p-6 mt-8">
+        <ClientPayments clientId={client._id} />
+      </div>
+
       {/* Receipt details modal */}
       <Dialog open={receiptModalOpen} onOpenChange={setReceiptModalOpen}>
         <DialogContent className="max-w-3xl">
@@ -1196,7 +1178,7 @@ export default function ClientDetailsPage() {
                               {item.productName}
                             </td>
                             <td className="border px-4 py-2">
-                              {Number(item.pureWeight).toFixed(2)}
+                              {formatWeight(item.pureWeight)}
                             </td>
                             <td className="border px-4 py-2">
                               {Number(item.purePercent).toFixed(2)}
@@ -1205,7 +1187,7 @@ export default function ClientDetailsPage() {
                               {Number(item.melting).toFixed(2)}
                             </td>
                             <td className="border px-4 py-2">
-                              {Number(item.total).toFixed(2)}
+                              {formatWeight(item.total)}
                             </td>
                           </tr>
                         ))}
@@ -1217,7 +1199,7 @@ export default function ClientDetailsPage() {
                             Total
                           </td>
                           <td className="border px-4 py-2 text-center">
-                            {Number(selectedReceipt.given.total).toFixed(2)}
+                            {formatWeight(selectedReceipt.given.total)}
                           </td>
                         </tr>
                       </tbody>
@@ -1228,24 +1210,24 @@ export default function ClientDetailsPage() {
                         <div className="flex justify-between">
                           <span>Given Total</span>
                           <span>
-                            {Number(selectedReceipt.given.total).toFixed(2)}
+                            {formatWeight(selectedReceipt.given.total)}
                           </span>
                         </div>
                         <div className="flex justify-between">
                           <span>Received Total</span>
                           <span>
-                            {Number(
-                              selectedReceipt.received?.total || 0
-                            ).toFixed(2)}
+                            {formatWeight(selectedReceipt.received?.total)}
                           </span>
                         </div>
                         <div className="flex justify-between font-semibold">
                           <span>Balance (Given - Received)</span>
                           <span>
-                            {(
-                              Number(selectedReceipt.given.total) -
-                              Number(selectedReceipt.received?.total || 0)
-                            ).toFixed(2)}
+                            {formatWeight(
+                              calculateBalance(
+                                selectedReceipt.given.total,
+                                selectedReceipt.received?.total
+                              )
+                            )}
                           </span>
                         </div>
                       </div>
@@ -1334,18 +1316,19 @@ export default function ClientDetailsPage() {
               </div>
 
               <div className="flex justify-end gap-2">
-                <Button
-                  variant="destructive"
-                  onClick={() => {
-                    handleDeleteReceipt(
-                      selectedReceipt._id,
-                      selectedReceipt.type
-                    );
-                    setReceiptModalOpen(false);
-                  }}
-                >
-                  Delete Receipt
-                </Button>
+                {can("receipts:delete") && (
+                  <Button
+                    variant="destructive"
+                    onClick={() =>
+                      handleCancelReceipt(
+                        selectedReceipt._id,
+                        selectedReceipt.type
+                      )
+                    }
+                  >
+                    Cancel Receipt
+                  </Button>
+                )}
                 <Button
                   onClick={() =>
                     handleDownloadReceipt(
@@ -1361,6 +1344,14 @@ export default function ClientDetailsPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <CancelReceiptDialog
+        open={!!receiptToCancel}
+        onOpenChange={(open) => !open && setReceiptToCancel(null)}
+        receiptId={receiptToCancel?.id || null}
+        receiptType={receiptToCancel?.type === "admin" ? "work" : "shop"}
+        onDone={() => setReloadCount((count) => count + 1)}
+      />
     </div>
   );
 }
@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  adminReceiptServices,
+  clientServices,
+  ledgerServices,
+  receiptServices,
+} from "@/services/api";
+import { Client } from "@/models/Client";
+import { buildStatement, Statement } from "@/lib/statement";
+import { withOpeningBalance } from "@/lib/opening-balance";
+import { formatWeight } from "@/lib/metal-calculations";
+import {
+  brandTableStyles,
+  drawBrandFooter,
+  drawBrandFrame,
+  drawLabelledField,
+} from "@/lib/pdf-branding";
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+const DISPLAY_FORMAT = "dd MMM yyyy";
+
+const formatPeriod = (statement: Statement) =>
+  `${format(statement.from, DISPLAY_FORMAT)} to ${format(
+    statement.to,
+    DISPLAY_FORMAT
+  )}`;
+
+// Blank cells rather than 0.000 so given and received columns read clearly
+const weightOrBlank = (value: number) => (value ? formatWeight(value) : "");
+
+const generateStatementPDF = (client: Client, statement: Statement) => {
+  const doc = new jsPDF("p", "mm", "a4");
+  drawBrandFrame(doc);
+
+  const marginLeft = 25;
+  let y = 35;
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("Statement of Account", 105, y, { align: "center" });
+  y += 10;
+
+  doc.setFontSize(11);
+  drawLabelledField(doc, "Name", client.clientName, marginLeft, y);
+  y += 6;
+  drawLabelledField(doc, "Shop", client.shopName, marginLeft, y);
+  y += 6;
+  drawLabelledField(doc, "Phone Number", client.phoneNumber, marginLeft, y);
+  y += 6;
+  drawLabelledField(doc, "Period", formatPeriod(statement), marginLeft, y);
+  y += 4;
+
+  const body = [
+    ["", "", "Opening balance", "", "", formatWeight(statement.openingBalance)],
+    ...statement.lines.map((line) => [
+      format(line.date, DISPLAY_FORMAT),
+      line.voucherId,
+      line.particulars,
+      weightOrBlank(line.given),
+      weightOrBlank(line.received),
+      formatWeight(line.balance),
+    ]),
+    [
+      "",
+      "",
+      "Closing balance",
+      formatWeight(statement.totalGiven),
+      formatWeight(statement.totalReceived),
+      formatWeight(statement.closingBalance),
+    ],
+  ];
+
+  autoTable(doc, {
+    ...brandTableStyles,
+    startY: y + 3,
+    head: [
+      [
+        "Date",
+        "Voucher",
+        "Particulars",
+        "Given (g)",
+        "Received (g)",
+        "Balance (g)",
+      ],
+    ],
+    body,
+    didParseCell: function (data) {
+      // Opening and closing rows stand out from the movements
+      if (
+        data.section === "body" &&
+        (data.row.index === 0 || data.row.index === body.length - 1)
+      ) {
+        data.cell.styles.fontStyle = "bold";
+        data.cell.styles.fillColor = [240, 240, 240];
+      }
+    },
+    columnStyles: {
+      0: { cellWidth: 22 },
+      1: { cellWidth: 25 },
+      3: { halign: "right", cellWidth: 22 },
+      4: { halign: "right", cellWidth: 22 },
+      5: { halign: "right", cellWidth: 22 },
+    },
+    margin: { left: 15, right: 15 },
+  });
+
+  drawBrandFooter(doc);
+  doc.save(
+    `statement-${client.shopName}-${format(
+      statement.from,
+      DATE_INPUT_FORMAT
+    )}-to-${format(statement.to, DATE_INPUT_FORMAT)}.pdf`
+  );
+};
+
+export default function ClientStatementPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const today = new Date();
+  const [from, setFrom] = useState(
+    format(startOfMonth(today), DATE_INPUT_FORMAT)
+  );
+  const [to, setTo] = useState(format(endOfMonth(today), DATE_INPUT_FORMAT));
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["clientStatement", id],
+    queryFn: async () => {
+      const [client, shopReceipts, workReceipts, ledgerEntries] =
+        await Promise.all([
+          clientServices.getClient(id!),
+          receiptServices.getClientReceipts(id!),
+          adminReceiptServices.getAdminReceipts({ clientId: id }),
+          ledgerServices.getClientLedger(id!),
+        ]);
+      return {
+        client,
+        shopReceipts: shopReceipts.data || [],
+        workReceipts,
+        ledgerEntries: withOpeningBalance(ledgerEntries, client),
+      };
+    },
+    enabled: !!id,
+  });
+
+  const statement =
+    data && from && to
+      ? buildStatement({
+          shopReceipts: data.shopReceipts,
+          workReceipts: data.workReceipts,
+          ledgerEntries: data.ledgerEntries,
+          from: parseISO(from),
+          to: parseISO(to),
+        })
+      : null;
+
+  const handleDownload = () => {
+    if (!data || !statement) return;
+    try {
+      generateStatementPDF(data.client, statement);
+    } catch (error) {
+      console.error("Statement PDF error:", error);
+      toast({
+        title: "Download Failed",
+        description: "Could not generate the statement PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container py-6">
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading statement...
+        </div>
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="container py-6">
+        <div className="text-center py-12 text-destructive">
+          Could not load the statement
+        </div>
+        <div className="text-center">
+          <Button onClick={() => navigate(`/clients/${id}`)}>
+            Return to Client
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => navigate(`/clients/${id}`)}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Client
+      </Button>
+
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold">
+            Statement of Account
+          </h1>
+          <p className="text-muted-foreground">
+            {data.client.shopName} • {data.client.clientName}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="statementFrom">From</Label>
+            <Input
+              id="statementFrom"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statementTo">To</Label>
+            <Input
+              id="statementTo"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleDownload} disabled={!statement}>
+            <Download className="mr-2 h-4 w-4" /> Download PDF
+          </Button>
+        </div>
+      </div>
+
+      {statement && (
+        <div className="bg-card card-premium rounded-lg p-6">
+          <p className="text-sm text-muted-foreground mb-4">
+            {formatPeriod(statement)}
+          </p>
+          <div className="overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Voucher</TableHead>
+                  <TableHead>Particulars</TableHead>
+                  <TableHead className="text-right">Given (g)</TableHead>
+                  <TableHead className="text-right">Received (g)</TableHead>
+                  <TableHead className="text-right">Balance (g)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="bg-muted/50 font-medium">
+                  <TableCell colSpan={5}>Opening balance</TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(statement.openingBalance)}
+                  </TableCell>
+                </TableRow>
+                {statement.lines.length > 0 ? (
+                  statement.lines.map((line, index) => (
+                    <TableRow key={`${line.voucherId}-${index}`}>
+                      <TableCell>{format(line.date, DISPLAY_FORMAT)}</TableCell>
+                      <TableCell className="font-medium">
+                        {line.link ? (
+                          <Link to={line.link} className="hover:underline">
+                            {line.voucherId}
+                          </Link>
+                        ) : (
+                          line.voucherId
+                        )}
+                      </TableCell>
+                      <TableCell>{line.particulars}</TableCell>
+                      <TableCell className="text-right">
+                        {weightOrBlank(line.given)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {weightOrBlank(line.received)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatWeight(line.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className="text-center py-10 text-muted-foreground"
+                    >
+                      No movements in this period
+                    </TableCell>
+                  </TableRow>
+                )}
+                <TableRow className="bg-muted/50 font-medium">
+                  <TableCell colSpan={3}>Closing balance</TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(statement.totalGiven)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(statement.totalReceived)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(statement.closingBalance)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import axios from "axios";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Search, FileText, Edit, Trash, Receipt, Loader2 } from "lucide-react";
@@ -21,74 +21,39 @@ import {
   DialogDescription,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { clientServices } from "@/services/api";
+import { Client, ClientSortKey } from "@/models/Client";
+import { ListPagination, SortableHead } from "@/components/ui/list-controls";
+import { useServerList } from "@/hooks/use-server-list";
 
-interface Client {
-  _id: string;
-  shopName: string;
-  clientName: string;
-  phoneNumber: string;
-  address: string;
-  email: string;
-  createdAt: string;
-}
+const CLIENTS_PER_PAGE = 20;
 
 export default function CustomerDetailsPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [clients, setClients] = useState<Client[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState("");
+  const { can } = useAuth();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [clientToDelete, setClientToDelete] = useState<string | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
-  const [deletePassword, setDeletePassword] = useState("");
-
-  const fetchClients = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await axios.get(
-        "https://backend-goldsmith.onrender.com/api/clients"
-      );
-      setClients(response.data.clients || []);
-    } catch (err) {
-      setError("Failed to fetch clients. Please try again.");
-      console.error("Error fetching clients:", err);
-      setClients([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const searchClients = async () => {
-    if (!searchTerm || searchTerm.length < 2) {
-      fetchClients();
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await axios.get(
-        `/api/clients/search?query=${encodeURIComponent(searchTerm)}`
-      );
-      setClients(response.data);
-    } catch (err) {
-      setError("Failed to search clients. Please try again.");
-      console.error("Error searching clients:", err);
-    } finally {
-      setLoading(false);
-    }
-  };
 
-  useEffect(() => {
-    if (searchTerm && searchTerm.length >= 2) {
-      searchClients();
-    } else {
-      fetchClients();
-    }
-  }, [searchTerm]);
+  const {
+    items: clients,
+    page,
+    setPage,
+    totalPages,
+    search,
+    setSearch,
+    sort,
+    toggleSort,
+    isLoading,
+    isError,
+    refetch,
+  } = useServerList<Client, ClientSortKey>({
+    queryKey: ["clients", "page"],
+    fetchPage: clientServices.getClientPage,
+    defaultSort: { sortBy: "client", sortOrder: "asc" },
+    pageSize: CLIENTS_PER_PAGE,
+  });
 
   const handleEditClient = (id: string) => {
     navigate(`/clients/${id}/edit`);
@@ -105,27 +70,16 @@ export default function CustomerDetailsPage() {
 
   const handleCloseDialog = () => {
     setDeleteDialogOpen(false);
-    setDeletePassword("");
     setClientToDelete(null);
   };
 
   const handleDeleteClient = async () => {
-    if (!clientToDelete) return;
-
-    if (deletePassword !== "7007") {
-      toast({
-        title: "Incorrect Password",
-        description: "You must enter the correct password to delete a client.",
-        variant: "destructive",
-      });
-      return;
-    }
+    if (!clientToDelete || !can("clients:delete")) return;
 
     try {
       setDeleteLoading(true);
-      await axios.delete(`/api/clients/${clientToDelete}`);
-      // Remove the client from the local state immediately
-      setClients(clients.filter((client) => client._id !== clientToDelete));
+      await clientServices.deleteClient(clientToDelete);
+      refetch();
       toast({
         title: "Client Deleted",
         description:
@@ -148,15 +102,6 @@ export default function CustomerDetailsPage() {
     navigate("/receipts/new", { state: { client } });
   };
 
-  const filteredClients = clients.filter((client) => {
-    const searchLower = searchTerm.toLowerCase();
-    return (
-      client.shopName?.toLowerCase().includes(searchLower) ||
-      client.clientName?.toLowerCase().includes(searchLower) ||
-      client.phoneNumber?.includes(searchTerm)
-    );
-  });
-
   return (
     <div className="container py-6">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
@@ -166,7 +111,11 @@ export default function CustomerDetailsPage() {
             Manage your goldsmith business clients
           </p>
         </div>
-        <Button onClick={() => navigate("/clients/new")}>Add New Client</Button>
+        {can("clients:create") && (
+          <Button onClick={() => navigate("/clients/new")}>
+            Add New Client
+          </Button>
+        )}
       </div>
 
       <div className="bg-card card-premium rounded-lg p-6 mb-8">
@@ -175,14 +124,14 @@ export default function CustomerDetailsPage() {
           <Input
             placeholder="Search by client name, shop name or phone number"
             className="pl-10"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
           />
         </div>
 
-        {error && (
+        {isError && (
           <div className="bg-destructive/10 text-destructive p-4 rounded-md mb-6">
-            {error}
+            Failed to fetch clients. Please try again.
           </div>
         )}
 
@@ -190,15 +139,30 @@ export default function CustomerDetailsPage() {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Shop Name</TableHead>
-                <TableHead>Client Name</TableHead>
+                <SortableHead
+                  label="Shop Name"
+                  sortKey="shop"
+                  sort={sort}
+                  onSort={toggleSort}
+                />
+                <SortableHead
+                  label="Client Name"
+                  sortKey="client"
+                  sort={sort}
+                  onSort={toggleSort}
+                />
                 <TableHead>Phone Number</TableHead>
-                <TableHead>Date Added</TableHead>
+                <SortableHead
+                  label="Date Added"
+                  sortKey="date"
+                  sort={sort}
+                  onSort={toggleSort}
+                />
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {loading ? (
+              {isLoading ? (
                 <TableRow>
                   <TableCell colSpan={5} className="text-center py-10">
                     <div className="flex justify-center items-center">
@@ -207,8 +171,8 @@ export default function CustomerDetailsPage() {
                     </div>
                   </TableCell>
                 </TableRow>
-              ) : filteredClients.length > 0 ? (
-                filteredClients.map((client) => (
+              ) : clients.length > 0 ? (
+                clients.map((client) => (
                   <TableRow key={client._id}>
                     <TableCell className="font-medium">
                       {client.shopName || "-"}
@@ -228,31 +192,37 @@ export default function CustomerDetailsPage() {
                         >
                           <FileText className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => handleEditClient(client._id)}
-                          title="Edit Client"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => handleCreateReceipt(client)}
-                          title="Create Receipt"
-                        >
-                          <Receipt className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => openDeleteDialog(client._id)}
-                          title="Delete Client"
-                          className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
-                        >
-                          <Trash className="h-4 w-4" />
-                        </Button>
+                        {can("clients:edit") && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleEditClient(client._id)}
+                            title="Edit Client"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("receipts:create") && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleCreateReceipt(client)}
+                            title="Create Receipt"
+                          >
+                            <Receipt className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("clients:delete") && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => openDeleteDialog(client._id)}
+                            title="Delete Client"
+                            className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -263,7 +233,7 @@ export default function CustomerDetailsPage() {
                     colSpan={5}
                     className="text-center py-10 text-muted-foreground"
                   >
-                    {searchTerm
+                    {search
                       ? "No clients match your search"
                       : "No clients found"}
                   </TableCell>
@@ -272,6 +242,12 @@ export default function CustomerDetailsPage() {
             </TableBody>
           </Table>
         </div>
+
+        <ListPagination
+          page={page}
+          totalPages={totalPages}
+          onPageChange={setPage}
+        />
       </div>
 
       <Dialog open={deleteDialogOpen} onOpenChange={handleCloseDialog}>
@@ -279,20 +255,11 @@ export default function CustomerDetailsPage() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              This will permanently delete the client. Enter the password to
-              confirm.
+              This will permanently delete the client. This action cannot be
+              undone.
             </DialogDescription>
           </DialogHeader>
 
-          <div className="my-4">
-            <Input
-              type="password"
-              placeholder="Enter password"
-              value={deletePassword}
-              onChange={(e) => setDeletePassword(e.target.value)}
-            />
-          </div>
-
           <DialogFooter>
             <Button
               variant="outline"
@@ -304,7 +271,7 @@ export default function CustomerDetailsPage() {
             <Button
               variant="destructive"
               onClick={handleDeleteClient}
-              disabled={deletePassword !== "7007" || deleteLoading}
+              disabled={deleteLoading}
             >
               {deleteLoading ? (
                 <>
@@ -9,6 +9,7 @@ import {
   AlertCircle,
 } from "lucide-react";
 import { StatCard } from "@/components/dashboard/stat-card";
+import { OverdueOrders } from "@/components/dashboard/overdue-orders";
 import {
   ReceiptsTrendChart,
   MetalTypeTrendChart,
@@ -22,6 +23,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { analyticsServices } from "@/services/api";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { formatRupees, valueAtRate } from "@/lib/metal-rates";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 export default function Dashboard() {
@@ -30,6 +33,8 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
   const [activityFilter, setActivityFilter] = useState("all");
+  const { rateFor } = useMetalRates();
+  const goldRate = rateFor("Gold");
 
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -152,7 +157,16 @@ export default function Dashboard() {
             <StatCard
               title="Total Weight"
               value={dashboardData?.stats.totalWeight.value || "0 g"}
-              description="Gold processed"
+              description={
+                goldRate
+                  ? `Gold processed • ${formatRupees(
+                      valueAtRate(
+                        dashboardData?.stats.totalWeight.value,
+                        goldRate
+                      )
+                    )} at today's rate`
+                  : "Gold processed"
+              }
               icon={<Weight className="h-4 w-4" />}
               trend={
                 dashboardData?.stats.totalWeight.trend || {
@@ -165,6 +179,10 @@ export default function Dashboard() {
         )}
       </div>
 
+      <div className="mb-8">
+        <OverdueOrders />
+      </div>
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
         <ReceiptsTrendChart />
@@ -0,0 +1,157 @@
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Play, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { draftServices } from "@/services/api";
+import { ReceiptDraft, ShopReceiptDraftForm } from "@/models/ReceiptDraft";
+
+export default function DraftsPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const {
+    data: drafts = [],
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ["drafts"],
+    queryFn: () => draftServices.getDrafts(),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: (draft: ReceiptDraft) => draftServices.deleteDraft(draft._id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["drafts"] });
+      toast({
+        title: "Draft Discarded",
+        description: "Nothing was posted from it, so no balance changed.",
+      });
+    },
+  });
+
+  // Back into the form it was typed in, which carries on autosaving it
+  const resumeDraft = (draft: ReceiptDraft) => {
+    if (draft.receiptType === "work") {
+      navigate(`/admin-receipts/new?draft=${draft._id}`);
+      return;
+    }
+    const { client } = draft.form as ShopReceiptDraftForm;
+    navigate(`/receipts/new?draft=${draft._id}`, {
+      state: { client: { ...client, _id: client.id }, from: "/drafts" },
+    });
+  };
+
+  return (
+    <div className="container py-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Drafts</h1>
+        <p className="text-muted-foreground">
+          Receipts saved as they were typed. They don't change any balance or
+          stock until they are finished and saved.
+        </p>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Type</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead className="text-right">Items</TableHead>
+              <TableHead>Started By</TableHead>
+              <TableHead>Last Saved</TableHead>
+              <TableHead>Kept On</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading drafts...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : isError ? (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center py-10 text-destructive"
+                >
+                  Error loading drafts. Please try again later.
+                </TableCell>
+              </TableRow>
+            ) : drafts.length > 0 ? (
+              drafts.map((draft) => (
+                <TableRow key={draft._id}>
+                  <TableCell>
+                    {draft.receiptType === "work" ? "Work" : "Shop"}
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {draft.clientName}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {draft.itemCount}
+                  </TableCell>
+                  <TableCell>{draft.createdBy?.name || "-"}</TableCell>
+                  <TableCell>
+                    {formatDistanceToNow(new Date(draft.updatedAt), {
+                      addSuffix: true,
+                    })}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        draft.savedOn === "device" ? "secondary" : "outline"
+                      }
+                    >
+                      {draft.savedOn === "device" ? "This device" : "Server"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => discardMutation.mutate(draft)}
+                        disabled={discardMutation.isPending}
+                      >
+                        <Trash2 className="mr-1 h-4 w-4" /> Discard
+                      </Button>
+                      <Button size="sm" onClick={() => resumeDraft(draft)}>
+                        <Play className="mr-1 h-4 w-4" /> Resume
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No drafts. Receipts being typed are saved here automatically.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
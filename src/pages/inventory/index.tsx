@@ -0,0 +1,404 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { stockServices } from "@/services/api";
+import { StockMovement, StockSourceType } from "@/models/Stock";
+import {
+  normaliseTouch,
+  purityLabel,
+  stockBalances,
+  vaultKey,
+} from "@/lib/stock";
+import { RATE_METALS } from "@/lib/metal-rates";
+import {
+  calculateBalance,
+  formatWeight,
+  roundWeight,
+  toNumber,
+} from "@/lib/metal-calculations";
+
+const sourceLabels: Record<StockSourceType, string> = {
+  shop: "Client receipt",
+  work: "Work receipt",
+  purchase: "Old gold purchase",
+  "stock-take": "Stock-take",
+  manual: "Manual",
+};
+
+const sourceLink = (movement: StockMovement) => {
+  if (!movement.sourceId) return null;
+  if (movement.sourceType === "shop") return `/receipts/${movement.sourceId}`;
+  if (movement.sourceType === "work") {
+    return `/admin-receipts/${movement.sourceId}`;
+  }
+  if (movement.sourceType === "purchase") {
+    return `/purchases/${movement.sourceId}`;
+  }
+  return null;
+};
+
+const formatSigned = (weight: number) =>
+  `${weight > 0 ? "+" : ""}${formatWeight(weight)}g`;
+
+export default function InventoryPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [metal, setMetal] = useState(RATE_METALS[0]);
+  const [touch, setTouch] = useState("");
+  const [physicalWeight, setPhysicalWeight] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: movements = [], isLoading } = useQuery({
+    queryKey: ["stockMovements"],
+    queryFn: () => stockServices.getMovements(),
+  });
+  const { data: stockTakes = [] } = useQuery({
+    queryKey: ["stockTakes"],
+    queryFn: () => stockServices.getStockTakes(),
+  });
+
+  const vaults = stockBalances(movements);
+  const lastTake = (key: string) =>
+    stockTakes.find((take) => vaultKey(take.metal, take.touch) === key);
+
+  // What the book says is in the vault being counted
+  const expectedWeight =
+    vaults.find((vault) => vault.key === vaultKey(metal, touch))?.weight || 0;
+  const variance = calculateBalance(physicalWeight, expectedWeight);
+
+  const stockTakeMutation = useMutation({
+    mutationFn: () =>
+      stockServices.createStockTake({
+        metal,
+        touch: normaliseTouch(touch),
+        expectedWeight,
+        physicalWeight: roundWeight(physicalWeight),
+        note: note.trim() || undefined,
+      }),
+    onSuccess: (take) => {
+      queryClient.invalidateQueries({ queryKey: ["stockMovements"] });
+      queryClient.invalidateQueries({ queryKey: ["stockTakes"] });
+      toast({
+        title: "Stock-take recorded",
+        description: `${take.metal} ${purityLabel(take.metal, take.touch)}: variance ${formatSigned(take.variance)}`,
+      });
+      setPhysicalWeight("");
+      setNote("");
+    },
+  });
+
+  const countVault = (vaultMetal: string, vaultTouch: number) => {
+    setMetal(vaultMetal);
+    setTouch(String(vaultTouch));
+  };
+
+  return (
+    <div className="container py-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Inventory</h1>
+        <p className="text-muted-foreground">
+          Metal on hand in each vault, by metal and purity
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        {vaults.length > 0 ? (
+          vaults.map((vault) => {
+            const take = lastTake(vault.key);
+            return (
+              <Card key={vault.key} className="card-premium">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground flex items-center justify-between">
+                    {vault.metal} {purityLabel(vault.metal, vault.touch)}
+                    {can("inventory:manage") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => countVault(vault.metal, vault.touch)}
+                      >
+                        Count
+                      </Button>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div
+                    className={
+                      vault.weight < 0
+                        ? "text-2xl font-bold text-red-500"
+                        : "text-2xl font-bold"
+                    }
+                  >
+                    {formatWeight(vault.weight)}g
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Fine {formatWeight(vault.fineWeight)}g
+                    {take &&
+                      ` • last count ${format(
+                        new Date(take.createdAt),
+                        "dd MMM"
+                      )}, ${formatSigned(take.variance)}`}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })
+        ) : (
+          <p className="text-muted-foreground col-span-full">
+            {isLoading ? "Loading stock..." : "No metal in stock yet"}
+          </p>
+        )}
+      </div>
+
+      {can("inventory:manage") && (
+        <div className="bg-card card-premium rounded-lg p-6 mb-8">
+          <h2 className="text-xl font-serif font-medium mb-4">
+            Record a Stock-Take
+          </h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Metal</Label>
+              <Select value={metal} onValueChange={setMetal}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RATE_METALS.map((rateMetal) => (
+                    <SelectItem key={rateMetal} value={rateMetal}>
+                      {rateMetal}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stockTouch">Touch (%)</Label>
+              <Input
+                id="stockTouch"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                className="w-[120px]"
+                value={touch}
+                onChange={(e) => setTouch(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Expected</Label>
+              <div className="h-10 flex items-center font-medium">
+                {formatWeight(expectedWeight)}g
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stockPhysical">Physical Weight (g)</Label>
+              <Input
+                id="stockPhysical"
+                type="number"
+                step="0.001"
+                min="0"
+                className="w-[160px]"
+                value={physicalWeight}
+                onChange={(e) => setPhysicalWeight(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Difference</Label>
+              <div
+                className={
+                  physicalWeight && variance !== 0
+                    ? "h-10 flex items-center font-medium text-red-500"
+                    : "h-10 flex items-center font-medium"
+                }
+              >
+                {physicalWeight ? formatSigned(variance) : "-"}
+              </div>
+            </div>
+            <div className="space-y-1 flex-1 min-w-[200px]">
+              <Label htmlFor="stockNote">Note</Label>
+              <Input
+                id="stockNote"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={() => stockTakeMutation.mutate()}
+              disabled={
+                stockTakeMutation.isPending ||
+                toNumber(touch) <= 0 ||
+                toNumber(touch) > 100 ||
+                physicalWeight === ""
+              }
+            >
+              {stockTakeMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+              )}
+              Record Count
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto mb-8">
+        <h2 className="text-xl font-serif font-medium mb-4">
+          Stock-Take Variances
+        </h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Vault</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="text-right">Physical</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead>Counted by</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stockTakes.length > 0 ? (
+              stockTakes.map((take) => (
+                <TableRow key={take._id}>
+                  <TableCell>
+                    {format(new Date(take.createdAt), "dd MMM yyyy")}
+                  </TableCell>
+                  <TableCell>
+                    {take.metal} {purityLabel(take.metal, take.touch)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(take.expectedWeight)}g
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(take.physicalWeight)}g
+                  </TableCell>
+                  <TableCell
+                    className={
+                      take.variance !== 0
+                        ? "text-right font-medium text-red-500"
+                        : "text-right font-medium"
+                    }
+                  >
+                    {formatSigned(take.variance)}
+                  </TableCell>
+                  <TableCell>{take.note || "-"}</TableCell>
+                  <TableCell>{take.createdBy?.name || "-"}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No stock-takes recorded yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto">
+        <h2 className="text-xl font-serif font-medium mb-4">Movements</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Vault</TableHead>
+              <TableHead className="text-right">Weight</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Voucher</TableHead>
+              <TableHead>Note</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading movements...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : movements.length > 0 ? (
+              movements.map((movement) => {
+                const href = sourceLink(movement);
+                return (
+                  <TableRow
+                    key={movement._id}
+                    className={href ? "cursor-pointer" : undefined}
+                    onClick={href ? () => navigate(href) : undefined}
+                  >
+                    <TableCell>
+                      {format(new Date(movement.createdAt), "dd MMM yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      {movement.metal}{" "}
+                      {purityLabel(movement.metal, movement.touch)}
+                    </TableCell>
+                    <TableCell
+                      className={
+                        movement.weight < 0
+                          ? "text-right text-red-500"
+                          : "text-right text-green-600"
+                      }
+                    >
+                      {formatSigned(movement.weight)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {sourceLabels[movement.sourceType]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{movement.voucherId || "-"}</TableCell>
+                    <TableCell>{movement.note || "-"}</TableCell>
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No stock movements yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
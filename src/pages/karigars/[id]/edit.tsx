@@ -0,0 +1,47 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { KarigarForm } from "@/components/karigars/karigar-form";
+import { karigarServices } from "@/services/api";
+
+export default function EditKarigarPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: karigar, isLoading } = useQuery({
+    queryKey: ["karigar", id],
+    queryFn: () => karigarServices.getKarigar(id),
+    enabled: !!id,
+  });
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate(`/karigars/${id}`)}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Karigar
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Edit Karigar</h1>
+        <p className="text-muted-foreground">
+          Changed terms apply to jobs issued from now on
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border">
+        {isLoading || !karigar ? (
+          <div className="flex justify-center items-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading karigar...
+          </div>
+        ) : (
+          <KarigarForm karigar={karigar} />
+        )}
+      </div>
+    </div>
+  );
+}
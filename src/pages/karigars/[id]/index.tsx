@@ -0,0 +1,250 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Edit, Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { adminReceiptServices, karigarServices } from "@/services/api";
+import { AdminReceipt } from "@/models/AdminReceipt";
+import {
+  isPendingJob,
+  jobIssued,
+  jobReturned,
+  karigarHolding,
+  wastagePercent,
+} from "@/lib/karigars";
+import { calculateBalance, formatWeight } from "@/lib/metal-calculations";
+
+const formatDate = (date?: string | Date) =>
+  date ? format(new Date(date), "dd MMM yyyy") : "-";
+
+export default function KarigarDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+
+  const { data: karigar, isLoading } = useQuery({
+    queryKey: ["karigar", id],
+    queryFn: () => karigarServices.getKarigar(id),
+    enabled: !!id,
+  });
+  const { data: jobs = [] } = useQuery({
+    queryKey: ["adminReceipts", { karigarId: id }],
+    queryFn: () => adminReceiptServices.getAdminReceipts({ karigarId: id }),
+    enabled: !!id,
+  });
+
+  if (isLoading || !karigar) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-lg">Loading karigar...</span>
+      </div>
+    );
+  }
+
+  const liveJobs = jobs.filter((job) => job.status !== "cancelled");
+  const pendingJobs = liveJobs.filter(isPendingJob);
+  // Jobs still out come first
+  const sortedJobs = [
+    ...pendingJobs,
+    ...jobs.filter((job) => !isPendingJob(job)),
+  ];
+  const wastage = wastagePercent(liveJobs);
+
+  const jobWastage = (job: AdminReceipt) => {
+    if (job.status !== "complete") return "-";
+    const percent = wastagePercent([job]);
+    return percent === null ? "-" : `${percent.toFixed(2)}%`;
+  };
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/karigars")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Karigars
+      </Button>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold flex items-center gap-3">
+            {karigar.name}
+            <Badge variant={karigar.active ? "default" : "secondary"}>
+              {karigar.active ? "Active" : "Inactive"}
+            </Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {[karigar.phoneNumber, karigar.address].filter(Boolean).join(" • ")}
+          </p>
+        </div>
+        {can("karigars:manage") && (
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/karigars/${id}/edit`)}
+          >
+            <Edit className="mr-2 h-4 w-4" /> Edit
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        <Card className="card-premium">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Metal Holding
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatWeight(karigarHolding(liveJobs))}g
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Issued but not yet returned
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="card-premium">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Pending Jobs
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{pendingJobs.length}</div>
+            <p className="text-xs text-muted-foreground">
+              {liveJobs.length} jobs in all
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="card-premium">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Wastage vs Agreed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div
+              className={
+                wastage !== null && wastage > karigar.agreedWastagePercent
+                  ? "text-2xl font-bold text-red-500"
+                  : "text-2xl font-bold"
+              }
+            >
+              {wastage === null ? "-" : `${wastage.toFixed(2)}%`}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Agreed {karigar.agreedWastagePercent.toFixed(2)}% on finished jobs
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+        <div className="bg-card card-premium rounded-lg p-6">
+          <h2 className="text-xl font-serif font-medium mb-2">Skills</h2>
+          <p>{karigar.skills.join(", ") || "None recorded"}</p>
+          {karigar.notes && (
+            <p className="text-sm text-muted-foreground mt-2">
+              {karigar.notes}
+            </p>
+          )}
+        </div>
+        <div className="bg-card card-premium rounded-lg p-6">
+          <h2 className="text-xl font-serif font-medium mb-2">
+            Making-Charge Rates
+          </h2>
+          {karigar.makingChargeRates.length > 0 ? (
+            <ul className="space-y-1">
+              {karigar.makingChargeRates.map((rate) => (
+                <li key={rate.category} className="flex justify-between">
+                  <span>{rate.category}</span>
+                  <span className="font-medium">{rate.percent}%</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground">None agreed</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto">
+        <h2 className="text-xl font-serif font-medium mb-4">Jobs</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Voucher</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Issued On</TableHead>
+              <TableHead className="text-right">Issued</TableHead>
+              <TableHead className="text-right">Returned</TableHead>
+              <TableHead className="text-right">Outstanding</TableHead>
+              <TableHead className="text-right">Wastage</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedJobs.length > 0 ? (
+              sortedJobs.map((job) => (
+                <TableRow
+                  key={job._id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/admin-receipts/${job._id}`)}
+                >
+                  <TableCell className="font-medium">{job.voucherId}</TableCell>
+                  <TableCell>{job.clientName}</TableCell>
+                  <TableCell>{formatDate(job.given?.date)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(jobIssued(job))}g
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(jobReturned(job))}g
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {isPendingJob(job)
+                      ? `${formatWeight(
+                          calculateBalance(jobIssued(job), jobReturned(job))
+                        )}g`
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {jobWastage(job)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={isPendingJob(job) ? "outline" : "secondary"}
+                    >
+                      {isPendingJob(job) ? "Pending" : job.status}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={8}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No work issued to this karigar yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
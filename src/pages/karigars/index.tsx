@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, Search } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useKarigars } from "@/hooks/use-karigars";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { adminReceiptServices } from "@/services/api";
+import { isPendingJob, karigarHolding, wastagePercent } from "@/lib/karigars";
+import { formatWeight } from "@/lib/metal-calculations";
+
+export default function KarigarsPage() {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { karigars, isLoading } = useKarigars();
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const { data: workReceipts = [] } = useQuery({
+    queryKey: ["adminReceipts"],
+    queryFn: () => adminReceiptServices.getAdminReceipts(),
+  });
+
+  const search = searchTerm.trim().toLowerCase();
+  const rows = karigars
+    .filter(
+      (karigar) =>
+        !search ||
+        karigar.name.toLowerCase().includes(search) ||
+        karigar.phoneNumber?.includes(search) ||
+        karigar.skills.some((skill) => skill.toLowerCase().includes(search))
+    )
+    .map((karigar) => {
+      const jobs = workReceipts.filter(
+        (receipt) => receipt.karigarId === karigar._id
+      );
+      return {
+        karigar,
+        holding: karigarHolding(jobs),
+        pending: jobs.filter(isPendingJob).length,
+        wastage: wastagePercent(jobs),
+      };
+    });
+
+  return (
+    <div className="container py-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Karigars</h1>
+          <p className="text-muted-foreground">
+            Workers metal is issued to, with what each is holding
+          </p>
+        </div>
+        {can("karigars:manage") && (
+          <Button onClick={() => navigate("/karigars/new")}>
+            <Plus className="mr-2 h-4 w-4" /> Add Karigar
+          </Button>
+        )}
+      </div>
+
+      <div className="relative mb-6 max-w-sm">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by name, phone or skill"
+          className="pl-8"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Skills</TableHead>
+              <TableHead className="text-right">Holding</TableHead>
+              <TableHead className="text-right">Pending Jobs</TableHead>
+              <TableHead className="text-right">Wastage / Agreed</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading karigars...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : rows.length > 0 ? (
+              rows.map(({ karigar, holding, pending, wastage }) => (
+                <TableRow
+                  key={karigar._id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/karigars/${karigar._id}`)}
+                >
+                  <TableCell>
+                    <div className="font-medium">{karigar.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {karigar.phoneNumber}
+                    </div>
+                  </TableCell>
+                  <TableCell>{karigar.skills.join(", ") || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(holding)}g
+                  </TableCell>
+                  <TableCell className="text-right">{pending}</TableCell>
+                  <TableCell className="text-right">
+                    {wastage === null ? "-" : `${wastage.toFixed(2)}%`} /{" "}
+                    {karigar.agreedWastagePercent.toFixed(2)}%
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={karigar.active ? "default" : "secondary"}>
+                      {karigar.active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No karigars found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
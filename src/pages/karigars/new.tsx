@@ -0,0 +1,31 @@
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { KarigarForm } from "@/components/karigars/karigar-form";
+
+export default function NewKarigarPage() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/karigars")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Karigars
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Add Karigar</h1>
+        <p className="text-muted-foreground">
+          Record a worker with their skills and agreed terms
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border">
+        <KarigarForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Check, Link2, Loader2, X } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useKarigars } from "@/hooks/use-karigars";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  adminReceiptServices,
+  orderServices,
+  receiptServices,
+} from "@/services/api";
+import { OrderInput } from "@/models/Order";
+import {
+  daysOverdue,
+  nextOrderStatus,
+  ORDER_STATUSES,
+  orderStatusLabels,
+} from "@/lib/orders";
+import { jobReturned } from "@/lib/karigars";
+import { formatWeight, sumWeights } from "@/lib/metal-calculations";
+
+const formatDate = (date?: string | Date) =>
+  date ? format(new Date(date), "dd MMM yyyy") : "-";
+
+export default function OrderDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const { karigars } = useKarigars();
+  const [karigarId, setKarigarId] = useState("");
+  const [receiptToLink, setReceiptToLink] = useState("");
+  const canManage = can("orders:manage");
+
+  const { data: order, isLoading } = useQuery({
+    queryKey: ["order", id],
+    queryFn: () => orderServices.getOrder(id),
+    enabled: !!id,
+  });
+  // The client's receipts, to show the linked ones and offer the rest
+  const { data: receipts } = useQuery({
+    queryKey: ["orderReceipts", order?.clientId],
+    queryFn: async () => {
+      const [shopReceipts, workReceipts] = await Promise.all([
+        receiptServices.getClientReceipts(order.clientId),
+        adminReceiptServices.getAdminReceipts({ clientId: order.clientId }),
+      ]);
+      return { shopReceipts: shopReceipts.data || [], workReceipts };
+    },
+    enabled: !!order?.clientId,
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["order", id] });
+    queryClient.invalidateQueries({ queryKey: ["orders"] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: () => {
+      const next = nextOrderStatus(order.status);
+      const karigar = karigars.find((k) => k._id === karigarId);
+      return orderServices.setOrderStatus(
+        id,
+        next,
+        next === "issued" && karigar
+          ? { karigarId: karigar._id, karigarName: karigar.name }
+          : {}
+      );
+    },
+    onSuccess: onSaved,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: (changes: Partial<OrderInput>) =>
+      orderServices.updateOrder(id, changes),
+    onSuccess: () => {
+      setReceiptToLink("");
+      onSaved();
+    },
+  });
+
+  if (isLoading || !order) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-lg">Loading order...</span>
+      </div>
+    );
+  }
+
+  const next = nextOrderStatus(order.status);
+  const overdueDays = daysOverdue(order);
+  const reachedAt = (status: string) =>
+    order.statusHistory?.find((change) => change.status === status)?.changedAt;
+
+  const shopReceipts = receipts?.shopReceipts || [];
+  const workReceipts = receipts?.workReceipts || [];
+  const linkedShop = shopReceipts.filter((r) =>
+    order.receiptIds.includes(r._id)
+  );
+  const linkedWork = workReceipts.filter((r) =>
+    order.workReceiptIds.includes(r._id)
+  );
+  const returnedWeight = sumWeights(linkedWork.map(jobReturned));
+
+  // Options are keyed "shop:<id>" or "work:<id>"
+  const linkOptions = [
+    ...shopReceipts
+      .filter((r) => !order.receiptIds.includes(r._id))
+      .map((r) => ({
+        value: `shop:${r._id}`,
+        label: `${r.voucherId} • Client receipt • ${formatDate(r.issueDate)}`,
+      })),
+    ...workReceipts
+      .filter((r) => !order.workReceiptIds.includes(r._id))
+      .map((r) => ({
+        value: `work:${r._id}`,
+        label: `${r.voucherId} • Work receipt • ${formatDate(r.createdAt)}`,
+      })),
+  ];
+
+  const linkReceipt = () => {
+    const [kind, receiptId] = receiptToLink.split(":");
+    if (kind === "shop") {
+      linkMutation.mutate({ receiptIds: [...order.receiptIds, receiptId] });
+    } else {
+      linkMutation.mutate({
+        workReceiptIds: [...order.workReceiptIds, receiptId],
+      });
+    }
+  };
+
+  const unlinkReceipt = (kind: "shop" | "work", receiptId: string) =>
+    linkMutation.mutate(
+      kind === "shop"
+        ? { receiptIds: order.receiptIds.filter((r) => r !== receiptId) }
+        : {
+            workReceiptIds: order.workReceiptIds.filter((r) => r !== receiptId),
+          }
+    );
+
+  const linkedRows = [
+    ...linkedShop.map((r) => ({
+      kind: "shop" as const,
+      id: r._id,
+      voucherId: r.voucherId,
+      label: "Client receipt",
+      date: r.issueDate,
+      href: `/receipts/${r._id}`,
+    })),
+    ...linkedWork.map((r) => ({
+      kind: "work" as const,
+      id: r._id,
+      voucherId: r.voucherId,
+      label: r.karigarName ? `Work receipt • ${r.karigarName}` : "Work receipt",
+      date: r.createdAt,
+      href: `/admin-receipts/${r._id}`,
+    })),
+  ];
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/orders")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Orders
+      </Button>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold flex items-center gap-3">
+            Order {order.orderNumber}
+            <Badge variant="outline">{orderStatusLabels[order.status]}</Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {order.item} for {order.clientName}
+          </p>
+        </div>
+        {overdueDays > 0 && (
+          <Badge variant="destructive">{overdueDays} days overdue</Badge>
+        )}
+      </div>
+
+      {/* Status pipeline */}
+      <div className="bg-card card-premium rounded-lg p-6 mb-8">
+        <div className="grid grid-cols-5 gap-2">
+          {ORDER_STATUSES.map((status, index) => {
+            const done = index <= ORDER_STATUSES.indexOf(order.status);
+            return (
+              <div key={status} className="text-center">
+                <div
+                  className={cn(
+                    "mx-auto h-8 w-8 rounded-full border flex items-center justify-center mb-2",
+                    done && "bg-primary text-primary-foreground border-primary"
+                  )}
+                >
+                  {done ? <Check className="h-4 w-4" /> : index + 1}
+                </div>
+                <div className="text-sm font-medium">
+                  {orderStatusLabels[status]}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {done ? formatDate(reachedAt(status)) : ""}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {canManage && next && (
+          <div className="flex flex-wrap items-center justify-end gap-2 mt-6">
+            {next === "issued" && (
+              <Select value={karigarId} onValueChange={setKarigarId}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Issue to karigar" />
+                </SelectTrigger>
+                <SelectContent>
+                  {karigars
+                    .filter((karigar) => karigar.active)
+                    .map((karigar) => (
+                      <SelectItem key={karigar._id} value={karigar._id}>
+                        {karigar.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              onClick={() => statusMutation.mutate()}
+              disabled={
+                statusMutation.isPending || (next === "issued" && !karigarId)
+              }
+            >
+              {statusMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Mark as {orderStatusLabels[next]}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-card card-premium rounded-lg p-6 space-y-3">
+          <h2 className="text-xl font-serif font-medium">Details</h2>
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Metal</dt>
+            <dd>
+              {order.metal} {order.purity}
+            </dd>
+            <dt className="text-muted-foreground">Target weight</dt>
+            <dd>{formatWeight(order.targetWeight)}g</dd>
+            <dt className="text-muted-foreground">Received so far</dt>
+            <dd>{formatWeight(returnedWeight)}g</dd>
+            <dt className="text-muted-foreground">Due</dt>
+            <dd>{formatDate(order.dueDate)}</dd>
+            <dt className="text-muted-foreground">Karigar</dt>
+            <dd>
+              {order.karigarId ? (
+                <Link to={`/karigars/${order.karigarId}`} className="underline">
+                  {order.karigarName}
+                </Link>
+              ) : (
+                "Not issued yet"
+              )}
+            </dd>
+          </dl>
+          {order.notes && (
+            <p className="text-sm text-muted-foreground">{order.notes}</p>
+          )}
+          {order.designPhoto && (
+            <img
+              src={order.designPhoto}
+              alt="Design reference"
+              className="max-h-64 rounded border"
+            />
+          )}
+        </div>
+
+        <div className="bg-card card-premium rounded-lg p-6">
+          <h2 className="text-xl font-serif font-medium mb-4">
+            Linked Receipts
+          </h2>
+          {linkedRows.length > 0 ? (
+            <ul className="divide-y mb-4">
+              {linkedRows.map((row) => (
+                <li
+                  key={row.id}
+                  className="flex items-center justify-between py-2"
+                >
+                  <Link to={row.href} className="hover:underline">
+                    <div className="font-medium">{row.voucherId}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {row.label} • {formatDate(row.date)}
+                    </div>
+                  </Link>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => unlinkReceipt(row.kind, row.id)}
+                      disabled={linkMutation.isPending}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Unlink</span>
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground mb-4">
+              No receipts linked to this order yet
+            </p>
+          )}
+
+          {canManage && linkOptions.length > 0 && (
+            <div className="flex gap-2">
+              <Select value={receiptToLink} onValueChange={setReceiptToLink}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a receipt to link" />
+                </SelectTrigger>
+                <SelectContent>
+                  {linkOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={linkReceipt}
+                disabled={!receiptToLink || linkMutation.isPending}
+              >
+                <Link2 className="mr-2 h-4 w-4" /> Link
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Plus } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { orderServices } from "@/services/api";
+import {
+  daysOverdue,
+  isOverdue,
+  ORDER_STATUSES,
+  orderStatusLabels,
+} from "@/lib/orders";
+import { formatWeight } from "@/lib/metal-calculations";
+
+type OrderFilter = "open" | "overdue" | (typeof ORDER_STATUSES)[number];
+
+export default function OrdersPage() {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [filter, setFilter] = useState<OrderFilter>("open");
+
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ["orders"],
+    queryFn: () => orderServices.getOrders(),
+  });
+
+  const visibleOrders = orders
+    .filter((order) =>
+      filter === "open"
+        ? order.status !== "delivered"
+        : filter === "overdue"
+          ? isOverdue(order)
+          : order.status === filter
+    )
+    .sort(
+      (a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
+    );
+
+  return (
+    <div className="container py-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Orders</h1>
+          <p className="text-muted-foreground">
+            Customer orders from the counter through to delivery
+          </p>
+        </div>
+        {can("orders:manage") && (
+          <Button onClick={() => navigate("/orders/new")}>
+            <Plus className="mr-2 h-4 w-4" /> New Order
+          </Button>
+        )}
+      </div>
+
+      <Tabs
+        value={filter}
+        onValueChange={(value) => setFilter(value as OrderFilter)}
+        className="mb-6"
+      >
+        <TabsList className="flex-wrap h-auto">
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="overdue">
+            Overdue ({orders.filter((order) => isOverdue(order)).length})
+          </TabsTrigger>
+          {ORDER_STATUSES.map((status) => (
+            <TabsTrigger key={status} value={status}>
+              {orderStatusLabels[status]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Target Weight</TableHead>
+              <TableHead>Purity</TableHead>
+              <TableHead>Due</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading orders...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : visibleOrders.length > 0 ? (
+              visibleOrders.map((order) => {
+                const overdueDays = daysOverdue(order);
+                return (
+                  <TableRow
+                    key={order._id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/orders/${order._id}`)}
+                  >
+                    <TableCell className="font-medium">
+                      {order.orderNumber}
+                    </TableCell>
+                    <TableCell>{order.clientName}</TableCell>
+                    <TableCell>{order.item}</TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(order.targetWeight)}g
+                    </TableCell>
+                    <TableCell>
+                      {order.metal} {order.purity}
+                    </TableCell>
+                    <TableCell
+                      className={overdueDays > 0 ? "text-red-500" : undefined}
+                    >
+                      {format(new Date(order.dueDate), "dd MMM yyyy")}
+                      {overdueDays > 0 && ` (${overdueDays}d late)`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {orderStatusLabels[order.status]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No orders here
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { ArrowLeft, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { clientServices, orderServices } from "@/services/api";
+import { METAL_PURITIES, RATE_METALS } from "@/lib/metal-rates";
+import { roundWeight } from "@/lib/metal-calculations";
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+const MAX_PHOTO_BYTES = 500 * 1024;
+
+export default function NewOrderPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [clientId, setClientId] = useState("");
+  const [item, setItem] = useState("");
+  const [metal, setMetal] = useState(RATE_METALS[0]);
+  const [purity, setPurity] = useState(METAL_PURITIES[RATE_METALS[0]][1]);
+  const [targetWeight, setTargetWeight] = useState("");
+  const [dueDate, setDueDate] = useState(
+    format(addDays(new Date(), 14), DATE_INPUT_FORMAT)
+  );
+  const [notes, setNotes] = useState("");
+  const [designPhoto, setDesignPhoto] = useState("");
+
+  const { data: clients = [] } = useQuery({
+    queryKey: ["clients"],
+    queryFn: () => clientServices.getClients(),
+  });
+  const client = clients.find((c) => c._id === clientId);
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      orderServices.createOrder({
+        clientId,
+        clientName: client?.clientName || "",
+        item: item.trim(),
+        metal,
+        purity,
+        targetWeight: roundWeight(targetWeight),
+        dueDate,
+        notes: notes.trim() || undefined,
+        designPhoto: designPhoto || undefined,
+        receiptIds: [],
+        workReceiptIds: [],
+      }),
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      toast({
+        title: "Order created",
+        description: `Order ${order.orderNumber} for ${order.clientName}`,
+      });
+      navigate(`/orders/${order._id}`);
+    },
+  });
+
+  const handleMetalChange = (value: string) => {
+    setMetal(value);
+    setPurity(METAL_PURITIES[value][0]);
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast({
+        variant: "destructive",
+        title: "Photo too large",
+        description: "Please choose an image under 500 KB.",
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setDesignPhoto(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const canSave =
+    clientId && item.trim() && roundWeight(targetWeight) > 0 && dueDate;
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/orders")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Orders
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">New Order</h1>
+        <p className="text-muted-foreground">
+          What the client wants, and by when
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((c) => (
+                  <SelectItem key={c._id} value={c._id}>
+                    {c.clientName}
+                    {c.shopName ? ` (${c.shopName})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="orderItem">Item</Label>
+            <Input
+              id="orderItem"
+              placeholder="e.g. Bridal necklace"
+              value={item}
+              onChange={(e) => setItem(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Metal and Purity</Label>
+            <div className="flex gap-2">
+              <Select value={metal} onValueChange={handleMetalChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RATE_METALS.map((rateMetal) => (
+                    <SelectItem key={rateMetal} value={rateMetal}>
+                      {rateMetal}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={purity} onValueChange={setPurity}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METAL_PURITIES[metal].map((metalPurity) => (
+                    <SelectItem key={metalPurity} value={metalPurity}>
+                      {metalPurity}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="orderWeight">Target Weight (g)</Label>
+            <Input
+              id="orderWeight"
+              type="number"
+              step="0.001"
+              min="0"
+              value={targetWeight}
+              onChange={(e) => setTargetWeight(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="orderDue">Due Date</Label>
+            <Input
+              id="orderDue"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Design Reference</Label>
+            <div className="flex items-center gap-4">
+              {designPhoto && (
+                <img
+                  src={designPhoto}
+                  alt="Design reference"
+                  className="h-16 w-16 object-cover border rounded"
+                />
+              )}
+              <Button variant="outline" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  {designPhoto ? "Replace Photo" : "Upload Photo"}
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="hidden"
+                    onChange={handlePhotoChange}
+                  />
+                </label>
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="orderNotes">Notes</Label>
+          <Textarea
+            id="orderNotes"
+            rows={3}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canSave || createMutation.isPending}
+          >
+            {createMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Create Order
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
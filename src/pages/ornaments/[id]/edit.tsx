@@ -0,0 +1,49 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { OrnamentForm } from "@/components/ornaments/ornament-form";
+import { ornamentServices } from "@/services/api";
+
+export default function EditOrnamentPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: ornament, isLoading } = useQuery({
+    queryKey: ["ornament", id],
+    queryFn: () => ornamentServices.getOrnament(id),
+    enabled: !!id,
+  });
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate(`/ornaments/${id}`)}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Ornament
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Edit Ornament</h1>
+        <p className="text-muted-foreground">
+          {ornament
+            ? `Tag ${ornament.tagNumber} stays the same; reprint the label if weights change`
+            : "Loading..."}
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border">
+        {isLoading || !ornament ? (
+          <div className="flex justify-center items-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading ornament...
+          </div>
+        ) : (
+          <OrnamentForm ornament={ornament} />
+        )}
+      </div>
+    </div>
+  );
+}
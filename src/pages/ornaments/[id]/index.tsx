@@ -0,0 +1,109 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Edit, Loader2, Printer } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Barcode } from "@/components/ornaments/barcode";
+import { ornamentServices } from "@/services/api";
+import { generateOrnamentLabels } from "@/lib/ornament-labels";
+import { purityLabel } from "@/lib/stock";
+import { formatWeight } from "@/lib/metal-calculations";
+
+export default function OrnamentDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+
+  const { data: ornament, isLoading } = useQuery({
+    queryKey: ["ornament", id],
+    queryFn: () => ornamentServices.getOrnament(id),
+    enabled: !!id,
+  });
+
+  if (isLoading || !ornament) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-lg">Loading ornament...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/ornaments")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Catalogue
+      </Button>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold flex items-center gap-3">
+            {ornament.itemName}
+            <Badge variant="outline">{ornament.category}</Badge>
+          </h1>
+          <p className="text-muted-foreground">Tag {ornament.tagNumber}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => generateOrnamentLabels([ornament])}
+          >
+            <Printer className="mr-2 h-4 w-4" /> Print Label
+          </Button>
+          {can("ornaments:manage") && (
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/ornaments/${id}/edit`)}
+            >
+              <Edit className="mr-2 h-4 w-4" /> Edit
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-card card-premium rounded-lg p-6 space-y-3">
+          <h2 className="text-xl font-serif font-medium">Details</h2>
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Purity</dt>
+            <dd>
+              {ornament.metal} {purityLabel(ornament.metal, ornament.touch)}
+            </dd>
+            <dt className="text-muted-foreground">Gross weight</dt>
+            <dd>{formatWeight(ornament.grossWeight)}g</dd>
+            <dt className="text-muted-foreground">Stone weight</dt>
+            <dd>{formatWeight(ornament.stoneWeight)}g</dd>
+            <dt className="text-muted-foreground">Net weight</dt>
+            <dd className="font-medium">{formatWeight(ornament.netWeight)}g</dd>
+            <dt className="text-muted-foreground">Stones</dt>
+            <dd>{ornament.stoneDetails || "-"}</dd>
+          </dl>
+          <div className="pt-4">
+            <Barcode value={ornament.tagNumber} className="h-16 w-64" />
+            <div className="w-64 text-center text-sm font-mono">
+              {ornament.tagNumber}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-card card-premium rounded-lg p-6">
+          <h2 className="text-xl font-serif font-medium mb-4">Photo</h2>
+          {ornament.photo ? (
+            <img
+              src={ornament.photo}
+              alt={ornament.itemName}
+              className="max-h-80 rounded border"
+            />
+          ) : (
+            <p className="text-muted-foreground">No photo added</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, Printer, Search } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ornamentServices } from "@/services/api";
+import { generateOrnamentLabels } from "@/lib/ornament-labels";
+import { purityLabel } from "@/lib/stock";
+import { formatWeight } from "@/lib/metal-calculations";
+
+export default function OrnamentsPage() {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const { data: ornaments = [], isLoading } = useQuery({
+    queryKey: ["ornaments"],
+    queryFn: () => ornamentServices.getOrnaments(),
+  });
+
+  const search = searchTerm.trim().toLowerCase();
+  const visibleOrnaments = ornaments.filter(
+    (ornament) =>
+      !search ||
+      ornament.tagNumber.toLowerCase().includes(search) ||
+      ornament.itemName.toLowerCase().includes(search) ||
+      ornament.category.toLowerCase().includes(search)
+  );
+  const selected = ornaments.filter((ornament) =>
+    selectedIds.includes(ornament._id)
+  );
+  const allVisibleSelected =
+    visibleOrnaments.length > 0 &&
+    visibleOrnaments.every((ornament) => selectedIds.includes(ornament._id));
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelectedIds((ids) =>
+      checked ? [...ids, id] : ids.filter((selectedId) => selectedId !== id)
+    );
+
+  const toggleAll = (checked: boolean) =>
+    setSelectedIds(
+      checked ? visibleOrnaments.map((ornament) => ornament._id) : []
+    );
+
+  return (
+    <div className="container py-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Catalogue</h1>
+          <p className="text-muted-foreground">
+            Finished ornaments in the shop, each with its own tag
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => generateOrnamentLabels(selected)}
+            disabled={selected.length === 0}
+          >
+            <Printer className="mr-2 h-4 w-4" /> Print Labels
+            {selected.length > 0 && ` (${selected.length})`}
+          </Button>
+          {can("ornaments:manage") && (
+            <Button onClick={() => navigate("/ornaments/new")}>
+              <Plus className="mr-2 h-4 w-4" /> Add Ornament
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="relative mb-6 max-w-sm">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Scan a tag or search by name or category"
+          className="pl-8"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allVisibleSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  aria-label="Select all"
+                />
+              </TableHead>
+              <TableHead>Tag</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Purity</TableHead>
+              <TableHead className="text-right">Gross</TableHead>
+              <TableHead className="text-right">Stone</TableHead>
+              <TableHead className="text-right">Net</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading catalogue...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : visibleOrnaments.length > 0 ? (
+              visibleOrnaments.map((ornament) => (
+                <TableRow
+                  key={ornament._id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/ornaments/${ornament._id}`)}
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selectedIds.includes(ornament._id)}
+                      onCheckedChange={(checked) =>
+                        toggle(ornament._id, checked === true)
+                      }
+                      aria-label={`Select ${ornament.tagNumber}`}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {ornament.tagNumber}
+                  </TableCell>
+                  <TableCell>{ornament.itemName}</TableCell>
+                  <TableCell>{ornament.category}</TableCell>
+                  <TableCell>
+                    {ornament.metal}{" "}
+                    {purityLabel(ornament.metal, ornament.touch)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(ornament.grossWeight)}g
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(ornament.stoneWeight)}g
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatWeight(ornament.netWeight)}g
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={8}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  {search
+                    ? "No ornaments match your search"
+                    : "No ornaments catalogued yet"}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { OrnamentForm } from "@/components/ornaments/ornament-form";
+
+export default function NewOrnamentPage() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/ornaments")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Catalogue
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Add Ornament</h1>
+        <p className="text-muted-foreground">
+          The next tag number is given when it is saved
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border">
+        <OrnamentForm />
+      </div>
+    </div>
+  );
+}
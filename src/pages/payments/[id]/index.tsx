@@ -0,0 +1,151 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { paymentServices, receiptServices } from "@/services/api";
+import { paymentMethodLabels } from "@/lib/payments";
+import { formatRupees } from "@/lib/metal-rates";
+import { formatWeight } from "@/lib/metal-calculations";
+
+export default function PaymentDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: payment, isLoading } = useQuery({
+    queryKey: ["payment", id],
+    queryFn: () => paymentServices.getPayment(id),
+    enabled: !!id,
+  });
+
+  // A receipt cancelled since no longer owes anything, so what was set
+  // against it is released back to the balance as a whole
+  const { data: cancelledReceiptIds = new Set<string>() } = useQuery({
+    queryKey: ["receipts", "client", payment?.clientId],
+    queryFn: async () => {
+      const receipts = await receiptServices.getClientReceipts(
+        payment!.clientId
+      );
+      return new Set(
+        (receipts.data || [])
+          .filter((receipt) => receipt.status === "cancelled")
+          .map((receipt) => receipt._id)
+      );
+    },
+    enabled: !!payment?.allocations.length,
+  });
+
+  if (isLoading || !payment) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-lg">Loading payment...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate(`/clients/${payment.clientId}`)}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Client
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold flex items-center gap-3">
+          Payment {payment.voucherId}
+          <Badge variant="outline">{paymentMethodLabels[payment.method]}</Badge>
+        </h1>
+        <p className="text-muted-foreground">
+          {payment.clientName} • {format(new Date(payment.date), "dd MMM yyyy")}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-card card-premium rounded-lg p-6 space-y-3">
+          <h2 className="text-xl font-serif font-medium">Received</h2>
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            {payment.method === "metal" ? (
+              <>
+                <dt className="text-muted-foreground">Weight</dt>
+                <dd>{formatWeight(payment.metalWeight)}g</dd>
+                <dt className="text-muted-foreground">Touch</dt>
+                <dd>{payment.touch}%</dd>
+              </>
+            ) : (
+              <>
+                <dt className="text-muted-foreground">Amount</dt>
+                <dd>{formatRupees(payment.amount)}</dd>
+                <dt className="text-muted-foreground">Rate</dt>
+                <dd>
+                  {payment.appliedRate
+                    ? `${formatRupees(payment.appliedRate.ratePerGram)} per g, ${payment.appliedRate.metal} ${payment.appliedRate.purity}`
+                    : "-"}
+                </dd>
+                <dt className="text-muted-foreground">Reference</dt>
+                <dd>{payment.reference || "-"}</dd>
+              </>
+            )}
+            <dt className="text-muted-foreground">Fine settled</dt>
+            <dd className="font-medium">{formatWeight(payment.fineWeight)}g</dd>
+          </dl>
+          {payment.notes && (
+            <p className="text-sm text-muted-foreground">{payment.notes}</p>
+          )}
+        </div>
+
+        <div className="bg-card card-premium rounded-lg p-6">
+          <h2 className="text-xl font-serif font-medium mb-4">Allocations</h2>
+          {payment.allocations.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead className="text-right">Fine (g)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payment.allocations.map((allocation) => (
+                  <TableRow key={allocation.receiptId}>
+                    <TableCell>
+                      <Link
+                        to={`/receipts/${allocation.receiptId}`}
+                        className="hover:underline"
+                      >
+                        {allocation.voucherId}
+                      </Link>
+                      {cancelledReceiptIds.has(allocation.receiptId) && (
+                        <Badge variant="secondary" className="ml-2">
+                          Cancelled, released
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(allocation.fineWeight)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-muted-foreground">
+              Not set against any receipt; it reduces the balance as a whole
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,448 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  clientServices,
+  ledgerServices,
+  paymentServices,
+  receiptServices,
+} from "@/services/api";
+import { PaymentInput, PaymentMethod } from "@/models/Payment";
+import {
+  allocateOldestFirst,
+  fineForAmount,
+  fineForMetal,
+  paymentMethodLabels,
+  receiptDues,
+} from "@/lib/payments";
+import { finePurity, formatRupees } from "@/lib/metal-rates";
+import {
+  calculateBalance,
+  formatWeight,
+  roundAmount,
+  roundWeight,
+  sumWeights,
+  toNumber,
+} from "@/lib/metal-calculations";
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+const PAYMENT_METAL = "Gold";
+
+export default function NewPaymentPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { rateFor } = useMetalRates();
+  const [searchParams] = useSearchParams();
+  const [clientId, setClientId] = useState(searchParams.get("client") || "");
+  const [date, setDate] = useState(format(new Date(), DATE_INPUT_FORMAT));
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [amount, setAmount] = useState("");
+  const [ratePerGram, setRatePerGram] = useState("");
+  const [metalWeight, setMetalWeight] = useState("");
+  const [touch, setTouch] = useState("");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+  // Fine grams set against each receipt, keyed by receipt ID
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: clients = [] } = useQuery({
+    queryKey: ["clients"],
+    queryFn: () => clientServices.getClients(),
+  });
+  const client = clients.find((c) => c._id === clientId);
+
+  const { data: dues = [], isLoading: isLoadingDues } = useQuery({
+    queryKey: ["receiptDues", clientId],
+    queryFn: async () => {
+      const [receipts, ledgerEntries, payments] = await Promise.all([
+        receiptServices.getClientReceipts(clientId),
+        ledgerServices.getClientLedger(clientId),
+        paymentServices.getPayments({ clientId }),
+      ]);
+      return receiptDues(receipts.data || [], ledgerEntries, payments);
+    },
+    enabled: !!clientId,
+  });
+  const openDues = dues.filter((due) => due.outstanding > 0);
+
+  // Cash is turned into metal at the register's fine rate unless changed
+  const registerRate = rateFor(PAYMENT_METAL, new Date(date));
+  useEffect(() => {
+    setRatePerGram(registerRate ? String(registerRate.ratePerGram) : "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [registerRate?._id]);
+
+  const isMetal = method === "metal";
+  const fineWeight = isMetal
+    ? fineForMetal(metalWeight, touch)
+    : fineForAmount(amount, ratePerGram);
+  const allocated = sumWeights(Object.values(allocations));
+  const unallocated = calculateBalance(fineWeight, allocated);
+
+  const allocationsValid = openDues.every(
+    ({ receipt, outstanding }) =>
+      roundWeight(allocations[receipt._id]) >= 0 &&
+      roundWeight(allocations[receipt._id]) <= outstanding
+  );
+  const canSave =
+    client && fineWeight > 0 && unallocated >= 0 && allocationsValid;
+
+  const handleClientChange = (value: string) => {
+    setClientId(value);
+    setAllocations({});
+  };
+
+  const allocateAutomatically = () => {
+    const shares = allocateOldestFirst(openDues, fineWeight);
+    setAllocations(
+      Object.fromEntries(
+        Object.entries(shares).map(([id, share]) => [id, String(share)])
+      )
+    );
+  };
+
+  const savePayment = async () => {
+    setIsSaving(true);
+    try {
+      const paymentAllocations = openDues
+        .filter(({ receipt }) => roundWeight(allocations[receipt._id]) > 0)
+        .map(({ receipt }) => ({
+          receiptId: receipt._id,
+          voucherId: receipt.voucherId,
+          fineWeight: roundWeight(allocations[receipt._id]),
+        }));
+      const paymentData: PaymentInput = {
+        clientId,
+        clientName: client.clientName,
+        date,
+        method,
+        ...(isMetal
+          ? { metalWeight: roundWeight(metalWeight), touch: toNumber(touch) }
+          : {
+              amount: roundAmount(amount),
+              appliedRate: {
+                metal: PAYMENT_METAL,
+                purity: finePurity(PAYMENT_METAL),
+                ratePerGram: roundAmount(ratePerGram),
+                date,
+              },
+            }),
+        fineWeight,
+        reference: reference.trim() || undefined,
+        allocations: paymentAllocations,
+        notes: notes.trim() || undefined,
+      };
+      const payment = await paymentServices.createPayment(paymentData);
+
+      await ledgerServices.createEntry({
+        clientId,
+        type: "payment",
+        amount: -fineWeight,
+        date,
+        sourceType: "payment",
+        sourceId: payment._id,
+        voucherId: payment.voucherId,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+      queryClient.invalidateQueries({ queryKey: ["ledger", clientId] });
+      queryClient.invalidateQueries({ queryKey: ["receiptDues", clientId] });
+      toast({
+        title: "Payment recorded",
+        description: `${payment.voucherId}: ${formatWeight(
+          fineWeight
+        )}g fine from ${client.clientName}`,
+      });
+      navigate(`/payments/${payment._id}`);
+    } catch (error) {
+      console.error("Error saving payment:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container py-6">
+      <Button variant="ghost" className="mb-4" onClick={() => navigate(-1)}>
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Record Payment</h1>
+        <p className="text-muted-foreground">
+          Money or metal received from a client, set against their receipts
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={handleClientChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((c) => (
+                  <SelectItem key={c._id} value={c._id}>
+                    {c.clientName}
+                    {c.shopName ? ` (${c.shopName})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="paymentDate">Date</Label>
+            <Input
+              id="paymentDate"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select
+              value={method}
+              onValueChange={(value) => setMethod(value as PaymentMethod)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isMetal ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="paymentWeight">Weight (g)</Label>
+              <Input
+                id="paymentWeight"
+                type="number"
+                step="0.001"
+                min="0"
+                value={metalWeight}
+                onChange={(e) => setMetalWeight(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentTouch">Touch (%)</Label>
+              <Input
+                id="paymentTouch"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                value={touch}
+                onChange={(e) => setTouch(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Fine Weight</Label>
+              <div className="h-10 flex items-center text-2xl font-bold">
+                {formatWeight(fineWeight)}g
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="paymentAmount">Amount (₹)</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentRate">
+                Rate per gram, {PAYMENT_METAL} {finePurity(PAYMENT_METAL)} (₹)
+              </Label>
+              <Input
+                id="paymentRate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={ratePerGram}
+                onChange={(e) => setRatePerGram(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {registerRate
+                  ? `Register rate ${formatRupees(registerRate.ratePerGram)} since ${format(new Date(registerRate.date), "dd MMM")}`
+                  : "No rate in the register for this day"}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentReference">Reference</Label>
+              <Input
+                id="paymentReference"
+                placeholder={method === "cash" ? "Optional" : "Transaction ID"}
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Settles</Label>
+              <div className="h-10 flex items-center text-2xl font-bold">
+                {formatWeight(fineWeight)}g
+              </div>
+            </div>
+          </div>
+        )}
+
+        {clientId && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-medium">Allocate to Receipts</h2>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={allocateAutomatically}
+                disabled={fineWeight <= 0 || openDues.length === 0}
+              >
+                Oldest First
+              </Button>
+            </div>
+            <div className="overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Receipt</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Due</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Outstanding</TableHead>
+                    <TableHead className="w-[160px]">Allocate (g)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoadingDues ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin inline mr-2" />
+                        Loading receipts...
+                      </TableCell>
+                    </TableRow>
+                  ) : openDues.length > 0 ? (
+                    openDues.map(({ receipt, due, paid, outstanding }) => (
+                      <TableRow key={receipt._id}>
+                        <TableCell className="font-medium">
+                          {receipt.voucherId}
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(receipt.issueDate), "dd MMM yyyy")}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatWeight(due)}g
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatWeight(paid)}g
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatWeight(outstanding)}g
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.001"
+                            min="0"
+                            max={outstanding}
+                            value={allocations[receipt._id] || ""}
+                            onChange={(e) =>
+                              setAllocations((current) => ({
+                                ...current,
+                                [receipt._id]: e.target.value,
+                              }))
+                            }
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        className="text-center py-6 text-muted-foreground"
+                      >
+                        No receipts with anything outstanding
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            <p
+              className={
+                unallocated < 0
+                  ? "text-sm text-red-500"
+                  : "text-sm text-muted-foreground"
+              }
+            >
+              {unallocated < 0
+                ? `Allocated ${formatWeight(-unallocated)}g more than the payment`
+                : `${formatWeight(unallocated)}g left unallocated goes against the balance as a whole`}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="paymentNotes">Notes</Label>
+          <Textarea
+            id="paymentNotes"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={savePayment} disabled={!canSave || isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save Payment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
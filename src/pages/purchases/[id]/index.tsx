@@ -0,0 +1,159 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { purchaseServices } from "@/services/api";
+import { testMethodLabels } from "@/lib/old-gold";
+import { generatePurchaseVoucher } from "@/lib/purchase-voucher";
+import { formatRupees } from "@/lib/metal-rates";
+import { formatWeight, toNumber } from "@/lib/metal-calculations";
+
+export default function PurchaseDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: purchase, isLoading } = useQuery({
+    queryKey: ["purchase", id],
+    queryFn: () => purchaseServices.getPurchase(id),
+    enabled: !!id,
+  });
+
+  if (isLoading || !purchase) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-lg">Loading purchase...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/purchases")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Purchases
+      </Button>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold flex items-center gap-3">
+            Purchase {purchase.voucherId}
+            <Badge variant="outline">
+              {purchase.settlement === "credit" ? "Credited" : "Paid out"}
+            </Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {purchase.clientName} •{" "}
+            {format(new Date(purchase.date), "dd MMM yyyy")}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => generatePurchaseVoucher(purchase)}
+        >
+          <Download className="mr-2 h-4 w-4" /> Download Voucher
+        </Button>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto mb-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Gross</TableHead>
+              <TableHead className="text-right">Stone</TableHead>
+              <TableHead className="text-right">Dust</TableHead>
+              <TableHead className="text-right">Net</TableHead>
+              <TableHead>Tested By</TableHead>
+              <TableHead className="text-right">Touch</TableHead>
+              <TableHead className="text-right">Fine</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchase.items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>{item.description}</TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(item.grossWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(item.stoneWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(item.dustWeight)}g
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatWeight(item.netWeight)}g
+                </TableCell>
+                <TableCell>{testMethodLabels[item.testMethod]}</TableCell>
+                <TableCell className="text-right">
+                  {toNumber(item.touch).toFixed(2)}%
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatWeight(item.fineWeight)}g
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="bg-muted/30 font-medium">
+              <TableCell>Total</TableCell>
+              <TableCell className="text-right">
+                {formatWeight(purchase.totals.grossWeight)}g
+              </TableCell>
+              <TableCell colSpan={2}></TableCell>
+              <TableCell className="text-right">
+                {formatWeight(purchase.totals.netWeight)}g
+              </TableCell>
+              <TableCell colSpan={2}></TableCell>
+              <TableCell className="text-right">
+                {formatWeight(purchase.totals.fineWeight)}g
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6">
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <dt className="text-muted-foreground">Rate</dt>
+            <dd className="font-medium">
+              {formatRupees(purchase.appliedRate.ratePerGram)}/g (
+              {purchase.appliedRate.metal} {purchase.appliedRate.purity})
+            </dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Net Value</dt>
+            <dd className="text-xl font-bold">
+              {formatRupees(purchase.value)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Settlement</dt>
+            <dd className="font-medium">
+              {purchase.settlement === "credit"
+                ? `${formatWeight(purchase.totals.fineWeight)}g fine credited to balance`
+                : `${formatRupees(purchase.value)} paid out`}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Notes</dt>
+            <dd>{purchase.notes || "-"}</dd>
+          </div>
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Plus } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { purchaseServices } from "@/services/api";
+import { formatRupees } from "@/lib/metal-rates";
+import { formatWeight } from "@/lib/metal-calculations";
+
+export default function PurchasesPage() {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+
+  const { data: purchases = [], isLoading } = useQuery({
+    queryKey: ["purchases"],
+    queryFn: () => purchaseServices.getPurchases(),
+  });
+
+  return (
+    <div className="container py-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Old Gold Purchases</h1>
+          <p className="text-muted-foreground">
+            Old jewellery bought from or exchanged by customers
+          </p>
+        </div>
+        {can("receipts:create") && (
+          <Button onClick={() => navigate("/purchases/new")}>
+            <Plus className="mr-2 h-4 w-4" /> New Purchase
+          </Button>
+        )}
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Voucher</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead className="text-right">Net Wt.</TableHead>
+              <TableHead className="text-right">Fine Wt.</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead>Settlement</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading purchases...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : purchases.length > 0 ? (
+              purchases.map((purchase) => (
+                <TableRow
+                  key={purchase._id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/purchases/${purchase._id}`)}
+                >
+                  <TableCell className="font-medium">
+                    {purchase.voucherId}
+                  </TableCell>
+                  <TableCell>
+                    {format(new Date(purchase.date), "dd MMM yyyy")}
+                  </TableCell>
+                  <TableCell>{purchase.clientName}</TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(purchase.totals.netWeight)}g
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatWeight(purchase.totals.fineWeight)}g
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatRupees(purchase.value)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {purchase.settlement === "credit"
+                        ? "Credited"
+                        : "Paid out"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No old gold bought yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
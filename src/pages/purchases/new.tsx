@@ -0,0 +1,443 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { v4 as uuidv4 } from "uuid";
+import { ArrowLeft, Loader2, Plus, Save, Trash } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useMetalRates } from "@/hooks/use-metal-rates";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  clientServices,
+  ledgerServices,
+  purchaseServices,
+  stockServices,
+} from "@/services/api";
+import {
+  OldGoldItem,
+  OldGoldPurchaseInput,
+  PurchaseSettlement,
+  PurityTestMethod,
+} from "@/models/OldGoldPurchase";
+import {
+  calculateOldGoldItem,
+  calculateOldGoldTotals,
+  testMethodLabels,
+} from "@/lib/old-gold";
+import { purchaseStock } from "@/lib/stock";
+import {
+  finePurity,
+  formatRupees,
+  RATE_METALS,
+  valueAtRate,
+} from "@/lib/metal-rates";
+import { formatWeight, roundAmount, toNumber } from "@/lib/metal-calculations";
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+
+const newItem = (): OldGoldItem => ({
+  id: uuidv4(),
+  description: "",
+  grossWeight: "",
+  stoneWeight: "",
+  dustWeight: "",
+  netWeight: 0,
+  testMethod: "touchstone",
+  touch: "",
+  fineWeight: 0,
+});
+
+export default function NewPurchasePage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { rateFor } = useMetalRates();
+  const [clientId, setClientId] = useState("");
+  const [date, setDate] = useState(format(new Date(), DATE_INPUT_FORMAT));
+  const [metal, setMetal] = useState(RATE_METALS[0]);
+  const [items, setItems] = useState<OldGoldItem[]>([newItem()]);
+  const [ratePerGram, setRatePerGram] = useState("");
+  const [settlement, setSettlement] = useState<PurchaseSettlement>("payout");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: clients = [] } = useQuery({
+    queryKey: ["clients"],
+    queryFn: () => clientServices.getClients(),
+  });
+  const client = clients.find((c) => c._id === clientId);
+
+  // Start from the register's fine rate for the day; the counter can still
+  // agree a different price with the customer
+  const registerRate = rateFor(metal, new Date(date));
+  useEffect(() => {
+    setRatePerGram(registerRate ? String(registerRate.ratePerGram) : "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [registerRate?._id]);
+
+  const totals = calculateOldGoldTotals(items);
+  const value = valueAtRate(totals.fineWeight, {
+    ratePerGram: roundAmount(ratePerGram),
+  });
+
+  const updateItem = (id: string, changes: Partial<OldGoldItem>) =>
+    setItems((current) =>
+      current.map((item) => {
+        if (item.id !== id) return item;
+        const updatedItem = { ...item, ...changes };
+        return { ...updatedItem, ...calculateOldGoldItem(updatedItem) };
+      })
+    );
+
+  const itemsValid = items.every(
+    (item) =>
+      item.description.trim() &&
+      item.netWeight > 0 &&
+      toNumber(item.touch) > 0 &&
+      toNumber(item.touch) <= 100
+  );
+  const canSave = client && itemsValid && roundAmount(ratePerGram) > 0;
+
+  const savePurchase = async () => {
+    setIsSaving(true);
+    try {
+      const purchaseData: OldGoldPurchaseInput = {
+        clientId,
+        clientName: client.clientName,
+        date,
+        metal,
+        items,
+        totals,
+        appliedRate: {
+          metal,
+          purity: finePurity(metal),
+          ratePerGram: roundAmount(ratePerGram),
+          date,
+        },
+        value,
+        settlement,
+        notes: notes.trim() || undefined,
+      };
+      const purchase = await purchaseServices.createPurchase(purchaseData);
+
+      // Credit takes the fine weight off what the client owes; a payout
+      // settles in rupees and leaves the gold balance alone
+      await ledgerServices.recordReceipt({
+        clientId,
+        sourceType: "purchase",
+        sourceId: purchase._id,
+        voucherId: purchase.voucherId,
+        amount: settlement === "credit" ? -totals.fineWeight : 0,
+      });
+      await stockServices.recordReceiptStock({
+        sourceType: "purchase",
+        sourceId: purchase._id,
+        voucherId: purchase.voucherId,
+        lines: purchaseStock(purchaseData),
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["purchases"] });
+      toast({
+        title: "Purchase saved",
+        description: `${purchase.voucherId}: ${formatWeight(
+          totals.fineWeight
+        )}g fine for ${formatRupees(value)}`,
+      });
+      navigate(`/purchases/${purchase._id}`);
+    } catch (error) {
+      console.error("Error saving purchase:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container py-6">
+      <Button
+        variant="ghost"
+        className="mb-4"
+        onClick={() => navigate("/purchases")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Purchases
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Old Gold Purchase</h1>
+        <p className="text-muted-foreground">
+          Weigh, clean and test the customer's old jewellery, then settle it
+        </p>
+      </div>
+
+      <div className="bg-card rounded-lg p-6 shadow-md border border-border space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((c) => (
+                  <SelectItem key={c._id} value={c._id}>
+                    {c.clientName}
+                    {c.shopName ? ` (${c.shopName})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="purchaseDate">Date</Label>
+            <Input
+              id="purchaseDate"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Metal</Label>
+            <Select value={metal} onValueChange={setMetal}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RATE_METALS.map((rateMetal) => (
+                  <SelectItem key={rateMetal} value={rateMetal}>
+                    {rateMetal}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="bg-background/50 p-6 rounded-md border">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium">Items</h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setItems([...items, newItem()])}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Add Item
+            </Button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    Description
+                  </th>
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    Gross Wt.
+                  </th>
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    Stone Wt.
+                  </th>
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    Dust Wt.
+                  </th>
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    Net Wt.
+                  </th>
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    Tested By
+                  </th>
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    Touch %
+                  </th>
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    Fine Wt.
+                  </th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.id} className="border-b">
+                    <td className="p-2">
+                      <Input
+                        placeholder="e.g. Old bangle"
+                        value={item.description}
+                        onChange={(e) =>
+                          updateItem(item.id, { description: e.target.value })
+                        }
+                      />
+                    </td>
+                    {(
+                      ["grossWeight", "stoneWeight", "dustWeight"] as const
+                    ).map((field) => (
+                      <td key={field} className="p-2">
+                        <Input
+                          type="number"
+                          placeholder="0.000"
+                          step="0.001"
+                          min="0"
+                          value={item[field]}
+                          onChange={(e) =>
+                            updateItem(item.id, { [field]: e.target.value })
+                          }
+                        />
+                      </td>
+                    ))}
+                    <td className="p-2">
+                      <Input
+                        readOnly
+                        value={formatWeight(item.netWeight)}
+                        className="bg-muted/30"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Select
+                        value={item.testMethod}
+                        onValueChange={(testMethod: PurityTestMethod) =>
+                          updateItem(item.id, { testMethod })
+                        }
+                      >
+                        <SelectTrigger className="w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(
+                            Object.keys(testMethodLabels) as PurityTestMethod[]
+                          ).map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {testMethodLabels[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        placeholder="0.00"
+                        step="0.01"
+                        min="0"
+                        max="100"
+                        value={item.touch}
+                        onChange={(e) =>
+                          updateItem(item.id, { touch: e.target.value })
+                        }
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        readOnly
+                        value={formatWeight(item.fineWeight)}
+                        className="bg-muted/30"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setItems(items.filter((i) => i.id !== item.id))
+                        }
+                        disabled={items.length === 1}
+                      >
+                        <Trash className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                <tr className="bg-muted/30 font-medium">
+                  <td className="p-2 text-right">Totals:</td>
+                  <td className="p-2">{formatWeight(totals.grossWeight)}</td>
+                  <td className="p-2" colSpan={2}></td>
+                  <td className="p-2">{formatWeight(totals.netWeight)}</td>
+                  <td className="p-2" colSpan={2}></td>
+                  <td className="p-2">{formatWeight(totals.fineWeight)}</td>
+                  <td className="p-2"></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="purchaseRate">
+              Rate per gram, {metal} {finePurity(metal)} (₹)
+            </Label>
+            <Input
+              id="purchaseRate"
+              type="number"
+              step="0.01"
+              min="0"
+              value={ratePerGram}
+              onChange={(e) => setRatePerGram(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {registerRate
+                ? `Register rate ${formatRupees(registerRate.ratePerGram)} since ${format(new Date(registerRate.date), "dd MMM")}`
+                : "No rate in the register for this day"}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Net Value</Label>
+            <div className="h-10 flex items-center text-2xl font-bold">
+              {formatRupees(value)}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Settlement</Label>
+            <RadioGroup
+              value={settlement}
+              onValueChange={(value) =>
+                setSettlement(value as PurchaseSettlement)
+              }
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="payout" />
+                Pay out {formatRupees(value)}
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="credit" />
+                Credit {formatWeight(totals.fineWeight)}g fine to the client's
+                balance
+              </label>
+            </RadioGroup>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="purchaseNotes">Notes</Label>
+          <Textarea
+            id="purchaseNotes"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={savePurchase} disabled={!canSave || isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save Purchase
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
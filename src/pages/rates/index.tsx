@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { METAL_RATES_QUERY_KEY, useMetalRates } from "@/hooks/use-metal-rates";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { rateServices } from "@/services/api";
+import {
+  findApplicableRate,
+  formatRupees,
+  METAL_PURITIES,
+  RATE_METALS,
+} from "@/lib/metal-rates";
+import { roundAmount } from "@/lib/metal-calculations";
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+
+export default function RatesPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const { rates, isLoading } = useMetalRates();
+  const [date, setDate] = useState(format(new Date(), DATE_INPUT_FORMAT));
+  const [metal, setMetal] = useState(RATE_METALS[0]);
+  const [purity, setPurity] = useState(METAL_PURITIES[RATE_METALS[0]][0]);
+  const [ratePerGram, setRatePerGram] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      rateServices.createRate({
+        metal,
+        purity,
+        ratePerGram: roundAmount(ratePerGram),
+        date,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: METAL_RATES_QUERY_KEY });
+      toast({
+        title: "Rate recorded",
+        description: `${metal} ${purity} at ${formatRupees(ratePerGram)}/g`,
+      });
+      setRatePerGram("");
+    },
+  });
+
+  const handleMetalChange = (value: string) => {
+    setMetal(value);
+    setPurity(METAL_PURITIES[value][0]);
+  };
+
+  // Today's rate for every metal and purity the register knows about
+  const currentRates = RATE_METALS.flatMap((rateMetal) =>
+    METAL_PURITIES[rateMetal].map((ratePurity) => ({
+      metal: rateMetal,
+      purity: ratePurity,
+      rate: findApplicableRate(rates, rateMetal, new Date(), ratePurity),
+    }))
+  );
+
+  return (
+    <div className="container py-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Metal Rates</h1>
+        <p className="text-muted-foreground">
+          Daily rates used to value balances and receipts in rupees
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-8">
+        {currentRates.map(({ metal: rateMetal, purity: ratePurity, rate }) => (
+          <Card key={`${rateMetal}-${ratePurity}`} className="card-premium">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {rateMetal} {ratePurity}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-xl font-bold">
+                {rate ? formatRupees(rate.ratePerGram) : "-"}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {rate
+                  ? `per g, since ${format(new Date(rate.date), "dd MMM")}`
+                  : "Not recorded"}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {can("rates:manage") && (
+        <div className="bg-card card-premium rounded-lg p-6 mb-8">
+          <h2 className="text-xl font-serif font-medium mb-4">Record a Rate</h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="rateDate">Date</Label>
+              <Input
+                id="rateDate"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Metal</Label>
+              <Select value={metal} onValueChange={handleMetalChange}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RATE_METALS.map((rateMetal) => (
+                    <SelectItem key={rateMetal} value={rateMetal}>
+                      {rateMetal}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Purity</Label>
+              <Select value={purity} onValueChange={setPurity}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METAL_PURITIES[metal].map((ratePurity) => (
+                    <SelectItem key={ratePurity} value={ratePurity}>
+                      {ratePurity}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ratePerGram">Rate per gram (₹)</Label>
+              <Input
+                id="ratePerGram"
+                type="number"
+                step="0.01"
+                min="0"
+                value={ratePerGram}
+                onChange={(e) => setRatePerGram(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={
+                createMutation.isPending ||
+                !date ||
+                roundAmount(ratePerGram) <= 0
+              }
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Record Rate
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto">
+        <h2 className="text-xl font-serif font-medium mb-4">Rate Register</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Metal</TableHead>
+              <TableHead>Purity</TableHead>
+              <TableHead className="text-right">Rate per gram</TableHead>
+              <TableHead>Recorded by</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading rates...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : rates.length > 0 ? (
+              rates.map((rate) => (
+                <TableRow key={rate._id}>
+                  <TableCell>
+                    {format(new Date(rate.date), "dd MMM yyyy")}
+                  </TableCell>
+                  <TableCell>{rate.metal}</TableCell>
+                  <TableCell>{rate.purity}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatRupees(rate.ratePerGram)}
+                  </TableCell>
+                  <TableCell>{rate.createdBy?.name || "-"}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No rates recorded yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,28 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { receiptServices } from "@/services/api";
+import {
+  ledgerServices,
+  paymentServices,
+  receiptServices,
+  stockServices,
+} from "@/services/api";
+import { receiptPaymentStatus } from "@/lib/payments";
+import { ReceiptInput } from "@/models/Receipt";
+import { shopReceiptStock } from "@/lib/stock";
+import { CancellationNotice } from "@/components/receipts/cancelled-receipt";
+import {
+  calculateBalance,
+  calculateGivenItem,
+  calculateReceivedItem,
+  calculateShopReceiptNet,
+  formatAmount,
+  formatWeight,
+  roundAmount,
+  roundWeight,
+  sumGivenItems,
+  sumReceivedItems,
+} from "@/lib/metal-calculations";
 
 // Helper function to safely parse dates
 const safeDateParse = (dateString: string | Date): Date => {
@@ -44,7 +65,7 @@ interface ReceivedItem {
 interface ClientInfo {
   shopName: string;
   clientName: string;
-  phoneNumber?: string;
+  phoneNumber: string;
   address?: string;
 }
 
@@ -56,9 +77,9 @@ interface Receipt {
   items: ReceiptItem[];
   receivedItems?: ReceivedItem[];
   clientInfo: ClientInfo;
-  paymentStatus: "Pending" | "Partial" | "Paid";
-  totalPaidAmount: number;
-  status?: "complete" | "incomplete";
+  paymentStatus?: "Pending" | "Partial" | "Paid";
+  totalPaidAmount?: number;
+  status?: "complete" | "incomplete" | "cancelled";
   totals?: {
     grossWt: number;
     stoneWt: number;
@@ -72,6 +93,14 @@ interface Receipt {
   };
 }
 
+// Given-item totals plus the invoice amount, which the weight engine does not track
+const calculateTotals = (items: ReceiptItem[]) => ({
+  ...sumGivenItems(items),
+  totalInvoiceAmount: roundAmount(
+    items.reduce((sum, item) => sum + (item.totalInvoiceAmount || 0), 0)
+  ),
+});
+
 export default function EditReceiptPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -91,6 +120,21 @@ export default function EditReceiptPage() {
     enabled: !!id,
   });
 
+  // Worked out from the payments rather than read off the receipt, where it
+  // would miss edits made since the last payment
+  const { data: paymentStatus } = useQuery({
+    queryKey: ["receiptPaymentStatus", id],
+    queryFn: async () => {
+      const receipt = receiptData!.data;
+      const [ledgerEntries, payments] = await Promise.all([
+        ledgerServices.getClientLedger(receipt.clientId),
+        paymentServices.getPayments({ clientId: receipt.clientId }),
+      ]);
+      return receiptPaymentStatus(receipt, ledgerEntries, payments) ?? null;
+    },
+    enabled: !!receiptData?.data,
+  });
+
   // Initialize state with fetched data
   useEffect(() => {
     if (receiptData?.data) {
@@ -100,58 +144,37 @@ export default function EditReceiptPage() {
       const processedReceivedItems = (receipt.receivedItems || []).map(
         (item) => ({
           ...item,
-          receivedGold: item.receivedGold || 0,
-          melting: item.melting || 0,
-          finalWt: item.finalWt || 0,
+          receivedGold: Number(item.receivedGold) || 0,
+          melting: Number(item.melting) || 0,
+          finalWt: Number(item.finalWt) || 0,
         })
       );
 
       // Calculate received totals
-      const receivedTotals = {
-        finalWt: processedReceivedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-      };
+      const receivedTotals = sumReceivedItems(processedReceivedItems);
 
       // Process given items and calculate totals
       const processedItems = (receipt.givenItems || receipt.items || []).map(
         (item) => ({
           ...item,
-          grossWt: item.grossWt ?? 0,
-          stoneWt: item.stoneWt ?? 0,
+          tag: item.tag ?? "",
+          grossWt: Number(item.grossWt) || 0,
+          stoneWt: Number(item.stoneWt) || 0,
           netWt: item.netWt ?? 0,
-          meltingTouch: item.meltingTouch ?? 0,
+          meltingTouch: Number(item.meltingTouch) || 0,
           finalWt: item.finalWt ?? 0,
-          stoneAmt: item.stoneAmt ?? 0,
+          stoneAmt: Number(item.stoneAmt) || 0,
           totalInvoiceAmount: item.totalInvoiceAmount ?? 0,
         })
       );
 
       // Calculate given totals
-      const totals = receipt.totals || {
-        grossWt: processedItems.reduce(
-          (sum, item) => sum + (item.grossWt || 0),
-          0
-        ),
-        stoneWt: processedItems.reduce(
-          (sum, item) => sum + (item.stoneWt || 0),
-          0
-        ),
-        netWt: processedItems.reduce((sum, item) => sum + (item.netWt || 0), 0),
-        finalWt: processedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-        stoneAmt: processedItems.reduce(
-          (sum, item) => sum + (item.stoneAmt || 0),
-          0
-        ),
-        totalInvoiceAmount: processedItems.reduce(
-          (sum, item) => sum + (item.totalInvoiceAmount || 0),
-          0
-        ),
-      };
+      const totals = receipt.totals
+        ? {
+            ...receipt.totals,
+            totalInvoiceAmount: receipt.totals.totalInvoiceAmount ?? 0,
+          }
+        : calculateTotals(processedItems);
 
       setEditableReceipt({
         ...receipt,
@@ -183,8 +206,34 @@ export default function EditReceiptPage() {
 
   // Update receipt mutation
   const { mutate: updateReceipt, isPending: isUpdating } = useMutation({
-    mutationFn: (updatedData: Partial<Receipt>) =>
-      receiptServices.updateReceipt(id!, updatedData),
+    mutationFn: async (updatedData: ReceiptInput) => {
+      // Its postings were reversed; saving would post them all over again
+      const { data: current } = await receiptServices.getReceipt(id!);
+      if (current.status === "cancelled") {
+        throw new Error(
+          "This receipt has been cancelled and can no longer be edited."
+        );
+      }
+
+      const response = await receiptServices.updateReceipt(id!, updatedData);
+      await ledgerServices.recordReceipt({
+        clientId: receiptData!.data.clientId,
+        sourceType: "shop",
+        sourceId: id!,
+        voucherId: updatedData.voucherId,
+        amount: calculateShopReceiptNet(
+          updatedData.givenItems,
+          updatedData.receivedItems
+        ),
+      });
+      await stockServices.recordReceiptStock({
+        sourceType: "shop",
+        sourceId: id!,
+        voucherId: updatedData.voucherId,
+        lines: shopReceiptStock(updatedData),
+      });
+      return response;
+    },
     onSuccess: () => {
       toast({
         title: "Success",
@@ -264,20 +313,14 @@ export default function EditReceiptPage() {
 
         // Recalculate finalWt for received items
         if (["receivedGold", "melting"].includes(field)) {
-          updatedItem.finalWt =
-            (updatedItem.receivedGold * updatedItem.melting) / 100;
+          updatedItem.finalWt = calculateReceivedItem(updatedItem).finalWt;
         }
 
         updatedReceivedItems[index] = updatedItem;
       }
 
       // Calculate received totals
-      const receivedTotals = {
-        finalWt: updatedReceivedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-      };
+      const receivedTotals = sumReceivedItems(updatedReceivedItems);
 
       // Auto-update status based on received items
       const hasValidReceivedItems = updatedReceivedItems.some(
@@ -329,12 +372,7 @@ export default function EditReceiptPage() {
       );
 
       // Recalculate totals
-      const receivedTotals = {
-        finalWt: updatedReceivedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-      };
+      const receivedTotals = sumReceivedItems(updatedReceivedItems);
 
       // Auto-update status based on remaining received items
       const hasValidReceivedItems = updatedReceivedItems.some(
@@ -381,29 +419,7 @@ export default function EditReceiptPage() {
       const updatedItems = prev.items.filter((_, i) => i !== index);
 
       // Recalculate totals
-      const totals = {
-        grossWt: updatedItems.reduce(
-          (sum, item) => sum + (item.grossWt || 0),
-          0
-        ),
-        stoneWt: updatedItems.reduce(
-          (sum, item) => sum + (item.stoneWt || 0),
-          0
-        ),
-        netWt: updatedItems.reduce((sum, item) => sum + (item.netWt || 0), 0),
-        finalWt: updatedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-        stoneAmt: updatedItems.reduce(
-          (sum, item) => sum + (item.stoneAmt || 0),
-          0
-        ),
-        totalInvoiceAmount: updatedItems.reduce(
-          (sum, item) => sum + (item.totalInvoiceAmount || 0),
-          0
-        ),
-      };
+      const totals = calculateTotals(updatedItems);
 
       return {
         ...prev,
@@ -443,41 +459,14 @@ export default function EditReceiptPage() {
 
         // Recalculate dependent fields
         if (["grossWt", "stoneWt", "meltingTouch"].includes(field)) {
-          updatedItem.netWt = updatedItem.grossWt - updatedItem.stoneWt;
-          updatedItem.finalWt =
-            updatedItem.netWt * (updatedItem.meltingTouch / 100);
+          Object.assign(updatedItem, calculateGivenItem(updatedItem));
         }
 
         updatedItems[index] = updatedItem;
       }
 
       // Calculate totals (only for numeric fields)
-      const totals = {
-        grossWt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.grossWt || 0),
-          0
-        ),
-        stoneWt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.stoneWt || 0),
-          0
-        ),
-        netWt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.netWt || 0),
-          0
-        ),
-        finalWt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-        stoneAmt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.stoneAmt || 0),
-          0
-        ),
-        totalInvoiceAmount: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.totalInvoiceAmount || 0),
-          0
-        ),
-      };
+      const totals = calculateTotals(updatedItems);
 
       return {
         ...prev,
@@ -507,20 +496,19 @@ export default function EditReceiptPage() {
           : editableReceipt.issueDate,
       givenItems: (editableReceipt.items || []).map((item) => ({
         ...item,
-        grossWt: Number(item.grossWt) || 0,
-        stoneWt: Number(item.stoneWt) || 0,
-        netWt: Number(item.netWt) || 0,
+        grossWt: roundWeight(item.grossWt),
+        stoneWt: roundWeight(item.stoneWt),
         meltingTouch: Number(item.meltingTouch) || 0,
-        finalWt: Number(item.finalWt) || 0,
-        stoneAmt: Number(item.stoneAmt) || 0,
+        ...calculateGivenItem(item),
+        stoneAmt: roundAmount(item.stoneAmt),
         totalInvoiceAmount: Number(item.totalInvoiceAmount) || 0,
         date: item.date || format(new Date(), "yyyy-MM-dd"), // Include date
       })),
       receivedItems: (editableReceipt.receivedItems || []).map((item) => ({
         ...item,
-        receivedGold: Number(item.receivedGold) || 0,
+        receivedGold: roundWeight(item.receivedGold),
         melting: Number(item.melting) || 0,
-        finalWt: Number(item.finalWt) || 0,
+        finalWt: calculateReceivedItem(item).finalWt,
         date: item.date || format(new Date(), "yyyy-MM-dd"), // Include date
       })),
     };
@@ -539,6 +527,24 @@ export default function EditReceiptPage() {
     );
   }
 
+  if (receiptData?.data.status === "cancelled") {
+    return (
+      <div className="container py-6">
+        <Button
+          variant="ghost"
+          className="mb-6"
+          onClick={() => navigate(`/receipts/${id}`)}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Receipt
+        </Button>
+        <CancellationNotice cancellation={receiptData.data.cancellation} />
+        <p className="text-center text-muted-foreground py-8">
+          A cancelled receipt can no longer be edited.
+        </p>
+      </div>
+    );
+  }
+
   if (isError || !editableReceipt) {
     return (
       <div className="container py-6">
@@ -556,6 +562,13 @@ export default function EditReceiptPage() {
     );
   }
 
+  // Footer totals leave out the carried-forward balance row
+  const displayTotals = sumGivenItems(
+    (editableReceipt.items || []).filter(
+      (item) => item.itemName !== "Previous Balance"
+    )
+  );
+
   return (
     <div className="container py-6 print:py-0">
       <div className="print:hidden">
@@ -761,7 +774,7 @@ export default function EditReceiptPage() {
                           <td className="py-2 px-1">
                             <input
                               type="number"
-                              value={item.netWt?.toFixed(3) || "0.000"}
+                              value={formatWeight(item.netWt)}
                               readOnly
                               className="w-full bg-muted/50 border rounded px-2 py-1 text-right"
                             />
@@ -769,7 +782,7 @@ export default function EditReceiptPage() {
                           <td className="py-2 px-1">
                             <input
                               type="number"
-                              value={item.finalWt?.toFixed(3) || "0.000"}
+                              value={formatWeight(item.finalWt)}
                               readOnly
                               className="w-full bg-muted/50 border rounded px-2 py-1 text-right"
                             />
@@ -811,36 +824,20 @@ export default function EditReceiptPage() {
                       Totals
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {/* Calculate totals excluding Previous Balance items */}
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.grossWt || 0), 0)
-                        .toFixed(3)}
+                      {formatWeight(displayTotals.grossWt)}
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.stoneWt || 0), 0)
-                        .toFixed(3)}
+                      {formatWeight(displayTotals.stoneWt)}
                     </td>
                     <td className="py-2 px-1">-</td>
                     <td className="py-2 px-1 text-right">
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.netWt || 0), 0)
-                        .toFixed(3)}
+                      {formatWeight(displayTotals.netWt)}
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.finalWt || 0), 0)
-                        .toFixed(3)}
+                      {formatWeight(displayTotals.finalWt)}
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.stoneAmt || 0), 0)
-                        .toFixed(3)}
+                      {formatAmount(displayTotals.stoneAmt)}
                     </td>
                     <td className="py-2 px-1 print:hidden"></td>
                   </tr>
@@ -946,7 +943,7 @@ export default function EditReceiptPage() {
                       <td className="py-2 px-1">
                         <input
                           type="number"
-                          value={item.finalWt?.toFixed(3) || "0.000"}
+                          value={formatWeight(item.finalWt)}
                           readOnly
                           className="w-full bg-muted/50 border rounded px-2 py-1 text-right"
                         />
@@ -970,8 +967,7 @@ export default function EditReceiptPage() {
                       Totals:
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {editableReceipt.receivedTotals?.finalWt?.toFixed(3) ||
-                        "0.000"}
+                      {formatWeight(editableReceipt.receivedTotals?.finalWt)}
                     </td>
                     <td className="py-2 px-1 print:hidden"></td>
                   </tr>
@@ -989,7 +985,7 @@ export default function EditReceiptPage() {
                   Given Final Wt.
                 </div>
                 <div className="text-lg font-semibold">
-                  {editableReceipt.totals?.finalWt?.toFixed(3) || "0.000"}g
+                  {formatWeight(editableReceipt.totals?.finalWt)}g
                 </div>
               </div>
               <div className="bg-muted/10 p-3 rounded-md">
@@ -997,18 +993,18 @@ export default function EditReceiptPage() {
                   Received Final Wt.
                 </div>
                 <div className="text-lg font-semibold">
-                  {editableReceipt.receivedTotals?.finalWt?.toFixed(3) ||
-                    "0.000"}
-                  g
+                  {formatWeight(editableReceipt.receivedTotals?.finalWt)}g
                 </div>
               </div>
               <div className="bg-primary/10 p-3 rounded-md">
                 <div className="text-sm text-primary">Balance</div>
                 <div className="text-lg font-semibold text-primary">
-                  {(
-                    (editableReceipt.totals?.finalWt || 0) -
-                    (editableReceipt.receivedTotals?.finalWt || 0)
-                  ).toFixed(3)}
+                  {formatWeight(
+                    calculateBalance(
+                      editableReceipt.totals?.finalWt,
+                      editableReceipt.receivedTotals?.finalWt
+                    )
+                  )}
                   g
                 </div>
               </div>
@@ -1121,20 +1117,10 @@ export default function EditReceiptPage() {
                 <label className="text-sm text-muted-foreground block mb-1">
                   Payment Status
                 </label>
-                <select
-                  value={editableReceipt.paymentStatus}
-                  onChange={(e) =>
-                    handleFieldChange(
-                      "paymentStatus",
-                      e.target.value as "Pending" | "Partial" | "Paid"
-                    )
-                  }
-                  className="w-full bg-transparent border rounded px-3 py-2"
-                >
-                  <option value="Pending">Pending</option>
-                  <option value="Partial">Partial</option>
-                  <option value="Paid">Paid</option>
-                </select>
+                {/* Follows from the payments allocated to the receipt */}
+                <div className="w-full border rounded px-3 py-2 text-muted-foreground">
+                  {paymentStatus || "Pending"}
+                </div>
               </div>
               <div>
                 <label className="text-sm text-muted-foreground block mb-1">
@@ -4,18 +4,42 @@ import {
   ArrowLeft,
   Edit,
   Download,
+  FileText,
   Loader,
   Printer,
   Share2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { useToast } from "@/hooks/use-toast";
 import { receiptServices } from "@/services/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { DeletionRequestNotice } from "@/components/receipts/deletion-request-notice";
+import {
+  CancellationNotice,
+  CancelledWatermark,
+} from "@/components/receipts/cancelled-receipt";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
+import { Receipt } from "@/models/Receipt";
+import {
+  calculateBalance,
+  formatAmount,
+  formatWeight,
+  roundWeight,
+  sumAmounts,
+  sumWeights,
+} from "@/lib/metal-calculations";
+import {
+  drawBrandFooter,
+  drawBrandFrame,
+  drawCancelledWatermark,
+} from "@/lib/pdf-branding";
+import { AppliedRateSummary } from "@/components/rates/applied-rate-summary";
+import { AuditHistory } from "@/components/audit/audit-history";
 
 declare module "jspdf" {
   interface jsPDF {
@@ -32,10 +56,46 @@ const formatNumber = (
   return isNaN(num) ? "-" : num.toFixed(decimals);
 };
 
+// Totals over the stored line values, with the carried-forward balance row
+// reported separately as the OD balance
+const summariseReceipt = (receipt: Receipt) => {
+  const givenItems = (receipt.givenItems || []).filter(
+    (item) => item.itemName !== "Previous Balance"
+  );
+  const receivedItems = receipt.receivedItems || [];
+  const odBalance = roundWeight(
+    receipt.givenItems?.find((item) => item.itemName === "Previous Balance")
+      ?.finalWt
+  );
+  const given = {
+    grossWt: sumWeights(givenItems.map((item) => item.grossWt)),
+    stoneWt: sumWeights(givenItems.map((item) => item.stoneWt)),
+    netWt: sumWeights(givenItems.map((item) => item.netWt)),
+    finalWt: sumWeights(givenItems.map((item) => item.finalWt)),
+    stoneAmt: sumAmounts(givenItems.map((item) => item.stoneAmt)),
+  };
+  const received = {
+    receivedGold: sumWeights(receivedItems.map((item) => item.receivedGold)),
+    stoneWt: sumWeights(receivedItems.map((item) => item.stoneWt)),
+    stoneAmt: sumAmounts(receivedItems.map((item) => item.stoneAmt)),
+    finalWt: sumWeights(receivedItems.map((item) => item.finalWt)),
+  };
+  return {
+    givenItems,
+    receivedItems,
+    odBalance,
+    given,
+    received,
+    net: calculateBalance(given.finalWt, received.finalWt),
+    balance: calculateBalance(given.finalWt, received.finalWt, odBalance),
+  };
+};
+
 export default function ReceiptDetailsPage() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { can } = useAuth();
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
 
   const {
@@ -119,22 +179,10 @@ export default function ReceiptDetailsPage() {
       const doc = new jsPDF("p", "mm", "a4");
       const pageWidth = doc.internal.pageSize.getWidth();
 
-      // Set golden border (approximating the color from the image)
-      doc.setDrawColor(204, 153, 0); // Golden border color (RGB)
-      doc.setLineWidth(1);
-      doc.rect(5, 5, 200, 287); // A4 page border (210x297 mm, with 5mm margin)
-
-      // Add logo at the top center
-      const logoPath = "/logo.jpg"; // Using the provided logo path
-      try {
-        doc.addImage(logoPath, "JPEG", 85, 5, 40, 20); // Centered logo, adjusted size to fit design
-      } catch (logoError) {
-        console.warn("Logo not found, continuing without logo");
-      }
+      drawBrandFrame(doc);
 
       // Dynamic Fields (aligned with design)
       doc.setFontSize(11);
-      doc.setTextColor(0, 0, 0); // Black text
       let y = 35;
       const marginLeft = 25;
 
@@ -189,19 +237,18 @@ export default function ReceiptDetailsPage() {
       y += 2;
 
       // First Table (Given Items) - Filter out Previous Balance
-      const givenItems = Array.isArray(receipt.data.givenItems)
-        ? receipt.data.givenItems.filter((item) => item.itemName !== "Previous Balance")
-        : [];
+      const summary = summariseReceipt(receipt.data);
+      const { givenItems, receivedItems, odBalance } = summary;
 
       const givenTableBody = givenItems.map((item, index) => [
         index + 1,
         item.itemName,
-        formatNumber(item.grossWt, 3),
-        item.stoneWt ? formatNumber(item.stoneWt, 3) : "0.000",
-        formatNumber(item.netWt, 3),
+        formatWeight(item.grossWt),
+        formatWeight(item.stoneWt),
+        formatWeight(item.netWt),
         formatNumber(item.meltingTouch, 2),
-        formatNumber(item.finalWt, 3),
-        item.stoneAmt ? formatNumber(item.stoneAmt, 2) : "0.00",
+        formatWeight(item.finalWt),
+        formatAmount(item.stoneAmt),
         item.tag || "-",
       ]);
 
@@ -210,22 +257,12 @@ export default function ReceiptDetailsPage() {
         givenTableBody.push([
           "",
           "Total:",
-          formatNumber(
-            givenItems.reduce((acc, item) => acc + Number(item.grossWt || 0), 0)
-          ),
-          formatNumber(
-            givenItems.reduce((acc, item) => acc + Number(item.stoneWt || 0), 0)
-          ),
-          formatNumber(
-            givenItems.reduce((acc, item) => acc + Number(item.netWt || 0), 0)
-          ),
+          formatWeight(summary.given.grossWt),
+          formatWeight(summary.given.stoneWt),
+          formatWeight(summary.given.netWt),
           "",
-          formatNumber(
-            givenItems.reduce((acc, item) => acc + Number(item.finalWt || 0), 0)
-          ),
-          formatNumber(
-            givenItems.reduce((acc, item) => acc + Number(item.stoneAmt || 0), 0)
-          ),
+          formatWeight(summary.given.finalWt),
+          formatAmount(summary.given.stoneAmt),
           ""
         ]);
       }
@@ -300,21 +337,17 @@ export default function ReceiptDetailsPage() {
       newY += 2;
 
       // Second Table (Received Items)
-      const receivedItems = Array.isArray(receipt.data.receivedItems)
-        ? receipt.data.receivedItems
-        : [];
-
       const receivedTableBody = receivedItems.map((item, index) => [
         index + 1,
         "Received Item " + (index + 1), // Product name placeholder
         format(new Date(), "dd/MM/yyyy"), // Always show current date
-        formatNumber(item.receivedGold, 3),
-        formatNumber(item.stoneWt || 0, 3), // Added stone weight
+        formatWeight(item.receivedGold),
+        formatWeight(item.stoneWt), // Added stone weight
         formatNumber(item.melting, 2),
         formatNumber(0, 2), // MC not available in current structure
-        formatNumber(item.stoneAmt || 0, 2), // Added stone amount
-        formatNumber(item.receivedGold, 3),
-        formatNumber(item.finalWt, 3),
+        formatAmount(item.stoneAmt), // Added stone amount
+        formatWeight(item.receivedGold),
+        formatWeight(item.finalWt),
       ]);
 
       // Add totals row for received items
@@ -322,38 +355,13 @@ export default function ReceiptDetailsPage() {
         "",
         "Total:",
         "",
-        formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.receivedGold || 0),
-            0
-          )
-        ),
-        formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.stoneWt || 0),
-            0
-          )
-        ),
+        formatWeight(summary.received.receivedGold),
+        formatWeight(summary.received.stoneWt),
         "",
         "",
-        formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.stoneAmt || 0),
-            0
-          )
-        ),
-        formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.receivedGold || 0),
-            0
-          )
-        ),
-        formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.finalWt || 0),
-            0
-          )
-        ),
+        formatAmount(summary.received.stoneAmt),
+        formatWeight(summary.received.receivedGold),
+        formatWeight(summary.received.finalWt),
       ]);
 
       autoTable(doc, {
@@ -413,28 +421,15 @@ export default function ReceiptDetailsPage() {
 
      
 
-      // Calculate given total excluding Previous Balance
-      const givenTotal = givenItems.reduce(
-        (sum, item) => sum + Number(item.finalWt || 0),
-        0
-      );
-
-      const receivedTotal = receivedItems.reduce(
-        (acc, item) => acc + Number(item.finalWt || 0),
-        0
-      );
-
-      // Get OD Balance value from the given items
-      const odBalanceItem = receipt.data.givenItems.find(
-        (item) => item.itemName === "Previous Balance"
-      );
-      const odBalance = odBalanceItem ? odBalanceItem.finalWt : 0;
+      // Given total excludes the Previous Balance row
+      const givenTotal = summary.given.finalWt;
+      const receivedTotal = summary.received.finalWt;
 
       const balanceValues = [
-        formatNumber(odBalance, 3), // OD Balance
-        formatNumber(givenTotal, 3), // Given Total
-        formatNumber(receivedTotal, 3), // Received Total
-        formatNumber(givenTotal - receivedTotal, 3), // Balance
+        formatWeight(odBalance), // OD Balance
+        formatWeight(givenTotal), // Given Total
+        formatWeight(receivedTotal), // Received Total
+        formatWeight(summary.net), // Balance
         receipt.data.finalWtBalanceTag || "", // Final Weight Balance Tag
       ];
 
@@ -446,10 +441,10 @@ export default function ReceiptDetailsPage() {
       const summaryTable = [
         [ 'Given Final Wt', 'Received Final Wt', 'OD Balance','Final Wt. + Balance'],
         [
-          formatNumber(givenTotal, 3),
-          formatNumber(receivedTotal, 3),
-          formatNumber(odBalance, 3),
-          `${formatNumber(givenTotal - receivedTotal, 3)} + ${formatNumber(Number(odBalance), 3)} = ${formatNumber(givenTotal - receivedTotal + Number(odBalance), 3)}`
+          formatWeight(givenTotal),
+          formatWeight(receivedTotal),
+          formatWeight(odBalance),
+          `${formatWeight(summary.net)} + ${formatWeight(odBalance)} = ${formatWeight(summary.balance)}`
         ]
       ];
       
@@ -491,7 +486,6 @@ export default function ReceiptDetailsPage() {
       
       // Debug: Log the values we're trying to display
       console.log('finalWtBalanceTag:', receipt.data.finalWtBalanceTag);
-      console.log('stoneWeight:', receipt.data.stoneWeight);
       console.log('voucherId:', receipt.data.voucherId);
       
       // Final Weight Balance Tag
@@ -522,6 +516,8 @@ export default function ReceiptDetailsPage() {
         receipt.data.clientInfo?.clientName?.replace(/[^a-zA-Z0-9]/g, "_") ||
         "unknown"
       }.pdf`;
+      if (receipt.data.status === "cancelled") drawCancelledWatermark(doc);
+      drawBrandFooter(doc);
       doc.save(fileName);
     } catch (err) {
       console.error("PDF Generation Error:", err);
@@ -579,6 +575,9 @@ export default function ReceiptDetailsPage() {
     );
   }
 
+  const summary = summariseReceipt(receipt.data);
+  const isCancelled = receipt.data.status === "cancelled";
+
   return (
     <div className="container py-6 print:py-0">
       <div className="print:hidden">
@@ -602,9 +601,21 @@ export default function ReceiptDetailsPage() {
             </p>
           </div>
           <div className="flex flex-wrap gap-2 mt-4 md:mt-0">
-            <Button variant="outline" onClick={handleEditReceipt}>
-              <Edit className="mr-2 h-4 w-4" /> Edit
-            </Button>
+            {can("receipts:edit") && !isCancelled && (
+              <Button variant="outline" onClick={handleEditReceipt}>
+                <Edit className="mr-2 h-4 w-4" /> Edit
+              </Button>
+            )}
+            {can("receipts:create") && receipt.data.status === "complete" && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  navigate(`/client-bills/new?receipt=${receipt.data._id}`)
+                }
+              >
+                <FileText className="mr-2 h-4 w-4" /> Tax Invoice
+              </Button>
+            )}
             <Button variant="outline" onClick={handlePrintReceipt}>
               <Printer className="mr-2 h-4 w-4" /> Print
             </Button>
@@ -626,6 +637,9 @@ export default function ReceiptDetailsPage() {
         </div>
       </div>
 
+      <CancellationNotice cancellation={receipt.data.cancellation} />
+      <DeletionRequestNotice deletionRequest={receipt.data.deletionRequest} />
+
       <div className="hidden print:block mb-8">
         <div className="text-center">
           <h1 className="text-3xl font-bold">Receipt</h1>
@@ -639,399 +653,323 @@ export default function ReceiptDetailsPage() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
-        <div className="col-span-2">
-          <div className="bg-card card-premium rounded-lg p-6 print:p-0 print:bg-transparent print:shadow-none">
-            <h2 className="text-xl font-medium mb-4">Items</h2>
-            <div className="overflow-x-auto mb-8">
-              <table className="w-full min-w-[900px]">
-                <thead>
-                  <tr className="border-b">
-                    <th className="text-center py-2 px-1 text-sm font-medium">
-                      Date
-                    </th>
-                    <th className="text-left py-2 px-1 text-sm font-medium">
-                      Description
-                    </th>
-                    <th className="text-center py-2 px-1 text-sm font-medium">
-                      Tag
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Gross Wt.
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Stone Wt.
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Melting %
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Net Wt.
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Final Wt.
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Stone Amt.
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {/* Regular items */}
-                  {receipt.data.givenItems
-                    ?.filter((item) => item.itemName !== "Previous Balance")
-                    .map((item, index) => (
-                      <tr
-                        key={item._id || index}
-                        className="border-b last:border-b-0"
-                      >
-                        <td className="py-2 px-1 text-center text-sm">
-                          {item.date
-                            ? format(new Date(item.date), "dd-MM-yyyy")
-                            : format(new Date(), "dd-MM-yyyy")}
-                        </td>
-                        <td className="py-2 px-1">
-                          {item.itemName || "Item name"}
-                        </td>
-                        <td className="py-2 px-1 text-center text-sm">
-                          {item.tag || "Tag"}
-                        </td>
-                        <td className="py-2 px-1 text-right">
-                          {formatNumber(item.grossWt || 0, 3)}
+      <Tabs defaultValue="details">
+        <TabsList className="mb-6 print:hidden">
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="relative mt-0">
+          {isCancelled && <CancelledWatermark />}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+            <div className="col-span-2">
+              <div className="bg-card card-premium rounded-lg p-6 print:p-0 print:bg-transparent print:shadow-none">
+                <h2 className="text-xl font-medium mb-4">Items</h2>
+                <div className="overflow-x-auto mb-8">
+                  <table className="w-full min-w-[900px]">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-center py-2 px-1 text-sm font-medium">
+                          Date
+                        </th>
+                        <th className="text-left py-2 px-1 text-sm font-medium">
+                          Description
+                        </th>
+                        <th className="text-center py-2 px-1 text-sm font-medium">
+                          Tag
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Gross Wt.
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Stone Wt.
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Melting %
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Net Wt.
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Final Wt.
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Stone Amt.
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {/* Regular items */}
+                      {receipt.data.givenItems
+                        ?.filter((item) => item.itemName !== "Previous Balance")
+                        .map((item, index) => (
+                          <tr
+                            key={item._id || index}
+                            className="border-b last:border-b-0"
+                          >
+                            <td className="py-2 px-1 text-center text-sm">
+                              {item.date
+                                ? format(new Date(item.date), "dd-MM-yyyy")
+                                : format(new Date(), "dd-MM-yyyy")}
+                            </td>
+                            <td className="py-2 px-1">
+                              {item.itemName || "Item name"}
+                            </td>
+                            <td className="py-2 px-1 text-center text-sm">
+                              {item.tag || "Tag"}
+                            </td>
+                            <td className="py-2 px-1 text-right">
+                              {formatWeight(item.grossWt)}
+                            </td>
+                            <td className="py-2 px-1 text-right">
+                              {formatWeight(item.stoneWt)}
+                            </td>
+                            <td className="py-2 px-1 text-right">
+                              {formatNumber(item.meltingTouch || 0, 3)}
+                            </td>
+                            <td className="py-2 px-1 text-right">
+                              {formatWeight(item.netWt)}
+                            </td>
+                            <td className="py-2 px-1 text-right">
+                              {formatWeight(item.finalWt)}
+                            </td>
+                            <td className="py-2 px-1 text-right">
+                              {formatAmount(item.stoneAmt)}
+                            </td>
+                          </tr>
+                        ))}
+                      {/* OD Balance row removed as per requirements */}
+
+                      <tr className="font-medium bg-accent/20 print:bg-gray-100">
+                        <td className="py-2 px-1 text-left" colSpan={3}>
+                          Totals:
                         </td>
                         <td className="py-2 px-1 text-right">
-                          {formatNumber(item.stoneWt || 0, 3)}
+                          {formatWeight(summary.given.grossWt)}
                         </td>
                         <td className="py-2 px-1 text-right">
-                          {formatNumber(item.meltingTouch || 0, 3)}
+                          {formatWeight(summary.given.stoneWt)}
                         </td>
                         <td className="py-2 px-1 text-right">
-                          {formatNumber(item.netWt || 0, 3)}
+                          {formatWeight(summary.given.netWt)}
                         </td>
                         <td className="py-2 px-1 text-right">
-                          {formatNumber(item.finalWt || 0, 3)}
+                          {formatWeight(summary.given.finalWt)}
                         </td>
                         <td className="py-2 px-1 text-right">
-                          {formatNumber(item.stoneAmt || 0, 3)}
+                          {formatAmount(summary.given.stoneAmt)}
                         </td>
                       </tr>
-                    ))}
-                  {/* OD Balance row removed as per requirements */}
-
-                  <tr className="font-medium bg-accent/20 print:bg-gray-100">
-                    <td className="py-2 px-1 text-left" colSpan={3}>
-                      Totals:
-                    </td>
-                    <td className="py-2 px-1 text-right">
-                      {formatNumber(
-                        receipt.data.givenItems
-                          ?.filter((item) => item.itemName !== "Previous Balance")
-                          .reduce((sum, item) => sum + Number(item.grossWt || 0), 0) || 0,
-                        3
-                      )}
-                    </td>
-                    <td className="py-2 px-1 text-right">
-                      {formatNumber(
-                        receipt.data.givenItems
-                          ?.filter((item) => item.itemName !== "Previous Balance")
-                          .reduce((sum, item) => sum + Number(item.stoneWt || 0), 0) || 0,
-                        3
-                      )}
-                    </td>
-                    <td className="py-2 px-1 text-right">
-                      {formatNumber(
-                        receipt.data.givenItems
-                          ?.filter((item) => item.itemName !== "Previous Balance")
-                          .reduce((sum, item) => sum + Number(item.netWt || 0), 0) || 0,
-                        3
-                      )}
-                    </td>
-                    <td className="py-2 px-1 text-right">
-                      {formatNumber(
-                        receipt.data.givenItems
-                          ?.filter((item) => item.itemName !== "Previous Balance")
-                          .reduce((sum, item) => sum + Number(item.finalWt || 0), 0) || 0,
-                        3
-                      )}
-                    </td>
-                    <td className="py-2 px-1 text-right">
-                      {formatNumber(
-                        receipt.data.givenItems
-                          ?.filter((item) => item.itemName !== "Previous Balance")
-                          .reduce((sum, item) => sum + Number(item.stoneAmt || 0), 0) || 0,
-                        3
-                      )}
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
+                    </tbody>
+                  </table>
+                </div>
 
-            {/* Received Items Table */}
-            <h2 className="text-xl font-medium mb-4 mt-8">Received Items</h2>
-            <div className="overflow-x-auto">
-              <table className="w-full min-w-[600px]">
-                <thead>
-                  <tr className="border-b">
-                    <th className="text-center py-2 px-1 text-sm font-medium">
-                      Date
-                    </th>
-                    <th className="text-center py-2 px-1 text-sm font-medium">
-                      S.No
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Received Gold
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Melting
-                    </th>
-                    <th className="text-right py-2 px-1 text-sm font-medium">
-                      Final Wt.
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {receipt.data.receivedItems &&
-                  receipt.data.receivedItems.length > 0 ? (
-                    <>
-                      {receipt.data.receivedItems.map((item, idx) => (
-                        <tr
-                          key={item.id || item._id || idx}
-                          className="border-b last:border-b-0"
-                        >
+                {/* Received Items Table */}
+                <h2 className="text-xl font-medium mb-4 mt-8">Received Items</h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full min-w-[600px]">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-center py-2 px-1 text-sm font-medium">
+                          Date
+                        </th>
+                        <th className="text-center py-2 px-1 text-sm font-medium">
+                          S.No
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Received Gold
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Melting
+                        </th>
+                        <th className="text-right py-2 px-1 text-sm font-medium">
+                          Final Wt.
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {receipt.data.receivedItems &&
+                      receipt.data.receivedItems.length > 0 ? (
+                        <>
+                          {receipt.data.receivedItems.map((item, idx) => (
+                            <tr
+                              key={item.id || item._id || idx}
+                              className="border-b last:border-b-0"
+                            >
+                              <td className="py-2 px-1 text-center text-sm">
+                                {item.date
+                                  ? format(new Date(item.date), "dd-MM-yyyy")
+                                  : format(new Date(), "dd-MM-yyyy")}
+                              </td>
+                              <td className="py-2 px-1 text-center">{idx + 1}</td>
+                              <td className="py-2 px-1 text-right">
+                                {formatWeight(item.receivedGold)}
+                              </td>
+                              <td className="py-2 px-1 text-right">
+                                {formatNumber(item.melting || 0, 3)}
+                              </td>
+                              <td className="py-2 px-1 text-right">
+                                {formatWeight(item.finalWt)}
+                              </td>
+                            </tr>
+                          ))}
+                          <tr className="font-medium bg-accent/20 print:bg-gray-100">
+                            <td className="py-2 px-1 text-left" colSpan={2}>
+                              Totals:
+                            </td>
+                            <td className="py-2 px-1 text-right">
+                              {formatWeight(summary.received.receivedGold)}
+                            </td>
+                            <td className="py-2 px-1 text-right">-</td>
+                            <td className="py-2 px-1 text-right">
+                              {formatWeight(summary.received.finalWt)}
+                            </td>
+                          </tr>
+                        </>
+                      ) : (
+                        <tr>
                           <td className="py-2 px-1 text-center text-sm">
-                            {item.date
-                              ? format(new Date(item.date), "dd-MM-yyyy")
-                              : format(new Date(), "dd-MM-yyyy")}
+                            {format(new Date(), "dd-MM-yyyy")}
                           </td>
-                          <td className="py-2 px-1 text-center">{idx + 1}</td>
-                          <td className="py-2 px-1 text-right">
-                            {formatNumber(item.receivedGold || 0, 3)}
+                          <td className="py-2 px-1 text-center">-</td>
+                          <td className="py-2 px-1 text-right text-muted-foreground text-sm">
+                            not filled yet
                           </td>
-                          <td className="py-2 px-1 text-right">
-                            {formatNumber(item.melting || 0, 3)}
+                          <td className="py-2 px-1 text-right text-muted-foreground text-sm">
+                            not filled yet
                           </td>
-                          <td className="py-2 px-1 text-right">
-                            {formatNumber(item.finalWt || 0, 3)}
+                          <td className="py-2 px-1 text-right text-muted-foreground text-sm">
+                            not filled yet
                           </td>
                         </tr>
-                      ))}
-                      <tr className="font-medium bg-accent/20 print:bg-gray-100">
-                        <td className="py-2 px-1 text-left" colSpan={2}>
-                          Totals:
-                        </td>
-                        <td className="py-2 px-1 text-right">
-                          {formatNumber(
-                            receipt.data.receivedItems.reduce(
-                              (acc, item) => acc + Number(item.receivedGold || 0),
-                              0
-                            ),
-                            3
-                          )}
-                        </td>
-                        <td className="py-2 px-1 text-right">-</td>
-                        <td className="py-2 px-1 text-right">
-                          {formatNumber(
-                            receipt.data.receivedItems.reduce(
-                              (acc, item) => acc + Number(item.finalWt || 0),
-                              0
-                            ),
-                            3
-                          )}
-                        </td>
-                      </tr>
-                    </>
-                  ) : (
-                    <tr>
-                      <td className="py-2 px-1 text-center text-sm">
-                        {format(new Date(), "dd-MM-yyyy")}
-                      </td>
-                      <td className="py-2 px-1 text-center">-</td>
-                      <td className="py-2 px-1 text-right text-muted-foreground text-sm">
-                        not filled yet
-                      </td>
-                      <td className="py-2 px-1 text-right text-muted-foreground text-sm">
-                        not filled yet
-                      </td>
-                      <td className="py-2 px-1 text-right text-muted-foreground text-sm">
-                        not filled yet
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
-
-            {/* Summary Section - Moved below Received Items */}
-            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mt-6">
-              <div className="bg-gray-50 p-3 rounded">
-                <p className="text-sm text-muted-foreground">Given Final Wt.</p>
-                <p className="font-medium">
-                  {formatNumber(
-                    receipt.data.givenItems
-                      ?.filter((item) => item.itemName !== "Previous Balance")
-                      .reduce((sum, item) => sum + Number(item.finalWt || 0), 0) || 0,
-                    3
-                  )}g
-                </p>
-              </div>
-
-              <div className="bg-gray-50 p-3 rounded">
-                <p className="text-sm text-muted-foreground">
-                  Received Final Wt.
-                </p>
-                <p className="font-medium">
-                  {receipt.data.receivedItems &&
-                  receipt.data.receivedItems.length > 0 ? (
-                    receipt.data.givenItems?.find(
-                      (item) => item.itemName === "Previous Balance"
-                    ) ? (
-                      <>
-                        {formatNumber(
-                          receipt.data.receivedItems.reduce(
-                            (acc, item) => acc + Number(item.finalWt || 0),
-                            0
-                          ),
-                          3
-                        )}
-                        g
-                      </>
-                    ) : (
-                      `${formatNumber(
-                        receipt.data.receivedItems.reduce(
-                          (acc, item) => acc + Number(item.finalWt || 0),
-                          0
-                        ),
-                        3
-                      )}g`
-                    )
-                  ) : (
-                    "empty"
-                  )}
-                </p>
-              </div>
-              <div className="bg-blue-50 p-3 rounded">
-                <p className="text-sm text-muted-foreground">OD Balance</p>
-                <p className="font-medium">
-                  {formatNumber(
-                    receipt.data.givenItems?.find(
-                      (item) => item.itemName === "Previous Balance"
-                    )?.finalWt || 0,
-                    3
-                  )}
-                  g
-                </p>
-              </div>
-              <div className="bg-gray-50 p-3 rounded">
-                <div className="flex justify-between items-center mb-2">
-                  <p className="text-sm text-muted-foreground">
-                    Final Wt. + Balance
-                  </p>
-                  {receipt.data.finalWtBalanceTag && (
-                    <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
-                      {receipt.data.finalWtBalanceTag}
-                    </span>
-                  )}
+                      )}
+                    </tbody>
+                  </table>
                 </div>
-                <div className="flex items-center gap-2">
-                  <p className="font-medium">
-                    {formatNumber(
-                      Number(
-                        receipt.data.givenItems.reduce(
-                          (acc, item) => acc + Number(item.finalWt || 0),
-                          0
-                        )
-                      ) -
-                      Number(
-                        receipt.data.receivedItems.reduce(
-                          (acc, item) => acc + Number(item.finalWt || 0),
-                          0
-                        )
-                      ) -
-                      Number(
-                        receipt.data.givenItems.find(
-                          (item) => item.itemName === "Previous Balance"
-                        )?.finalWt || 0
-                      ),
-                      3
-                    )}
-                    {" + "}
-                    {formatNumber(
-                      Number(
-                        receipt.data.givenItems.find(
+
+                {/* Summary Section - Moved below Received Items */}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mt-6">
+                  <div className="bg-gray-50 p-3 rounded">
+                    <p className="text-sm text-muted-foreground">Given Final Wt.</p>
+                    <p className="font-medium">
+                      {formatWeight(summary.given.finalWt)}g
+                    </p>
+                  </div>
+
+                  <div className="bg-gray-50 p-3 rounded">
+                    <p className="text-sm text-muted-foreground">
+                      Received Final Wt.
+                    </p>
+                    <p className="font-medium">
+                      {receipt.data.receivedItems &&
+                      receipt.data.receivedItems.length > 0 ? (
+                        receipt.data.givenItems?.find(
                           (item) => item.itemName === "Previous Balance"
-                        )?.finalWt || 0
-                      ),
-                      3
-                    )}
-                    {" = "}
-                    {formatNumber(
-                      Number(
-                        receipt.data.givenItems.reduce(
-                          (acc, item) => acc + Number(item.finalWt || 0),
-                          0
-                        )
-                      ) -
-                      Number(
-                        receipt.data.receivedItems.reduce(
-                          (acc, item) => acc + Number(item.finalWt || 0),
-                          0
+                        ) ? (
+                          <>
+                            {formatWeight(summary.received.finalWt)}
+                            g
+                          </>
+                        ) : (
+                          `${formatWeight(summary.received.finalWt)}g`
                         )
-                      ),
-                      3
-                    )}
-                    g
-                  </p>
-                  {receipt.data.finalWtBalanceTag && (
-                    <span className="text-xs bg-muted px-2 py-0.5 rounded">
-                      {receipt.data.finalWtBalanceTag}
-                    </span>
-                  )}
+                      ) : (
+                        "empty"
+                      )}
+                    </p>
+                  </div>
+                  <div className="bg-blue-50 p-3 rounded">
+                    <p className="text-sm text-muted-foreground">OD Balance</p>
+                    <p className="font-medium">
+                      {formatWeight(summary.odBalance)}
+                      g
+                    </p>
+                  </div>
+                  <div className="bg-gray-50 p-3 rounded">
+                    <div className="flex justify-between items-center mb-2">
+                      <p className="text-sm text-muted-foreground">
+                        Final Wt. + Balance
+                      </p>
+                      {receipt.data.finalWtBalanceTag && (
+                        <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
+                          {receipt.data.finalWtBalanceTag}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">
+                        {formatWeight(summary.net)}
+                        {" + "}
+                        {formatWeight(summary.odBalance)}
+                        {" = "}
+                        {formatWeight(summary.balance)}
+                        g
+                      </p>
+                      {receipt.data.finalWtBalanceTag && (
+                        <span className="text-xs bg-muted px-2 py-0.5 rounded">
+                          {receipt.data.finalWtBalanceTag}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <AppliedRateSummary
+                    rate={receipt.data.appliedRate}
+                    lines={[
+                      { label: "This receipt", weight: summary.net },
+                      { label: "Balance", weight: summary.balance },
+                    ]}
+                  />
                 </div>
               </div>
-            </div>
-          </div>
-        </div>{" "}
-        {/* End of col-span-2 main card */}
-        <div className="col-span-1">
-          <div className="bg-card card-premium rounded-lg p-6 mb-6 print:p-0 print:bg-transparent print:shadow-none">
-            <h2 className="text-xl font-medium mb-4">Client Information</h2>
-            <div className="space-y-3">
-              <div>
-                <p className="text-sm text-muted-foreground">Shop Name</p>
-                <p className="font-medium">
-                  {receipt.data.clientInfo?.shopName || "-"}
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-muted-foreground">Client Name</p>
-                <p className="font-medium">
-                  {receipt.data.clientInfo?.clientName || "-"}
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-muted-foreground">Mobile Number</p>
-                <p className="font-medium">
-                  {receipt.data.clientInfo?.phoneNumber || "-"}
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-muted-foreground">Address</p>
-                <p className="font-medium">
-                  {receipt.data.clientInfo?.address || "-"}
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-muted-foreground">Client ID</p>
-                <p className="font-medium text-xs">
-                  {receipt.data.clientId || "-"}
-                </p>
+            </div>{" "}
+            {/* End of col-span-2 main card */}
+            <div className="col-span-1">
+              <div className="bg-card card-premium rounded-lg p-6 mb-6 print:p-0 print:bg-transparent print:shadow-none">
+                <h2 className="text-xl font-medium mb-4">Client Information</h2>
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Shop Name</p>
+                    <p className="font-medium">
+                      {receipt.data.clientInfo?.shopName || "-"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Client Name</p>
+                    <p className="font-medium">
+                      {receipt.data.clientInfo?.clientName || "-"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Mobile Number</p>
+                    <p className="font-medium">
+                      {receipt.data.clientInfo?.phoneNumber || "-"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Address</p>
+                    <p className="font-medium">
+                      {receipt.data.clientInfo?.address || "-"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Client ID</p>
+                    <p className="font-medium text-xs">
+                      {receipt.data.clientId || "-"}
+                    </p>
+                  </div>
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      </div>
-      {/* End of grid */}
+          {/* End of grid */}
+        </TabsContent>
+
+        <TabsContent value="history" className="mt-0">
+          <div className="bg-card card-premium rounded-lg p-6">
+            <AuditHistory entityType="shop" entityId={receipt.data._id} />
+          </div>
+        </TabsContent>
+      </Tabs>
 
       <div className="hidden print:block mt-8 text-center text-sm text-gray-500">
         <p>Generated on {format(new Date(), "PPP p")}</p>
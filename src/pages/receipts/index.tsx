@@ -4,15 +4,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { StatusBadge } from "@/components/ui/status-badge";
-import {
-  Plus,
-  Search,
-  Eye,
-  Edit,
-  Trash,
-  Download,
-  Loader2,
-} from "lucide-react";
+import { Plus, Search, Eye, Edit, Ban, Download, Loader2 } from "lucide-react";
 import {
   Table,
   TableBody,
@@ -21,14 +13,6 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogDescription,
-  DialogFooter,
-} from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -36,42 +20,48 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { receiptServices } from "@/services/api";
+import { formatWeight } from "@/lib/metal-calculations";
+import { RATE_METALS } from "@/lib/metal-rates";
+import {
+  DateRangeFilter,
+  ListPagination,
+  SortableHead,
+} from "@/components/ui/list-controls";
+import { useServerList } from "@/hooks/use-server-list";
+import { useAuth } from "@/contexts/AuthContext";
+import { CancelReceiptDialog } from "@/components/receipts/cancel-receipt-dialog";
+
+const RECEIPTS_PER_PAGE = 20;
 
 export default function ReceiptsPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterBy, setFilterBy] = useState("all");
-  const [passwordDialogOpen, setPasswordDialogOpen] = useState(false);
-  const [password, setPassword] = useState("");
-  const [receiptToDelete, setReceiptToDelete] = useState<string | null>(null);
+  const { can } = useAuth();
+  const [receiptToCancel, setReceiptToCancel] = useState<string | null>(null);
 
-  // Fetch receipts
+  // Fetch one page of receipts; searching, sorting and filtering happen on
+  // the server
   const {
-    data: receiptsData,
+    items: receipts,
+    page,
+    setPage,
+    totalPages,
+    search,
+    setSearch,
+    sort,
+    toggleSort,
+    filters,
+    setFilter,
     isLoading,
     isError,
-    error,
-  } = useQuery({
-    queryKey: ["receipts"],
-    queryFn: () => receiptServices.getReceipts(),
-    meta: {
-      onError: (err: any) => {
-        console.error("Error fetching receipts:", err);
-        toast({
-          title: "Error",
-          description: "Failed to load receipts. Please try again.",
-          variant: "destructive",
-        });
-      },
-    },
+  } = useServerList({
+    queryKey: ["receipts", "page"],
+    fetchPage: receiptServices.getReceiptPage,
+    defaultSort: { sortBy: "date", sortOrder: "desc" },
+    pageSize: RECEIPTS_PER_PAGE,
   });
 
-  const receipts = receiptsData?.data || [];
-
   // Helper function to determine receipt status
   const getReceiptStatus = (receipt: any) => {
     if (receipt.status) {
@@ -90,55 +80,6 @@ export default function ReceiptsPage() {
     return hasValidItems ? "complete" : "incomplete";
   };
 
-  // Delete mutation
-  const deleteMutation = useMutation({
-    mutationFn: (id: string) => receiptServices.deleteReceipt(id),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["receipts"] });
-      toast({
-        title: "Receipt Deleted",
-        description: "The receipt has been successfully removed.",
-      });
-      setPasswordDialogOpen(false);
-      setReceiptToDelete(null);
-      setPassword("");
-    },
-    onError: (err: any) => {
-      console.error("Error deleting receipt:", err);
-      toast({
-        title: "Error",
-        description: "Failed to delete receipt. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
-
-  // Filter receipts based on search term and filter type
-  const filteredReceipts = receipts.filter((receipt) => {
-    const searchLower = searchTerm.toLowerCase();
-    let matches = true;
-
-    // Search term filter
-    if (searchTerm) {
-      matches =
-        receipt.clientInfo?.clientName?.toLowerCase().includes(searchLower) ||
-        receipt.clientInfo?.shopName?.toLowerCase().includes(searchLower) ||
-        receipt?.voucherId?.toLowerCase().includes(searchLower);
-
-      if (!matches) return false;
-    }
-
-    // Status filter
-    if (filterBy !== "all") {
-      const receiptStatus = getReceiptStatus(receipt);
-      if (receiptStatus !== filterBy) {
-        return false;
-      }
-    }
-
-    return matches;
-  });
-
   const handleCreateReceipt = () => {
     navigate("/receipts/select-client");
   };
@@ -151,25 +92,6 @@ export default function ReceiptsPage() {
     navigate(`/receipts/${id}/edit`);
   };
 
-  const openDeleteDialog = (id: string) => {
-    setReceiptToDelete(id);
-    setPasswordDialogOpen(true);
-  };
-
-  const handleDeleteReceipt = () => {
-    if (!receiptToDelete) return;
-
-    if (password === "7007") {
-      deleteMutation.mutate(receiptToDelete);
-    } else {
-      toast({
-        title: "Incorrect Password",
-        description: "The password you entered is incorrect. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleDownloadPDF = (id: string) => {
     toast({
       title: "PDF Download",
@@ -184,9 +106,11 @@ export default function ReceiptsPage() {
           <h1 className="text-3xl font-serif font-bold">Receipts</h1>
           <p className="text-muted-foreground">Manage your client receipts</p>
         </div>
-        <Button onClick={handleCreateReceipt} className="mt-4 md:mt-0">
-          <Plus className="mr-2 h-4 w-4" /> Create Receipt
-        </Button>
+        {can("receipts:create") && (
+          <Button onClick={handleCreateReceipt} className="mt-4 md:mt-0">
+            <Plus className="mr-2 h-4 w-4" /> Create Receipt
+          </Button>
+        )}
       </div>
 
       <div className="bg-card card-premium rounded-lg p-6 mb-8">
@@ -196,11 +120,16 @@ export default function ReceiptsPage() {
             <Input
               placeholder="Search by client name, shop name or voucher ID"
               className="pl-10"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
             />
           </div>
-          <Select value={filterBy} onValueChange={setFilterBy}>
+          <Select
+            value={filters.status || "all"}
+            onValueChange={(value) =>
+              setFilter("status", value === "all" ? undefined : value)
+            }
+          >
             <SelectTrigger className="w-[180px]">
               <SelectValue placeholder="Filter by status" />
             </SelectTrigger>
@@ -211,6 +140,29 @@ export default function ReceiptsPage() {
               <SelectItem value="cancelled">Cancelled</SelectItem>
             </SelectContent>
           </Select>
+          <Select
+            value={filters.metal || "all"}
+            onValueChange={(value) =>
+              setFilter("metal", value === "all" ? undefined : value)
+            }
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Filter by metal" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Metals</SelectItem>
+              {RATE_METALS.map((metal) => (
+                <SelectItem key={metal} value={metal}>
+                  {metal}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DateRangeFilter
+            from={filters.from}
+            to={filters.to}
+            onChange={setFilter}
+          />
         </div>
 
         <div className="overflow-auto">
@@ -228,19 +180,40 @@ export default function ReceiptsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Voucher ID</TableHead>
+                  <SortableHead
+                    label="Voucher ID"
+                    sortKey="voucher"
+                    sort={sort}
+                    onSort={toggleSort}
+                  />
                   <TableHead>Shop Name</TableHead>
-                  <TableHead>Client Name</TableHead>
-                  <TableHead>Date</TableHead>
+                  <SortableHead
+                    label="Client Name"
+                    sortKey="client"
+                    sort={sort}
+                    onSort={toggleSort}
+                  />
+                  <SortableHead
+                    label="Date"
+                    sortKey="date"
+                    sort={sort}
+                    onSort={toggleSort}
+                  />
                   <TableHead>Status</TableHead>
                   <TableHead className="text-right">Gross Wt (g)</TableHead>
-                  <TableHead className="text-right">Final Wt (g)</TableHead>
+                  <SortableHead
+                    label="Final Wt (g)"
+                    sortKey="weight"
+                    sort={sort}
+                    onSort={toggleSort}
+                    className="text-right"
+                  />
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredReceipts.length > 0 ? (
-                  filteredReceipts.map((receipt) => (
+                {receipts.length > 0 ? (
+                  receipts.map((receipt) => (
                     <TableRow key={receipt._id}>
                       <TableCell>{receipt.voucherId}</TableCell>
                       <TableCell className="font-medium">
@@ -254,10 +227,10 @@ export default function ReceiptsPage() {
                         <StatusBadge status={getReceiptStatus(receipt)} />
                       </TableCell>
                       <TableCell className="text-right">
-                        {receipt.totals.grossWt.toFixed(2)}
+                        {formatWeight(receipt.totals.grossWt)}
                       </TableCell>
                       <TableCell className="text-right">
-                        {receipt.totals.finalWt.toFixed(2)}
+                        {formatWeight(receipt.totals.finalWt)}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -269,15 +242,23 @@ export default function ReceiptsPage() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            onClick={() => openDeleteDialog(receipt._id)}
-                            title="Delete Receipt"
-                            className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
-                          >
-                            <Trash className="h-4 w-4" />
-                          </Button>
+                          {(can("receipts:delete") ||
+                            can("receipts:request-delete")) &&
+                            receipt.status !== "cancelled" && (
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={() => setReceiptToCancel(receipt._id)}
+                                title={
+                                  can("receipts:delete")
+                                    ? "Cancel Receipt"
+                                    : "Request Cancellation"
+                                }
+                                className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -288,7 +269,7 @@ export default function ReceiptsPage() {
                       colSpan={8}
                       className="text-center py-10 text-muted-foreground"
                     >
-                      {searchTerm
+                      {search
                         ? "No receipts match your search"
                         : "No receipts found"}
                     </TableCell>
@@ -298,63 +279,20 @@ export default function ReceiptsPage() {
             </Table>
           )}
         </div>
+
+        <ListPagination
+          page={page}
+          totalPages={totalPages}
+          onPageChange={setPage}
+        />
       </div>
 
-      {/* Password Prompt Dialog */}
-      <Dialog
-        open={passwordDialogOpen}
-        onOpenChange={(open) => {
-          setPasswordDialogOpen(open);
-          if (!open) {
-            setPassword("");
-            setReceiptToDelete(null);
-          }
-        }}
-      >
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
-            <DialogDescription>
-              Please enter the admin password to delete this receipt.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="py-4">
-            <Input
-              type="password"
-              placeholder="Enter password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              disabled={deleteMutation.isPending}
-            />
-          </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setPasswordDialogOpen(false);
-                setPassword("");
-              }}
-              disabled={deleteMutation.isPending}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={handleDeleteReceipt}
-              disabled={deleteMutation.isPending || !password}
-            >
-              {deleteMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Deleting...
-                </>
-              ) : (
-                "Confirm Delete"
-              )}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <CancelReceiptDialog
+        open={!!receiptToCancel}
+        onOpenChange={(open) => !open && setReceiptToCancel(null)}
+        receiptId={receiptToCancel}
+        receiptType="shop"
+      />
     </div>
   );
 }
@@ -43,7 +43,7 @@ export default function ClientSelectionPage() {
     }
   });
 
-  const filteredClients = clientsData?.clients?.filter(
+  const filteredClients = clientsData?.filter(
     (client) =>
       (client.clientName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       client.shopName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, startOfMonth } from "date-fns";
+import { Download, FileText, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { adminReceiptServices, receiptServices } from "@/services/api";
+import { Receipt } from "@/models/Receipt";
+import { AdminReceipt } from "@/models/AdminReceipt";
+import {
+  buildDayBook,
+  buildKarigarPerformance,
+  buildMakingCharges,
+  buildMetalSummary,
+  buildOutstanding,
+  buildWastage,
+  METAL_TYPES,
+  Report,
+  ReportFilters,
+} from "@/lib/reports";
+import {
+  downloadReportCsv,
+  downloadReportPdf,
+  formatReportCell,
+} from "@/lib/report-export";
+
+type ReportKey =
+  | "day-book"
+  | "metal-summary"
+  | "outstanding"
+  | "wastage"
+  | "making-charges"
+  | "karigar-performance";
+
+const reportDefinitions: Record<
+  ReportKey,
+  {
+    title: string;
+    description: string;
+    build: (
+      shopReceipts: Receipt[],
+      workReceipts: AdminReceipt[],
+      filters: ReportFilters
+    ) => Report;
+  }
+> = {
+  "day-book": {
+    title: "Day Book",
+    description: "Every receipt, day by day",
+    build: buildDayBook,
+  },
+  "metal-summary": {
+    title: "Given vs Received",
+    description: "Fine metal given and received, by metal",
+    build: buildMetalSummary,
+  },
+  outstanding: {
+    title: "Outstanding Balances",
+    description: "What each client owes as of the end date, by age",
+    build: buildOutstanding,
+  },
+  wastage: {
+    title: "Melting Loss",
+    description: "Metal lost melting down what shops bring in",
+    build: (shopReceipts, _, filters) => buildWastage(shopReceipts, filters),
+  },
+  "making-charges": {
+    title: "Making-Charge Income",
+    description: "Making charge earned on work receipts",
+    build: (_, workReceipts, filters) =>
+      buildMakingCharges(workReceipts, filters),
+  },
+  "karigar-performance": {
+    title: "Karigar Wastage",
+    description: "Wastage on finished jobs against what each karigar agreed",
+    build: (_, workReceipts, filters) =>
+      buildKarigarPerformance(workReceipts, filters),
+  },
+};
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+
+export default function ReportsPage() {
+  const { toast } = useToast();
+  const [reportKey, setReportKey] = useState<ReportKey>("day-book");
+  const [from, setFrom] = useState(
+    format(startOfMonth(new Date()), DATE_INPUT_FORMAT)
+  );
+  const [to, setTo] = useState(format(new Date(), DATE_INPUT_FORMAT));
+  const [metalType, setMetalType] = useState("all");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["reportData"],
+    queryFn: async () => {
+      const [shopReceipts, workReceipts] = await Promise.all([
+        receiptServices.getReceipts(),
+        adminReceiptServices.getAdminReceipts(),
+      ]);
+      return { shopReceipts: shopReceipts.data || [], workReceipts };
+    },
+  });
+
+  const definition = reportDefinitions[reportKey];
+  const filters: ReportFilters = {
+    from: parseISO(from),
+    to: parseISO(to),
+    metalType,
+  };
+  const report =
+    data && from && to
+      ? definition.build(data.shopReceipts, data.workReceipts, filters)
+      : null;
+
+  const subtitle = `${format(filters.from, "dd MMM yyyy")} to ${format(
+    filters.to,
+    "dd MMM yyyy"
+  )}${metalType === "all" ? "" : ` • ${metalType}`}`;
+  const fileName = `${reportKey}-${from}-to-${to}`;
+
+  const handleExport = (kind: "csv" | "pdf") => {
+    if (!report) return;
+    try {
+      if (kind === "csv") {
+        downloadReportCsv(report, fileName);
+      } else {
+        downloadReportPdf(report, definition.title, subtitle, fileName);
+      }
+    } catch (error) {
+      console.error("Report export error:", error);
+      toast({
+        title: "Export Failed",
+        description: "Could not export the report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container py-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-serif font-bold">Reports</h1>
+        <p className="text-muted-foreground">{definition.description}</p>
+      </div>
+
+      <Tabs
+        value={reportKey}
+        onValueChange={(value) => setReportKey(value as ReportKey)}
+        className="mb-6"
+      >
+        <TabsList className="flex-wrap h-auto">
+          {(Object.keys(reportDefinitions) as ReportKey[]).map((key) => (
+            <TabsTrigger key={key} value={key}>
+              {reportDefinitions[key].title}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div className="space-y-1">
+          <Label htmlFor="reportFrom">From</Label>
+          <Input
+            id="reportFrom"
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="reportTo">To</Label>
+          <Input
+            id="reportTo"
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Metal</Label>
+          <Select value={metalType} onValueChange={setMetalType}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All metals</SelectItem>
+              {METAL_TYPES.map((metal) => (
+                <SelectItem key={metal} value={metal}>
+                  {metal}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2 ml-auto">
+          <Button
+            variant="outline"
+            onClick={() => handleExport("csv")}
+            disabled={!report}
+          >
+            <Download className="mr-2 h-4 w-4" /> CSV
+          </Button>
+          <Button onClick={() => handleExport("pdf")} disabled={!report}>
+            <FileText className="mr-2 h-4 w-4" /> PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 overflow-auto">
+        {isLoading || !report ? (
+          <div className="flex justify-center items-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading report...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {report.columns.map((column) => (
+                  <TableHead
+                    key={column.key}
+                    className={cn(column.weight && "text-right")}
+                  >
+                    {column.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.length > 0 ? (
+                report.rows.map((row, index) => (
+                  <TableRow
+                    key={index}
+                    className={cn(row.isSubtotal && "bg-muted/50 font-medium")}
+                  >
+                    {report.columns.map((column) => (
+                      <TableCell
+                        key={column.key}
+                        className={cn(column.weight && "text-right")}
+                      >
+                        {formatReportCell(row, column)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell
+                    colSpan={report.columns.length}
+                    className="text-center py-10 text-muted-foreground"
+                  >
+                    Nothing to report for this period
+                  </TableCell>
+                </TableRow>
+              )}
+              {report.totals && report.rows.length > 0 && (
+                <TableRow className="bg-muted font-semibold">
+                  {report.columns.map((column) => (
+                    <TableCell
+                      key={column.key}
+                      className={cn(column.weight && "text-right")}
+                    >
+                      {formatReportCell(report.totals, column)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,569 @@
+import { useEffect, useState } from "react";
+import { Loader2, Save, Scale, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  AppSettings,
+  VoucherSeries,
+  VoucherSeriesSettings,
+} from "@/models/Settings";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { formatVoucherNumber, voucherSeriesLabels } from "@/lib/vouchers";
+import { METAL_TYPES } from "@/lib/reports";
+import { INDIAN_STATES } from "@/lib/gst";
+import {
+  RoundingMode,
+  toNumber,
+  WEIGHT_DECIMALS,
+} from "@/lib/metal-calculations";
+import { getApiUrl, setApiUrl } from "@/services/api-config";
+import { clientServices, ledgerServices } from "@/services/api";
+
+// Logos are stored inline with the settings, so keep them small
+const MAX_LOGO_BYTES = 200 * 1024;
+
+export default function SettingsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { settings, isLoading, updateSettings } = useSettings();
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [apiUrl, setApiUrlDraft] = useState(getApiUrl());
+  const [isCarryingOver, setIsCarryingOver] = useState(false);
+  const canEdit = can("settings:manage");
+
+  // Pick up the server copy once it arrives
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const updateSection = <K extends "business" | "defaults">(
+    section: K,
+    field: keyof AppSettings[K],
+    value: AppSettings[K][keyof AppSettings[K]]
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      [section]: { ...prev[section], [field]: value },
+    }));
+  };
+
+  const updateSeries = (
+    series: VoucherSeries,
+    changes: Partial<VoucherSeriesSettings>
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      vouchers: {
+        ...prev.vouchers,
+        [series]: { ...prev.vouchers[series], ...changes },
+      },
+    }));
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      toast({
+        variant: "destructive",
+        title: "Logo too large",
+        description: "Please choose an image under 200 KB.",
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () =>
+      updateSection("business", "logo", reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings(draft);
+      toast({
+        title: "Settings saved",
+        description: "New receipts and PDFs will use these settings.",
+      });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // One client at a time, so a failure part way leaves the rest to a rerun;
+  // clients already carried over post nothing the second time
+  const handleCarryOver = async () => {
+    setIsCarryingOver(true);
+    try {
+      const clients = await clientServices.getClients();
+      let posted = 0;
+      for (const client of clients) {
+        if (await ledgerServices.postOpeningBalance(client)) posted++;
+      }
+      toast({
+        title: "Balances carried over",
+        description: posted
+          ? `Opening balances posted for ${posted} client${posted === 1 ? "" : "s"}.`
+          : "Every client's balance is already in the ledger.",
+      });
+    } catch (error) {
+      console.error("Error carrying over balances:", error);
+    } finally {
+      setIsCarryingOver(false);
+    }
+  };
+
+  const handleApiUrlSave = (url: string | null) => {
+    setApiUrl(url);
+    setApiUrlDraft(getApiUrl());
+    toast({
+      title: "Server updated",
+      description: "Reload the page to fetch data from the new server.",
+    });
+  };
+
+  return (
+    <div className="container py-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Settings</h1>
+          <p className="text-muted-foreground">
+            {canEdit
+              ? "Business details and defaults used on receipts and PDFs"
+              : "Only the owner can change these settings"}
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Settings
+          </Button>
+        )}
+      </div>
+
+      <fieldset disabled={!canEdit || isSaving} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Business Profile</CardTitle>
+            <CardDescription>
+              Printed on every receipt, bill and statement
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="businessName">Business Name</Label>
+              <Input
+                id="businessName"
+                value={draft.business.name}
+                onChange={(e) =>
+                  updateSection("business", "name", e.target.value)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="businessPhone">Phone Number</Label>
+              <Input
+                id="businessPhone"
+                value={draft.business.phoneNumber}
+                onChange={(e) =>
+                  updateSection("business", "phoneNumber", e.target.value)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="businessAddress">Address</Label>
+              <Textarea
+                id="businessAddress"
+                rows={3}
+                value={draft.business.address}
+                onChange={(e) =>
+                  updateSection("business", "address", e.target.value)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="businessGstin">GSTIN</Label>
+              <Input
+                id="businessGstin"
+                value={draft.business.gstin}
+                maxLength={15}
+                onChange={(e) =>
+                  updateSection(
+                    "business",
+                    "gstin",
+                    e.target.value.toUpperCase()
+                  )
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>State</Label>
+              <Select
+                value={draft.business.state}
+                onValueChange={(value) =>
+                  updateSection("business", "state", value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {INDIAN_STATES.map((state) => (
+                    <SelectItem key={state.code} value={state.name}>
+                      {state.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Logo</Label>
+              <div className="flex items-center gap-4">
+                {draft.business.logo && (
+                  <img
+                    src={draft.business.logo}
+                    alt="Business logo"
+                    className="h-16 w-32 object-contain border rounded"
+                  />
+                )}
+                <Button variant="outline" asChild disabled={!canEdit}>
+                  <label className="cursor-pointer">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload Logo
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      className="hidden"
+                      onChange={handleLogoChange}
+                    />
+                  </label>
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    updateSection(
+                      "business",
+                      "logo",
+                      DEFAULT_SETTINGS.business.logo
+                    )
+                  }
+                >
+                  Use Default
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Voucher Numbers</CardTitle>
+            <CardDescription>
+              Numbers are given out by the server in order when a document is
+              saved. Cancelled documents keep their number.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {(Object.keys(voucherSeriesLabels) as VoucherSeries[]).map(
+              (series) => {
+                const seriesSettings = draft.vouchers[series];
+                return (
+                  <div
+                    key={series}
+                    className="grid gap-4 md:grid-cols-5 items-end"
+                  >
+                    <div className="font-medium md:pb-2">
+                      {voucherSeriesLabels[series]}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`${series}Prefix`}>Prefix</Label>
+                      <Input
+                        id={`${series}Prefix`}
+                        value={seriesSettings.prefix}
+                        onChange={(e) =>
+                          updateSeries(series, { prefix: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`${series}Padding`}>Digits</Label>
+                      <Input
+                        id={`${series}Padding`}
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={seriesSettings.padding}
+                        onChange={(e) =>
+                          updateSeries(series, {
+                            padding: Math.min(
+                              8,
+                              Math.max(1, toNumber(e.target.value))
+                            ),
+                          })
+                        }
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 md:pb-2">
+                      <Switch
+                        id={`${series}Reset`}
+                        checked={seriesSettings.financialYearReset}
+                        onCheckedChange={(checked) =>
+                          updateSeries(series, { financialYearReset: checked })
+                        }
+                        disabled={!canEdit}
+                      />
+                      <Label htmlFor={`${series}Reset`}>
+                        Restart each April
+                      </Label>
+                    </div>
+                    <div className="text-sm text-muted-foreground md:pb-2">
+                      e.g. {formatVoucherNumber(seriesSettings, 1)}
+                    </div>
+                  </div>
+                );
+              }
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Receipt Defaults</CardTitle>
+            <CardDescription>
+              Pre-filled on new receipt rows. Leave a percentage at 0 to start
+              blank.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Metal Type</Label>
+              <Select
+                value={draft.defaults.metalType}
+                onValueChange={(value) =>
+                  updateSection("defaults", "metalType", value)
+                }
+                disabled={!canEdit}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METAL_TYPES.map((metal) => (
+                    <SelectItem key={metal} value={metal}>
+                      {metal}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="defaultTouch">Given Touch %</Label>
+              <Input
+                id="defaultTouch"
+                type="number"
+                step="0.01"
+                value={draft.defaults.meltingTouch}
+                onChange={(e) =>
+                  updateSection(
+                    "defaults",
+                    "meltingTouch",
+                    toNumber(e.target.value)
+                  )
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="defaultReceivedMelting">Received Melting %</Label>
+              <Input
+                id="defaultReceivedMelting"
+                type="number"
+                step="0.01"
+                value={draft.defaults.receivedMelting}
+                onChange={(e) =>
+                  updateSection(
+                    "defaults",
+                    "receivedMelting",
+                    toNumber(e.target.value)
+                  )
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="defaultPurePercent">Work Pure %</Label>
+              <Input
+                id="defaultPurePercent"
+                type="number"
+                step="0.01"
+                value={draft.defaults.purePercent}
+                onChange={(e) =>
+                  updateSection(
+                    "defaults",
+                    "purePercent",
+                    toNumber(e.target.value)
+                  )
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="defaultWorkMelting">Work Melting</Label>
+              <Input
+                id="defaultWorkMelting"
+                type="number"
+                step="0.01"
+                value={draft.defaults.workMelting}
+                onChange={(e) =>
+                  updateSection(
+                    "defaults",
+                    "workMelting",
+                    toNumber(e.target.value)
+                  )
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Weights and PDFs</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Weights Shown To</Label>
+              <Select
+                value={String(Math.min(draft.weightDecimals, WEIGHT_DECIMALS))}
+                onValueChange={(value) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    weightDecimals: Number(value),
+                  }))
+                }
+                disabled={!canEdit}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2">2 decimals (0.01 g)</SelectItem>
+                  <SelectItem value="3">3 decimals (0.001 g)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Rounding</Label>
+              <Select
+                value={draft.roundingMode}
+                onValueChange={(value) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    roundingMode: value as RoundingMode,
+                  }))
+                }
+                disabled={!canEdit}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="half-up">Round half up</SelectItem>
+                  <SelectItem value="half-even">
+                    Round half to even (banker's)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="pdfFooter">PDF Footer</Label>
+              <Textarea
+                id="pdfFooter"
+                rows={2}
+                placeholder="e.g. Thank you for your business"
+                value={draft.pdfFooter}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, pdfFooter: e.target.value }))
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Opening Balances</CardTitle>
+            <CardDescription>
+              Posts each client's balance from before the ledger as its opening
+              entry. Until then the stored balance is used.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              variant="outline"
+              onClick={handleCarryOver}
+              disabled={isCarryingOver}
+            >
+              {isCarryingOver ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Scale className="h-4 w-4 mr-2" />
+              )}
+              Carry Over Balances
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Server</CardTitle>
+            <CardDescription>
+              Backend this browser talks to. Only affects this device.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col md:flex-row gap-4">
+            <Input
+              value={apiUrl}
+              onChange={(e) => setApiUrlDraft(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => handleApiUrlSave(apiUrl.trim() || null)}
+              >
+                Apply
+              </Button>
+              <Button variant="ghost" onClick={() => handleApiUrlSave(null)}>
+                Reset
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </fieldset>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SignupForm } from "@/components/auth/signup-form";
+import { authServices } from "@/services/auth-services";
+import { useAuth } from "@/contexts/AuthContext";
+import { roleLabels } from "@/lib/permissions";
+import { User, UserRole } from "@/models/User";
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [inviteOpen, setInviteOpen] = useState(false);
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ["users"],
+    queryFn: authServices.getUsers,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<Pick<User, "role" | "isActive">>;
+    }) => authServices.updateUser(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      toast({
+        title: "User updated",
+        description: "The user's access has been changed.",
+      });
+    },
+  });
+
+  const handleInvited = () => {
+    setInviteOpen(false);
+    queryClient.invalidateQueries({ queryKey: ["users"] });
+  };
+
+  return (
+    <div className="container py-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Users</h1>
+          <p className="text-muted-foreground">
+            Manage who can sign in and what they are allowed to do
+          </p>
+        </div>
+        <Button onClick={() => setInviteOpen(true)}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite User
+        </Button>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-10">
+                  <div className="flex justify-center items-center">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading users...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : users.length > 0 ? (
+              users.map((user) => {
+                const isSelf = user._id === currentUser?._id;
+                return (
+                  <TableRow key={user._id}>
+                    <TableCell className="font-medium">{user.name}</TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        disabled={isSelf || updateMutation.isPending}
+                        onValueChange={(role: UserRole) =>
+                          updateMutation.mutate({
+                            id: user._id,
+                            data: { role },
+                          })
+                        }
+                      >
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(roleLabels) as UserRole[]).map(
+                            (role) => (
+                              <SelectItem key={role} value={role}>
+                                {roleLabels[role]}
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={user.isActive ? "default" : "secondary"}>
+                        {user.isActive ? "Active" : "Deactivated"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isSelf || updateMutation.isPending}
+                        onClick={() =>
+                          updateMutation.mutate({
+                            id: user._id,
+                            data: { isActive: !user.isActive },
+                          })
+                        }
+                      >
+                        {user.isActive ? "Deactivate" : "Reactivate"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="text-center py-10 text-muted-foreground"
+                >
+                  No users found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              Share the temporary password with the new user so they can sign
+              in.
+            </DialogDescription>
+          </DialogHeader>
+          <SignupForm onSuccess={handleInvited} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
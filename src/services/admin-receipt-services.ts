@@ -0,0 +1,126 @@
+import { api } from "./api-config";
+import { AdminReceipt, AdminReceiptInput } from "@/models/AdminReceipt";
+import {
+  ListParams,
+  MessageResponse,
+  PaginatedResponse,
+} from "@/models/Api";
+import { auditServices } from "./audit-services";
+
+export const adminReceiptServices = {
+  // Get all work receipts, optionally for a single client or karigar
+  getAdminReceipts: async (
+    params: { clientId?: string; karigarId?: string } = {}
+  ): Promise<AdminReceipt[]> => {
+    try {
+      const response = await api.get("/admin-receipts", { params });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching Work Receipts:", error);
+      throw error;
+    }
+  },
+
+  // Get one page of work receipts, searching client, voucher ID and item
+  // tags. The older list above answers with a bare array; asking for a page
+  // gets the paginated envelope instead.
+  getAdminReceiptPage: async (
+    params: ListParams
+  ): Promise<PaginatedResponse<AdminReceipt>> => {
+    try {
+      const response = await api.get("/admin-receipts", { params });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching Work Receipts:", error);
+      throw error;
+    }
+  },
+
+  // Get work receipt by ID
+  getAdminReceipt: async (id: string): Promise<AdminReceipt> => {
+    try {
+      const response = await api.get(`/admin-receipts/${id}`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create new work receipt
+  createAdminReceipt: async (
+    receiptData: AdminReceiptInput
+  ): Promise<AdminReceipt> => {
+    try {
+      const response = await api.post("/admin-receipts", receiptData);
+      const receipt: AdminReceipt = response.data;
+      await auditServices.recordChange({
+        entityType: "work",
+        entityId: receipt._id,
+        action: "create",
+        voucherId: receipt.voucherId,
+        after: receipt,
+      });
+      return receipt;
+    } catch (error) {
+      console.error("Error creating Work Receipt:", error);
+      throw error;
+    }
+  },
+
+  // Update work receipt
+  updateAdminReceipt: async (
+    id: string,
+    receiptData: AdminReceiptInput
+  ): Promise<AdminReceipt> => {
+    try {
+      const before = await adminReceiptServices.getAdminReceipt(id);
+      const response = await api.put(`/admin-receipts/${id}`, receiptData);
+      const receipt: AdminReceipt = response.data;
+      await auditServices.recordChange({
+        entityType: "work",
+        entityId: id,
+        action: "update",
+        voucherId: before.voucherId,
+        before,
+        after: receipt,
+      });
+      return receipt;
+    } catch (error) {
+      console.error(`Error updating Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Delete work receipt
+  deleteAdminReceipt: async (id: string): Promise<MessageResponse> => {
+    try {
+      const before = await adminReceiptServices.getAdminReceipt(id);
+      const response = await api.delete(`/admin-receipts/${id}`);
+      await auditServices.recordChange({
+        entityType: "work",
+        entityId: id,
+        action: "delete",
+        voucherId: before.voucherId,
+        before,
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Error deleting Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Search work receipts by voucher or client
+  searchAdminReceipts: async (
+    params: Record<string, string>
+  ): Promise<AdminReceipt[]> => {
+    try {
+      const response = await api.get("/admin-receipts/search", { params });
+      return response.data;
+    } catch (error) {
+      console.error("Error searching Work Receipts:", error);
+      throw error;
+    }
+  },
+};
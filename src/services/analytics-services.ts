@@ -1,8 +1,13 @@
-
 import { api } from './api-config';
+import {
+  DashboardStats,
+  MetalTypeDistribution,
+  SalesByDate,
+  YearlyComparison,
+} from '@/models/Analytics';
 
 export const analyticsServices = {
-  getDashboardStats: async () => {
+  getDashboardStats: async (): Promise<DashboardStats> => {
     try {
       const response = await api.get('/analytics/dashboard');
       return response.data;
@@ -12,9 +17,14 @@ export const analyticsServices = {
     }
   },
   
-  getSalesByDate: async (startDate, endDate) => {
+  getSalesByDate: async (
+    startDate: string,
+    endDate: string
+  ): Promise<SalesByDate[]> => {
     try {
-      const response = await api.get(`/analytics/sales?startDate=${startDate}&endDate=${endDate}`);
+      const response = await api.get('/analytics/sales', {
+        params: { startDate, endDate },
+      });
       return response.data;
     } catch (error) {
       console.error('Error fetching sales data:', error);
@@ -22,7 +32,7 @@ export const analyticsServices = {
     }
   },
   
-  getMetalTypeDistribution: async () => {
+  getMetalTypeDistribution: async (): Promise<MetalTypeDistribution[]> => {
     try {
       const response = await api.get('/analytics/metal-types');
       return response.data;
@@ -32,7 +42,7 @@ export const analyticsServices = {
     }
   },
   
-  getYearlyComparison: async () => {
+  getYearlyComparison: async (): Promise<YearlyComparison> => {
     try {
       const response = await api.get('/analytics/yearly-comparison');
       return response.data;
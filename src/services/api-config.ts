@@ -1,11 +1,27 @@
 import axios from "axios";
 import { toast } from "@/hooks/use-toast";
 
-// For local development, this would point to your local server
-export const API_URL = "https://backend-goldsmith.onrender.com/api";
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // The caller keeps the work on this device when the server can't be
+    // reached, so a lost connection needs no error toast
+    quietOffline?: boolean;
+    // The caller treats a missing record as an answer, not an error
+    quietNotFound?: boolean;
+  }
+}
+
+const DEFAULT_API_URL = "https://backend-goldsmith.onrender.com/api";
+const API_URL_KEY = "apiUrl";
+
+// Per-browser override first, then the build-time VITE_API_URL, then production
+export const getApiUrl = () =>
+  localStorage.getItem(API_URL_KEY) ||
+  import.meta.env.VITE_API_URL ||
+  DEFAULT_API_URL;
 
 export const api = axios.create({
-  baseURL: API_URL,
+  baseURL: getApiUrl(),
   headers: {
     "Content-Type": "application/json",
   },
@@ -13,6 +29,38 @@ export const api = axios.create({
   timeout: 30000,
 });
 
+// Point the app at a different backend (staging, local) without rebuilding;
+// pass null to go back to the default
+export const setApiUrl = (url: string | null) => {
+  if (url) {
+    localStorage.setItem(API_URL_KEY, url.replace(/\/+$/, ""));
+  } else {
+    localStorage.removeItem(API_URL_KEY);
+  }
+  api.defaults.baseURL = getApiUrl();
+};
+
+const AUTH_TOKEN_KEY = "authToken";
+
+// Fired when the server rejects the stored token so the auth context can sign out
+export const AUTH_EXPIRED_EVENT = "auth:expired";
+
+export const getAuthToken = () => localStorage.getItem(AUTH_TOKEN_KEY);
+
+export const setAuthToken = (token: string) =>
+  localStorage.setItem(AUTH_TOKEN_KEY, token);
+
+export const clearAuthToken = () => localStorage.removeItem(AUTH_TOKEN_KEY);
+
+// Attach the session token to every request
+api.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
 // Add interceptors for better error handling and loading states
 api.interceptors.response.use(
   (response) => response,
@@ -24,10 +72,22 @@ api.interceptors.response.use(
       status: error.response?.status,
     });
 
+    if (error.config?.quietOffline && !error.response) {
+      return Promise.reject(error);
+    }
+    if (error.config?.quietNotFound && error.response?.status === 404) {
+      return Promise.reject(error);
+    }
+
     let errorMessage =
       "Connection to server failed. Please check your backend is running.";
 
-    if (error.response) {
+    if (error.response?.status === 401 && getAuthToken()) {
+      // Token expired or revoked - drop the session and send the user to login
+      clearAuthToken();
+      window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+      errorMessage = "Your session has expired. Please sign in again.";
+    } else if (error.response) {
       // The request was made and the server responded with a status code
       errorMessage =
         error.response.data?.message ||
@@ -1,16 +1,72 @@
-
 import { clientServices } from './client-services';
 import { receiptServices } from './receipt-services';
+import { adminReceiptServices } from './admin-receipt-services';
 import { analyticsServices } from './analytics-services';
+import { authServices } from './auth-services';
+import { deletionRequestServices } from './deletion-request-services';
+import { ledgerServices } from './ledger-services';
+import { settingsServices } from './settings-services';
+import { voucherServices } from './voucher-services';
+import { rateServices } from './rate-services';
+import { syncServices } from './sync-services';
+import { karigarServices } from './karigar-services';
+import { orderServices } from './order-services';
+import { stockServices } from './stock-services';
+import { ornamentServices } from './ornament-services';
+import { purchaseServices } from './purchase-services';
+import { invoiceServices } from './invoice-services';
+import { workBillServices } from './work-bill-services';
+import { paymentServices } from './payment-services';
+import { auditServices } from './audit-services';
+import { cancellationServices } from './cancellation-services';
+import { draftServices } from './draft-services';
 
 export {
   clientServices,
   receiptServices,
-  analyticsServices
+  adminReceiptServices,
+  analyticsServices,
+  authServices,
+  deletionRequestServices,
+  ledgerServices,
+  settingsServices,
+  voucherServices,
+  rateServices,
+  syncServices,
+  karigarServices,
+  orderServices,
+  stockServices,
+  ornamentServices,
+  purchaseServices,
+  invoiceServices,
+  workBillServices,
+  paymentServices,
+  auditServices,
+  cancellationServices,
+  draftServices
 };
 
 export default {
   clientServices,
   receiptServices,
+  adminReceiptServices,
   analyticsServices,
+  authServices,
+  deletionRequestServices,
+  ledgerServices,
+  settingsServices,
+  voucherServices,
+  rateServices,
+  syncServices,
+  karigarServices,
+  orderServices,
+  stockServices,
+  ornamentServices,
+  purchaseServices,
+  invoiceServices,
+  workBillServices,
+  paymentServices,
+  auditServices,
+  cancellationServices,
+  draftServices,
 };
@@ -0,0 +1,109 @@
+import { v4 as uuidv4 } from "uuid";
+import { api } from "./api-config";
+import { toast } from "@/hooks/use-toast";
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+  AuditEntryInput,
+} from "@/models/AuditEntry";
+import { diffFields } from "@/lib/audit";
+import {
+  deleteUnrecordedChange,
+  getUnrecordedChanges,
+  putUnrecordedChange,
+} from "@/lib/unrecorded-changes";
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  shop: "receipt",
+  work: "work receipt",
+  client: "client",
+};
+
+// Entries are append-only, like the ledger
+export const auditServices = {
+  // Every recorded change to one receipt or client, newest first
+  getHistory: async (
+    entityType: AuditEntityType,
+    entityId: string
+  ): Promise<AuditEntry[]> => {
+    try {
+      const response = await api.get("/audit", {
+        params: { entityType, entityId },
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error(
+        `Error fetching history for ${entityType} ${entityId}:`,
+        error
+      );
+      throw error;
+    }
+  },
+
+  // Append an entry
+  createEntry: async (entryData: AuditEntryInput): Promise<AuditEntry> => {
+    try {
+      const response = await api.post("/audit", entryData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating audit entry:", error);
+      throw error;
+    }
+  },
+
+  // Record what a save changed. The save itself has already gone through by
+  // the time this runs, so a failure is not thrown back at it: the entry is
+  // kept on this device, the user is told, and the history panel offers to
+  // send it again. An edit that changed nothing is not recorded.
+  recordChange: async (change: {
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    voucherId?: string;
+    before?: object;
+    after?: object;
+    reason?: string;
+  }): Promise<AuditEntry | null> => {
+    const { before, after, ...entry } = change;
+    const changes = diffFields(before, after);
+    if (change.action === "update" && changes.length === 0) return null;
+
+    const entryData = { ...entry, changes };
+    try {
+      return await auditServices.createEntry(entryData);
+    } catch (error) {
+      console.error(
+        `Error recording ${change.action} of ${change.entityType} ${change.entityId}:`,
+        error
+      );
+      putUnrecordedChange({
+        id: uuidv4(),
+        entry: entryData,
+        failedAt: new Date().toISOString(),
+      });
+      toast({
+        variant: "destructive",
+        title: "History not updated",
+        description: `The ${ENTITY_LABELS[change.entityType]}${
+          change.voucherId ? ` ${change.voucherId}` : ""
+        } was saved, but this change could not be added to its history. It can be sent again from the history.`,
+      });
+      return null;
+    }
+  },
+
+  // Changes to one record that could not be added to its history
+  getUnrecordedChanges,
+
+  // Send them again, oldest first; stops at the first that still fails
+  retryUnrecordedChanges: async (
+    entityType: AuditEntityType,
+    entityId: string
+  ): Promise<void> => {
+    for (const change of getUnrecordedChanges(entityType, entityId)) {
+      await auditServices.createEntry(change.entry);
+      deleteUnrecordedChange(change.id);
+    }
+  },
+};
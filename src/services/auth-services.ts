@@ -0,0 +1,75 @@
+import { api, clearAuthToken, setAuthToken } from "./api-config";
+import { AuthSession, InviteUserData, User } from "@/models/User";
+
+export const authServices = {
+  // Sign in and store the session token
+  login: async (email: string, password: string): Promise<AuthSession> => {
+    try {
+      const response = await api.post("/auth/login", { email, password });
+      const session: AuthSession = response.data.data;
+      setAuthToken(session.token);
+      return session;
+    } catch (error) {
+      console.error("Error signing in:", error);
+      throw error;
+    }
+  },
+
+  // Get the user the current token belongs to
+  getCurrentUser: async (): Promise<User> => {
+    try {
+      const response = await api.get("/auth/me");
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      throw error;
+    }
+  },
+
+  // Revoke the session on the server and forget the token locally
+  logout: async () => {
+    try {
+      await api.post("/auth/logout");
+    } catch (error) {
+      console.error("Error signing out:", error);
+    } finally {
+      clearAuthToken();
+    }
+  },
+
+  // List all shop users (owner only)
+  getUsers: async (): Promise<User[]> => {
+    try {
+      const response = await api.get("/users");
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      throw error;
+    }
+  },
+
+  // Invite a new user with a temporary password (owner only)
+  inviteUser: async (userData: InviteUserData): Promise<User> => {
+    try {
+      const response = await api.post("/users/invite", userData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      throw error;
+    }
+  },
+
+  // Change a user's role or deactivate them (owner only)
+  updateUser: async (
+    id: string,
+    userData: Partial<Pick<User, "name" | "role" | "isActive">>
+  ): Promise<User> => {
+    try {
+      const response = await api.put(`/users/${id}`, userData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error updating user ${id}:`, error);
+      throw error;
+    }
+  },
+};
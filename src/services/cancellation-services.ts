@@ -0,0 +1,87 @@
+import { ledgerServices } from "./ledger-services";
+import { stockServices } from "./stock-services";
+import { receiptServices } from "./receipt-services";
+import { adminReceiptServices } from "./admin-receipt-services";
+import { DeletableReceiptType } from "@/models/DeletionRequest";
+
+export interface ReceiptCancellationCheck {
+  voucherId?: string;
+  isCancelled: boolean;
+  // Saved with nothing on it, so safe to delete
+  isDraft: boolean;
+  billId?: string; // Settled on a work bill; cancel the bill's receipts first
+}
+
+// Both kinds of receipt, as far as cancelling needs to know them
+const loadReceipt = async (
+  receiptType: DeletableReceiptType,
+  receiptId: string
+): Promise<{
+  clientId: string;
+  voucherId?: string;
+  status: string;
+  billId?: string;
+}> =>
+  receiptType === "work"
+    ? adminReceiptServices.getAdminReceipt(receiptId)
+    : (await receiptServices.getReceipt(receiptId)).data;
+
+// Only a work receipt saved empty is a draft. Unfinished shop receipts live
+// with the drafts until saved; once saved, a receipt may have moved a balance
+// even where no posting shows it (saved before the ledger, or netting to zero).
+const isDraftReceipt = (receiptType: DeletableReceiptType, status: string) =>
+  receiptType === "work" && status === "empty";
+
+export const cancellationServices = {
+  // What may be done with a receipt: delete a draft, cancel a posted one
+  checkReceipt: async (
+    receiptType: DeletableReceiptType,
+    receiptId: string
+  ): Promise<ReceiptCancellationCheck> => {
+    const receipt = await loadReceipt(receiptType, receiptId);
+    return {
+      voucherId: receipt.voucherId,
+      isCancelled: receipt.status === "cancelled",
+      isDraft: isDraftReceipt(receiptType, receipt.status),
+      billId: receipt.billId,
+    };
+  },
+
+  // Reverse what the receipt posted to the client's balance and to stock,
+  // then mark it cancelled with the reason. The postings go first so that a
+  // cancel interrupted halfway can simply be run again. Every caller, an
+  // owner's approval included, gets the same refusals as the dialog shows.
+  cancelReceipt: async (
+    receiptType: DeletableReceiptType,
+    receiptId: string,
+    reason: string
+  ): Promise<void> => {
+    const receipt = await loadReceipt(receiptType, receiptId);
+    if (receipt.status === "cancelled") {
+      throw new Error("This receipt is already cancelled.");
+    }
+    if (receipt.billId) {
+      throw new Error(
+        "This receipt is settled on a work bill and cannot be cancelled."
+      );
+    }
+
+    await ledgerServices.reverseSource(receipt.clientId, receiptId, reason);
+    await stockServices.reverseSource({
+      sourceType: receiptType,
+      sourceId: receiptId,
+      voucherId: receipt.voucherId,
+      reason,
+    });
+
+    const update = {
+      status: "cancelled" as const,
+      cancellation: { reason, cancelledAt: new Date().toISOString() },
+    };
+    if (receiptType === "work") {
+      await adminReceiptServices.updateAdminReceipt(receiptId, update);
+    } else {
+      await receiptServices.updateReceipt(receiptId, update);
+    }
+  },
+};
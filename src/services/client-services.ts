@@ -1,23 +1,56 @@
-
+import { AxiosRequestConfig } from 'axios';
 import { api } from './api-config';
+import { Client, ClientInput, ClientSortKey } from '@/models/Client';
+import {
+  ListParams,
+  MessageResponse,
+  PaginatedResponse,
+} from '@/models/Api';
+import { auditServices } from './audit-services';
+import { cacheClients } from '@/lib/client-cache';
+
+// Some endpoints wrap the client as { client }, others return it bare
+const unwrapClient = (data: Client | { client: Client }): Client =>
+  'client' in data ? data.client : data;
 
 export const clientServices = {
   // Get all clients
-  getClients: async (params = {}) => {
+  getClients: async (params = {}): Promise<Client[]> => {
     try {
       const response = await api.get('/clients', { params });
-      return response.data;
+      const data = response.data;
+      const clients: Client[] = Array.isArray(data) ? data : data.clients || [];
+      cacheClients(clients);
+      return clients;
     } catch (error) {
       console.error('Error fetching clients:', error);
       throw error;
     }
   },
   
-  // Get client by ID
-  getClient: async (id) => {
+  // Get one page of clients, searching name, shop and phone number
+  getClientPage: async (
+    params: ListParams<ClientSortKey>
+  ): Promise<PaginatedResponse<Client>> => {
     try {
-      const response = await api.get(`/clients/${id}`);
+      const response = await api.get('/clients', { params });
       return response.data;
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+      throw error;
+    }
+  },
+
+  // Get client by ID
+  getClient: async (
+    id: string,
+    config?: AxiosRequestConfig
+  ): Promise<Client> => {
+    try {
+      const response = await api.get(`/clients/${id}`, config);
+      const client = unwrapClient(response.data);
+      cacheClients([client]);
+      return client;
     } catch (error) {
       console.error(`Error fetching client ${id}:`, error);
       throw error;
@@ -25,10 +58,17 @@ export const clientServices = {
   },
   
   // Create new client
-  createClient: async (clientData) => {
+  createClient: async (clientData: Partial<ClientInput>): Promise<Client> => {
     try {
       const response = await api.post('/clients', clientData);
-      return response.data;
+      const client = unwrapClient(response.data);
+      await auditServices.recordChange({
+        entityType: 'client',
+        entityId: client._id,
+        action: 'create',
+        after: client,
+      });
+      return client;
     } catch (error) {
       console.error('Error creating client:', error);
       throw error;
@@ -36,20 +76,39 @@ export const clientServices = {
   },
   
   // Update client
-  updateClient: async (id, clientData) => {
+  updateClient: async (
+    id: string,
+    clientData: Partial<ClientInput>
+  ): Promise<Client> => {
     try {
+      const before = await clientServices.getClient(id);
       const response = await api.put(`/clients/${id}`, clientData);
-      return response.data;
+      const client = unwrapClient(response.data);
+      await auditServices.recordChange({
+        entityType: 'client',
+        entityId: id,
+        action: 'update',
+        before,
+        after: client,
+      });
+      return client;
     } catch (error) {
       console.error(`Error updating client ${id}:`, error);
       throw error;
     }
   },
-  
+
   // Delete client
-  deleteClient: async (id) => {
+  deleteClient: async (id: string): Promise<MessageResponse> => {
     try {
+      const before = await clientServices.getClient(id);
       const response = await api.delete(`/clients/${id}`);
+      await auditServices.recordChange({
+        entityType: 'client',
+        entityId: id,
+        action: 'delete',
+        before,
+      });
       return response.data;
     } catch (error) {
       console.error(`Error deleting client ${id}:`, error);
@@ -58,10 +117,13 @@ export const clientServices = {
   },
   
   // Search clients
-  searchClients: async (query) => {
+  searchClients: async (query: string): Promise<Client[]> => {
     try {
-      const response = await api.get(`/clients/search?query=${query}`);
-      return response.data;
+      const response = await api.get('/clients/search', {
+        params: { query },
+      });
+      const data = response.data;
+      return Array.isArray(data) ? data : data.clients || [];
     } catch (error) {
       console.error('Error searching clients:', error);
       throw error;
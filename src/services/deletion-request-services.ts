@@ -0,0 +1,71 @@
+import { api } from "./api-config";
+import {
+  DeletableReceiptType,
+  DeletionRequest,
+  DeletionRequestStatus,
+} from "@/models/DeletionRequest";
+
+export const deletionRequestServices = {
+  // Get deletion requests, optionally only those with a given status
+  getDeletionRequests: async (
+    status?: DeletionRequestStatus
+  ): Promise<DeletionRequest[]> => {
+    try {
+      const response = await api.get("/deletion-requests", {
+        params: status ? { status } : {},
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching deletion requests:", error);
+      throw error;
+    }
+  },
+
+  // Ask an owner to cancel a receipt
+  requestDeletion: async (requestData: {
+    receiptId: string;
+    receiptType: DeletableReceiptType;
+    reason: string;
+  }): Promise<DeletionRequest> => {
+    try {
+      const response = await api.post("/deletion-requests", requestData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error requesting deletion:", error);
+      throw error;
+    }
+  },
+
+  // Approve a request; the server records the decision. Receipts are no
+  // longer deleted on approval: cancel it with cancellationServices first.
+  approveRequest: async (
+    id: string,
+    decisionReason: string
+  ): Promise<DeletionRequest> => {
+    try {
+      const response = await api.put(`/deletion-requests/${id}/approve`, {
+        decisionReason,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error approving deletion request ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Reject a request; the receipt is kept and the decision recorded on it
+  rejectRequest: async (
+    id: string,
+    decisionReason: string
+  ): Promise<DeletionRequest> => {
+    try {
+      const response = await api.put(`/deletion-requests/${id}/reject`, {
+        decisionReason,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error rejecting deletion request ${id}:`, error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from "uuid";
+import { api } from "./api-config";
+import { isNetworkError } from "./sync-services";
+import {
+  DEVICE_DRAFT_PREFIX,
+  deleteDeviceDraft,
+  getDeviceDrafts,
+  isDeviceDraftId,
+  putDeviceDraft,
+} from "@/lib/receipt-drafts";
+import { ReceiptDraft, ReceiptDraftInput } from "@/models/ReceiptDraft";
+
+// A draft that can't reach the server is kept on this device instead
+const quietOffline = { quietOffline: true };
+
+const newestFirst = (a: ReceiptDraft, b: ReceiptDraft) =>
+  b.updatedAt.localeCompare(a.updatedAt);
+
+const saveOnDevice = (
+  id: string | undefined,
+  serverId: string | undefined,
+  draftData: ReceiptDraftInput
+): ReceiptDraft => {
+  const existing = getDeviceDrafts().find((draft) => draft._id === id);
+  const now = new Date().toISOString();
+  const draft: ReceiptDraft = {
+    ...draftData,
+    _id: existing?._id || `${DEVICE_DRAFT_PREFIX}${uuidv4()}`,
+    savedOn: "device",
+    serverId,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+  putDeviceDraft(draft);
+  return draft;
+};
+
+export const draftServices = {
+  // Drafts on the server and on this device, most recently saved first
+  getDrafts: async (): Promise<ReceiptDraft[]> => {
+    const deviceDrafts = getDeviceDrafts();
+    if (!navigator.onLine) return deviceDrafts.sort(newestFirst);
+    try {
+      const response = await api.get("/drafts");
+      const serverDrafts: ReceiptDraft[] = response.data.data.map(
+        (draft: ReceiptDraft) => ({ ...draft, savedOn: "server" })
+      );
+      // A device copy is newer than the server draft it was saved over
+      const superseded = new Set(deviceDrafts.map((draft) => draft.serverId));
+      return [
+        ...deviceDrafts,
+        ...serverDrafts.filter((draft) => !superseded.has(draft._id)),
+      ].sort(newestFirst);
+    } catch (error) {
+      console.error("Error fetching drafts:", error);
+      throw error;
+    }
+  },
+
+  // Get draft by ID
+  getDraft: async (id: string): Promise<ReceiptDraft> => {
+    if (isDeviceDraftId(id)) {
+      const draft = getDeviceDrafts().find((d) => d._id === id);
+      if (!draft) throw new Error("This draft is no longer on this device");
+      return draft;
+    }
+    try {
+      const response = await api.get(`/drafts/${id}`);
+      return { ...response.data.data, savedOn: "server" };
+    } catch (error) {
+      console.error(`Error fetching draft ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create or update a draft on the server, moving a device draft up when
+  // the connection is back. Falls back to this device when the server can't
+  // be reached, or straight away with deviceOnly.
+  saveDraft: async (
+    id: string | undefined,
+    draftData: ReceiptDraftInput,
+    { deviceOnly = false } = {}
+  ): Promise<ReceiptDraft> => {
+    const deviceCopy = isDeviceDraftId(id)
+      ? getDeviceDrafts().find((draft) => draft._id === id)
+      : undefined;
+    const serverId = isDeviceDraftId(id) ? deviceCopy?.serverId : id;
+
+    if (deviceOnly || !navigator.onLine) {
+      return saveOnDevice(id, serverId, draftData);
+    }
+    try {
+      const response = serverId
+        ? await api.put(`/drafts/${serverId}`, draftData, quietOffline)
+        : await api.post("/drafts", draftData, quietOffline);
+      if (deviceCopy) deleteDeviceDraft(deviceCopy._id);
+      return { ...response.data.data, savedOn: "server" };
+    } catch (error) {
+      if (isNetworkError(error)) return saveOnDevice(id, serverId, draftData);
+      console.error("Error saving draft:", error);
+      throw error;
+    }
+  },
+
+  // Discard a draft, wherever it is kept
+  deleteDraft: async (id: string): Promise<void> => {
+    const deviceCopy = getDeviceDrafts().find(
+      (draft) => draft._id === id || draft.serverId === id
+    );
+    if (deviceCopy) deleteDeviceDraft(deviceCopy._id);
+
+    const serverId = isDeviceDraftId(id) ? deviceCopy?.serverId : id;
+    if (!serverId) return;
+    try {
+      await api.delete(`/drafts/${serverId}`);
+    } catch (error) {
+      console.error(`Error deleting draft ${serverId}:`, error);
+      throw error;
+    }
+  },
+};
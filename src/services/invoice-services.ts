@@ -0,0 +1,41 @@
+import { api } from "./api-config";
+import { ListParams, PaginatedResponse } from "@/models/Api";
+import { TaxInvoice, TaxInvoiceInput } from "@/models/TaxInvoice";
+
+export const invoiceServices = {
+  // Get one page of tax invoices, newest first unless sorted otherwise,
+  // matching the search on invoice number, receipt voucher or client name
+  getInvoices: async (
+    params: ListParams = {}
+  ): Promise<PaginatedResponse<TaxInvoice>> => {
+    try {
+      const response = await api.get("/invoices", { params });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      throw error;
+    }
+  },
+
+  // Get invoice by ID
+  getInvoice: async (id: string): Promise<TaxInvoice> => {
+    try {
+      const response = await api.get(`/invoices/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching invoice ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create new invoice; the server numbers it in the invoice series
+  createInvoice: async (invoiceData: TaxInvoiceInput): Promise<TaxInvoice> => {
+    try {
+      const response = await api.post("/invoices", invoiceData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating invoice:", error);
+      throw error;
+    }
+  },
+};
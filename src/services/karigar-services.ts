@@ -0,0 +1,56 @@
+import { api } from "./api-config";
+import { Karigar, KarigarInput } from "@/models/Karigar";
+
+// Karigars are deactivated rather than deleted, since work receipts name them
+export const karigarServices = {
+  // Get all karigars, optionally only active ones
+  getKarigars: async (
+    params: { active?: boolean } = {}
+  ): Promise<Karigar[]> => {
+    try {
+      const response = await api.get("/karigars", { params });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching karigars:", error);
+      throw error;
+    }
+  },
+
+  // Get karigar by ID
+  getKarigar: async (id: string): Promise<Karigar> => {
+    try {
+      const response = await api.get(`/karigars/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching karigar ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create new karigar
+  createKarigar: async (
+    karigarData: Partial<KarigarInput>
+  ): Promise<Karigar> => {
+    try {
+      const response = await api.post("/karigars", karigarData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating karigar:", error);
+      throw error;
+    }
+  },
+
+  // Update karigar
+  updateKarigar: async (
+    id: string,
+    karigarData: Partial<KarigarInput>
+  ): Promise<Karigar> => {
+    try {
+      const response = await api.put(`/karigars/${id}`, karigarData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error updating karigar ${id}:`, error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,190 @@
+import { AxiosRequestConfig } from "axios";
+import { api } from "./api-config";
+import {
+  LedgerEntry,
+  LedgerEntryInput,
+  LedgerSourceType,
+} from "@/models/LedgerEntry";
+import { calculateLedgerBalance, roundWeight } from "@/lib/metal-calculations";
+import { cacheClientBalance } from "@/lib/client-cache";
+import { openingEntryFor, withOpeningBalance } from "@/lib/opening-balance";
+import { Client } from "@/models/Client";
+import { clientServices } from "./client-services";
+import { auditServices } from "./audit-services";
+
+// A source whose entries have all been reversed, as cancelling a receipt does
+const isReversedSource = (entries: LedgerEntry[]) =>
+  entries.some((entry) => entry.reversedByEntryId) &&
+  entries.every(
+    (entry) => entry.type === "reversal" || entry.reversedByEntryId
+  );
+
+const balanceReasons: Record<LedgerSourceType, string> = {
+  shop: "Shop receipt",
+  work: "Work receipt",
+  purchase: "Old gold purchase",
+  bill: "Work bill settled",
+  payment: "Payment",
+  opening: "Opening balance",
+};
+
+// Every posting goes on the client's history as well as the ledger, whichever
+// page or sync made it. The balance is read back after the posting; if that
+// read fails the entry is still recorded, just without the figures.
+const recordBalanceChange = async (entry: LedgerEntry) => {
+  let balances: { before?: object; after?: object } = {};
+  try {
+    const after = await ledgerServices.getClientBalance(entry.clientId);
+    balances = {
+      before: { balance: roundWeight(after - entry.amount) },
+      after: { balance: after },
+    };
+  } catch (error) {
+    console.error(`Error reading balance for client ${entry.clientId}:`, error);
+  }
+  await auditServices.recordChange({
+    entityType: "client",
+    entityId: entry.clientId,
+    action: "balance",
+    voucherId: entry.voucherId,
+    ...balances,
+    reason:
+      entry.reason ||
+      (entry.sourceType ? balanceReasons[entry.sourceType] : undefined),
+  });
+};
+
+// Entries are append-only: there is no update or delete, mistakes are reversed
+export const ledgerServices = {
+  // Get every entry for a client, oldest first
+  getClientLedger: async (
+    clientId: string,
+    config?: AxiosRequestConfig
+  ): Promise<LedgerEntry[]> => {
+    try {
+      const response = await api.get(`/clients/${clientId}/ledger`, config);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching ledger for client ${clientId}:`, error);
+      throw error;
+    }
+  },
+
+  // Every entry for a client, led by the stored opening balance while it has
+  // not been posted yet
+  getClientLedgerWithOpening: async (
+    clientId: string,
+    config?: AxiosRequestConfig
+  ): Promise<LedgerEntry[]> => {
+    const [client, entries] = await Promise.all([
+      clientServices.getClient(clientId, config),
+      ledgerServices.getClientLedger(clientId, config),
+    ]);
+    return withOpeningBalance(entries, client);
+  },
+
+  // Current balance, summed from the entries rather than read off the client
+  getClientBalance: async (
+    clientId: string,
+    config?: AxiosRequestConfig
+  ): Promise<number> => {
+    const entries = await ledgerServices.getClientLedgerWithOpening(
+      clientId,
+      config
+    );
+    const balance = calculateLedgerBalance(entries);
+    cacheClientBalance(clientId, balance);
+    return balance;
+  },
+
+  // Append an entry
+  createEntry: async (entryData: LedgerEntryInput): Promise<LedgerEntry> => {
+    let entry: LedgerEntry;
+    try {
+      const response = await api.post("/ledger", entryData);
+      entry = response.data.data;
+    } catch (error) {
+      console.error("Error creating ledger entry:", error);
+      throw error;
+    }
+    await recordBalanceChange(entry);
+    return entry;
+  },
+
+  // Carry a client's stored balance into the ledger. Posts nothing once the
+  // opening entry is there, so running it again is harmless.
+  postOpeningBalance: async (client: Client): Promise<LedgerEntry | null> => {
+    const entries = await ledgerServices.getClientLedger(client._id);
+    const opening = openingEntryFor(client, entries);
+    return opening ? ledgerServices.createEntry(opening) : null;
+  },
+
+  // Post the opposite of an entry; the server links the pair
+  reverseEntry: async (id: string, reason: string): Promise<LedgerEntry> => {
+    let reversal: LedgerEntry;
+    try {
+      const response = await api.post(`/ledger/${id}/reverse`, { reason });
+      reversal = response.data.data;
+    } catch (error) {
+      console.error(`Error reversing ledger entry ${id}:`, error);
+      throw error;
+    }
+    await recordBalanceChange(reversal);
+    return reversal;
+  },
+
+  // Reverse every live entry a receipt posted, one by one, so each reversal
+  // stays linked to the entry it cancels. Entries already reversed are left
+  // alone, which makes a second call harmless.
+  reverseSource: async (
+    clientId: string,
+    sourceId: string,
+    reason: string
+  ): Promise<LedgerEntry[]> => {
+    const entries = await ledgerServices.getClientLedger(clientId);
+    const live = entries.filter(
+      (entry) =>
+        entry.sourceId === sourceId &&
+        entry.type !== "reversal" &&
+        !entry.reversedByEntryId
+    );
+
+    const reversals: LedgerEntry[] = [];
+    for (const entry of live) {
+      reversals.push(await ledgerServices.reverseEntry(entry._id, reason));
+    }
+    return reversals;
+  },
+
+  // Bring the ledger in line with a receipt's net weight. Only the difference
+  // from what earlier saves of the same receipt already posted is appended,
+  // so saving a receipt twice never counts it twice. A receipt whose entries
+  // were reversed stays at nothing: saving it again posts no entry.
+  recordReceipt: async (receipt: {
+    clientId: string;
+    sourceType: LedgerSourceType;
+    sourceId: string;
+    voucherId?: string;
+    amount: number;
+  }): Promise<LedgerEntry | null> => {
+    const entries = await ledgerServices.getClientLedger(receipt.clientId);
+    const sourceEntries = entries.filter(
+      (entry) => entry.sourceId === receipt.sourceId
+    );
+    if (isReversedSource(sourceEntries)) return null;
+
+    const posted = calculateLedgerBalance(sourceEntries);
+    const difference = roundWeight(receipt.amount - posted);
+    if (difference === 0) return null;
+
+    return ledgerServices.createEntry({
+      clientId: receipt.clientId,
+      type: "receipt",
+      amount: difference,
+      sourceType: receipt.sourceType,
+      sourceId: receipt.sourceId,
+      voucherId: receipt.voucherId,
+      ...(posted !== 0 && { reason: "Receipt edited" }),
+    });
+  },
+};
@@ -0,0 +1,71 @@
+import { api } from "./api-config";
+import { Order, OrderInput, OrderStatus } from "@/models/Order";
+
+export const orderServices = {
+  // Get orders, optionally for a client or at one status
+  getOrders: async (
+    params: { clientId?: string; status?: OrderStatus } = {}
+  ): Promise<Order[]> => {
+    try {
+      const response = await api.get("/orders", { params });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      throw error;
+    }
+  },
+
+  // Get order by ID
+  getOrder: async (id: string): Promise<Order> => {
+    try {
+      const response = await api.get(`/orders/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching order ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create new order; the server numbers it and starts it at "ordered"
+  createOrder: async (orderData: Partial<OrderInput>): Promise<Order> => {
+    try {
+      const response = await api.post("/orders", orderData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating order:", error);
+      throw error;
+    }
+  },
+
+  // Update order details and receipt links
+  updateOrder: async (
+    id: string,
+    orderData: Partial<OrderInput>
+  ): Promise<Order> => {
+    try {
+      const response = await api.put(`/orders/${id}`, orderData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error updating order ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Move an order along the pipeline; the server records who and when
+  setOrderStatus: async (
+    id: string,
+    status: OrderStatus,
+    changes: Partial<OrderInput> = {}
+  ): Promise<Order> => {
+    try {
+      const response = await api.post(`/orders/${id}/status`, {
+        status,
+        ...changes,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error changing status of order ${id}:`, error);
+      throw error;
+    }
+  },
+};
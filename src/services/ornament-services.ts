@@ -0,0 +1,74 @@
+import axios from "axios";
+import { api } from "./api-config";
+import { Ornament, OrnamentInput } from "@/models/Ornament";
+
+export const ornamentServices = {
+  // Get ornaments, optionally matching a tag, name or category
+  getOrnaments: async (
+    params: { search?: string; category?: string } = {}
+  ): Promise<Ornament[]> => {
+    try {
+      const response = await api.get("/ornaments", { params });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching ornaments:", error);
+      throw error;
+    }
+  },
+
+  // Get ornament by ID
+  getOrnament: async (id: string): Promise<Ornament> => {
+    try {
+      const response = await api.get(`/ornaments/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching ornament ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Get the ornament carrying a tag, as scanned from its label, or null when
+  // no ornament has that tag
+  getOrnamentByTag: async (tagNumber: string): Promise<Ornament | null> => {
+    try {
+      const response = await api.get(
+        `/ornaments/tag/${encodeURIComponent(tagNumber)}`,
+        { quietNotFound: true }
+      );
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      console.error(`Error fetching ornament tagged ${tagNumber}:`, error);
+      throw error;
+    }
+  },
+
+  // Create new ornament; the server gives it the next tag number
+  createOrnament: async (
+    ornamentData: Partial<OrnamentInput>
+  ): Promise<Ornament> => {
+    try {
+      const response = await api.post("/ornaments", ornamentData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating ornament:", error);
+      throw error;
+    }
+  },
+
+  // Update ornament
+  updateOrnament: async (
+    id: string,
+    ornamentData: Partial<OrnamentInput>
+  ): Promise<Ornament> => {
+    try {
+      const response = await api.put(`/ornaments/${id}`, ornamentData);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error updating ornament ${id}:`, error);
+      throw error;
+    }
+  },
+};
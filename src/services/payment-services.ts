@@ -0,0 +1,39 @@
+import { api } from "./api-config";
+import { Payment, PaymentInput } from "@/models/Payment";
+
+export const paymentServices = {
+  // Get payments, newest first, optionally for one client
+  getPayments: async (
+    params: { clientId?: string } = {}
+  ): Promise<Payment[]> => {
+    try {
+      const response = await api.get("/payments", { params });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      throw error;
+    }
+  },
+
+  // Get payment by ID
+  getPayment: async (id: string): Promise<Payment> => {
+    try {
+      const response = await api.get(`/payments/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching payment ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create new payment; the server numbers it in the payment series
+  createPayment: async (paymentData: PaymentInput): Promise<Payment> => {
+    try {
+      const response = await api.post("/payments", paymentData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating payment:", error);
+      throw error;
+    }
+  },
+};
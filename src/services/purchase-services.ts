@@ -0,0 +1,44 @@
+import { api } from "./api-config";
+import {
+  OldGoldPurchase,
+  OldGoldPurchaseInput,
+} from "@/models/OldGoldPurchase";
+
+export const purchaseServices = {
+  // Get old gold purchases, newest first, optionally for one client
+  getPurchases: async (
+    params: { clientId?: string } = {}
+  ): Promise<OldGoldPurchase[]> => {
+    try {
+      const response = await api.get("/purchases", { params });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching purchases:", error);
+      throw error;
+    }
+  },
+
+  // Get purchase by ID
+  getPurchase: async (id: string): Promise<OldGoldPurchase> => {
+    try {
+      const response = await api.get(`/purchases/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching purchase ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create new purchase; the server numbers it in the purchase series
+  createPurchase: async (
+    purchaseData: OldGoldPurchaseInput
+  ): Promise<OldGoldPurchase> => {
+    try {
+      const response = await api.post("/purchases", purchaseData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating purchase:", error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,29 @@
+import { api } from "./api-config";
+import { MetalRate, MetalRateInput } from "@/models/MetalRate";
+
+export const rateServices = {
+  // Rate register entries, newest first
+  getRates: async (
+    params: { metal?: string; from?: string; to?: string } = {}
+  ): Promise<MetalRate[]> => {
+    try {
+      const response = await api.get("/rates", { params });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching metal rates:", error);
+      throw error;
+    }
+  },
+
+  // Record a rate; a second entry for the same day, metal and purity
+  // supersedes the first
+  createRate: async (rateData: MetalRateInput): Promise<MetalRate> => {
+    try {
+      const response = await api.post("/rates", rateData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error recording metal rate:", error);
+      throw error;
+    }
+  },
+};
@@ -1,8 +1,31 @@
 import { api } from "./api-config";
+import { Receipt, ReceiptInput } from "@/models/Receipt";
+import {
+  ApiResponse,
+  ListParams,
+  MessageResponse,
+  PaginatedResponse,
+} from "@/models/Api";
+import { auditServices } from "./audit-services";
 
 export const receiptServices = {
   // Get all receipts
-  getReceipts: async (params = {}) => {
+  getReceipts: async (params = {}): Promise<ApiResponse<Receipt[]>> => {
+    try {
+      const response = await api.get("/receipts", { params });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching receipts:", error);
+      throw error;
+    }
+  },
+
+  // Get one page of receipts. The search matches client, shop, voucher ID or
+  // an item's tag; the status filter is complete, incomplete or cancelled,
+  // and the metal filter matches any item of that metal
+  getReceiptPage: async (
+    params: ListParams
+  ): Promise<PaginatedResponse<Receipt>> => {
     try {
       const response = await api.get("/receipts", { params });
       return response.data;
@@ -13,7 +36,7 @@ export const receiptServices = {
   },
 
   // Get receipt by ID
-  getReceipt: async (id) => {
+  getReceipt: async (id: string): Promise<ApiResponse<Receipt>> => {
     try {
       const response = await api.get(`/receipts/${id}`);
       return response.data;
@@ -24,7 +47,10 @@ export const receiptServices = {
   },
 
   // Get receipts by client ID
-  getClientReceipts: async (clientId, params = {}) => {
+  getClientReceipts: async (
+    clientId: string,
+    params = {}
+  ): Promise<ApiResponse<Receipt[]>> => {
     try {
       const response = await api.get(`/receipts/client/${clientId}`, {
         params,
@@ -37,7 +63,9 @@ export const receiptServices = {
   },
 
   // Create new receipt
-  createReceipt: async (receiptData) => {
+  createReceipt: async (
+    receiptData: ReceiptInput
+  ): Promise<ApiResponse<Receipt>> => {
     try {
       console.log(
         "Sending receipt data to server:",
@@ -53,6 +81,16 @@ export const receiptServices = {
       });
 
       console.log("Receipt creation response:", response.data);
+      const receipt = response.data.data;
+      if (receipt) {
+        await auditServices.recordChange({
+          entityType: "shop",
+          entityId: receipt._id,
+          action: "create",
+          voucherId: receipt.voucherId,
+          after: receipt,
+        });
+      }
       return response.data;
     } catch (error) {
       console.error("Error creating receipt:", error);
@@ -61,9 +99,22 @@ export const receiptServices = {
   },
 
   // Update receipt
-  updateReceipt: async (id, receiptData) => {
+  updateReceipt: async (
+    id: string,
+    receiptData: ReceiptInput
+  ): Promise<ApiResponse<Receipt>> => {
     try {
+      const { data: before } = await receiptServices.getReceipt(id);
       const response = await api.put(`/receipts/${id}`, receiptData);
+      await auditServices.recordChange({
+        entityType: "shop",
+        entityId: id,
+        action: "update",
+        voucherId: before.voucherId,
+        before,
+        // Fall back to what was sent when the server echoes nothing back
+        after: response.data.data ?? { ...before, ...receiptData },
+      });
       return response.data;
     } catch (error) {
       console.error(`Error updating receipt ${id}:`, error);
@@ -72,9 +123,17 @@ export const receiptServices = {
   },
 
   // Delete receipt
-  deleteReceipt: async (id) => {
+  deleteReceipt: async (id: string): Promise<MessageResponse> => {
     try {
+      const { data: before } = await receiptServices.getReceipt(id);
       const response = await api.delete(`/receipts/${id}`);
+      await auditServices.recordChange({
+        entityType: "shop",
+        entityId: id,
+        action: "delete",
+        voucherId: before.voucherId,
+        before,
+      });
       return response.data;
     } catch (error) {
       console.error(`Error deleting receipt ${id}:`, error);
@@ -82,21 +141,12 @@ export const receiptServices = {
     }
   },
 
-  // Generate unique voucher ID
-  generateVoucherId: async () => {
-    try {
-      const response = await api.get("/receipts/generate-voucher-id");
-      return response.data;
-    } catch (error) {
-      console.error("Error generating voucher ID:", error);
-      throw error;
-    }
-  },
-
   // Search receipts
-  searchReceipts: async (query) => {
+  searchReceipts: async (query: string): Promise<ApiResponse<Receipt[]>> => {
     try {
-      const response = await api.get(`/receipts/search?query=${query}`);
+      const response = await api.get("/receipts/search", {
+        params: { query },
+      });
       return response.data;
     } catch (error) {
       console.error("Error searching receipts:", error);
@@ -0,0 +1,26 @@
+import { api } from "./api-config";
+import { AppSettings } from "@/models/Settings";
+
+// One settings document for the whole business
+export const settingsServices = {
+  getSettings: async (): Promise<Partial<AppSettings>> => {
+    try {
+      const response = await api.get("/settings");
+      return response.data.data || {};
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      throw error;
+    }
+  },
+
+  // Owner only
+  updateSettings: async (settings: AppSettings): Promise<AppSettings> => {
+    try {
+      const response = await api.put("/settings", settings);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,133 @@
+import { api } from "./api-config";
+import {
+  StockMovement,
+  StockMovementInput,
+  StockSourceType,
+  StockTake,
+  StockTakeInput,
+} from "@/models/Stock";
+import { StockLine, sumByVault } from "@/lib/stock";
+import { roundWeight } from "@/lib/metal-calculations";
+
+// Movements are append-only, like the ledger: an edited receipt posts the
+// difference rather than changing what was posted before
+export const stockServices = {
+  // Get movements, newest first, optionally for one receipt or metal
+  getMovements: async (
+    params: { sourceId?: string; metal?: string } = {}
+  ): Promise<StockMovement[]> => {
+    try {
+      const response = await api.get("/stock/movements", { params });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      throw error;
+    }
+  },
+
+  // Append a movement
+  createMovement: async (
+    movementData: StockMovementInput
+  ): Promise<StockMovement> => {
+    try {
+      const response = await api.post("/stock/movements", movementData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating stock movement:", error);
+      throw error;
+    }
+  },
+
+  // Get stock-takes, newest first
+  getStockTakes: async (): Promise<StockTake[]> => {
+    try {
+      const response = await api.get("/stock/takes");
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching stock-takes:", error);
+      throw error;
+    }
+  },
+
+  // Record a physical count. The server also posts the variance as a
+  // movement, so the vault reads what was counted from then on.
+  createStockTake: async (takeData: StockTakeInput): Promise<StockTake> => {
+    try {
+      const response = await api.post("/stock/takes", takeData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error recording stock-take:", error);
+      throw error;
+    }
+  },
+
+  // Bring stock in line with a receipt's metal, vault by vault, posting only
+  // what differs from earlier saves of the same receipt. No lines takes
+  // everything the receipt moved back out. Once a cancellation has done that,
+  // later saves of the receipt post nothing.
+  recordReceiptStock: async (receipt: {
+    sourceType: StockSourceType;
+    sourceId: string;
+    voucherId?: string;
+    lines: StockLine[];
+    note?: string; // Instead of the usual "Receipt edited"
+    reversal?: boolean;
+  }): Promise<StockMovement[]> => {
+    const posted = await stockServices.getMovements({
+      sourceId: receipt.sourceId,
+    });
+    if (!receipt.reversal && posted.some((movement) => movement.reversal)) {
+      return [];
+    }
+    const postedVaults = sumByVault(posted);
+    const targetVaults = sumByVault(receipt.lines);
+    const keys = new Set([
+      ...postedVaults.map((vault) => vault.key),
+      ...targetVaults.map((vault) => vault.key),
+    ]);
+
+    const movements: StockMovement[] = [];
+    for (const key of keys) {
+      const target = targetVaults.find((vault) => vault.key === key);
+      const before = postedVaults.find((vault) => vault.key === key);
+      const difference = roundWeight(
+        (target?.weight || 0) - (before?.weight || 0)
+      );
+      if (difference === 0) continue;
+
+      const { metal, touch } = target || before;
+      movements.push(
+        await stockServices.createMovement({
+          metal,
+          touch,
+          weight: difference,
+          sourceType: receipt.sourceType,
+          sourceId: receipt.sourceId,
+          voucherId: receipt.voucherId,
+          ...((receipt.note || before) && {
+            note: receipt.note || "Receipt edited",
+          }),
+          ...(receipt.reversal && { reversal: true }),
+        })
+      );
+    }
+    return movements;
+  },
+
+  // Take everything a cancelled receipt moved back out. Running it again
+  // finishes an interrupted reversal and otherwise posts nothing.
+  reverseSource: (receipt: {
+    sourceType: StockSourceType;
+    sourceId: string;
+    voucherId?: string;
+    reason: string;
+  }): Promise<StockMovement[]> =>
+    stockServices.recordReceiptStock({
+      sourceType: receipt.sourceType,
+      sourceId: receipt.sourceId,
+      voucherId: receipt.voucherId,
+      lines: [],
+      note: `Cancelled: ${receipt.reason}`,
+      reversal: true,
+    }),
+};
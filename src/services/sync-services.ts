@@ -0,0 +1,380 @@
+import axios from "axios";
+import { v4 as uuidv4 } from "uuid";
+import { clientServices } from "./client-services";
+import { receiptServices } from "./receipt-services";
+import { adminReceiptServices } from "./admin-receipt-services";
+import { ledgerServices } from "./ledger-services";
+import { stockServices } from "./stock-services";
+import {
+  deletePendingWrite,
+  getPendingWrite,
+  getPendingWrites,
+  nextProvisionalVoucherId,
+  putPendingWrite,
+} from "@/lib/offline-queue";
+import { cacheClientBalance, getCachedClient } from "@/lib/client-cache";
+import { roundWeight } from "@/lib/metal-calculations";
+import { shopReceiptStock, StockLine, workReceiptStock } from "@/lib/stock";
+import { Client } from "@/models/Client";
+import {
+  PendingShopReceipt,
+  PendingWorkReceipt,
+  PendingWrite,
+  PendingWriteData,
+  PendingWriteProgress,
+} from "@/models/PendingWrite";
+
+// Requests whose lost connection the queue handles by trying again later
+const quietOffline = { quietOffline: true };
+
+// The server copy changed after the write was made on this device
+class SyncConflictError extends Error {}
+
+export interface SyncedRecord {
+  id: string;
+  voucherId?: string;
+}
+
+export type SaveResult =
+  | ({ status: "saved" } & SyncedRecord)
+  | { status: "queued"; provisionalVoucherId?: string }
+  // The server has the receipt but not all its postings; the queue finishes
+  | ({ status: "unfinished"; error: Error } & SyncedRecord);
+
+type SyncOutcome =
+  | { status: "synced"; record: SyncedRecord }
+  | { status: "offline" }
+  | { status: "conflict" | "failed"; error: Error };
+
+// No response at all means the server was never reached, so try again later
+export const isNetworkError = (error: unknown) =>
+  axios.isAxiosError(error) && !error.response;
+
+// The server balance should be what the receipt was entered against, plus
+// whatever this device's other writes for the client have posted since.
+// It is the first request of a push, so it runs even for a forced write:
+// an unreachable server fails here, without a toast.
+const checkBalanceUnchanged = async (
+  write: PendingWrite,
+  data: PendingShopReceipt | PendingWorkReceipt
+) => {
+  const balance = await ledgerServices.getClientBalance(
+    data.clientId,
+    quietOffline
+  );
+  if (write.force) return;
+  const expected = roundWeight(data.baseBalance + (data.syncedBefore || 0));
+  if (roundWeight(balance) !== expected) {
+    throw new SyncConflictError(
+      "The client's balance changed after this receipt was entered"
+    );
+  }
+};
+
+// Save the receipt, then post it to the ledger and stock, noting each step
+// on the queued write as it completes. A write that failed part way resumes
+// after the last completed step: the receipt is never created twice, the
+// ledger and stock postings only add what is missing, and the adjustment is
+// posted once.
+const pushReceipt = async (
+  write: PendingWrite,
+  data: PendingShopReceipt | PendingWorkReceipt,
+  createReceipt: () => Promise<SyncedRecord>,
+  stock: StockLine[]
+): Promise<SyncedRecord> => {
+  let progress: PendingWriteProgress | undefined = write.progress;
+  const saveProgress = async (changes: Partial<PendingWriteProgress>) => {
+    progress = { ...progress, ...changes } as PendingWriteProgress;
+    await putPendingWrite({ ...write, progress });
+  };
+
+  if (!progress) {
+    await checkBalanceUnchanged(write, data);
+    await saveProgress(await createReceipt());
+  }
+
+  const sourceType = data.kind === "shopReceipt" ? "shop" : "work";
+  await ledgerServices.recordReceipt({
+    clientId: data.clientId,
+    sourceType,
+    sourceId: progress.id,
+    voucherId: progress.voucherId,
+    amount: data.ledgerAmount,
+  });
+  await stockServices.recordReceiptStock({
+    sourceType,
+    sourceId: progress.id,
+    voucherId: progress.voucherId,
+    lines: stock,
+  });
+  if (data.adjustment && !progress.adjustmentPosted) {
+    await ledgerServices.createEntry({
+      clientId: data.clientId,
+      type: "adjustment",
+      amount: data.adjustment.amount,
+      voucherId: progress.voucherId,
+      reason: data.adjustment.reason,
+    });
+    await saveProgress({ adjustmentPosted: true });
+  }
+  return { id: progress.id, voucherId: progress.voucherId };
+};
+
+// Push one write to the server the same way the online form would
+const pushWrite = async (write: PendingWrite): Promise<SyncedRecord> => {
+  const { data } = write;
+  const requestFields = {
+    clientRequestId: write.id,
+    provisionalVoucherId: write.provisionalVoucherId,
+  };
+
+  switch (data.kind) {
+    case "shopReceipt":
+      return pushReceipt(
+        write,
+        data,
+        async () => {
+          const response = await receiptServices.createReceipt({
+            ...data.payload,
+            ...requestFields,
+          });
+          if (!response?.success) {
+            throw new Error(response?.message || "Failed to save receipt");
+          }
+          return { id: response.data._id, voucherId: response.data.voucherId };
+        },
+        shopReceiptStock(data.payload)
+      );
+    case "workReceipt":
+      return pushReceipt(
+        write,
+        data,
+        async () => {
+          const receipt = await adminReceiptServices.createAdminReceipt({
+            ...data.payload,
+            ...requestFields,
+          });
+          return { id: receipt._id, voucherId: receipt.voucherId };
+        },
+        workReceiptStock(data.payload)
+      );
+    case "clientUpdate": {
+      const current = await clientServices.getClient(
+        data.clientId,
+        quietOffline
+      );
+      if (!write.force && String(current.updatedAt) !== data.baseUpdatedAt) {
+        throw new SyncConflictError(
+          "Someone else edited this client in the meantime"
+        );
+      }
+      const client = await clientServices.updateClient(
+        data.clientId,
+        data.payload
+      );
+      return { id: client._id };
+    }
+  }
+};
+
+// A synced receipt moved the client's balance. The other writes waiting for
+// that client were entered against a balance without it, and so was this
+// device's copy of the balance; count it in for both.
+const creditSyncedReceipt = async (synced: PendingWrite) => {
+  const { data } = synced;
+  if (data.kind === "clientUpdate") return;
+  const amount = roundWeight(
+    data.ledgerAmount + (data.adjustment?.amount || 0)
+  );
+
+  const cached = getCachedClient(data.clientId);
+  if (cached?.balance !== undefined) {
+    cacheClientBalance(data.clientId, roundWeight(cached.balance + amount));
+  }
+
+  for (const write of await getPendingWrites()) {
+    const other = write.data;
+    if (other.kind === "clientUpdate" || other.clientId !== data.clientId) {
+      continue;
+    }
+    await putPendingWrite({
+      ...write,
+      data: {
+        ...other,
+        syncedBefore: roundWeight((other.syncedBefore || 0) + amount),
+      },
+    });
+  }
+};
+
+// Writes being pushed right now, straight from a save or by a sync run
+const inFlight = new Set<string>();
+
+// Try one write and record the outcome in the queue
+const syncWrite = async (write: PendingWrite): Promise<SyncOutcome> => {
+  inFlight.add(write.id);
+  try {
+    const record = await pushWrite(write);
+    await deletePendingWrite(write.id);
+    // The write is already on the server; a failure here must not requeue it
+    await creditSyncedReceipt(write).catch((error) =>
+      console.error("Error crediting synced receipt:", error)
+    );
+    return { status: "synced", record };
+  } catch (error) {
+    // Keep whatever steps the push completed before it failed
+    const latest = (await getPendingWrite(write.id)) || write;
+    const attempts = write.attempts + 1;
+    if (isNetworkError(error)) {
+      await putPendingWrite({ ...latest, attempts });
+      return { status: "offline" };
+    }
+
+    const status = error instanceof SyncConflictError ? "conflict" : "failed";
+    const message =
+      (axios.isAxiosError(error) && error.response?.data?.message) ||
+      (error instanceof Error ? error.message : String(error));
+    await putPendingWrite({
+      ...latest,
+      attempts,
+      status,
+      error: message,
+      force: false,
+    });
+    return { status, error: new Error(message) };
+  } finally {
+    inFlight.delete(write.id);
+  }
+};
+
+// One pass over the queue
+const syncQueue = async () => {
+  const writes = await getPendingWrites();
+  let synced = 0;
+  for (const { id } of writes) {
+    // A save may be pushing it already, or an earlier write in this run
+    // changed it since the list was read
+    if (inFlight.has(id)) continue;
+    const write = await getPendingWrite(id);
+    if (write?.status !== "pending") continue;
+    const outcome = await syncWrite(write);
+    if (outcome.status === "offline") break;
+    if (outcome.status === "synced") synced++;
+  }
+  return synced;
+};
+
+// One run at a time: the online event, the retry timer and a retried write
+// all join the run in progress, which goes round again for anything queued
+// meanwhile. Two runs would push the same write twice.
+let running: Promise<number> | null = null;
+let runAgain = false;
+
+const runSync = async () => {
+  let synced = 0;
+  do {
+    runAgain = false;
+    synced += await syncQueue();
+  } while (runAgain);
+  return synced;
+};
+
+export const syncServices = {
+  // A client and their balance to enter a receipt against. Offline, or when
+  // the server can't be reached, this device's last copy stands in.
+  loadClientForEntry: async (
+    clientId: string
+  ): Promise<{ client: Client; balance: number }> => {
+    const fromCache = () => {
+      const cached = getCachedClient(clientId);
+      if (cached?.balance === undefined) {
+        throw new Error(
+          "This client's balance has not been loaded on this device yet"
+        );
+      }
+      return { client: cached.client, balance: cached.balance };
+    };
+
+    if (!navigator.onLine) return fromCache();
+    try {
+      const client = await clientServices.getClient(clientId, quietOffline);
+      const balance = await ledgerServices.getClientBalance(
+        clientId,
+        quietOffline
+      );
+      return { client, balance };
+    } catch (error) {
+      if (isNetworkError(error)) return fromCache();
+      throw error;
+    }
+  },
+
+  // Keep the write on this device first, then try the server straight away.
+  // Resolves "queued" when the server can't be reached; a rejected save is
+  // dropped from the queue and thrown so the form can show why. A receipt
+  // the server saved but whose postings failed stays in the queue to finish,
+  // and resolves "unfinished" so the form doesn't offer to save it again.
+  saveOrQueue: async (data: PendingWriteData): Promise<SaveResult> => {
+    const write: PendingWrite = {
+      id: uuidv4(),
+      data,
+      provisionalVoucherId:
+        data.kind === "clientUpdate" ? undefined : nextProvisionalVoucherId(),
+      status: "pending",
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await putPendingWrite(write);
+
+    const queued: SaveResult = {
+      status: "queued",
+      provisionalVoucherId: write.provisionalVoucherId,
+    };
+    if (!navigator.onLine) return queued;
+
+    const outcome = await syncWrite(write);
+    if (outcome.status === "synced") {
+      return { status: "saved", ...outcome.record };
+    }
+    if (outcome.status === "offline") return queued;
+
+    const { progress } = (await getPendingWrite(write.id)) || write;
+    if (progress) {
+      return {
+        status: "unfinished",
+        id: progress.id,
+        voucherId: progress.voucherId,
+        error: outcome.error,
+      };
+    }
+    await deletePendingWrite(write.id);
+    throw outcome.error;
+  },
+
+  // Push every pending write, oldest first. Stops at the first network
+  // failure; conflicts and rejections are left in the queue for the user.
+  syncPendingWrites: (): Promise<number> => {
+    if (running) {
+      runAgain = true;
+      return running;
+    }
+    running = runSync().finally(() => {
+      running = null;
+    });
+    return running;
+  },
+
+  getPendingWrites,
+
+  // Send a conflicted or rejected write again, overriding the conflict check
+  retryWrite: async (write: PendingWrite) => {
+    await putPendingWrite({
+      ...write,
+      status: "pending",
+      error: undefined,
+      force: true,
+    });
+  },
+
+  discardWrite: deletePendingWrite,
+};
@@ -0,0 +1,19 @@
+import { api } from "./api-config";
+import { VoucherIdResponse } from "@/models/Api";
+import { VoucherSeries } from "@/models/Settings";
+
+export const voucherServices = {
+  // The number the next save in a series will get. Nothing is reserved: the
+  // server assigns the real number inside the save, so this is only a preview.
+  peekNextVoucherId: async (
+    series: VoucherSeries
+  ): Promise<VoucherIdResponse> => {
+    try {
+      const response = await api.get(`/voucher-series/${series}/next`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching next ${series} voucher number:`, error);
+      throw error;
+    }
+  },
+};
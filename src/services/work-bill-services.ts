@@ -0,0 +1,42 @@
+import { api } from "./api-config";
+import { ListParams, PaginatedResponse } from "@/models/Api";
+import { WorkBill, WorkBillInput } from "@/models/WorkBill";
+
+export const workBillServices = {
+  // Get one page of work bills, newest first unless sorted otherwise,
+  // matching the search on bill number, receipt voucher or client name
+  getWorkBills: async (
+    params: ListParams & { clientId?: string } = {}
+  ): Promise<PaginatedResponse<WorkBill>> => {
+    try {
+      const response = await api.get("/work-bills", { params });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching work bills:", error);
+      throw error;
+    }
+  },
+
+  // Get work bill by ID
+  getWorkBill: async (id: string): Promise<WorkBill> => {
+    try {
+      const response = await api.get(`/work-bills/${id}`);
+      return response.data.data;
+    } catch (error) {
+      console.error(`Error fetching work bill ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create new work bill; the server numbers it in the bill series and marks
+  // its receipts as billed
+  createWorkBill: async (billData: WorkBillInput): Promise<WorkBill> => {
+    try {
+      const response = await api.post("/work-bills", billData);
+      return response.data.data;
+    } catch (error) {
+      console.error("Error creating work bill:", error);
+      throw error;
+    }
+  },
+};